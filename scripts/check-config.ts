@@ -0,0 +1,39 @@
+#!/usr/bin/env tsx
+
+/**
+ * Validate mediaconduit.config.yml without starting the server
+ *
+ * Usage: tsx scripts/check-config.ts [path]
+ *
+ * Defaults to MEDIACONDUIT_CONFIG or ./mediaconduit.config.yml. Exits non-zero
+ * and lists every problem when the file is invalid.
+ */
+
+import { BUILT_IN_PROVIDERS } from '../src/media/registry/bootstrap';
+import { ConfigValidationError, getConfigPath, loadConfig } from '../src/media/registry/MediaConduitConfig';
+
+function main() {
+  const filePath = process.argv[2] || getConfigPath();
+
+  try {
+    const config = loadConfig(filePath, { knownProviders: Object.keys(BUILT_IN_PROVIDERS) });
+    if (!config) {
+      console.log(`No config file at ${filePath}; all built-in providers load with environment configuration.`);
+      return;
+    }
+
+    console.log(`✅ ${filePath} is valid`);
+    for (const [id, entry] of Object.entries(config.providers)) {
+      const aliases = Object.keys(entry.aliases).length;
+      console.log(`   ${entry.enabled ? '●' : '○'} ${id}${entry.source ? ` (${entry.source})` : ''}${aliases ? `, ${aliases} aliases` : ''}`);
+    }
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+main();
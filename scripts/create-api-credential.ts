@@ -0,0 +1,54 @@
+#!/usr/bin/env tsx
+
+/**
+ * Create an API key for the REST API
+ *
+ * Usage: tsx scripts/create-api-credential.ts <id> [name] [--rate=120/60] [--jobs=4]
+ *
+ * The key is printed once; only its SHA-256 hash is written to the key file
+ * (MEDIACONDUIT_API_KEYS_PATH, default .mediaconduit/api-keys.json).
+ */
+
+import { createApiKeyStore, generateApiKey, hashApiKey, ApiKeyRecord } from '../src/app/api/v1/auth/ApiKeyStore';
+
+function main() {
+  const args = process.argv.slice(2);
+  const flags = Object.fromEntries(
+    args.filter(arg => arg.startsWith('--')).map(arg => arg.slice(2).split('=') as [string, string])
+  );
+  const [id, name] = args.filter(arg => !arg.startsWith('--'));
+
+  if (!id) {
+    console.error('Usage: tsx scripts/create-api-credential.ts <id> [name] [--rate=<requests>/<seconds>] [--jobs=<max concurrent>]');
+    process.exit(1);
+  }
+
+  const key = generateApiKey();
+  const record: ApiKeyRecord = {
+    id,
+    name,
+    keyHash: hashApiKey(key),
+    createdAt: new Date().toISOString()
+  };
+
+  if (flags.rate) {
+    const [requests, windowSeconds] = flags.rate.split('/').map(Number);
+    if (!requests || !windowSeconds) {
+      console.error('--rate must look like 120/60 (requests per seconds)');
+      process.exit(1);
+    }
+    record.rateLimit = { requests, windowSeconds };
+  }
+
+  if (flags.jobs) {
+    record.maxConcurrentJobs = Number(flags.jobs);
+  }
+
+  createApiKeyStore().add(record);
+
+  console.log(`✅ Created API key '${id}'`);
+  console.log(`   ${key}`);
+  console.log('   Store it now - it cannot be shown again.');
+}
+
+main();
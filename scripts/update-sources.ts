@@ -0,0 +1,64 @@
+#!/usr/bin/env tsx
+
+/**
+ * Re-resolve dynamic GitHub providers/services and rewrite their lock entries
+ *
+ * Usage: tsx scripts/update-sources.ts [identifier...] [--service]
+ *
+ * Without identifiers every entry in the lock file (MEDIACONDUIT_LOCK_PATH,
+ * default mediaconduit.lock.json) is updated. Identifiers not in the lock yet
+ * are added as providers, or as services with --service.
+ */
+
+import {
+  getSourceDirectory,
+  getSourceLock,
+  installGitHubSource,
+  parseGitHubIdentifier,
+  sourceKey,
+  SourceKind
+} from '../src/media/registry/SourceLock';
+
+function main() {
+  const args = process.argv.slice(2);
+  const defaultKind: SourceKind = args.includes('--service') ? 'service' : 'provider';
+  const lock = getSourceLock();
+
+  const identifiers = args.filter(arg => !arg.startsWith('--'));
+  const targets = identifiers.length > 0 ? identifiers : lock.entries().map(([key]) => key);
+
+  if (targets.length === 0) {
+    console.log(`Nothing to update: ${lock.filePath} has no entries`);
+    return;
+  }
+
+  let failed = 0;
+  for (const identifier of targets) {
+    const source = parseGitHubIdentifier(identifier);
+    if (!source) {
+      console.error(`❌ ${identifier}: not a GitHub identifier (github:owner/repo@ref)`);
+      failed++;
+      continue;
+    }
+
+    const key = sourceKey(source.owner, source.repo, source.ref);
+    const kind = lock.get(key)?.kind || defaultKind;
+    try {
+      const entry = installGitHubSource(
+        { kind, ...source, directory: getSourceDirectory(kind, source.owner, source.repo) },
+        lock,
+        { update: true }
+      );
+      console.log(`✅ ${key} (${kind}) -> ${entry.commit}`);
+    } catch (error) {
+      console.error(`❌ ${key}: ${error instanceof Error ? error.message : error}`);
+      failed++;
+    }
+  }
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,14 @@
+/**
+ * API Errors
+ * Base class for errors that routes turn into a JSON error response
+ */
+
+/**
+ * Error with the HTTP status the route should answer with
+ */
+export class ApiError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
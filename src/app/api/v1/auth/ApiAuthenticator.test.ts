@@ -0,0 +1,128 @@
+/**
+ * ApiAuthenticator Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ApiAuthenticator, ApiAuthError, canAccessJob } from './ApiAuthenticator';
+import { FileApiKeyStore, StaticApiKeyStore, hashApiKey } from './ApiKeyStore';
+import { RateLimiter } from './RateLimiter';
+
+// Key files are written to a real temporary directory
+vi.mock('fs', async (importOriginal) => await importOriginal());
+
+function createAuthenticator() {
+  const store = new StaticApiKeyStore({
+    defaults: { maxConcurrentJobs: 2 },
+    keys: [
+      { id: 'video-team', keyHash: hashApiKey('mc_video'), rateLimit: { requests: 2, windowSeconds: 60 } },
+      { id: 'revoked', keyHash: hashApiKey('mc_revoked'), disabled: true }
+    ]
+  });
+  return new ApiAuthenticator(store, new RateLimiter());
+}
+
+function headers(values: Record<string, string>) {
+  return new Headers(values);
+}
+
+describe('ApiAuthenticator', () => {
+  it('should accept bearer and X-API-Key credentials', () => {
+    const authenticator = createAuthenticator();
+
+    expect(authenticator.authenticate(headers({ authorization: 'Bearer mc_video' }))).toMatchObject({
+      keyId: 'video-team',
+      maxConcurrentJobs: 2
+    });
+    expect(authenticator.authenticate(headers({ 'x-api-key': 'mc_video' })).keyId).toBe('video-team');
+  });
+
+  it('should reject missing, unknown and disabled keys with 401', () => {
+    const authenticator = createAuthenticator();
+
+    const attempts: Record<string, string>[] = [{}, { 'x-api-key': 'mc_unknown' }, { 'x-api-key': 'mc_revoked' }];
+    for (const values of attempts) {
+      expect(() => authenticator.authenticate(headers(values))).toThrow(ApiAuthError);
+    }
+  });
+
+  it('should rate limit each key with a Retry-After hint', () => {
+    const authenticator = createAuthenticator();
+    const request = headers({ 'x-api-key': 'mc_video' });
+
+    authenticator.authenticate(request);
+    authenticator.authenticate(request);
+
+    try {
+      authenticator.authenticate(request);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toMatchObject({ statusCode: 429, retryAfterSeconds: 30 });
+    }
+  });
+
+  it('should enforce the concurrent job quota', () => {
+    const authenticator = createAuthenticator();
+    const principal = authenticator.authenticate(headers({ 'x-api-key': 'mc_video' }));
+
+    expect(() => authenticator.checkJobQuota(principal, 1)).not.toThrow();
+    expect(() => authenticator.checkJobQuota(principal, 2)).toThrow(/quota of 2/);
+  });
+
+  it('should allow everything while no keys are configured', () => {
+    const authenticator = new ApiAuthenticator(new StaticApiKeyStore({ keys: [] }), new RateLimiter());
+    const principal = authenticator.authenticate(headers({}));
+
+    expect(principal.keyId).toBeUndefined();
+    expect(() => authenticator.checkJobQuota(principal, 100)).not.toThrow();
+    expect(canAccessJob(principal, { apiKeyId: undefined })).toBe(true);
+  });
+
+  it('should hide jobs created by other keys', () => {
+    expect(canAccessJob({ keyId: 'a' }, { apiKeyId: 'a' })).toBe(true);
+    expect(canAccessJob({ keyId: 'b' }, { apiKeyId: 'a' })).toBe(false);
+  });
+});
+
+describe('FileApiKeyStore', () => {
+  it('should keep the last good keys while the key file is malformed and fail closed without any', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-keys-'));
+    const file = path.join(dir, 'api-keys.json');
+    const write = (content: string, mtime: number) => {
+      fs.writeFileSync(file, content);
+      fs.utimesSync(file, mtime, mtime);
+    };
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    try {
+      write('{ "keys": [', 1000);
+      const broken = new ApiAuthenticator(new FileApiKeyStore(file), new RateLimiter());
+      expect(() => broken.authenticate(headers({ 'x-api-key': 'mc_video' }))).toThrow(expect.objectContaining({ statusCode: 503 }));
+
+      write(JSON.stringify({ keys: [{ id: 'video-team', keyHash: hashApiKey('mc_video') }] }), 2000);
+      const authenticator = new ApiAuthenticator(new FileApiKeyStore(file), new RateLimiter());
+      expect(authenticator.authenticate(headers({ 'x-api-key': 'mc_video' })).keyId).toBe('video-team');
+
+      write('{ "keys": [', 3000);
+      expect(authenticator.authenticate(headers({ 'x-api-key': 'mc_video' })).keyId).toBe('video-team');
+      expect(authenticator.authenticate(headers({ 'x-api-key': 'mc_video' })).keyId).toBe('video-team');
+      expect(error).toHaveBeenCalledTimes(2);
+    } finally {
+      error.mockRestore();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('RateLimiter', () => {
+  it('should refill tokens over the window', () => {
+    const limiter = new RateLimiter();
+    const limit = { requests: 1, windowSeconds: 10 };
+
+    expect(limiter.consume('key', limit, 0).allowed).toBe(true);
+    expect(limiter.consume('key', limit, 1000)).toMatchObject({ allowed: false, retryAfterSeconds: 9 });
+    expect(limiter.consume('key', limit, 10000).allowed).toBe(true);
+  });
+});
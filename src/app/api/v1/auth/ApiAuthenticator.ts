@@ -0,0 +1,135 @@
+/**
+ * API Authenticator
+ * Resolves the API key of a request and enforces its rate limit and job quota
+ */
+
+import { ApiKeyStore, ApiKeyStoreError, createApiKeyStore } from './ApiKeyStore';
+import { RateLimiter } from './RateLimiter';
+import type { Job } from '../jobs/JobManager';
+import { ApiError } from '../ApiError';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Caller of a request. keyId is undefined while authentication is disabled.
+ */
+export interface ApiPrincipal {
+  keyId?: string;
+  name?: string;
+  maxConcurrentJobs?: number;
+}
+
+/**
+ * Missing or invalid credentials (401), a key over its limits (429), or keys
+ * that cannot be checked right now (503)
+ */
+export class ApiAuthError extends ApiError {
+  constructor(message: string, statusCode: number = 401, public retryAfterSeconds?: number) {
+    super(message, statusCode);
+    this.name = 'ApiAuthError';
+  }
+}
+
+/**
+ * Read the key from `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ */
+export function extractApiKey(headers: Headers): string | undefined {
+  const authorization = headers.get('authorization');
+  const bearer = authorization && /^Bearer\s+(.+)$/i.exec(authorization.trim());
+  if (bearer) return bearer[1];
+
+  return headers.get(API_KEY_HEADER)?.trim() || undefined;
+}
+
+/**
+ * Jobs are visible only to the key that created them
+ */
+export function canAccessJob(principal: ApiPrincipal, job: Pick<Job, 'apiKeyId'>): boolean {
+  return !job.apiKeyId || job.apiKeyId === principal.keyId;
+}
+
+/**
+ * Conversation sessions follow the same rule as jobs
+ */
+export function canAccessConversation(principal: ApiPrincipal, session: { apiKeyId?: string }): boolean {
+  return !session.apiKeyId || session.apiKeyId === principal.keyId;
+}
+
+export class ApiAuthenticator {
+  private static instance: ApiAuthenticator;
+
+  constructor(
+    private store: ApiKeyStore = createApiKeyStore(),
+    private limiter: RateLimiter = new RateLimiter()
+  ) {}
+
+  static getInstance(): ApiAuthenticator {
+    if (!ApiAuthenticator.instance) {
+      ApiAuthenticator.instance = new ApiAuthenticator();
+    }
+    return ApiAuthenticator.instance;
+  }
+
+  /**
+   * Identify the caller and count the request against its rate limit
+   * @throws ApiAuthError 401 for missing/unknown keys, 429 when rate limited,
+   * 503 when the key store is unavailable
+   */
+  authenticate(headers: Headers): ApiPrincipal {
+    if (!this.readStore(store => store.isEnabled())) {
+      return {};
+    }
+
+    const key = extractApiKey(headers);
+    if (!key) {
+      throw new ApiAuthError('Missing API key: send Authorization: Bearer <key> or X-API-Key');
+    }
+
+    const apiKey = this.readStore(store => store.find(key));
+    if (!apiKey) {
+      throw new ApiAuthError('Invalid API key');
+    }
+
+    const result = this.limiter.consume(apiKey.id, apiKey.rateLimit);
+    if (!result.allowed) {
+      throw new ApiAuthError(
+        `Rate limit of ${apiKey.rateLimit.requests} requests per ${apiKey.rateLimit.windowSeconds}s exceeded`,
+        429,
+        result.retryAfterSeconds
+      );
+    }
+
+    return { keyId: apiKey.id, name: apiKey.name, maxConcurrentJobs: apiKey.maxConcurrentJobs };
+  }
+
+  /**
+   * Reject new jobs while the caller already has its maximum number of active jobs
+   * @throws ApiAuthError 429
+   */
+  checkJobQuota(principal: ApiPrincipal, activeJobs: number): void {
+    if (principal.keyId === undefined || principal.maxConcurrentJobs === undefined) return;
+
+    if (activeJobs >= principal.maxConcurrentJobs) {
+      throw new ApiAuthError(
+        `Concurrent job quota of ${principal.maxConcurrentJobs} reached; wait for a job to finish or cancel one`,
+        429,
+        // Jobs have no predictable end, so suggest a short poll interval
+        5
+      );
+    }
+  }
+
+  /**
+   * Query the key store, failing closed with a 503 while it is unavailable
+   */
+  private readStore<T>(read: (store: ApiKeyStore) => T): T {
+    try {
+      return read(this.store);
+    } catch (error) {
+      if (error instanceof ApiKeyStoreError) {
+        throw new ApiAuthError(`${error.message}; try again later`, 503);
+      }
+      throw error;
+    }
+  }
+}
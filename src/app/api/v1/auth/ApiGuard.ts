@@ -0,0 +1,58 @@
+/**
+ * API Guard
+ * Route-level helpers that turn authentication and quota failures into responses
+ */
+
+import { NextResponse } from 'next/server';
+import JobManager from '../jobs/JobManager';
+import { ApiAuthError, ApiAuthenticator, ApiPrincipal } from './ApiAuthenticator';
+
+/**
+ * Authenticate a request, returning the caller or the 401/429 response to send
+ */
+export function authenticateRequest(request: Request): ApiPrincipal | NextResponse {
+  try {
+    return ApiAuthenticator.getInstance().authenticate(request.headers);
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return createAuthErrorResponse(error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check the caller's concurrent-job quota before a job is created
+ * @returns the 429 response to send, or undefined if another job may start
+ */
+export function checkJobQuota(principal: ApiPrincipal, jobManager: JobManager = JobManager.getInstance()): NextResponse | undefined {
+  if (principal.keyId === undefined) return undefined;
+
+  try {
+    ApiAuthenticator.getInstance().checkJobQuota(principal, jobManager.countActiveJobs(principal.keyId));
+    return undefined;
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return createAuthErrorResponse(error);
+    }
+    throw error;
+  }
+}
+
+function createAuthErrorResponse(error: ApiAuthError): NextResponse {
+  const headers: Record<string, string> = {};
+  if (error.statusCode === 401) {
+    headers['WWW-Authenticate'] = 'Bearer realm="mediaconduit"';
+  }
+  if (error.retryAfterSeconds !== undefined) {
+    headers['Retry-After'] = error.retryAfterSeconds.toString();
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: error.message
+    },
+    { status: error.statusCode, headers }
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * API Key Stores
+ * Where the server looks up API keys and their per-key limits. Only SHA-256
+ * hashes of keys are stored; the plain key is shown once when it is created.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, randomBytes } from 'crypto';
+
+export interface RateLimit {
+  requests: number;           // Requests allowed per window
+  windowSeconds: number;
+}
+
+export interface ApiKeyLimits {
+  rateLimit?: RateLimit;
+  maxConcurrentJobs?: number; // Pending + running jobs owned by the key
+}
+
+export interface ApiKeyRecord extends ApiKeyLimits {
+  id: string;                 // Stable identifier recorded on jobs
+  name?: string;
+  keyHash: string;            // hashApiKey(key)
+  disabled?: boolean;
+  createdAt?: string;
+}
+
+/**
+ * Shape of the api-keys.json config file
+ */
+export interface ApiKeysConfig {
+  defaults?: ApiKeyLimits;
+  keys: ApiKeyRecord[];
+}
+
+/**
+ * A key with its effective limits (key-specific values over the defaults)
+ */
+export interface ResolvedApiKey {
+  id: string;
+  name?: string;
+  rateLimit: RateLimit;
+  maxConcurrentJobs: number;
+}
+
+export interface ApiKeyStore {
+  /** Whether requests must carry a valid API key */
+  isEnabled(): boolean;
+  /** Look up an active key by its plain value */
+  find(key: string): ResolvedApiKey | undefined;
+}
+
+/**
+ * The key store cannot tell which keys are valid (e.g. an unreadable key file)
+ */
+export class ApiKeyStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiKeyStoreError';
+  }
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimit = { requests: 120, windowSeconds: 60 };
+export const DEFAULT_MAX_CONCURRENT_JOBS = 4;
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function generateApiKey(): string {
+  return `mc_${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Keys held in memory (tests, programmatic setups)
+ */
+export class StaticApiKeyStore implements ApiKeyStore {
+  private keysByHash = new Map<string, ResolvedApiKey>();
+
+  constructor(config: ApiKeysConfig, private required: boolean = config.keys.length > 0) {
+    for (const record of config.keys) {
+      if (record.disabled) continue;
+      this.keysByHash.set(record.keyHash.toLowerCase(), {
+        id: record.id,
+        name: record.name,
+        rateLimit: record.rateLimit || config.defaults?.rateLimit || DEFAULT_RATE_LIMIT,
+        maxConcurrentJobs: record.maxConcurrentJobs ?? config.defaults?.maxConcurrentJobs ?? DEFAULT_MAX_CONCURRENT_JOBS
+      });
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.required;
+  }
+
+  find(key: string): ResolvedApiKey | undefined {
+    return this.keysByHash.get(hashApiKey(key));
+  }
+}
+
+/**
+ * Keys read from a JSON config file, reloaded whenever the file changes so keys
+ * can be added or revoked without a restart. While the file cannot be parsed the
+ * last keys read stay in use; with none read yet, lookups throw ApiKeyStoreError.
+ */
+export class FileApiKeyStore implements ApiKeyStore {
+  private current?: StaticApiKeyStore;
+  private mtimeMs = -1;
+
+  constructor(private readonly filePath: string, private readonly required: boolean = false) {}
+
+  isEnabled(): boolean {
+    return this.required || this.load().isEnabled();
+  }
+
+  find(key: string): ResolvedApiKey | undefined {
+    return this.load().find(key);
+  }
+
+  /**
+   * Append a key record to the file (used by scripts/create-api-credential.ts)
+   */
+  add(record: ApiKeyRecord): void {
+    const config = this.readConfig() || { keys: [] };
+    if (config.keys.some(existing => existing.id === record.id)) {
+      throw new Error(`API key '${record.id}' already exists`);
+    }
+    config.keys.push(record);
+
+    // Write to a temp file and rename so the server never reads a partial file
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempFile = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(config, null, 2), { mode: 0o600 });
+    fs.renameSync(tempFile, this.filePath);
+  }
+
+  private load(): StaticApiKeyStore {
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(this.filePath).mtimeMs;
+    } catch {
+      mtimeMs = 0;
+    }
+
+    // A broken file is read and logged once per change, not on every request
+    if (mtimeMs !== this.mtimeMs) {
+      this.mtimeMs = mtimeMs;
+      try {
+        const config = this.readConfig() || { keys: [] };
+        this.current = new StaticApiKeyStore(config, this.required || config.keys.length > 0);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[FileApiKeyStore] Cannot load ${this.filePath}${this.current ? '; keeping the previous keys' : ''}: ${message}`);
+      }
+    }
+
+    if (!this.current) {
+      throw new ApiKeyStoreError('API keys are unavailable');
+    }
+    return this.current;
+  }
+
+  private readConfig(): ApiKeysConfig | undefined {
+    if (!fs.existsSync(this.filePath)) return undefined;
+
+    const config = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    if (!config || !Array.isArray(config.keys)) {
+      throw new Error(`Invalid API key file ${this.filePath}: expected { "keys": [...] }`);
+    }
+    return config;
+  }
+}
+
+/**
+ * Create the key store configured by the environment:
+ * - MEDIACONDUIT_API_KEYS_PATH: key file (default: .mediaconduit/api-keys.json)
+ * - MEDIACONDUIT_AUTH_REQUIRED=true: reject requests even while no keys are configured
+ *
+ * Authentication is off until the key file contains at least one key.
+ */
+export function createApiKeyStore(): FileApiKeyStore {
+  return new FileApiKeyStore(
+    process.env.MEDIACONDUIT_API_KEYS_PATH || path.join('.mediaconduit', 'api-keys.json'),
+    process.env.MEDIACONDUIT_AUTH_REQUIRED === 'true'
+  );
+}
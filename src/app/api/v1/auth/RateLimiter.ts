@@ -0,0 +1,47 @@
+/**
+ * Rate Limiter
+ * Per-key token buckets: each key may burst up to `requests` and regains
+ * capacity evenly over `windowSeconds`
+ */
+
+import type { RateLimit } from './ApiKeyStore';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds?: number; // Set when the request is rejected
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  /**
+   * Take one token for the key, if available
+   */
+  consume(keyId: string, limit: RateLimit, now: number = Date.now()): RateLimitResult {
+    const refillPerMs = limit.requests / (limit.windowSeconds * 1000);
+    const bucket = this.buckets.get(keyId) || { tokens: limit.requests, updatedAt: now };
+
+    bucket.tokens = Math.min(limit.requests, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(keyId, bucket);
+
+    if (bucket.tokens < 1) {
+      return {
+        allowed: false,
+        limit: limit.requests,
+        remaining: 0,
+        retryAfterSeconds: Math.max(1, Math.ceil((1 - bucket.tokens) / refillPerMs / 1000))
+      };
+    }
+
+    bucket.tokens -= 1;
+    return { allowed: true, limit: limit.requests, remaining: Math.floor(bucket.tokens) };
+  }
+}
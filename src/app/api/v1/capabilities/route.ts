@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { MediaCapability } from '../../../../media/types/provider';
+import { authenticateRequest } from '../auth/ApiGuard';
 
 export async function GET(request: NextRequest) {
+  const principal = authenticateRequest(request);
+  if (principal instanceof NextResponse) return principal;
+
   try {
     const capabilities = Object.values(MediaCapability).map((capability: MediaCapability) => ({
       id: capability,
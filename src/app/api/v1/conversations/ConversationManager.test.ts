@@ -0,0 +1,99 @@
+/**
+ * ConversationManager Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ConversationManager, { toConversationMessages } from './ConversationManager';
+import { FileConversationStore, InMemoryConversationStore } from './ConversationStore';
+import { Conversation, Image, Text } from '../../../../media/assets/roles';
+import { JobStatus } from '../../../../media/types/provider';
+import { createTestJobManager } from '../../../../test/JobManagerFixture';
+
+// The global setup mocks fs; sessions are written to a real temp directory
+vi.mock('fs', async (importOriginal) => importOriginal());
+
+// Role transformations resolve providers through the registry, which these tests never need
+vi.mock('../../../../media/assets/RoleTransformation', () => ({ asRole: vi.fn(), determineSourceRole: vi.fn() }));
+
+describe('ConversationManager', () => {
+  it('should allow one turn at a time and record it with the reply', async () => {
+    const jobManager = createTestJobManager();
+    const conversations = new ConversationManager(new InMemoryConversationStore(), jobManager);
+    const session = conversations.create([{ role: 'system', content: 'Be brief' }], 'key-1');
+
+    const messages = await toConversationMessages(Text.fromString('Hi'));
+    const conversation = conversations.beginTurn(session.id, messages, 'job-1');
+    expect(conversation.messages).toEqual([
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: 'Hi' }
+    ]);
+
+    // While the job runs, further turns are refused
+    jobManager.createJob('job-1', 'loopback', 'loopback-text-to-text', 'text-to-text', conversation);
+    expect(() => conversations.beginTurn(session.id, messages, 'job-2')).toThrow(expect.objectContaining({ statusCode: 409 }));
+
+    jobManager.completeJobWithAsset('job-1', Text.fromString('Hello!'));
+    conversations.completeTurn(session.id, 'job-1', messages, Text.fromString('Hello!'));
+
+    const updated = conversations.get(session.id)!;
+    expect(updated.pendingJobId).toBeUndefined();
+    expect(updated.conversation.getTurns()).toEqual([
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello!' }
+    ]);
+  });
+
+  it('should let a new turn start once the pending job has failed', () => {
+    const jobManager = createTestJobManager();
+    const conversations = new ConversationManager(new InMemoryConversationStore(), jobManager);
+    const session = conversations.create();
+    const messages = [{ role: 'user' as const, content: 'Hi' }];
+
+    conversations.beginTurn(session.id, messages, 'job-1');
+    jobManager.createJob('job-1', 'loopback', 'loopback-text-to-text', 'text-to-text', Conversation.fromText('Hi'));
+    jobManager.updateJob('job-1', { status: JobStatus.FAILED, error: 'boom' });
+
+    expect(conversations.beginTurn(session.id, messages, 'job-2').messages).toEqual(messages);
+    expect(conversations.get(session.id)!.conversation.messages).toEqual([]);
+  });
+});
+
+describe('FileConversationStore', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'conversation-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip sessions with images in their messages', () => {
+    const store = new FileConversationStore(rootDir);
+    const image = new Image(Buffer.from('png bytes'), 'png', { format: 'png' });
+    const conversations = new ConversationManager(store, createTestJobManager());
+
+    const session = conversations.create([
+      { role: 'user', content: [{ type: 'text', text: 'What is this?' }, { type: 'image', image }] },
+      { role: 'assistant', content: 'A cat' }
+    ], 'key-1');
+
+    const loaded = new FileConversationStore(rootDir).get(session.id)!;
+    expect(loaded.apiKeyId).toBe('key-1');
+    expect(loaded.createdAt).toBeInstanceOf(Date);
+    expect(loaded.conversation).toBeInstanceOf(Conversation);
+
+    const [, part] = loaded.conversation.messages[0].content as any[];
+    expect(part.image).toBeInstanceOf(Image);
+    expect(part.image.data.equals(image.data)).toBe(true);
+    expect(loaded.conversation.messages[1]).toEqual({ role: 'assistant', content: 'A cat' });
+
+    expect(conversations.delete(session.id)).toBe(true);
+    expect(store.list()).toEqual([]);
+    expect(conversations.get('../escape')).toBeUndefined();
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Conversation Manager
+ * Server-side chat sessions that API clients continue by id. Each turn runs
+ * as an ordinary text-to-text job; the user's messages and the reply are
+ * recorded together once the job completes.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Conversation, ConversationMessage, ConversationPart, Image, Text } from '../../../../media/assets/roles';
+import { determineSourceRole } from '../../../../media/assets/RoleTransformation';
+import JobManager from '../jobs/JobManager';
+import { ConversationSession, ConversationStore, createConversationStore } from './ConversationStore';
+import { ApiError } from '../ApiError';
+
+/**
+ * Missing or busy conversation, or an invalid turn
+ */
+export class ConversationError extends ApiError {
+  constructor(message: string, statusCode?: number) {
+    super(message, statusCode);
+    this.name = 'ConversationError';
+  }
+}
+
+export class ConversationManager {
+  private static instance: ConversationManager;
+
+  constructor(
+    private store: ConversationStore = createConversationStore(),
+    private jobManager: JobManager = JobManager.getInstance()
+  ) {}
+
+  static getInstance(): ConversationManager {
+    if (!ConversationManager.instance) {
+      ConversationManager.instance = new ConversationManager();
+    }
+    return ConversationManager.instance;
+  }
+
+  create(messages: ConversationMessage[] = [], apiKeyId?: string, metadata?: Record<string, any>): ConversationSession {
+    const now = new Date();
+    const session: ConversationSession = {
+      id: uuidv4(),
+      conversation: new Conversation(messages),
+      apiKeyId,
+      metadata,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.store.save(session);
+    return session;
+  }
+
+  get(id: string): ConversationSession | undefined {
+    try {
+      return this.store.get(id);
+    } catch {
+      // Malformed ids are treated as unknown
+      return undefined;
+    }
+  }
+
+  delete(id: string): boolean {
+    if (!this.get(id)) return false;
+    this.store.delete(id);
+    return true;
+  }
+
+  /**
+   * Whether a reply is still being generated for the session
+   */
+  hasPendingTurn(session: ConversationSession): boolean {
+    if (!session.pendingJobId) return false;
+    const job = this.jobManager.getJob(session.pendingJobId);
+    return job !== undefined && !this.jobManager.isFinished(job);
+  }
+
+  /**
+   * Reserve the session for a job answering the given messages and return the
+   * full conversation to send to the model. Only one turn may be in flight;
+   * a turn whose job failed simply leaves the history unchanged.
+   */
+  beginTurn(id: string, messages: ConversationMessage[], jobId: string): Conversation {
+    const session = this.get(id);
+    if (!session) {
+      throw new ConversationError(`Conversation ${id} not found`, 404);
+    }
+    if (this.hasPendingTurn(session)) {
+      throw new ConversationError(`Conversation ${id} is still waiting for job ${session.pendingJobId}`, 409);
+    }
+    if (messages.length === 0) {
+      throw new ConversationError('A conversation turn needs at least one message');
+    }
+
+    this.store.save({ ...session, pendingJobId: jobId, updatedAt: new Date() });
+    return session.conversation.append(...messages);
+  }
+
+  /**
+   * Record the turn's messages and the model's reply, including any tool
+   * calls the client is expected to answer with `tool` messages
+   */
+  completeTurn(id: string, jobId: string, messages: ConversationMessage[], reply: Text): ConversationSession | undefined {
+    const session = this.get(id);
+    if (!session || session.pendingJobId !== jobId) return undefined;
+
+    const updated: ConversationSession = {
+      ...session,
+      conversation: session.conversation.append(...messages, {
+        role: 'assistant',
+        content: reply.content,
+        ...(reply.metadata?.toolCalls?.length ? { toolCalls: reply.metadata.toolCalls } : {})
+      }),
+      pendingJobId: undefined,
+      updatedAt: new Date()
+    };
+    this.store.save(updated);
+    return updated;
+  }
+}
+
+/**
+ * JSON view of a session; images are described rather than inlined
+ */
+export function describeConversation(session: ConversationSession) {
+  return {
+    conversationId: session.id,
+    messages: session.conversation.messages.map(message => ({
+      role: message.role,
+      content: typeof message.content === 'string'
+        ? message.content
+        : message.content.map(part => part.type === 'text'
+          ? part
+          : { type: 'image', format: part.image.format, size: part.image.data.length }),
+      toolCalls: message.toolCalls,
+      toolCallId: message.toolCallId,
+      name: message.name
+    })),
+    pendingJobId: session.pendingJobId,
+    metadata: session.metadata,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt
+  };
+}
+
+/**
+ * Messages a turn's deserialized input contributes: text becomes a user
+ * message, images are attached to one, and a Conversation adds its messages.
+ */
+export async function toConversationMessages(input: any): Promise<ConversationMessage[]> {
+  const items = Array.isArray(input) ? input : [input];
+  const messages: ConversationMessage[] = [];
+  const parts: ConversationPart[] = [];
+
+  for (const item of items) {
+    if (item instanceof Conversation) {
+      messages.push(...item.messages);
+      continue;
+    }
+    if (typeof item === 'string') {
+      parts.push({ type: 'text', text: item });
+      continue;
+    }
+
+    const role = item instanceof Text ? 'text' : item instanceof Image ? 'image' : getSourceRole(item);
+    if (role === 'text') {
+      parts.push({ type: 'text', text: (await item.asRole(Text)).content });
+    } else if (role === 'image') {
+      parts.push({ type: 'image', image: Image.fromAsset(item) });
+    } else {
+      throw new ConversationError('Conversation input must be text, images or messages');
+    }
+  }
+
+  if (parts.length > 0) {
+    messages.push({ role: 'user', content: parts.length === 1 && parts[0].type === 'text' ? parts[0].text : parts });
+  }
+  return messages;
+}
+
+function getSourceRole(item: any): string | undefined {
+  if (!item || typeof item.asRole !== 'function') return undefined;
+  try {
+    return determineSourceRole(item);
+  } catch {
+    return undefined;
+  }
+}
+
+export default ConversationManager;
@@ -0,0 +1,154 @@
+/**
+ * Conversation Stores
+ * Pluggable persistence for chat sessions, mirroring the job stores
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import type { Conversation } from '../../../../media/assets/roles';
+import { BlobSink, serializeValue, deserializeValue } from '../../../../media/utils/RoleSerializer';
+
+export interface ConversationSession {
+  id: string;
+  conversation: Conversation;
+  apiKeyId?: string;          // Key that created the session; only it may continue it
+  pendingJobId?: string;      // Job generating the next reply, if any
+  metadata?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ConversationStore {
+  get(id: string): ConversationSession | undefined;
+  save(session: ConversationSession): void;
+  delete(id: string): void;
+  list(): ConversationSession[];
+}
+
+/**
+ * Process-local store - sessions are lost when the server restarts
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  private sessions = new Map<string, ConversationSession>();
+
+  get(id: string): ConversationSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  save(session: ConversationSession): void {
+    this.sessions.set(session.id, session);
+  }
+
+  delete(id: string): void {
+    this.sessions.delete(id);
+  }
+
+  list(): ConversationSession[] {
+    return Array.from(this.sessions.values());
+  }
+}
+
+/**
+ * Durable store writing one JSON document per session plus content-addressed
+ * blobs for images in the messages:
+ *
+ *   <root>/<conversationId>/conversation.json
+ *   <root>/<conversationId>/blobs/<sha256>.<ext>
+ */
+export class FileConversationStore implements ConversationStore {
+  constructor(private readonly rootDir: string) {
+    fs.mkdirSync(rootDir, { recursive: true });
+  }
+
+  get(id: string): ConversationSession | undefined {
+    const sessionFile = this.getSessionFile(id);
+    if (!fs.existsSync(sessionFile)) return undefined;
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(sessionFile, 'utf-8'));
+      return deserializeValue(raw, this.createBlobSink(id)) as ConversationSession;
+    } catch (error) {
+      console.warn(`[FileConversationStore] Failed to read conversation ${id}:`, error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  save(session: ConversationSession): void {
+    const sessionFile = this.getSessionFile(session.id);
+    fs.mkdirSync(path.dirname(sessionFile), { recursive: true });
+
+    const serialized = serializeValue(session, this.createBlobSink(session.id));
+
+    // Write to a temp file and rename so readers never see a partial document
+    const tempFile = `${sessionFile}.${process.pid}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(serialized));
+    fs.renameSync(tempFile, sessionFile);
+  }
+
+  delete(id: string): void {
+    this.getSessionFile(id); // Validates the ID
+    fs.rmSync(path.join(this.rootDir, id), { recursive: true, force: true });
+  }
+
+  list(): ConversationSession[] {
+    let ids: string[];
+    try {
+      ids = fs.readdirSync(this.rootDir);
+    } catch {
+      return [];
+    }
+
+    return ids
+      .filter(id => /^[\w-]+$/.test(id))
+      .map(id => this.get(id))
+      .filter((session): session is ConversationSession => session !== undefined);
+  }
+
+  private getSessionFile(id: string): string {
+    // Conversation IDs are generated UUIDs; refuse anything that could escape the root
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error(`Invalid conversation ID: ${id}`);
+    }
+    return path.join(this.rootDir, id, 'conversation.json');
+  }
+
+  private createBlobSink(id: string): BlobSink {
+    const blobDir = path.join(this.rootDir, id, 'blobs');
+
+    return {
+      write: (data: Buffer, extension: string) => {
+        const hash = crypto.createHash('sha256').update(data).digest('hex');
+        const ref = `${hash}.${extension.replace(/[^\w]/g, '') || 'bin'}`;
+        const blobPath = path.join(blobDir, ref);
+        if (!fs.existsSync(blobPath)) {
+          fs.mkdirSync(blobDir, { recursive: true });
+          fs.writeFileSync(blobPath, data);
+        }
+        return ref;
+      },
+      read: (ref: string) => fs.readFileSync(path.join(blobDir, path.basename(ref))),
+      resolvePath: (ref: string) => path.join(blobDir, path.basename(ref))
+    };
+  }
+}
+
+/**
+ * Create the conversation store selected by the environment:
+ * - MEDIACONDUIT_CONVERSATION_STORE: 'file' (default) or 'memory'
+ * - MEDIACONDUIT_CONVERSATION_STORE_PATH: directory for the file store (default: .mediaconduit/conversations)
+ */
+export function createConversationStore(): ConversationStore {
+  const type = process.env.MEDIACONDUIT_CONVERSATION_STORE || 'file';
+
+  switch (type) {
+    case 'memory':
+      return new InMemoryConversationStore();
+    case 'file':
+      return new FileConversationStore(
+        process.env.MEDIACONDUIT_CONVERSATION_STORE_PATH || path.join(process.cwd(), '.mediaconduit', 'conversations')
+      );
+    default:
+      throw new Error(`Unknown conversation store type: ${type} (expected 'file' or 'memory')`);
+  }
+}
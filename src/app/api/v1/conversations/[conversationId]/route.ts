@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '../../auth/ApiGuard';
+import { canAccessConversation } from '../../auth/ApiAuthenticator';
+import ConversationManager, { describeConversation } from '../ConversationManager';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ conversationId: string }> }
+) {
+  const principal = authenticateRequest(request);
+  if (principal instanceof NextResponse) return principal;
+
+  const { conversationId } = await params;
+
+  try {
+    const session = ConversationManager.getInstance().get(conversationId);
+
+    if (!session || !canAccessConversation(principal, session)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Conversation '${conversationId}' not found`
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: describeConversation(session)
+    });
+  } catch (error) {
+    console.error(`Error fetching conversation ${conversationId}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to fetch conversation ${conversationId}`
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ conversationId: string }> }
+) {
+  const principal = authenticateRequest(request);
+  if (principal instanceof NextResponse) return principal;
+
+  const { conversationId } = await params;
+
+  try {
+    const conversations = ConversationManager.getInstance();
+    const session = conversations.get(conversationId);
+
+    if (!session || !canAccessConversation(principal, session)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Conversation '${conversationId}' not found`
+        },
+        { status: 404 }
+      );
+    }
+
+    // A reply still being generated is dropped when its job completes
+    conversations.delete(conversationId);
+
+    return NextResponse.json({
+      success: true,
+      message: `Conversation '${conversationId}' deleted`
+    });
+  } catch (error) {
+    console.error(`Error deleting conversation ${conversationId}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to delete conversation ${conversationId}`
+      },
+      { status: 500 }
+    );
+  }
+}
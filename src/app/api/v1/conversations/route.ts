@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Conversation } from '../../../../media/assets/roles';
+import { authenticateRequest } from '../auth/ApiGuard';
+import { deserializeInput, TransformInputError } from '../transform/TransformInput';
+import ConversationManager, { describeConversation } from './ConversationManager';
+
+/**
+ * Start a conversation session. Continue it by sending `conversationId` with
+ * text-to-text transforms; each completed turn adds the user's messages and
+ * the model's reply.
+ *
+ * Body (all optional): { systemPrompt, messages, metadata }
+ */
+export async function POST(request: NextRequest) {
+  const principal = authenticateRequest(request);
+  if (principal instanceof NextResponse) return principal;
+
+  let body: Record<string, any>;
+  try {
+    const text = await request.text();
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Request body must be valid JSON'
+      },
+      { status: 400 }
+    );
+  }
+
+  if (body.systemPrompt !== undefined && typeof body.systemPrompt !== 'string') {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'systemPrompt must be a string'
+      },
+      { status: 400 }
+    );
+  }
+
+  if (body.metadata !== undefined && (typeof body.metadata !== 'object' || body.metadata === null || Array.isArray(body.metadata))) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'metadata must be an object'
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const history: Conversation = body.messages !== undefined
+      ? await deserializeInput({ messages: body.messages }, new Map(), request.signal)
+      : new Conversation([]);
+
+    const session = ConversationManager.getInstance().create(
+      history.withSystemPrompt(body.systemPrompt).messages,
+      principal.keyId,
+      body.metadata
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: describeConversation(session)
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof TransformInputError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error creating conversation:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create conversation'
+      },
+      { status: 500 }
+    );
+  }
+}
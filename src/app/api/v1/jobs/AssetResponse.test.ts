@@ -0,0 +1,48 @@
+/**
+ * AssetResponse Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getAssetContentType, getContentDisposition, matchesETag, parseRange } from './AssetResponse';
+
+describe('parseRange', () => {
+  it('should parse bounded, open-ended and suffix ranges', () => {
+    expect(parseRange('bytes=0-99', 1000)).toEqual({ start: 0, end: 99 });
+    expect(parseRange('bytes=500-', 1000)).toEqual({ start: 500, end: 999 });
+    expect(parseRange('bytes=-100', 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseRange('bytes=900-5000', 1000)).toEqual({ start: 900, end: 999 });
+  });
+
+  it('should flag ranges outside the file as unsatisfiable', () => {
+    expect(parseRange('bytes=1000-', 1000)).toBe('unsatisfiable');
+    expect(parseRange('bytes=50-10', 1000)).toBe('unsatisfiable');
+    expect(parseRange('bytes=-0', 1000)).toBe('unsatisfiable');
+  });
+
+  it('should ignore missing, malformed and multi-part ranges', () => {
+    expect(parseRange(null, 1000)).toBeUndefined();
+    expect(parseRange('items=0-1', 1000)).toBeUndefined();
+    expect(parseRange('bytes=0-1,5-9', 1000)).toBeUndefined();
+  });
+});
+
+describe('asset headers', () => {
+  it('should map formats to content types', () => {
+    expect(getAssetContentType('mp3')).toBe('audio/mpeg');
+    expect(getAssetContentType('JPG')).toBe('image/jpeg');
+    expect(getAssetContentType('xyz')).toBe('application/octet-stream');
+  });
+
+  it('should serve media inline unless a download is forced', () => {
+    expect(getContentDisposition('Video', 'job.mp4', false)).toBe('inline; filename="job.mp4"');
+    expect(getContentDisposition('Video', 'job.mp4', true)).toBe('attachment; filename="job.mp4"');
+    expect(getContentDisposition('Unknown', 'job.bin', false)).toBe('attachment; filename="job.bin"');
+  });
+
+  it('should match If-None-Match lists and weak validators', () => {
+    expect(matchesETag('"a", W/"b"', '"b"')).toBe(true);
+    expect(matchesETag('*', '"b"')).toBe(true);
+    expect(matchesETag('"a"', '"b"')).toBe(false);
+    expect(matchesETag(null, '"b"')).toBe(false);
+  });
+});
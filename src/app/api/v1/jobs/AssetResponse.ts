@@ -0,0 +1,138 @@
+/**
+ * Asset Response Helpers
+ * Content types, byte ranges and validators for serving job output files over HTTP
+ */
+
+import * as fs from 'fs';
+import type { ApiPrincipal } from '../auth/ApiAuthenticator';
+
+export const ASSET_CONTENT_TYPES: Record<string, string> = {
+  // Audio formats
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  flac: 'audio/flac',
+  m4a: 'audio/mp4',
+  ogg: 'audio/ogg',
+  aac: 'audio/aac',
+  opus: 'audio/opus',
+  wma: 'audio/x-ms-wma',
+
+  // Video formats
+  mp4: 'video/mp4',
+  avi: 'video/x-msvideo',
+  mov: 'video/quicktime',
+  wmv: 'video/x-ms-wmv',
+  flv: 'video/x-flv',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+
+  // Image formats
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  bmp: 'image/bmp',
+  tiff: 'image/tiff'
+};
+
+// Asset types browsers can render themselves are served inline by default
+const INLINE_ASSET_TYPES = ['Image', 'Audio', 'Video'];
+
+export interface ByteRange {
+  start: number;
+  end: number;                // Inclusive
+}
+
+/**
+ * Content type for an asset format, falling back to a generic binary type
+ */
+export function getAssetContentType(format: string | undefined): string {
+  return (format && ASSET_CONTENT_TYPES[format.toLowerCase()]) || 'application/octet-stream';
+}
+
+/**
+ * Cache-Control header for a job output. Outputs never change, but once API
+ * keys are enabled they belong to one caller, so shared caches must not keep them.
+ */
+export function getAssetCacheControl(principal: ApiPrincipal): string {
+  return principal.keyId === undefined ? 'public, max-age=31536000' : 'private, max-age=31536000';
+}
+
+/**
+ * Content-Disposition header for a job output
+ */
+export function getContentDisposition(assetType: string, filename: string, forceDownload: boolean): string {
+  const type = !forceDownload && INLINE_ASSET_TYPES.includes(assetType) ? 'inline' : 'attachment';
+  return `${type}; filename="${filename.replace(/["\\\r\n]/g, '_')}"`;
+}
+
+/**
+ * Strong validator derived from the file's size and modification time
+ */
+export function createETag(stats: fs.Stats): string {
+  return `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+}
+
+/**
+ * Whether an If-None-Match header matches the current validator
+ */
+export function matchesETag(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  if (header.trim() === '*') return true;
+  // Weak comparison, as required for If-None-Match
+  return header.split(',').some(candidate => candidate.trim().replace(/^W\//, '') === etag);
+}
+
+/**
+ * Parse a Range header against a file of the given size.
+ * @returns the requested range, 'unsatisfiable' for ranges outside the file, or
+ * undefined when the header is absent or should be ignored (the full file is sent)
+ */
+export function parseRange(header: string | null, size: number): ByteRange | 'unsatisfiable' | undefined {
+  if (!header) return undefined;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  // Multiple ranges and other units are ignored rather than rejected
+  if (!match || (match[1] === '' && match[2] === '')) return undefined;
+
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const length = parseInt(match[2], 10);
+    if (length === 0 || size === 0) return 'unsatisfiable';
+    return { start: Math.max(0, size - length), end: size - 1 };
+  }
+
+  const start = parseInt(match[1], 10);
+  const end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  if (start >= size || start > end) return 'unsatisfiable';
+
+  return { start, end };
+}
+
+/**
+ * Stream a byte range of a file without buffering it in memory
+ */
+export function createFileStream(filePath: string, range?: ByteRange): ReadableStream<Uint8Array> {
+  let fileStream: fs.ReadStream;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      fileStream = fs.createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined);
+      fileStream.on('data', chunk => {
+        controller.enqueue(new Uint8Array(chunk as Buffer));
+        // Apply backpressure from slow clients
+        if ((controller.desiredSize ?? 1) <= 0) fileStream.pause();
+      });
+      fileStream.on('end', () => controller.close());
+      fileStream.on('error', error => controller.error(error));
+    },
+    pull() {
+      fileStream.resume();
+    },
+    cancel() {
+      fileStream.destroy();
+    }
+  });
+}
@@ -0,0 +1,95 @@
+/**
+ * DerivativeRenderer Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as fs from 'fs';
+import { DerivativeRenderer, DerivativeError } from './DerivativeRenderer';
+import type { Job } from './JobManager';
+import type { IFFMPEGClient } from '../../../../media/providers/docker/ffmpeg/FFMPEGClientFactory';
+import { JobStatus } from '../../../../media/types/provider';
+
+// In-memory filesystem so cache writes are observable
+vi.mock('fs', () => {
+  const files = new Map<string, { data: Buffer; mtimeMs: number }>();
+  return {
+    existsSync: (p: string) => files.has(p),
+    readFileSync: (p: string) => files.get(p)!.data,
+    writeFileSync: (p: string, data: Buffer) => { files.set(p, { data, mtimeMs: Date.now() }); },
+    statSync: (p: string) => ({ mtimeMs: files.get(p)!.mtimeMs }),
+    mkdirSync: () => undefined,
+    renameSync: (from: string, to: string) => {
+      files.set(to, files.get(from)!);
+      files.delete(from);
+    }
+  };
+});
+
+class Video {
+  constructor(public data: Buffer, public format: string, public metadata: any = {}) {}
+}
+
+class Text {
+  constructor(public content: string, public metadata: any = {}) {}
+}
+
+function createJob(id: string, output: any): Job {
+  return {
+    id,
+    providerId: 'ffmpeg',
+    modelId: 'ffmpeg-video-filter',
+    capability: 'video-to-video',
+    status: JobStatus.COMPLETED,
+    input: 'input',
+    output,
+    createdAt: new Date(Date.now() - 1000),
+    updatedAt: new Date(Date.now() - 1000),
+    completedAt: new Date(Date.now() - 1000),
+    urls: { primary: `/api/v1/jobs/${id}/download` },
+    generation_chain: []
+  };
+}
+
+function createRenderer() {
+  const extractFrames = vi.fn(async () => ({ success: true, frames: [Buffer.from('jpeg-frame')] }));
+  const client = { extractFrames } as unknown as IFFMPEGClient;
+  return { renderer: new DerivativeRenderer('/cache', () => client), extractFrames };
+}
+
+describe('DerivativeRenderer', () => {
+  it('should render a video thumbnail once and serve it from the cache afterwards', async () => {
+    const { renderer, extractFrames } = createRenderer();
+    const job = createJob('video-job', new Video(Buffer.from('mp4-data'), 'mp4', { duration: 10 }));
+
+    const [first, concurrent] = await Promise.all([
+      renderer.renderThumbnail(job, 'small'),
+      renderer.renderThumbnail(job, 'small')
+    ]);
+    const second = await renderer.renderThumbnail(job, 'small');
+
+    expect(extractFrames).toHaveBeenCalledTimes(1);
+    expect(extractFrames).toHaveBeenCalledWith(Buffer.from('mp4-data'), expect.objectContaining({ width: 160, frameTime: 1 }));
+    expect(first).toMatchObject({ contentType: 'image/jpeg', extension: 'jpeg', cached: false });
+    expect(concurrent.cached).toBe(false);
+    expect(second.cached).toBe(true);
+    expect(second.data.toString()).toBe('jpeg-frame');
+    expect(fs.existsSync('/cache/video-job/thumbnail-small.jpeg')).toBe(true);
+  });
+
+  it('should reject unknown sizes and unsupported output types', async () => {
+    const { renderer } = createRenderer();
+    const videoJob = createJob('video-job-2', new Video(Buffer.from('mp4-data'), 'mp4'));
+    const textJob = createJob('text-job', new Text('hello'));
+
+    await expect(renderer.renderThumbnail(videoJob, 'huge')).rejects.toBeInstanceOf(DerivativeError);
+    await expect(renderer.renderPreview(videoJob, 'png')).rejects.toThrow(/expected mp4, webm/);
+    await expect(renderer.renderThumbnail(textJob, 'small')).rejects.toThrow(/not available for Text outputs/);
+  });
+
+  it('should refuse jobs that have not completed', async () => {
+    const { renderer } = createRenderer();
+    const job = { ...createJob('running-job', undefined), status: JobStatus.RUNNING };
+
+    await expect(renderer.renderThumbnail(job, 'small')).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Derivative Renderer
+ * Renders thumbnails and format previews of job outputs through FFmpeg on demand
+ * and caches the results on disk next to other local state
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createFFMPEGClientFromEnv, IFFMPEGClient } from '../../../../media/providers/docker/ffmpeg/FFMPEGClientFactory';
+import { JobStatus } from '../../../../media/types/provider';
+import JobManager, { type Job } from './JobManager';
+import { getAssetContentType } from './AssetResponse';
+import type { AssetStore } from '../../../../media/storage/AssetStore';
+import { ApiError } from '../ApiError';
+
+export const THUMBNAIL_SIZES = {
+  small: 160,
+  medium: 320,
+  large: 640
+} as const;
+
+export type ThumbnailSize = keyof typeof THUMBNAIL_SIZES;
+
+// Preview formats offered per output asset type (matches JobManager.generateAssetUrls)
+export const PREVIEW_FORMATS: Record<string, string[]> = {
+  Image: ['jpeg', 'png'],
+  Audio: ['mp3', 'wav'],
+  Video: ['mp4', 'webm']
+};
+
+const MAX_PREVIEW_WIDTH = 1280;
+
+export interface RenderedDerivative {
+  data: Buffer;
+  contentType: string;
+  extension: string;
+  cached: boolean;
+}
+
+/**
+ * Thumbnail or preview request that cannot be served
+ */
+export class DerivativeError extends ApiError {
+  constructor(message: string, statusCode?: number) {
+    super(message, statusCode);
+    this.name = 'DerivativeError';
+  }
+}
+
+export class DerivativeRenderer {
+  private static instance: DerivativeRenderer;
+  private client?: IFFMPEGClient;
+  private inFlight = new Map<string, Promise<Buffer>>();
+
+  constructor(
+    private cacheDir: string = process.env.MEDIACONDUIT_DERIVATIVE_CACHE_PATH || path.join('.mediaconduit', 'derivatives'),
+    private clientFactory: () => IFFMPEGClient = createFFMPEGClientFromEnv,
+    private assets?: AssetStore
+  ) {}
+
+  static getInstance(): DerivativeRenderer {
+    if (!DerivativeRenderer.instance) {
+      DerivativeRenderer.instance = new DerivativeRenderer(undefined, undefined, JobManager.getInstance().getAssetStore());
+    }
+    return DerivativeRenderer.instance;
+  }
+
+  /**
+   * JPEG thumbnail of an image or video output, scaled to the size's width
+   */
+  async renderThumbnail(job: Job, size: string): Promise<RenderedDerivative> {
+    if (!(size in THUMBNAIL_SIZES)) {
+      throw new DerivativeError(`Unknown thumbnail size '${size}' (expected ${Object.keys(THUMBNAIL_SIZES).join(', ')})`);
+    }
+
+    const assetType = this.getAssetType(job);
+    if (assetType !== 'Image' && assetType !== 'Video') {
+      throw new DerivativeError(`Thumbnails are not available for ${assetType} outputs`);
+    }
+
+    const width = THUMBNAIL_SIZES[size as ThumbnailSize];
+    const duration = job.output.metadata?.duration;
+
+    return this.render(job, `thumbnail-${size}`, 'jpeg', async source => {
+      const result = await this.getClient().extractFrames(source, {
+        // Skip black lead-in frames of videos without seeking past short clips
+        frameTime: assetType === 'Video' ? Math.min(1, (duration || 2) / 2) : undefined,
+        width,
+        format: 'jpg',
+        quality: 80
+      });
+      return this.firstFrame(result);
+    });
+  }
+
+  /**
+   * Output converted to a browser-friendly preview format
+   */
+  async renderPreview(job: Job, format: string): Promise<RenderedDerivative> {
+    const assetType = this.getAssetType(job);
+    const formats = PREVIEW_FORMATS[assetType] || [];
+    if (!formats.includes(format)) {
+      throw new DerivativeError(
+        formats.length > 0
+          ? `Preview format '${format}' is not available for ${assetType} outputs (expected ${formats.join(', ')})`
+          : `Previews are not available for ${assetType} outputs`
+      );
+    }
+
+    return this.render(job, 'preview', format, async source => {
+      const client = this.getClient();
+
+      if (assetType === 'Image') {
+        const result = await client.extractFrames(source, {
+          format: format === 'jpeg' ? 'jpg' : 'png',
+          quality: 90
+        });
+        return this.firstFrame(result);
+      }
+
+      if (assetType === 'Audio') {
+        const result = await client.convertAudio(source, { outputFormat: format });
+        if (!result.success || !result.outputPath) {
+          throw new Error(result.error || 'Audio conversion failed');
+        }
+        return client.downloadFile(result.outputPath);
+      }
+
+      const result = await client.filterVideo(source, {
+        filterComplex: `[0:v]scale='min(${MAX_PREVIEW_WIDTH},iw)':-2[preview]`,
+        videoOutputLabel: 'preview',
+        outputFormat: format,
+        codec: format === 'webm' ? 'libvpx' : 'libx264'
+      });
+      if (!result.videoBuffer) {
+        throw new Error(result.error || 'Video transcoding failed');
+      }
+      return result.videoBuffer;
+    });
+  }
+
+  /**
+   * Serve a derivative from the cache, rendering it at most once at a time
+   */
+  private async render(
+    job: Job,
+    name: string,
+    extension: string,
+    produce: (source: Buffer) => Promise<Buffer>
+  ): Promise<RenderedDerivative> {
+    const contentType = getAssetContentType(extension);
+    const cachePath = path.join(this.cacheDir, job.id, `${name}.${extension}`);
+
+    // Cached derivatives are valid until the job output is replaced
+    const outputTime = new Date(job.completedAt || job.updatedAt).getTime();
+    if (fs.existsSync(cachePath) && fs.statSync(cachePath).mtimeMs >= outputTime) {
+      return { data: fs.readFileSync(cachePath), contentType, extension, cached: true };
+    }
+
+    let pending = this.inFlight.get(cachePath);
+    if (!pending) {
+      pending = this.readSource(job)
+        .then(produce)
+        .then(data => {
+          fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+          const tempPath = `${cachePath}.${process.pid}.tmp`;
+          fs.writeFileSync(tempPath, data);
+          fs.renameSync(tempPath, cachePath);
+          return data;
+        })
+        .finally(() => this.inFlight.delete(cachePath));
+      this.inFlight.set(cachePath, pending);
+    }
+
+    return { data: await pending, contentType, extension, cached: false };
+  }
+
+  private getAssetType(job: Job): string {
+    if (job.status !== JobStatus.COMPLETED) {
+      throw new DerivativeError(`Job '${job.id}' is not completed (status: ${job.status})`);
+    }
+    if (!job.output) {
+      throw new DerivativeError(`Job '${job.id}' has no output`, 404);
+    }
+    return job.output.constructor?.name || 'Unknown';
+  }
+
+  private async readSource(job: Job): Promise<Buffer> {
+    const asset = job.output;
+    if (Buffer.isBuffer(asset.data) && asset.data.length > 0) {
+      return asset.data;
+    }
+
+    const assetId = asset.metadata?.assetId;
+    const stored = assetId && this.assets ? await this.assets.read(assetId) : undefined;
+    if (stored) {
+      return stored;
+    }
+
+    const localPath = asset.metadata?.localPath;
+    if (!localPath || !fs.existsSync(localPath)) {
+      throw new DerivativeError(`Asset file not found for job '${job.id}'`, 404);
+    }
+    return fs.readFileSync(localPath);
+  }
+
+  private firstFrame(result: { success: boolean; frames?: Buffer[]; error?: string }): Buffer {
+    if (!result.success || !result.frames?.length) {
+      throw new Error(result.error || 'Frame extraction failed');
+    }
+    return result.frames[0];
+  }
+
+  private getClient(): IFFMPEGClient {
+    if (!this.client) {
+      this.client = this.clientFactory();
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Job Event Streams
+ * Server-Sent Events responses that follow a job until it finishes
+ */
+
+import JobManager, { Job, JobEvent } from './JobManager';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export const EVENT_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  'X-Accel-Buffering': 'no'
+};
+
+export interface StreamEvent {
+  event: string;
+  data: unknown;
+}
+
+export interface JobEventStreamOptions {
+  initial: StreamEvent[];                           // Sent before any job event
+  final?: (job: Job) => StreamEvent | undefined;    // Sent once the job has finished
+}
+
+/**
+ * Stream the job's events (`status`, `progress` and, for streaming jobs,
+ * `delta`) as they happen, closing when the job finishes or the client
+ * disconnects. Subscribes immediately, so create the stream before queueing
+ * work whose events must not be missed.
+ */
+export function createJobEventStream(
+  jobManager: JobManager,
+  jobId: string,
+  signal: AbortSignal,
+  options: JobEventStreamOptions
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const send = ({ event, data }: StreamEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const close = () => {
+        if (closed) return;
+        cleanup();
+        const job = jobManager.getJob(jobId);
+        const final = job && options.final?.(job);
+        if (final) send(final);
+        closed = true;
+        controller.close();
+      };
+
+      options.initial.forEach(send);
+      const job = jobManager.getJob(jobId);
+      if (!job || jobManager.isFinished(job)) {
+        close();
+        return;
+      }
+
+      const unsubscribe = jobManager.subscribe(jobId, (event: JobEvent) => {
+        send({ event: event.type, data: event });
+
+        if (event.type === 'status') {
+          const current = jobManager.getJob(jobId);
+          if (current && jobManager.isFinished(current)) {
+            close();
+          }
+        }
+      });
+
+      // Comment lines keep proxies from timing out idle connections
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        signal.removeEventListener('abort', close);
+      };
+      signal.addEventListener('abort', close);
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+}
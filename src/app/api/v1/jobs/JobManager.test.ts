@@ -0,0 +1,151 @@
+/**
+ * JobManager Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import JobManager, { JobEvent } from './JobManager';
+import { InMemoryJobStore } from './JobStore';
+import { JobQueue } from './JobQueue';
+import { JobStatus } from '../../../../media/types/provider';
+import { Image } from '../../../../media/assets/roles';
+import { AssetStore, InMemoryAssetBackend } from '../../../../media/storage/AssetStore';
+import { createTestJobManager } from '../../../../test/JobManagerFixture';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('JobManager cancellation', () => {
+  it('should abort the signal of a running job and keep it cancelled', async () => {
+    const manager = createTestJobManager();
+    manager.createJob('running', 'cancel-test', 'model', 'text-to-text', 'input');
+
+    let receivedSignal: AbortSignal | undefined;
+    manager.submit('running', signal => new Promise<void>(resolve => {
+      receivedSignal = signal;
+      signal.addEventListener('abort', () => resolve());
+    }));
+    await flush();
+
+    const cancelled = manager.cancelJob('running');
+    expect(cancelled?.status).toBe(JobStatus.CANCELLED);
+    expect(receivedSignal?.aborted).toBe(true);
+
+    // Late results from models that ignore the signal are discarded
+    manager.completeJobWithAsset('running', { constructor: { name: 'Text' } });
+    expect(manager.getJob('running')?.status).toBe(JobStatus.CANCELLED);
+  });
+
+  it('should drop queued jobs without running them', async () => {
+    const manager = createTestJobManager();
+    manager.createJob('blocker', 'cancel-test', 'model', 'text-to-text', 'input');
+    manager.createJob('queued', 'cancel-test', 'model', 'text-to-text', 'input');
+
+    let releaseBlocker!: () => void;
+    let queuedRan = false;
+    manager.submit('blocker', () => new Promise<void>(resolve => { releaseBlocker = resolve; }));
+    manager.submit('queued', async () => { queuedRan = true; });
+    await flush();
+
+    expect(manager.cancelJob('queued')?.status).toBe(JobStatus.CANCELLED);
+    expect(manager.getQueuePosition('queued')).toBeUndefined();
+
+    releaseBlocker();
+    await flush();
+    await flush();
+    expect(queuedRan).toBe(false);
+  });
+
+  it('should refuse to cancel finished jobs', () => {
+    const manager = createTestJobManager();
+    manager.createJob('done', 'cancel-test', 'model', 'text-to-text', 'input');
+    manager.updateJob('done', { status: JobStatus.COMPLETED });
+
+    expect(manager.cancelJob('done')).toBeUndefined();
+    expect(manager.getJob('done')?.status).toBe(JobStatus.COMPLETED);
+  });
+});
+
+describe('JobManager restarts', () => {
+  it('should fail jobs a previous process left pending or running', async () => {
+    const store = new InMemoryJobStore();
+    const previous = new JobManager(store, new JobQueue({ maxConcurrent: 1 }));
+    previous.createJob('queued', 'restart-test', 'model', 'text-to-text', 'input');
+    previous.createJob('running', 'restart-test', 'model', 'text-to-text', 'input');
+    previous.updateJob('running', { status: JobStatus.RUNNING });
+    previous.createJob('done', 'restart-test', 'model', 'text-to-text', 'input');
+    previous.updateJob('done', { status: JobStatus.COMPLETED });
+
+    const manager = new JobManager(store, new JobQueue({ maxConcurrent: 1 }));
+    manager.createJob('live', 'restart-test', 'model', 'text-to-text', 'input');
+    manager.submit('live', () => new Promise<void>(() => {}));
+    await flush();
+
+    expect(manager.failInterruptedJobs()).toBe(2);
+    expect(manager.getJob('queued')).toMatchObject({ status: JobStatus.FAILED, error: 'Interrupted by a server restart' });
+    expect(manager.getJob('running')?.status).toBe(JobStatus.FAILED);
+    expect(manager.getJob('done')?.status).toBe(JobStatus.COMPLETED);
+    expect(manager.getJob('live')?.status).toBe(JobStatus.PENDING);
+  });
+});
+
+describe('JobManager events', () => {
+  it('should emit status transitions and progress to subscribers', () => {
+    const manager = createTestJobManager();
+    manager.createJob('events', 'events-test', 'model', 'text-to-text', 'input');
+
+    const events: JobEvent[] = [];
+    const unsubscribe = manager.subscribe('events', event => events.push(event));
+
+    manager.updateJob('events', { status: JobStatus.RUNNING, progress: 0 });
+    manager.reportProgress('events', { percentage: 41.6, message: 'Queued (position 2)' });
+    manager.reportProgress('events', { percentage: 42, message: 'Queued (position 2)' }); // unchanged
+    manager.completeJobWithAsset('events', { constructor: { name: 'Text' } });
+    unsubscribe();
+    manager.updateJob('events', { error: 'ignored' });
+
+    expect(events.map(event => event.type)).toEqual(['progress', 'status', 'progress', 'progress', 'status']);
+    expect(events[2]).toMatchObject({ type: 'progress', progress: 42, message: 'Queued (position 2)' });
+    expect(events[4]).toMatchObject({ type: 'status', status: JobStatus.COMPLETED });
+  });
+});
+
+describe('JobManager assets', () => {
+  it('should persist media outputs and release them when the job is cleaned up', async () => {
+    const assets = new AssetStore(new InMemoryAssetBackend(), { retentionMs: 0, maxBytes: 0 });
+    const manager = createTestJobManager(assets);
+    manager.createJob('render', 'assets-test', 'model', 'text-to-image', 'a red fox');
+
+    const output = await manager.storeOutput('render', new Image(Buffer.from('png'), 'png', { format: 'png' }));
+    manager.completeJobWithAsset('render', output);
+
+    const assetId = output.metadata.assetId;
+    expect((await assets.stat(assetId))?.references).toEqual(['job:render']);
+    expect((await assets.read(assetId))?.toString()).toBe('png');
+
+    await manager.cleanup(-1);
+    expect(manager.getJob('render')).toBeUndefined();
+    expect(await assets.stat(assetId)).toBeUndefined();
+  });
+
+  it('should clean up on a schedule and log failed runs', async () => {
+    vi.useFakeTimers();
+    try {
+      const manager = createTestJobManager();
+      const cleanup = vi.spyOn(manager, 'cleanup')
+        .mockRejectedValueOnce(new Error('store offline'))
+        .mockResolvedValue(undefined);
+      const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      manager.scheduleCleanup(1000, 5000);
+      await vi.advanceTimersByTimeAsync(2500);
+      expect(cleanup).toHaveBeenCalledTimes(2);
+      expect(cleanup).toHaveBeenCalledWith(5000);
+      expect(logged).toHaveBeenCalledWith('[JobManager] Cleanup failed:', expect.any(Error));
+
+      manager.scheduleCleanup(0);
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(cleanup).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -3,8 +3,19 @@
  * Manages generation jobs and their status with full generation_prompt lineage
  */
 
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
 import { GenerationResult, JobStatus } from '../../../../media/types/provider';
 import { GenerationPrompt } from '../../../../media/assets/Asset';
+import { TransformProgress } from '../../../../media/models/abstracts/Model';
+import { JobStore, createJobStore } from './JobStore';
+import { JobQueue, createJobQueue } from './JobQueue';
+import { JobWebhook, WebhookDelivery, WebhookDispatcher, WebhookEvent, createWebhookDispatcher } from './WebhookDispatcher';
+import { getAssetContentType } from './AssetResponse';
+import { AssetStore, createAssetStore } from '../../../../media/storage/AssetStore';
+import { getRoleType } from '../../../../media/utils/RoleSerializer';
+import { readEnvNumber } from '../../../../media/utils/EnvNumber';
 
 export interface GenerationChainStep {
   step: number;
@@ -23,12 +34,43 @@ export interface JobAssetUrls {
   metadata?: string;          // Full metadata endpoint
 }
 
+export interface PipelineStep {
+  providerId: string;
+  modelId: string;
+  capability: string;
+  options?: any;
+}
+
+export interface PipelineStepState extends PipelineStep {
+  index: number;
+  status: JobStatus;
+  startedAt?: Date;
+  completedAt?: Date;
+  processingTime?: number;
+  output?: any;               // Intermediate Role object, fed to the next step
+  urls?: JobAssetUrls;
+  error?: string;
+}
+
+/**
+ * One provider/model a single-model job ran on; later entries are failovers
+ */
+export interface TransformAttempt {
+  providerId: string;
+  modelId: string;
+  startedAt: Date;
+  completedAt?: Date;
+  processingTime?: number;
+  error?: string;
+}
+
 export interface Job {
   id: string;
   providerId: string;
   modelId: string;
   capability: string;
   status: JobStatus;
+  priority?: number;          // Queue priority (higher runs first)
   
   // Transform specification - matches model.transform() signature exactly
   input: any;                 // RAW Role object(s) with generation_prompt chains
@@ -50,27 +92,138 @@ export interface Job {
   
   // Error handling
   error?: string;
-  progress?: number;
+  progress?: number;          // 0-100, reported by the model while running
+  progressMessage?: string;   // Latest progress stage reported by the model
+
+  // Multi-step pipelines (undefined for single-model jobs)
+  steps?: PipelineStepState[];
+
+  // Provider/model runs of single-model jobs, including failovers
+  attempts?: TransformAttempt[];
+
+  // Text-to-text jobs publishing their output as 'delta' events while it is generated
+  streaming?: boolean;
+
+  // API key that created the job (undefined while authentication is disabled)
+  apiKeyId?: string;
+
+  // Completion notifications
+  webhook?: JobWebhook;
+  webhookDeliveries?: WebhookDelivery[]; // Most recent delivery attempts
 }
 
+/**
+ * Change notification for a single job (used by the SSE events endpoint)
+ */
+export type JobEvent =
+  | { type: 'status'; jobId: string; status: JobStatus; error?: string; timestamp: Date }
+  | { type: 'progress'; jobId: string; progress: number; message?: string; timestamp: Date }
+  | { type: 'delta'; jobId: string; text: string; timestamp: Date };
+
+export type JobEventListener = (event: JobEvent) => void;
+
+const TERMINAL_STATUSES = [JobStatus.COMPLETED, JobStatus.FAILED, JobStatus.CANCELLED];
+const WEBHOOK_EVENTS: Partial<Record<JobStatus, WebhookEvent>> = {
+  [JobStatus.COMPLETED]: 'job.completed',
+  [JobStatus.FAILED]: 'job.failed'
+};
+const MAX_WEBHOOK_DELIVERIES = 20;
+const DEFAULT_JOB_MAX_AGE_MS = 24 * 60 * 60 * 1000;        // 1 day
+const DEFAULT_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;        // 1 hour
+
 class JobManager {
   private static instance: JobManager;
-  private jobs = new Map<string, Job>();
+  private abortControllers = new Map<string, AbortController>();
+  private events = new EventEmitter().setMaxListeners(0);
+  private cleanupTimer?: ReturnType<typeof setInterval>;
+  private cleanupRunning = false;
+
+  constructor(
+    private store: JobStore = createJobStore(),
+    private queue: JobQueue = createJobQueue(),
+    private webhooks: WebhookDispatcher = createWebhookDispatcher(),
+    private assets: AssetStore = createAssetStore()
+  ) {}
 
+  /**
+   * The shared instance. Jobs a previous process left pending or running are
+   * failed on startup, and cleanup runs on a schedule configured by the environment:
+   * - MEDIACONDUIT_JOB_CLEANUP_INTERVAL_MS: how often cleanup() runs, 0 to disable (default: 1 hour)
+   * - MEDIACONDUIT_JOB_MAX_AGE_MS: how long finished jobs are kept (default: 1 day)
+   */
   static getInstance(): JobManager {
     if (!JobManager.instance) {
       JobManager.instance = new JobManager();
+      JobManager.instance.failInterruptedJobs();
+      JobManager.instance.scheduleCleanup(
+        readEnvNumber('MEDIACONDUIT_JOB_CLEANUP_INTERVAL_MS', DEFAULT_CLEANUP_INTERVAL_MS),
+        readEnvNumber('MEDIACONDUIT_JOB_MAX_AGE_MS', DEFAULT_JOB_MAX_AGE_MS)
+      );
     }
     return JobManager.instance;
   }
 
+  /**
+   * Fail pending and running jobs that this manager is not running, e.g. jobs
+   * loaded from a file store after a restart, whose work was lost with the
+   * previous process. Instances sharing a file store would fail each other's
+   * running jobs, so they should be restarted together.
+   * @returns the number of jobs failed
+   */
+  failInterruptedJobs(): number {
+    let count = 0;
+    for (const job of this.store.list()) {
+      if (this.isFinished(job) || this.abortControllers.has(job.id)) continue;
+
+      this.updateJob(job.id, {
+        status: JobStatus.FAILED,
+        error: 'Interrupted by a server restart',
+        completedAt: new Date()
+      });
+      count++;
+    }
+    if (count > 0) {
+      console.warn(`[JobManager] Failed ${count} jobs interrupted by a restart`);
+    }
+    return count;
+  }
+
+  /**
+   * Run cleanup() every intervalMs, replacing any earlier schedule; 0 stops it.
+   * The timer does not keep the process alive, runs never overlap and failures
+   * are logged.
+   */
+  scheduleCleanup(intervalMs: number, maxAge: number = DEFAULT_JOB_MAX_AGE_MS): void {
+    clearInterval(this.cleanupTimer);
+    this.cleanupTimer = undefined;
+    if (intervalMs <= 0) return;
+
+    this.cleanupTimer = setInterval(() => {
+      if (this.cleanupRunning) return;
+      this.cleanupRunning = true;
+      this.cleanup(maxAge)
+        .catch(error => console.error('[JobManager] Cleanup failed:', error))
+        .finally(() => { this.cleanupRunning = false; });
+    }, intervalMs);
+    this.cleanupTimer.unref?.();
+  }
+
+  /**
+   * Replace the backing store (e.g. an InMemoryJobStore in tests)
+   */
+  setStore(store: JobStore): void {
+    this.store = store;
+  }
+
   createJob(
     id: string,
     providerId: string,
     modelId: string,
     capability: string,
     input: any,
-    options?: any
+    options?: any,
+    webhook?: JobWebhook,
+    apiKeyId?: string
   ): Job {
     const job: Job = {
       id,
@@ -79,21 +232,128 @@ class JobManager {
       capability,
       input,
       options,
+      webhook,
+      apiKeyId,
       status: JobStatus.PENDING,
       createdAt: new Date(),
       updatedAt: new Date()
     };
     
-    this.jobs.set(id, job);
+    this.store.save(job);
     return job;
   }
 
+  /**
+   * Queue a job's work; it runs once global and per-provider capacity is free.
+   * The signal passed to run() aborts when the job is cancelled.
+   */
+  submit(jobId: string, run: (signal: AbortSignal) => Promise<void>, priority: number = 0): void {
+    const job = this.store.get(jobId);
+    if (!job) {
+      throw new Error(`Job '${jobId}' not found`);
+    }
+
+    if (priority !== job.priority) {
+      this.updateJob(jobId, { priority });
+    }
+
+    const controller = new AbortController();
+    this.abortControllers.set(jobId, controller);
+
+    this.queue.enqueue({
+      jobId,
+      providerId: job.providerId,
+      priority,
+      run: () => run(controller.signal).finally(() => this.abortControllers.delete(jobId))
+    });
+  }
+
+  /**
+   * Cancel a pending or running job: queued work is dropped, running work is aborted
+   * @returns the cancelled job, or undefined if the job does not exist or already finished
+   */
+  cancelJob(jobId: string): Job | undefined {
+    const job = this.store.get(jobId);
+    if (!job || this.isFinished(job)) return undefined;
+
+    if (this.queue.remove(jobId)) {
+      this.abortControllers.delete(jobId);
+    }
+
+    const cancelledJob = this.updateJob(jobId, {
+      status: JobStatus.CANCELLED,
+      completedAt: new Date()
+    });
+
+    this.abortControllers.get(jobId)?.abort(new Error(`Job '${jobId}' was cancelled`));
+    return cancelledJob;
+  }
+
+  /**
+   * Record progress reported by a running transformation
+   */
+  reportProgress(jobId: string, update: TransformProgress): void {
+    const job = this.store.get(jobId);
+    if (!job || job.status !== JobStatus.RUNNING) return;
+
+    const progress = Math.max(0, Math.min(100, Math.round(update.percentage)));
+    if (progress === job.progress && update.message === job.progressMessage) return;
+
+    this.updateJob(jobId, { progress, progressMessage: update.message });
+  }
+
+  /**
+   * Publish a piece of text generated by a streaming job. Deltas go to
+   * subscribers only; the job records the final output on completion.
+   */
+  reportDelta(jobId: string, text: string): void {
+    if (!text || this.events.listenerCount(jobId) === 0) return;
+
+    const event: JobEvent = { type: 'delta', jobId, text, timestamp: new Date() };
+    this.events.emit(jobId, event);
+  }
+
+  /**
+   * Listen for status, progress and text delta events of a job made by this process
+   * @returns a function that removes the listener
+   */
+  subscribe(jobId: string, listener: JobEventListener): () => void {
+    this.events.on(jobId, listener);
+    return () => {
+      this.events.off(jobId, listener);
+    };
+  }
+
+  isCancelled(jobId: string): boolean {
+    return this.store.get(jobId)?.status === JobStatus.CANCELLED;
+  }
+
+  isFinished(job: Job): boolean {
+    return TERMINAL_STATUSES.includes(job.status);
+  }
+
+  /**
+   * Zero-based position of a pending job in the queue, or undefined if it is not queued
+   */
+  getQueuePosition(jobId: string): number | undefined {
+    const position = this.queue.getPosition(jobId);
+    return position === -1 ? undefined : position;
+  }
+
+  getQueue(): JobQueue {
+    return this.queue;
+  }
+
+  getAssetStore(): AssetStore {
+    return this.assets;
+  }
+
   getJob(id: string): Job | undefined {
-    return this.jobs.get(id);
+    return this.store.get(id);
   }
 
   updateJob(id: string, updates: Partial<Job>): Job | undefined {
-    const job = this.jobs.get(id);
+    const job = this.store.get(id);
     if (!job) return undefined;
 
     const updatedJob = {
@@ -102,25 +362,94 @@ class JobManager {
       updatedAt: new Date()
     };
 
-    this.jobs.set(id, updatedJob);
+    this.store.save(updatedJob);
+    this.emitChanges(job, updatedJob);
+    this.notifyWebhook(job, updatedJob);
     return updatedJob;
   }
 
+  /**
+   * Update the state of one step of a pipeline job
+   */
+  updatePipelineStep(jobId: string, index: number, updates: Partial<PipelineStepState>): Job | undefined {
+    const job = this.store.get(jobId);
+    if (!job?.steps?.[index]) return undefined;
+
+    const steps = job.steps.map(step => step.index === index ? { ...step, ...updates } : step);
+    return this.updateJob(jobId, { steps });
+  }
+
   getAllJobs(): Job[] {
-    return Array.from(this.jobs.values());
+    return this.store.list();
   }
 
   getJobsByStatus(status: JobStatus): Job[] {
     return this.getAllJobs().filter(job => job.status === status);
   }
 
-  cleanup(maxAge: number = 24 * 60 * 60 * 1000): void {
+  /**
+   * Number of pending or running jobs created with an API key
+   */
+  countActiveJobs(apiKeyId: string): number {
+    return this.getAllJobs().filter(job => job.apiKeyId === apiKeyId && !this.isFinished(job)).length;
+  }
+
+  /**
+   * Delete old finished jobs, release the assets they referenced and collect
+   * assets that are no longer referenced
+   */
+  async cleanup(maxAge: number = DEFAULT_JOB_MAX_AGE_MS): Promise<void> {
     const cutoff = new Date(Date.now() - maxAge);
-    for (const [id, job] of this.jobs.entries()) {
+    for (const job of this.store.list()) {
       if (job.updatedAt < cutoff && job.status !== JobStatus.RUNNING) {
-        this.jobs.delete(id);
+        this.store.delete(job.id);
+        const outputs = [job.output, ...(job.steps || []).map(step => step.output)];
+        for (const assetId of new Set(outputs.map(output => output?.metadata?.assetId).filter(Boolean))) {
+          await this.assets.removeReference(assetId, `job:${job.id}`);
+        }
       }
     }
+
+    const { deleted, freedBytes } = await this.assets.collectGarbage();
+    if (deleted.length > 0) {
+      console.log(`[JobManager] Collected ${deleted.length} unreferenced assets (${freedBytes} bytes)`);
+    }
+  }
+
+  /**
+   * Persist a produced Image, Audio or Video in the asset store, referenced by
+   * the job. The output's metadata gains the assetId (and a durable localPath
+   * when the store is on local disk) so downloads survive temp file cleanup
+   * and restarts. Storage failures are logged and leave the output unchanged.
+   */
+  async storeOutput<T>(jobId: string, output: T): Promise<T> {
+    const role = output as any;
+    const roleType = getRoleType(role);
+    if (roleType !== 'image' && roleType !== 'audio' && roleType !== 'video') return output;
+    if (role.metadata?.assetId) return output;
+
+    const localPath: string | undefined = role.metadata?.localPath;
+    try {
+      const data: Buffer | undefined = Buffer.isBuffer(role.data) && role.data.length > 0
+        ? role.data
+        : localPath && fs.existsSync(localPath) ? fs.readFileSync(localPath) : undefined;
+      if (!data) return output;
+
+      const extension = role.format || role.metadata?.format || (localPath && path.extname(localPath).slice(1)) || 'bin';
+      const asset = await this.assets.put(data, {
+        extension,
+        contentType: getAssetContentType(extension),
+        reference: `job:${jobId}`
+      });
+
+      role.metadata = Object.assign(role.metadata || {}, {
+        assetId: asset.id,
+        localPath: this.assets.getLocalPath(asset) || localPath
+      });
+    } catch (error) {
+      console.warn(`[JobManager] Failed to store output of job ${jobId}:`, error instanceof Error ? error.message : error);
+    }
+    return output;
   }
 
   /**
@@ -150,12 +479,14 @@ class JobManager {
 
     // Add the original source (no generation_prompt)
     if (currentAsset && stepNumber <= maxDepth) {
+      // Conversations are summarized by their transcript
+      const content = getRoleType(currentAsset) === 'conversation' ? currentAsset.toTranscript() : currentAsset.content;
       chain.push({
         step: stepNumber,
         asset_type: currentAsset.constructor?.name || 'Unknown',
         timestamp: currentAsset.metadata?.createdAt || new Date(),
-        content: typeof currentAsset.content === 'string' ? 
-          currentAsset.content.substring(0, 100) + (currentAsset.content.length > 100 ? '...' : '') : 
+        content: typeof content === 'string' ? 
+          content.substring(0, 100) + (content.length > 100 ? '...' : '') : 
           '[Binary data]'
       });
     }
@@ -206,13 +537,29 @@ class JobManager {
     return urls;
   }
 
+  /**
+   * Generate the download URL of an intermediate pipeline output
+   */
+  generateStepUrls(jobId: string, index: number, asset: any): JobAssetUrls | undefined {
+    if (asset.constructor.name === 'Text') {
+      return undefined;
+    }
+
+    return {
+      primary: `/api/v1/jobs/${jobId}/download?step=${index}`
+    };
+  }
+
   /**
    * Complete a job with the output asset and automatic chain/URL generation
    */
   completeJobWithAsset(jobId: string, output: any, processingTime?: number): Job | undefined {
-    const job = this.jobs.get(jobId);
+    const job = this.store.get(jobId);
     if (!job) return undefined;
 
+    // A model that ignored the abort signal must not resurrect a cancelled job
+    if (job.status === JobStatus.CANCELLED) return job;
+
     const generation_chain = this.extractGenerationChain(output);
     const urls = this.generateAssetUrls(jobId, output);
 
@@ -223,13 +570,62 @@ class JobManager {
       generation_chain,
       urls,
       processingTime,
+      progress: 100,
       completedAt: new Date(),
       updatedAt: new Date()
     };
 
-    this.jobs.set(jobId, updatedJob);
+    this.store.save(updatedJob);
+    this.emitChanges(job, updatedJob);
+    this.notifyWebhook(job, updatedJob);
     return updatedJob;
   }
+
+  /**
+   * POST the job to its webhook when it reaches a notifiable final status.
+   * Delivery runs in the background and every attempt is logged on the job.
+   */
+  private notifyWebhook(previous: Job, current: Job): void {
+    const event = WEBHOOK_EVENTS[current.status];
+    if (!current.webhook || !event || current.status === previous.status) return;
+
+    this.webhooks
+      .dispatch(current.webhook, current, event, delivery => {
+        const deliveries = [...(this.store.get(current.id)?.webhookDeliveries || []), delivery];
+        this.updateJob(current.id, { webhookDeliveries: deliveries.slice(-MAX_WEBHOOK_DELIVERIES) });
+      })
+      .catch(error => console.error(`[JobManager] Webhook dispatch failed for job ${current.id}:`, error));
+  }
+
+  /**
+   * Notify subscribers about progress and status differences between two job versions
+   */
+  private emitChanges(previous: Job, current: Job): void {
+    if (this.events.listenerCount(current.id) === 0) return;
+
+    if (current.progress !== undefined &&
+        (current.progress !== previous.progress || current.progressMessage !== previous.progressMessage)) {
+      const event: JobEvent = {
+        type: 'progress',
+        jobId: current.id,
+        progress: current.progress,
+        message: current.progressMessage,
+        timestamp: current.updatedAt
+      };
+      this.events.emit(current.id, event);
+    }
+
+    if (current.status !== previous.status) {
+      const event: JobEvent = {
+        type: 'status',
+        jobId: current.id,
+        status: current.status,
+        error: current.error,
+        timestamp: current.updatedAt
+      };
+      this.events.emit(current.id, event);
+    }
+  }
 }
 
 export default JobManager;
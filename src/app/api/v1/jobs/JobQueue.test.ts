@@ -0,0 +1,111 @@
+/**
+ * JobQueue Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { JobQueue, parseProviderLimits } from './JobQueue';
+import { getProviderJobCounts } from '../../../../media/registry/ProviderLoad';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('JobQueue', () => {
+  it('should respect the global concurrency limit', async () => {
+    const queue = new JobQueue({ maxConcurrent: 2 });
+    const gates = [deferred(), deferred(), deferred()];
+    const started: string[] = [];
+
+    gates.forEach((gate, i) => queue.enqueue({
+      jobId: `job-${i}`,
+      providerId: 'queue-test-global',
+      priority: 0,
+      run: async () => { started.push(`job-${i}`); await gate.promise; }
+    }));
+    await flush();
+
+    expect(started).toEqual(['job-0', 'job-1']);
+    expect(queue.getActiveCount()).toBe(2);
+    expect(queue.getQueuedCount()).toBe(1);
+    expect(getProviderJobCounts('queue-test-global')).toEqual({ activeJobs: 2, queuedJobs: 1 });
+
+    gates[0].resolve();
+    await flush();
+    await flush();
+
+    expect(started).toEqual(['job-0', 'job-1', 'job-2']);
+    expect(queue.getQueuedCount()).toBe(0);
+  });
+
+  it('should run higher priority jobs first and skip saturated providers', async () => {
+    const queue = new JobQueue({ maxConcurrent: 2, providerLimits: { slow: 1 } });
+    const blocker = deferred();
+    const busy = deferred();
+    const started: string[] = [];
+    const task = (jobId: string, providerId: string, priority: number, gate = blocker) => ({
+      jobId,
+      providerId,
+      priority,
+      run: async () => { started.push(jobId); await gate.promise; }
+    });
+
+    // Fill both global slots
+    queue.enqueue(task('slow-1', 'slow', 0));
+    queue.enqueue(task('busy', 'other', 0, busy));
+    queue.enqueue(task('slow-2', 'slow', 10));
+    queue.enqueue(task('fast-low', 'fast', 1));
+    queue.enqueue(task('fast-high', 'fast', 5));
+    await flush();
+    expect(started).toEqual(['slow-1', 'busy']);
+
+    busy.resolve();
+    await flush();
+    await flush();
+
+    // slow-2 outranks everything but 'slow' is saturated; fast-high outranks fast-low
+    expect(started).toEqual(['slow-1', 'busy', 'fast-high']);
+    expect(queue.getPosition('slow-2')).toBe(0);
+    expect(queue.getPosition('fast-low')).toBe(1);
+
+    expect(queue.remove('fast-low')).toBe(true);
+    expect(queue.isQueued('fast-low')).toBe(false);
+    blocker.resolve();
+  });
+
+  it('should count held lanes against the provider limit and serve waiting lanes first', async () => {
+    const queue = new JobQueue({ maxConcurrent: 3, providerLimits: { 'lane-test': 1 } });
+    const release = await queue.acquireLane('lane-test');
+    expect(queue.getActiveCount('lane-test')).toBe(1);
+
+    const started: string[] = [];
+    queue.enqueue({ jobId: 'queued', providerId: 'lane-test', priority: 0, run: async () => { started.push('queued'); } });
+    const waiting = queue.acquireLane('lane-test').then(releaseNext => { started.push('lane'); return releaseNext; });
+    const controller = new AbortController();
+    const cancelled = queue.acquireLane('lane-test', controller.signal);
+    await flush();
+    expect(started).toEqual([]);
+
+    controller.abort(new Error('cancelled'));
+    await expect(cancelled).rejects.toThrow('cancelled');
+
+    release();
+    release();
+    const releaseNext = await waiting;
+    await flush();
+    expect(started).toEqual(['lane']);
+
+    releaseNext();
+    await flush();
+    expect(started).toEqual(['lane', 'queued']);
+    expect(queue.getActiveCount('lane-test')).toBe(0);
+  });
+
+  it('should parse provider limit lists', () => {
+    expect(parseProviderLimits('ffmpeg=1, fal-ai=4,bad=x')).toEqual({ ffmpeg: 1, 'fal-ai': 4 });
+    expect(parseProviderLimits(undefined)).toEqual({});
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Job Queue
+ * Bounded worker queue with global and per-provider concurrency limits and priorities
+ */
+
+import { ProviderLoadTracker } from '../../../../media/registry/ProviderLoad';
+
+export interface JobQueueOptions {
+  maxConcurrent: number;                    // Global cap on running jobs
+  providerLimits?: Record<string, number>;  // Per-provider caps (default: maxConcurrent)
+}
+
+export interface QueuedTask {
+  jobId: string;
+  providerId: string;
+  priority: number;                         // Higher runs first
+  run: () => Promise<void>;
+}
+
+interface QueueEntry extends QueuedTask {
+  sequence: number;                         // FIFO order within the same priority
+}
+
+interface LaneWaiter {
+  providerId: string;
+  grant: () => void;
+}
+
+export class JobQueue {
+  private queued: QueueEntry[] = [];
+  private active = new Map<string, QueueEntry>();
+  private lanes = new Map<string, number>();  // Provider slots held by steps of running tasks
+  private laneWaiters: LaneWaiter[] = [];
+  private sequence = 0;
+
+  constructor(private options: JobQueueOptions) {
+    if (options.maxConcurrent < 1) {
+      throw new Error(`maxConcurrent must be at least 1 (got ${options.maxConcurrent})`);
+    }
+  }
+
+  /**
+   * Add a task to the queue; it starts as soon as global and provider capacity allow
+   */
+  enqueue(task: QueuedTask): void {
+    this.queued.push({ ...task, sequence: this.sequence++ });
+    this.queued.sort((a, b) => b.priority - a.priority || a.sequence - b.sequence);
+    this.reportLoad(task.providerId);
+    this.pump();
+  }
+
+  /**
+   * Remove a task that has not started yet
+   * @returns true if the task was still queued
+   */
+  remove(jobId: string): boolean {
+    const index = this.queued.findIndex(entry => entry.jobId === jobId);
+    if (index === -1) return false;
+
+    const [entry] = this.queued.splice(index, 1);
+    this.reportLoad(entry.providerId);
+    return true;
+  }
+
+  isQueued(jobId: string): boolean {
+    return this.queued.some(entry => entry.jobId === jobId);
+  }
+
+  isActive(jobId: string): boolean {
+    return this.active.has(jobId);
+  }
+
+  /**
+   * Zero-based position among queued tasks, or -1 if not queued
+   */
+  getPosition(jobId: string): number {
+    return this.queued.findIndex(entry => entry.jobId === jobId);
+  }
+
+  getQueuedCount(providerId?: string): number {
+    return providerId
+      ? this.queued.filter(entry => entry.providerId === providerId).length
+      : this.queued.length;
+  }
+
+  getActiveCount(providerId?: string): number {
+    if (!providerId) return this.active.size;
+    let count = this.lanes.get(providerId) || 0;
+    for (const entry of this.active.values()) {
+      if (entry.providerId === providerId) count++;
+    }
+    return count;
+  }
+
+  getProviderLimit(providerId: string): number {
+    return this.options.providerLimits?.[providerId] ?? this.options.maxConcurrent;
+  }
+
+  /**
+   * Hold a provider slot from inside a running task, e.g. for one step of a
+   * pipeline, so the work counts against that provider's limit. Waits while
+   * the provider is saturated; waiting steps get freed slots before queued tasks.
+   * @returns a function that gives the slot back
+   */
+  acquireLane(providerId: string, signal?: AbortSignal): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        this.laneWaiters.splice(this.laneWaiters.indexOf(waiter), 1);
+        reject(signal!.reason);
+      };
+      const waiter: LaneWaiter = {
+        providerId,
+        grant: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.lanes.set(providerId, (this.lanes.get(providerId) || 0) + 1);
+          this.reportLoad(providerId);
+
+          let released = false;
+          resolve(() => {
+            if (released) return;
+            released = true;
+            this.releaseLane(providerId);
+          });
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.laneWaiters.push(waiter);
+      this.grantLanes(providerId);
+    });
+  }
+
+  private releaseLane(providerId: string): void {
+    const held = (this.lanes.get(providerId) || 0) - 1;
+    if (held > 0) {
+      this.lanes.set(providerId, held);
+    } else {
+      this.lanes.delete(providerId);
+    }
+    this.reportLoad(providerId);
+    this.grantLanes(providerId);
+    this.pump();
+  }
+
+  /**
+   * Hand free provider capacity to waiting steps, oldest first
+   */
+  private grantLanes(providerId: string): void {
+    while (this.getActiveCount(providerId) < this.getProviderLimit(providerId)) {
+      const index = this.laneWaiters.findIndex(waiter => waiter.providerId === providerId);
+      if (index === -1) return;
+
+      const [waiter] = this.laneWaiters.splice(index, 1);
+      waiter.grant();
+    }
+  }
+
+  /**
+   * Start as many queued tasks as the concurrency limits allow
+   */
+  private pump(): void {
+    let index = 0;
+    while (index < this.queued.length && this.active.size < this.options.maxConcurrent) {
+      const entry = this.queued[index];
+      if (this.getActiveCount(entry.providerId) >= this.getProviderLimit(entry.providerId)) {
+        // Provider is saturated - let lower-priority work for other providers through
+        index++;
+        continue;
+      }
+
+      this.queued.splice(index, 1);
+      this.start(entry);
+    }
+  }
+
+  private start(entry: QueueEntry): void {
+    this.active.set(entry.jobId, entry);
+    this.reportLoad(entry.providerId);
+
+    Promise.resolve()
+      .then(() => entry.run())
+      .catch(error => {
+        // Tasks record their own failures on the job; this only guards the queue
+        console.error(`[JobQueue] Job ${entry.jobId} failed:`, error instanceof Error ? error.message : error);
+      })
+      .finally(() => {
+        this.active.delete(entry.jobId);
+        this.reportLoad(entry.providerId);
+        this.grantLanes(entry.providerId);
+        this.pump();
+      });
+  }
+
+  private reportLoad(providerId: string): void {
+    ProviderLoadTracker.getInstance().setCounts(providerId, {
+      activeJobs: this.getActiveCount(providerId),
+      queuedJobs: this.getQueuedCount(providerId)
+    });
+  }
+}
+
+/**
+ * Parse a provider limit list such as "ffmpeg=1,fal-ai=4"
+ */
+export function parseProviderLimits(value?: string): Record<string, number> {
+  const limits: Record<string, number> = {};
+  if (!value) return limits;
+
+  for (const pair of value.split(',')) {
+    const [providerId, limit] = pair.split('=').map(part => part.trim());
+    const parsed = parseInt(limit, 10);
+    if (providerId && parsed > 0) {
+      limits[providerId] = parsed;
+    }
+  }
+  return limits;
+}
+
+/**
+ * Create the queue configured by the environment:
+ * - MEDIACONDUIT_MAX_CONCURRENT_JOBS: global cap (default: 4)
+ * - MEDIACONDUIT_PROVIDER_CONCURRENCY: per-provider caps, e.g. "ffmpeg=1,fal-ai=4"
+ */
+export function createJobQueue(): JobQueue {
+  return new JobQueue({
+    maxConcurrent: parseInt(process.env.MEDIACONDUIT_MAX_CONCURRENT_JOBS || '4', 10) || 4,
+    providerLimits: parseProviderLimits(process.env.MEDIACONDUIT_PROVIDER_CONCURRENCY)
+  });
+}
@@ -0,0 +1,78 @@
+/**
+ * JobStore Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileJobStore } from './JobStore';
+import { JobStatus } from '../../../../media/types/provider';
+import type { Job } from './JobManager';
+
+// Jobs are written to a real temporary directory
+vi.mock('fs', async (importOriginal) => await importOriginal());
+
+function createJob(id: string): Job {
+  return {
+    id,
+    providerId: 'store-test',
+    modelId: 'model',
+    capability: 'text-to-text',
+    input: 'input',
+    status: JobStatus.PENDING,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+}
+
+describe('FileJobStore', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'jobstore-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should treat invalid job IDs as missing', () => {
+    const store = new FileJobStore(path.join(root, 'jobs'));
+
+    expect(store.get('../etc')).toBeUndefined();
+    expect(store.get('a b')).toBeUndefined();
+    store.delete('..');
+    expect(fs.existsSync(root)).toBe(true);
+  });
+
+  it('should list jobs and skip stray directory entries', () => {
+    const jobsDir = path.join(root, 'jobs');
+    const store = new FileJobStore(jobsDir);
+    store.save(createJob('job-1'));
+    fs.writeFileSync(path.join(jobsDir, '.DS_Store'), '');
+    fs.mkdirSync(path.join(jobsDir, 'empty'));
+
+    expect(store.list().map(job => job.id)).toEqual(['job-1']);
+    expect(new FileJobStore(jobsDir).get('job-1')?.status).toBe(JobStatus.PENDING);
+  });
+
+  it('should keep progress-only updates in memory until the next full write', () => {
+    const jobsDir = path.join(root, 'jobs');
+    const store = new FileJobStore(jobsDir);
+    const job = { ...createJob('job-2'), status: JobStatus.RUNNING, input: Buffer.from('audio') };
+    store.save(job);
+    const jobFile = path.join(jobsDir, 'job-2', 'job.json');
+    const written = fs.readFileSync(jobFile, 'utf-8');
+
+    store.save({ ...job, progress: 40, progressMessage: 'Encoding', updatedAt: new Date() });
+    expect(fs.readFileSync(jobFile, 'utf-8')).toBe(written);
+    expect(store.get('job-2')?.progress).toBe(40);
+
+    store.save({ ...store.get('job-2')!, status: JobStatus.COMPLETED });
+    const reloaded = new FileJobStore(jobsDir).get('job-2');
+    expect(reloaded?.status).toBe(JobStatus.COMPLETED);
+    expect(reloaded?.progress).toBe(40);
+    expect(reloaded?.input).toEqual(Buffer.from('audio'));
+  });
+});
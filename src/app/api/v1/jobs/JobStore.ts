@@ -0,0 +1,202 @@
+/**
+ * Job Stores
+ * Pluggable persistence for JobManager so jobs survive restarts and can be shared between instances
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import type { Job } from './JobManager';
+import { BlobSink, serializeValue, deserializeValue } from '../../../../media/utils/RoleSerializer';
+
+export interface JobStore {
+  get(id: string): Job | undefined;
+  save(job: Job): void;
+  delete(id: string): void;
+  list(): Job[];
+}
+
+// Fields a progress report changes. Saves that change nothing else are written
+// at most once per PROGRESS_WRITE_INTERVAL_MS; the next full save includes them.
+const PROGRESS_FIELDS = new Set(['progress', 'progressMessage', 'updatedAt']);
+const PROGRESS_WRITE_INTERVAL_MS = 1000;
+
+/**
+ * Process-local store - jobs are lost when the server restarts
+ */
+export class InMemoryJobStore implements JobStore {
+  private jobs = new Map<string, Job>();
+
+  get(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  save(job: Job): void {
+    this.jobs.set(job.id, job);
+  }
+
+  delete(id: string): void {
+    this.jobs.delete(id);
+  }
+
+  list(): Job[] {
+    return Array.from(this.jobs.values());
+  }
+}
+
+/**
+ * Durable store writing one JSON document per job plus content-addressed blobs
+ * for binary role data:
+ *
+ *   <root>/<jobId>/job.json
+ *   <root>/<jobId>/blobs/<sha256>.<ext>
+ *
+ * Reads are cached and re-validated against the file mtime, so several server
+ * instances pointed at the same directory see each other's updates. Progress
+ * reaches other instances with up to PROGRESS_WRITE_INTERVAL_MS delay.
+ */
+export class FileJobStore implements JobStore {
+  private cache = new Map<string, { job: Job; mtimeMs: number }>();
+  // Hashes of Buffers already stored, so re-saving a job does not re-hash its media
+  private blobHashes = new WeakMap<Buffer, string>();
+
+  constructor(private readonly rootDir: string) {
+    fs.mkdirSync(rootDir, { recursive: true });
+  }
+
+  get(id: string): Job | undefined {
+    // Unknown IDs from a request path are answered like missing jobs
+    if (!isValidJobId(id)) return undefined;
+    const jobFile = this.getJobFile(id);
+
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(jobFile).mtimeMs;
+    } catch {
+      this.cache.delete(id);
+      return undefined;
+    }
+
+    const cached = this.cache.get(id);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.job;
+    }
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(jobFile, 'utf-8'));
+      const job = deserializeValue(raw, this.createBlobSink(id)) as Job;
+      this.cache.set(id, { job, mtimeMs });
+      return job;
+    } catch (error) {
+      console.warn(`[FileJobStore] Failed to read job ${id}:`, error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  save(job: Job): void {
+    const cached = this.cache.get(job.id);
+    if (cached && Date.now() - cached.mtimeMs < PROGRESS_WRITE_INTERVAL_MS && isProgressUpdate(cached.job, job)) {
+      this.cache.set(job.id, { job, mtimeMs: cached.mtimeMs });
+      return;
+    }
+
+    const jobFile = this.getJobFile(job.id);
+    fs.mkdirSync(path.dirname(jobFile), { recursive: true });
+
+    const serialized = serializeValue(job, this.createBlobSink(job.id));
+
+    // Write to a temp file and rename so readers never see a partial document
+    const tempFile = `${jobFile}.${process.pid}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(serialized));
+    fs.renameSync(tempFile, jobFile);
+
+    this.cache.set(job.id, { job, mtimeMs: fs.statSync(jobFile).mtimeMs });
+  }
+
+  delete(id: string): void {
+    if (!isValidJobId(id)) return;
+    this.cache.delete(id);
+    fs.rmSync(path.join(this.rootDir, id), { recursive: true, force: true });
+  }
+
+  list(): Job[] {
+    let ids: string[];
+    try {
+      ids = fs.readdirSync(this.rootDir);
+    } catch {
+      return [];
+    }
+
+    // Stray entries (editor files, temp directories) are skipped
+    return ids
+      .filter(isValidJobId)
+      .map(id => this.get(id))
+      .filter((job): job is Job => job !== undefined);
+  }
+
+  private getJobFile(id: string): string {
+    if (!isValidJobId(id)) {
+      throw new Error(`Invalid job ID: ${id}`);
+    }
+    return path.join(this.rootDir, id, 'job.json');
+  }
+
+  private createBlobSink(jobId: string): BlobSink {
+    const blobDir = path.join(this.rootDir, jobId, 'blobs');
+
+    return {
+      write: (data: Buffer, extension: string) => {
+        const hash = this.blobHashes.get(data) ?? crypto.createHash('sha256').update(data).digest('hex');
+        const ref = `${hash}.${extension.replace(/[^\w]/g, '') || 'bin'}`;
+        const blobPath = path.join(blobDir, ref);
+        if (!fs.existsSync(blobPath)) {
+          fs.mkdirSync(blobDir, { recursive: true });
+          fs.writeFileSync(blobPath, data);
+        }
+        this.blobHashes.set(data, hash);
+        return ref;
+      },
+      read: (ref: string) => {
+        const data = fs.readFileSync(path.join(blobDir, path.basename(ref)));
+        this.blobHashes.set(data, path.basename(ref).split('.')[0]);
+        return data;
+      },
+      resolvePath: (ref: string) => path.join(blobDir, path.basename(ref))
+    };
+  }
+}
+
+/**
+ * Whether a save only records progress, compared with the job as last saved
+ */
+function isProgressUpdate(previous: Job, next: Job): boolean {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]) as Set<keyof Job>;
+  return Array.from(keys).every(key => PROGRESS_FIELDS.has(key) || previous[key] === next[key]);
+}
+
+/**
+ * Job IDs are generated UUIDs; anything else could escape the store's root
+ */
+function isValidJobId(id: string): boolean {
+  return /^[\w-]+$/.test(id);
+}
+
+/**
+ * Create the job store selected by the environment:
+ * - MEDIACONDUIT_JOB_STORE: 'file' (default) or 'memory'
+ * - MEDIACONDUIT_JOB_STORE_PATH: directory for the file store (default: .mediaconduit/jobs)
+ */
+export function createJobStore(): JobStore {
+  const type = process.env.MEDIACONDUIT_JOB_STORE || 'file';
+
+  switch (type) {
+    case 'memory':
+      return new InMemoryJobStore();
+    case 'file':
+      return new FileJobStore(
+        process.env.MEDIACONDUIT_JOB_STORE_PATH || path.join(process.cwd(), '.mediaconduit', 'jobs')
+      );
+    default:
+      throw new Error(`Unknown job store type: ${type} (expected 'file' or 'memory')`);
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * WebhookDispatcher Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// Hostnames resolve to a public address unless a test says otherwise
+const dns = vi.hoisted(() => ({ lookup: vi.fn(async (_hostname: string, _options: any) => [{ address: '93.184.216.34', family: 4 }]) }));
+vi.mock('dns/promises', () => ({ ...dns, default: dns }));
+
+import {
+  WebhookDispatcher,
+  WebhookDelivery,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  createWebhookPayload,
+  isAllowedWebhookHost,
+  verifyWebhookSignature
+} from './WebhookDispatcher';
+import type { Job } from './JobManager';
+import { JobStatus } from '../../../../media/types/provider';
+
+const job: Job = {
+  id: 'job-1',
+  providerId: 'fal-ai',
+  modelId: 'flux',
+  capability: 'text-to-image',
+  status: JobStatus.COMPLETED,
+  input: 'a red fox',
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  updatedAt: new Date('2025-01-01T00:00:05Z'),
+  urls: { primary: '/api/v1/jobs/job-1/download' },
+  generation_chain: []
+};
+
+function createFetch(statuses: number[]) {
+  const calls: { url: string; init: RequestInit }[] = [];
+  const fetchImpl = (async (url: string, init: RequestInit) => {
+    calls.push({ url, init });
+    const status = statuses[Math.min(calls.length - 1, statuses.length - 1)];
+    return new Response(null, { status });
+  }) as unknown as typeof fetch;
+  return { calls, fetchImpl };
+}
+
+describe('WebhookDispatcher', () => {
+  it('should send a signed payload with the job, chain and urls', async () => {
+    const { calls, fetchImpl } = createFetch([200]);
+    const dispatcher = new WebhookDispatcher({ maxAttempts: 3, baseDelayMs: 0, timeoutMs: 1000, fetch: fetchImpl });
+
+    const delivered = await dispatcher.dispatch({ url: 'https://example.com/hook', secret: 's3cret' }, job, 'job.completed');
+
+    expect(delivered).toBe(true);
+    const headers = calls[0].init.headers as Record<string, string>;
+    const body = calls[0].init.body as string;
+    expect(verifyWebhookSignature(body, 's3cret', headers[TIMESTAMP_HEADER], headers[SIGNATURE_HEADER])).toBe(true);
+    expect(verifyWebhookSignature(body, 'wrong', headers[TIMESTAMP_HEADER], headers[SIGNATURE_HEADER])).toBe(false);
+
+    const payload = JSON.parse(body);
+    expect(payload.event).toBe('job.completed');
+    expect(payload.job.jobId).toBe('job-1');
+    expect(payload.job.urls.primary).toBe('/api/v1/jobs/job-1/download');
+    expect(payload.job.generation_chain).toEqual([]);
+  });
+
+  it('should retry server errors and log every attempt', async () => {
+    const { calls, fetchImpl } = createFetch([503, 500, 204]);
+    const dispatcher = new WebhookDispatcher({ maxAttempts: 5, baseDelayMs: 0, timeoutMs: 1000, fetch: fetchImpl });
+    const deliveries: WebhookDelivery[] = [];
+
+    const delivered = await dispatcher.dispatch({ url: 'https://example.com/hook' }, job, 'job.completed', d => deliveries.push(d));
+
+    expect(delivered).toBe(true);
+    expect(calls).toHaveLength(3);
+    expect(deliveries.map(d => [d.attempt, d.statusCode, d.success])).toEqual([
+      [1, 503, false],
+      [2, 500, false],
+      [3, 204, true]
+    ]);
+  });
+
+  it('should not retry client errors', async () => {
+    const { calls, fetchImpl } = createFetch([404]);
+    const dispatcher = new WebhookDispatcher({ maxAttempts: 5, baseDelayMs: 0, timeoutMs: 1000, fetch: fetchImpl });
+
+    expect(await dispatcher.dispatch({ url: 'https://example.com/hook' }, job, 'job.failed')).toBe(false);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('should refuse private hosts without calling them or following redirects', async () => {
+    const { calls, fetchImpl } = createFetch([302]);
+    const dispatcher = new WebhookDispatcher({ maxAttempts: 5, baseDelayMs: 0, timeoutMs: 1000, fetch: fetchImpl });
+    const deliveries: WebhookDelivery[] = [];
+
+    expect(await dispatcher.dispatch({ url: 'http://169.254.169.254/latest' }, job, 'job.completed', d => deliveries.push(d))).toBe(false);
+    expect(calls).toHaveLength(0);
+    expect(deliveries).toEqual([expect.objectContaining({ attempt: 1, success: false })]);
+    expect(deliveries[0].error).toMatch(/private address/);
+
+    dns.lookup.mockResolvedValueOnce([{ address: '10.0.0.5', family: 4 }]);
+    expect(await isAllowedWebhookHost('https://internal.example.com/hook')).toBe(false);
+    expect(await isAllowedWebhookHost('https://example.com/hook')).toBe(true);
+
+    expect(await dispatcher.dispatch({ url: 'https://example.com/hook' }, job, 'job.completed')).toBe(false);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].init.redirect).toBe('manual');
+  });
+
+  it('should leave the input assets in text metadata out of the payload', () => {
+    class Text {
+      constructor(public content: string, public metadata: any) {}
+    }
+    const metadata: any = { model: 'gpt-4o', provider: 'openai', generation_prompt: { input: { data: Buffer.alloc(1024) } } };
+    metadata.generation_prompt.input.parent = metadata;
+
+    const payload = createWebhookPayload({ ...job, output: new Text('a fox', metadata) }, 'job.completed');
+
+    expect(payload.job.output).toEqual({ type: 'text', content: 'a fox', metadata: { model: 'gpt-4o', provider: 'openai', processingTime: undefined } });
+    expect(() => JSON.stringify(payload)).not.toThrow();
+  });
+});
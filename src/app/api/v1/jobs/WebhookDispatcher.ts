@@ -0,0 +1,235 @@
+/**
+ * Webhook Dispatcher
+ * Delivers signed job notifications to caller-supplied URLs with retry and backoff
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { Job } from './JobManager';
+import { isPrivateHost } from '../PrivateHosts';
+
+export type WebhookEvent = 'job.completed' | 'job.failed';
+
+export interface JobWebhook {
+  url: string;
+  secret?: string;            // HMAC-SHA256 signing key; never returned by the API
+}
+
+export interface WebhookDelivery {
+  event: WebhookEvent;
+  attempt: number;
+  timestamp: Date;
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDispatcherOptions {
+  maxAttempts: number;        // Total attempts including the first
+  baseDelayMs: number;        // Backoff before attempt n is baseDelayMs * 2^(n-2)
+  timeoutMs: number;          // Per-attempt request timeout
+  fetch?: typeof fetch;
+}
+
+export const SIGNATURE_HEADER = 'X-MediaConduit-Signature';
+export const TIMESTAMP_HEADER = 'X-MediaConduit-Timestamp';
+export const EVENT_HEADER = 'X-MediaConduit-Event';
+
+/**
+ * Sign a payload as `sha256=<hex HMAC of "<timestamp>.<body>">`
+ */
+export function signWebhookPayload(body: string, secret: string, timestamp: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Verify a signature produced by signWebhookPayload (for receivers)
+ */
+export function verifyWebhookSignature(body: string, secret: string, timestamp: string, signature: string): boolean {
+  const expected = Buffer.from(signWebhookPayload(body, secret, timestamp));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Accept either a URL string or { url, secret } for completion callbacks
+ */
+export function parseWebhook(value: any): JobWebhook | undefined {
+  const config = typeof value === 'string' ? { url: value } : value;
+  if (!config || typeof config.url !== 'string') return undefined;
+  if (config.secret !== undefined && typeof config.secret !== 'string') return undefined;
+
+  try {
+    const url = new URL(config.url);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return undefined;
+  } catch {
+    return undefined;
+  }
+
+  return { url: config.url, secret: config.secret };
+}
+
+/**
+ * Whether webhooks may be sent to the URL's host. Hosts on loopback, private and
+ * link-local addresses are refused unless MEDIACONDUIT_ALLOW_PRIVATE_WEBHOOK_URLS=true.
+ * DNS errors are thrown.
+ */
+export async function isAllowedWebhookHost(url: string): Promise<boolean> {
+  if (process.env.MEDIACONDUIT_ALLOW_PRIVATE_WEBHOOK_URLS === 'true') return true;
+  return !(await isPrivateHost(new URL(url)));
+}
+
+/**
+ * Build the JSON payload describing a finished job
+ */
+export function createWebhookPayload(job: Job, event: WebhookEvent) {
+  const output = job.output;
+
+  return {
+    event,
+    timestamp: new Date().toISOString(),
+    job: {
+      jobId: job.id,
+      status: job.status,
+      providerId: job.providerId,
+      modelId: job.modelId,
+      capability: job.capability,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt,
+      processingTime: job.processingTime,
+      output: output?.constructor?.name === 'Text' ? {
+        type: 'text',
+        content: output.content,
+        // The full metadata can hold the input assets; their lineage is in generation_chain
+        metadata: {
+          model: output.metadata?.model,
+          provider: output.metadata?.provider,
+          processingTime: output.metadata?.processingTime
+        }
+      } : output ? {
+        type: output.constructor.name.toLowerCase(),
+        format: output.format,
+        metadata: {
+          fileSize: output.metadata?.fileSize,
+          duration: output.metadata?.duration,
+          dimensions: output.metadata?.dimensions
+        }
+      } : undefined,
+      generation_chain: job.generation_chain,
+      steps: job.steps?.map(step => ({
+        index: step.index,
+        providerId: step.providerId,
+        modelId: step.modelId,
+        capability: step.capability,
+        status: step.status,
+        processingTime: step.processingTime,
+        urls: step.urls,
+        error: step.error
+      })),
+      attempts: job.attempts,
+      urls: job.urls,
+      error: job.error
+    }
+  };
+}
+
+export class WebhookDispatcher {
+  private fetchImpl: typeof fetch;
+
+  constructor(private options: WebhookDispatcherOptions) {
+    this.fetchImpl = options.fetch || fetch;
+  }
+
+  /**
+   * POST the job payload, retrying network errors, 429 and 5xx responses with
+   * exponential backoff. Redirects are not followed and private hosts are
+   * refused (see isAllowedWebhookHost). Every attempt is passed to onDelivery.
+   * @returns true once a 2xx response is received
+   */
+  async dispatch(
+    webhook: JobWebhook,
+    job: Job,
+    event: WebhookEvent,
+    onDelivery: (delivery: WebhookDelivery) => void = () => {}
+  ): Promise<boolean> {
+    // The same body and signature are sent on every attempt so receivers can deduplicate
+    const body = JSON.stringify(createWebhookPayload(job, event));
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'MediaConduit-Webhook/1.0',
+      [EVENT_HEADER]: event,
+      [TIMESTAMP_HEADER]: timestamp
+    };
+    if (webhook.secret) {
+      headers[SIGNATURE_HEADER] = signWebhookPayload(body, webhook.secret, timestamp);
+    }
+
+    for (let attempt = 1; attempt <= this.options.maxAttempts; attempt++) {
+      if (attempt > 1) {
+        const delay = this.options.baseDelayMs * Math.pow(2, attempt - 2);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+
+      const startTime = Date.now();
+      let retryable = true;
+
+      try {
+        // Checked on every attempt since the host may resolve elsewhere by then
+        if (!(await isAllowedWebhookHost(webhook.url))) {
+          retryable = false;
+          throw new Error(`Webhook host '${new URL(webhook.url).hostname}' resolves to a private address`);
+        }
+
+        const response = await this.fetchImpl(webhook.url, {
+          method: 'POST',
+          headers,
+          body,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(this.options.timeoutMs)
+        });
+
+        onDelivery({
+          event,
+          attempt,
+          timestamp: new Date(),
+          success: response.ok,
+          statusCode: response.status,
+          error: response.ok ? undefined : `HTTP ${response.status} ${response.statusText}`.trim(),
+          durationMs: Date.now() - startTime
+        });
+
+        if (response.ok) return true;
+        retryable = response.status === 429 || response.status >= 500;
+      } catch (error) {
+        onDelivery({
+          event,
+          attempt,
+          timestamp: new Date(),
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          durationMs: Date.now() - startTime
+        });
+      }
+
+      if (!retryable) break;
+    }
+
+    console.warn(`[WebhookDispatcher] Giving up on ${event} webhook for job ${job.id}`);
+    return false;
+  }
+}
+
+/**
+ * Create the dispatcher configured by the environment:
+ * - MEDIACONDUIT_WEBHOOK_MAX_ATTEMPTS: attempts per notification (default: 5)
+ * - MEDIACONDUIT_WEBHOOK_TIMEOUT_MS: per-attempt timeout (default: 10000)
+ */
+export function createWebhookDispatcher(): WebhookDispatcher {
+  return new WebhookDispatcher({
+    maxAttempts: parseInt(process.env.MEDIACONDUIT_WEBHOOK_MAX_ATTEMPTS || '5', 10) || 5,
+    baseDelayMs: 1000,
+    timeoutMs: parseInt(process.env.MEDIACONDUIT_WEBHOOK_TIMEOUT_MS || '10000', 10) || 10000
+  });
+}
@@ -1,13 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
 import JobManager from '../../JobManager';
+import {
+  ByteRange,
+  createETag,
+  createFileStream,
+  getAssetCacheControl,
+  getAssetContentType,
+  getContentDisposition,
+  matchesETag,
+  parseRange
+} from '../../AssetResponse';
 import { JobStatus } from '../../../../../../media/types/provider';
 import * as fs from 'fs';
 import * as path from 'path';
+import { authenticateRequest } from '../../../auth/ApiGuard';
+import { canAccessJob } from '../../../auth/ApiAuthenticator';
+import { AssetStore } from '../../../../../../media/storage/AssetStore';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ jobId: string }> }
 ) {
+  const principal = authenticateRequest(request);
+  if (principal instanceof NextResponse) return principal;
+
   const { jobId } = await params;
   
   if (!jobId || typeof jobId !== 'string') {
@@ -24,7 +40,7 @@ export async function GET(
     const jobManager = JobManager.getInstance();
     const job = jobManager.getJob(jobId);
     
-    if (!job) {
+    if (!job || !canAccessJob(principal, job)) {
       return NextResponse.json(
         {
           success: false,
@@ -34,40 +50,58 @@ export async function GET(
       );
     }
 
-    if (job.status !== JobStatus.COMPLETED) {
+    // ?step=N selects an intermediate pipeline output instead of the final one
+    const stepParam = request.nextUrl.searchParams.get('step');
+    const step = stepParam !== null && /^\d+$/.test(stepParam) ? job.steps?.[parseInt(stepParam, 10)] : undefined;
+
+    if (stepParam !== null && !step) {
       return NextResponse.json(
         {
           success: false,
-          error: `Job '${jobId}' is not completed (status: ${job.status})`
+          error: `Job '${jobId}' has no pipeline step '${stepParam}'`
+        },
+        { status: 404 }
+      );
+    }
+
+    const label = step ? `Step ${step.index} of job '${jobId}'` : `Job '${jobId}'`;
+    const status = step ? step.status : job.status;
+    const output = step ? step.output : job.output;
+
+    if (status !== JobStatus.COMPLETED) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `${label} is not completed (status: ${status})`
         },
         { status: 400 }
       );
     }
 
-    if (!job.output) {
+    if (!output) {
       return NextResponse.json(
         {
           success: false,
-          error: `Job '${jobId}' has no output`
+          error: `${label} has no output`
         },
         { status: 404 }
       );
     }
 
     // Handle text assets (return as JSON)
-    if (job.output.constructor.name === 'Text') {
+    if (output.constructor.name === 'Text') {
       return NextResponse.json({
         type: 'text',
-        content: job.output.content,
-        metadata: job.output.metadata
+        content: output.content,
+        metadata: output.metadata
       });
     }
 
-    // Handle binary assets (stream the file)
-    const asset = job.output;
-    const localPath = asset.metadata?.localPath;
-    
-    if (!localPath || !fs.existsSync(localPath)) {
+    // Handle binary assets (stream the file, honouring Range and ETag validators)
+    const asset = output;
+    const source = await openAssetSource(jobManager.getAssetStore(), asset);
+
+    if (!source) {
       return NextResponse.json(
         {
           success: false,
@@ -77,28 +111,51 @@ export async function GET(
       );
     }
 
-    // Read the file
-    const fileBuffer = fs.readFileSync(localPath);
-    
-    // Determine content type based on asset type and format
-    let contentType = 'application/octet-stream';
-    if (asset.constructor.name === 'Image') {
-      contentType = `image/${asset.format}`;
-    } else if (asset.constructor.name === 'Audio') {
-      contentType = `audio/${asset.format}`;
-    } else if (asset.constructor.name === 'Video') {
-      contentType = `video/${asset.format}`;
+    const format = asset.format || asset.metadata?.format || source.extension;
+    const filename = `${jobId}${step ? `-step${step.index}` : ''}.${format || 'bin'}`;
+
+    const headers: Record<string, string> = {
+      'Content-Type': getAssetContentType(format),
+      'Content-Disposition': getContentDisposition(asset.constructor.name, filename, request.nextUrl.searchParams.get('download') === 'true'),
+      'Accept-Ranges': 'bytes',
+      'ETag': source.etag,
+      'Last-Modified': source.lastModified.toUTCString(),
+      'Cache-Control': getAssetCacheControl(principal)
+    };
+
+    if (matchesETag(request.headers.get('if-none-match'), source.etag)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    // A stale If-Range validator means the client's partial copy is outdated: send everything
+    const ifRange = request.headers.get('if-range');
+    const range = ifRange && ifRange !== source.etag
+      ? undefined
+      : parseRange(request.headers.get('range'), source.size);
+
+    if (range === 'unsatisfiable') {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { ...headers, 'Content-Range': `bytes */${source.size}` }
+      });
     }
 
-    // Set filename for download
-    const filename = `${jobId}.${asset.format}`;
+    // Stream from disk or the object store so large videos are never held in memory
+    if (range) {
+      return new NextResponse(await source.open(range), {
+        status: 206,
+        headers: {
+          ...headers,
+          'Content-Range': `bytes ${range.start}-${range.end}/${source.size}`,
+          'Content-Length': (range.end - range.start + 1).toString()
+        }
+      });
+    }
 
-    return new NextResponse(fileBuffer, {
+    return new NextResponse(await source.open(), {
       headers: {
-        'Content-Type': contentType,
-        'Content-Disposition': `attachment; filename="${filename}"`,
-        'Content-Length': fileBuffer.length.toString(),
-        'Cache-Control': 'public, max-age=31536000' // Cache for 1 year
+        ...headers,
+        'Content-Length': source.size.toString()
       }
     });
 
@@ -113,3 +170,47 @@ export async function GET(
     );
   }
 }
+
+interface AssetSource {
+  size: number;
+  etag: string;
+  lastModified: Date;
+  extension: string;
+  open(range?: ByteRange): Promise<ReadableStream<Uint8Array>>;
+}
+
+/**
+ * Locate the bytes of a job output: the asset store copy when the output was
+ * persisted, otherwise the file the model wrote
+ */
+async function openAssetSource(store: AssetStore, asset: any): Promise<AssetSource | undefined> {
+  const stored = asset.metadata?.assetId ? await store.stat(asset.metadata.assetId) : undefined;
+  if (stored) {
+    const storedPath = store.getLocalPath(stored);
+    return {
+      size: stored.size,
+      // Content-addressed, so the ID is a strong validator
+      etag: `"${stored.id}"`,
+      lastModified: new Date(stored.createdAt),
+      extension: stored.extension,
+      open: async range => {
+        if (storedPath) return createFileStream(storedPath, range);
+        const stream = await store.createReadStream(stored.id, range);
+        if (!stream) throw new Error(`Asset ${stored.id} disappeared from the store`);
+        return stream;
+      }
+    };
+  }
+
+  const localPath = asset.metadata?.localPath;
+  if (!localPath || !fs.existsSync(localPath)) return undefined;
+
+  const stats = fs.statSync(localPath);
+  return {
+    size: stats.size,
+    etag: createETag(stats),
+    lastModified: stats.mtime,
+    extension: path.extname(localPath).slice(1),
+    open: async range => createFileStream(localPath, range)
+  };
+}
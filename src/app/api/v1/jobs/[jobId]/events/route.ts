@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import JobManager, { Job } from '../../JobManager';
+import { createJobEventStream, EVENT_STREAM_HEADERS } from '../../JobEventStream';
+import { authenticateRequest } from '../../../auth/ApiGuard';
+import { canAccessJob } from '../../../auth/ApiAuthenticator';
+
+/**
+ * Server-Sent Events stream of a job's status transitions and progress.
+ * Emits a `status` snapshot first, then `status`/`progress` events (and
+ * `delta` events of streaming text jobs) until the job finishes or the client
+ * disconnects.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const principal = authenticateRequest(request);
+  if (principal instanceof NextResponse) return principal;
+
+  const { jobId } = await params;
+
+  if (!jobId || typeof jobId !== 'string') {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Job ID must be a string'
+      },
+      { status: 400 }
+    );
+  }
+
+  const jobManager = JobManager.getInstance();
+  const job = jobManager.getJob(jobId);
+
+  if (!job || !canAccessJob(principal, job)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Job '${jobId}' not found`
+      },
+      { status: 404 }
+    );
+  }
+
+  const stream = createJobEventStream(jobManager, jobId, request.signal, {
+    // Current state first, so late subscribers don't miss earlier transitions
+    initial: [{ event: 'status', data: createSnapshot(jobManager, job) }]
+  });
+
+  return new NextResponse(stream, { headers: EVENT_STREAM_HEADERS });
+}
+
+function createSnapshot(jobManager: JobManager, job: Job) {
+  return {
+    type: 'status',
+    jobId: job.id,
+    status: job.status,
+    progress: job.progress,
+    message: job.progressMessage,
+    queuePosition: jobManager.getQueuePosition(job.id),
+    error: job.error,
+    timestamp: job.updatedAt
+  };
+}
@@ -1,11 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import JobManager from '../../JobManager';
 import { JobStatus } from '../../../../../../media/types/provider';
+import { authenticateRequest } from '../../../auth/ApiGuard';
+import { canAccessJob } from '../../../auth/ApiAuthenticator';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ jobId: string }> }
 ) {
+  const principal = authenticateRequest(request);
+  if (principal instanceof NextResponse) return principal;
+
   const { jobId } = await params;
   
   if (!jobId || typeof jobId !== 'string') {
@@ -22,7 +27,7 @@ export async function GET(
     const jobManager = JobManager.getInstance();
     const job = jobManager.getJob(jobId);
     
-    if (!job) {
+    if (!job || !canAccessJob(principal, job)) {
       return NextResponse.json(
         {
           success: false,
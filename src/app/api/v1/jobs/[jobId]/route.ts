@@ -1,11 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import JobManager from '../JobManager';
 import { JobStatus } from '../../../../../media/types/provider';
+import { authenticateRequest } from '../../auth/ApiGuard';
+import { canAccessJob } from '../../auth/ApiAuthenticator';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ jobId: string }> }
 ) {
+  const principal = authenticateRequest(request);
+  if (principal instanceof NextResponse) return principal;
+
   const { jobId } = await params;
   
   if (!jobId || typeof jobId !== 'string') {
@@ -22,7 +27,7 @@ export async function GET(
     const jobManager = JobManager.getInstance();
     const job = jobManager.getJob(jobId);
     
-    if (!job) {
+    if (!job || !canAccessJob(principal, job)) {
       return NextResponse.json(
         {
           success: false,
@@ -38,6 +43,10 @@ export async function GET(
         jobId: job.id,
         status: job.status,
         progress: job.progress,
+        progressMessage: job.progressMessage,
+        eventsUrl: `/api/v1/jobs/${job.id}/events`,
+        priority: job.priority,
+        queuePosition: jobManager.getQueuePosition(job.id),
         createdAt: job.createdAt,
         startedAt: job.startedAt,
         completedAt: job.completedAt,
@@ -52,25 +61,39 @@ export async function GET(
         options: job.options,
         
         // Output data (inline for text, URLs for binary)
-        output: job.output?.constructor?.name === 'Text' ? {
-          type: 'text',
-          content: job.output.content,
-          metadata: job.output.metadata
-        } : job.output ? {
-          type: job.output.constructor.name.toLowerCase(),
-          format: job.output.format,
-          metadata: {
-            fileSize: job.output.metadata?.fileSize,
-            duration: job.output.metadata?.duration,
-            dimensions: job.output.metadata?.dimensions
-          }
-        } : undefined,
+        output: describeOutput(job.output),
         
         // URLs for binary assets
         urls: job.urls,
         
         // Flattened generation chain for easy consumption
         generation_chain: job.generation_chain,
+
+        // Per-step state and intermediate outputs of pipeline jobs
+        steps: job.steps?.map(step => ({
+          index: step.index,
+          providerId: step.providerId,
+          modelId: step.modelId,
+          capability: step.capability,
+          options: step.options,
+          status: step.status,
+          startedAt: step.startedAt,
+          completedAt: step.completedAt,
+          processingTime: step.processingTime,
+          output: describeOutput(step.output),
+          urls: step.urls,
+          error: step.error
+        })),
+
+        // Provider/model runs of single-model jobs; more than one means the job failed over
+        attempts: job.attempts,
+
+        // Completion callback and its delivery log (the signing secret is never returned)
+        webhook: job.webhook ? {
+          url: job.webhook.url,
+          signed: !!job.webhook.secret,
+          deliveries: job.webhookDeliveries || []
+        } : undefined,
         
         error: job.error
       }
@@ -87,10 +110,38 @@ export async function GET(
   }
 }
 
+/**
+ * Output data (inline for text, format and metadata for binary assets)
+ */
+function describeOutput(output: any) {
+  if (!output) return undefined;
+
+  if (output.constructor?.name === 'Text') {
+    return {
+      type: 'text',
+      content: output.content,
+      metadata: output.metadata
+    };
+  }
+
+  return {
+    type: output.constructor.name.toLowerCase(),
+    format: output.format,
+    metadata: {
+      fileSize: output.metadata?.fileSize,
+      duration: output.metadata?.duration,
+      dimensions: output.metadata?.dimensions
+    }
+  };
+}
+
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ jobId: string }> }
 ) {
+  const principal = authenticateRequest(request);
+  if (principal instanceof NextResponse) return principal;
+
   const { jobId } = await params;
   
   if (!jobId || typeof jobId !== 'string') {
@@ -107,7 +158,7 @@ export async function DELETE(
     const jobManager = JobManager.getInstance();
     const job = jobManager.getJob(jobId);
     
-    if (!job) {
+    if (!job || !canAccessJob(principal, job)) {
       return NextResponse.json(
         {
           success: false,
@@ -117,13 +168,27 @@ export async function DELETE(
       );
     }
 
-    if (job.status === 'running') {
-      // Update to cancelled status
-      jobManager.updateJob(jobId, { status: JobStatus.CANCELLED });
+    // Finished jobs cannot be cancelled
+    if (jobManager.isFinished(job)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Job '${jobId}' is already ${job.status}`
+        },
+        { status: 409 }
+      );
     }
 
+    // Drops the job from the queue, or aborts the running transformation
+    const cancelledJob = jobManager.cancelJob(jobId);
+
     return NextResponse.json({
       success: true,
+      data: {
+        jobId,
+        status: cancelledJob?.status ?? JobStatus.CANCELLED,
+        completedAt: cancelledJob?.completedAt
+      },
       message: `Job '${jobId}' cancelled`
     });
   } catch (error) {
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import JobManager from '../../../JobManager';
+import { DerivativeError, DerivativeRenderer } from '../../../DerivativeRenderer';
+import { getAssetCacheControl } from '../../../AssetResponse';
+import { authenticateRequest } from '../../../../auth/ApiGuard';
+import { canAccessJob } from '../../../../auth/ApiAuthenticator';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string; size: string }> }
+) {
+  const principal = authenticateRequest(request);
+  if (principal instanceof NextResponse) return principal;
+
+  const { jobId, size } = await params;
+
+  if (!jobId || typeof jobId !== 'string' || !size || typeof size !== 'string') {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Job ID and size must be strings'
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const job = JobManager.getInstance().getJob(jobId);
+
+    if (!job || !canAccessJob(principal, job)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Job '${jobId}' not found`
+        },
+        { status: 404 }
+      );
+    }
+
+    // Rendered through FFmpeg on first request, then served from the derivative cache
+    const derivative = await DerivativeRenderer.getInstance().renderThumbnail(job, size);
+
+    return new NextResponse(derivative.data, {
+      headers: {
+        'Content-Type': derivative.contentType,
+        'Content-Disposition': `inline; filename="${jobId}-thumbnail-${size}.${derivative.extension}"`,
+        'Content-Length': derivative.data.length.toString(),
+        'Cache-Control': getAssetCacheControl(principal),
+        'X-Cache': derivative.cached ? 'HIT' : 'MISS'
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof DerivativeError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Thumbnail rendering error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to render thumbnail: ${error instanceof Error ? error.message : 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * ModelQuery Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ModelQueryError, parseModelQuery } from './ModelQuery';
+
+describe('parseModelQuery', () => {
+  it('should parse filters and pagination', () => {
+    const query = parseModelQuery(new URLSearchParams(
+      'capability=audio-to-text&inputFormat=mp3&type=local&maxCost=0.01&available=true&q=whisper&limit=20&offset=40'
+    ));
+
+    expect(query).toMatchObject({
+      capability: 'audio-to-text',
+      inputFormat: 'mp3',
+      type: 'local',
+      maxCost: 0.01,
+      available: true,
+      search: 'whisper',
+      limit: 20,
+      offset: 40
+    });
+    expect(parseModelQuery(new URLSearchParams())).toEqual({});
+  });
+
+  it('should reject unknown capabilities and out-of-range numbers', () => {
+    expect(() => parseModelQuery(new URLSearchParams('capability=smell-to-text'))).toThrow(ModelQueryError);
+    expect(() => parseModelQuery(new URLSearchParams('limit=500'))).toThrow('limit must be an integer between 1 and 200');
+    expect(() => parseModelQuery(new URLSearchParams('maxCost=-1'))).toThrow('maxCost must be a number >= 0');
+    expect(() => parseModelQuery(new URLSearchParams('available=yes'))).toThrow('available must be true or false');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Model Query
+ * Parses the query string of GET /api/v1/models into a catalog query
+ */
+
+import { MediaCapability, ProviderType } from '../../../../media/types/provider';
+import { CatalogQuery, MAX_CATALOG_LIMIT } from '../../../../media/registry/ModelCatalog';
+import { ApiError } from '../ApiError';
+
+/**
+ * Invalid model search query
+ */
+export class ModelQueryError extends ApiError {
+  constructor(message: string, statusCode?: number) {
+    super(message, statusCode);
+    this.name = 'ModelQueryError';
+  }
+}
+
+/**
+ * Parse the supported query parameters:
+ * capability, inputFormat, outputFormat, type (local|remote), provider,
+ * maxCost, available (true|false), q, limit, offset
+ * @throws ModelQueryError for invalid values
+ */
+export function parseModelQuery(params: URLSearchParams): CatalogQuery {
+  const query: CatalogQuery = {};
+
+  const capability = params.get('capability');
+  if (capability) {
+    if (!Object.values(MediaCapability).includes(capability as MediaCapability)) {
+      throw new ModelQueryError(`Unknown capability '${capability}' (expected one of: ${Object.values(MediaCapability).join(', ')})`);
+    }
+    query.capability = capability as MediaCapability;
+  }
+
+  const type = params.get('type');
+  if (type) {
+    if (!Object.values(ProviderType).includes(type as ProviderType)) {
+      throw new ModelQueryError(`type must be one of: ${Object.values(ProviderType).join(', ')}`);
+    }
+    query.type = type as ProviderType;
+  }
+
+  const available = params.get('available');
+  if (available) {
+    if (available !== 'true' && available !== 'false') {
+      throw new ModelQueryError('available must be true or false');
+    }
+    query.available = available === 'true';
+  }
+
+  query.inputFormat = params.get('inputFormat') || undefined;
+  query.outputFormat = params.get('outputFormat') || undefined;
+  query.provider = params.get('provider') || undefined;
+  query.search = params.get('q') || undefined;
+  query.maxCost = parseNumber(params, 'maxCost', 0, Infinity, false);
+  query.limit = parseNumber(params, 'limit', 1, MAX_CATALOG_LIMIT, true);
+  query.offset = parseNumber(params, 'offset', 0, Infinity, true);
+
+  return query;
+}
+
+function parseNumber(params: URLSearchParams, name: string, min: number, max: number, integer: boolean): number | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw === '') return undefined;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+    const range = max === Infinity ? `>= ${min}` : `between ${min} and ${max}`;
+    throw new ModelQueryError(`${name} must be ${integer ? 'an integer' : 'a number'} ${range}`);
+  }
+  return value;
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeProviders, ProviderRegistry, resolveProviderModel } from '../../../../../../media/registry/bootstrap';
+import { collectProviderModels } from '../../../../../../media/registry/ModelCatalog';
+import { getModelOptionSchemas } from '../../../../../../media/registry/OptionSchema';
+import { authenticateRequest } from '../../../auth/ApiGuard';
+
+/**
+ * A model with the JSON Schema of its options for each capability, e.g.
+ * GET /api/v1/models/openai/tts-1
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ providerId: string; modelId: string }> }
+) {
+  const principal = authenticateRequest(request);
+  if (principal instanceof NextResponse) return principal;
+
+  const { providerId, modelId } = await params;
+
+  if (!providerId || !modelId || typeof providerId !== 'string' || typeof modelId !== 'string') {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Provider ID and Model ID must be strings'
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Ensure providers are initialized
+    const registry = ProviderRegistry.getInstance();
+    if (!registry.getAvailableProviders().length) {
+      await initializeProviders();
+    }
+
+    if (!registry.hasProvider(providerId)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Provider '${providerId}' not found`
+        },
+        { status: 404 }
+      );
+    }
+
+    // Model aliases from mediaconduit.config.yml
+    const resolved = resolveProviderModel(providerId, modelId);
+    const provider = await registry.getProvider(providerId);
+    const model = collectProviderModels(provider).find(m => m.id === resolved.modelId);
+    if (!model) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Model '${modelId}' not found in provider '${providerId}'`
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...model,
+        providerId,
+        optionsSchema: getModelOptionSchemas(model)
+      }
+    });
+  } catch (error) {
+    console.error(`Error fetching model ${providerId}/${modelId}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to fetch model ${providerId}/${modelId}`
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeProviders, ProviderRegistry } from '../../../../media/registry/bootstrap';
+import { authenticateRequest } from '../auth/ApiGuard';
+import { ModelQueryError, parseModelQuery } from './ModelQuery';
+
+/**
+ * Search the models of all providers, e.g.
+ * GET /api/v1/models?capability=audio-to-text&inputFormat=mp3&maxCost=0.01&available=true
+ */
+export async function GET(request: NextRequest) {
+  const principal = authenticateRequest(request);
+  if (principal instanceof NextResponse) return principal;
+
+  try {
+    const query = parseModelQuery(request.nextUrl.searchParams);
+
+    // Ensure providers are initialized
+    const registry = ProviderRegistry.getInstance();
+    if (!registry.getAvailableProviders().length) {
+      await initializeProviders();
+    }
+
+    const page = await registry.searchModels(query);
+
+    return NextResponse.json({
+      success: true,
+      data: page
+    });
+  } catch (error) {
+    if (error instanceof ModelQueryError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error searching models:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to search models'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * PipelineRunner Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createTestJobManager } from '../../../../test/JobManagerFixture';
+import { JobStatus } from '../../../../media/types/provider';
+import { createStepStates, PipelineError, ResolvedPipelineStep, runPipeline, validatePipelineSteps } from './PipelineRunner';
+
+class Text {
+  constructor(public content: string, public metadata: any = {}) {}
+}
+
+class Image {
+  constructor(public data: Buffer, public metadata: any = {}) {}
+}
+
+// Fake provider serving a single model backed by the given transform function
+function createProvider(transform: (input: any, options: any) => Promise<any>) {
+  return { getModel: async () => ({ transform }) };
+}
+
+const TEXT_TO_IMAGE = { providerId: 'fake', modelId: 'painter', capability: 'text-to-image', options: { steps: 4 } };
+const IMAGE_TO_TEXT = { providerId: 'fake', modelId: 'captioner', capability: 'image-to-text', options: {} };
+
+describe('validatePipelineSteps', () => {
+  it('should accept steps whose capabilities chain together', () => {
+    expect(validatePipelineSteps([TEXT_TO_IMAGE, IMAGE_TO_TEXT])).toHaveLength(2);
+  });
+
+  it('should reject malformed and mismatched steps', () => {
+    expect(() => validatePipelineSteps([])).toThrow(PipelineError);
+    expect(() => validatePipelineSteps([{ providerId: 'fake' }])).toThrow(/must be strings/);
+    expect(() => validatePipelineSteps([TEXT_TO_IMAGE, TEXT_TO_IMAGE])).toThrow(/cannot consume the image output/);
+  });
+});
+
+describe('runPipeline', () => {
+  it('should feed each output into the next step and keep intermediate outputs', async () => {
+    const manager = createTestJobManager();
+    const steps = validatePipelineSteps([TEXT_TO_IMAGE, IMAGE_TO_TEXT]);
+    manager.createJob('pipeline-ok', 'pipeline', 'pipeline', 'text-to-text', new Text('a fox'));
+    manager.updateJob('pipeline-ok', { steps: createStepStates(steps) });
+
+    const receivedOptions: any[] = [];
+    const resolved: ResolvedPipelineStep[] = [
+      {
+        step: steps[0],
+        provider: createProvider(async (input, options) => {
+          receivedOptions.push(options);
+          return new Image(Buffer.from('png'), { generation_prompt: { modelId: 'painter', input, timestamp: new Date() } });
+        })
+      },
+      {
+        step: steps[1],
+        provider: createProvider(async input => new Text('a painted fox', {
+          generation_prompt: { modelId: 'captioner', input, timestamp: new Date() }
+        }))
+      }
+    ];
+
+    await runPipeline('pipeline-ok', resolved, new Text('a fox'), manager, new AbortController().signal);
+
+    const job = manager.getJob('pipeline-ok')!;
+    expect(job.status).toBe(JobStatus.COMPLETED);
+    expect(job.output.content).toBe('a painted fox');
+    expect(job.steps?.map(step => step.status)).toEqual([JobStatus.COMPLETED, JobStatus.COMPLETED]);
+    expect(job.steps?.[0].output).toBeInstanceOf(Image);
+    expect(job.steps?.[0].urls?.primary).toBe('/api/v1/jobs/pipeline-ok/download?step=0');
+    expect(job.generation_chain?.map(step => step.model ?? step.asset_type)).toEqual(['captioner', 'painter', 'Text']);
+    expect(receivedOptions[0].steps).toBe(4);
+  });
+
+  it('should mark the failing step and the job as failed', async () => {
+    const manager = createTestJobManager();
+    const steps = validatePipelineSteps([TEXT_TO_IMAGE, IMAGE_TO_TEXT]);
+    manager.createJob('pipeline-fail', 'pipeline', 'pipeline', 'text-to-text', 'a fox');
+    manager.updateJob('pipeline-fail', { steps: createStepStates(steps) });
+
+    const resolved: ResolvedPipelineStep[] = [
+      { step: steps[0], provider: createProvider(async () => new Image(Buffer.from('png'))) },
+      { step: steps[1], provider: createProvider(async () => { throw new Error('model offline'); }) }
+    ];
+
+    await expect(runPipeline('pipeline-fail', resolved, 'a fox', manager, new AbortController().signal))
+      .rejects.toThrow('model offline');
+
+    const job = manager.getJob('pipeline-fail')!;
+    expect(job.status).toBe(JobStatus.FAILED);
+    expect(job.error).toBe('Step 2 (captioner) failed: model offline');
+    expect(job.steps?.map(step => step.status)).toEqual([JobStatus.COMPLETED, JobStatus.FAILED]);
+  });
+
+  it('should run each step in a slot of its provider', async () => {
+    const manager = createTestJobManager();
+    const steps = validatePipelineSteps([{ ...TEXT_TO_IMAGE, providerId: 'pipeline-lane' }]);
+    manager.createJob('pipeline-lane', 'pipeline', 'pipeline', 'text-to-image', 'a fox');
+    manager.updateJob('pipeline-lane', { steps: createStepStates(steps) });
+
+    // Another job holds the provider's only slot
+    const queue = manager.getQueue();
+    const release = await queue.acquireLane('pipeline-lane');
+    let ran = false;
+    const resolved: ResolvedPipelineStep[] = [{
+      step: steps[0],
+      provider: createProvider(async () => {
+        ran = true;
+        expect(queue.getActiveCount('pipeline-lane')).toBe(1);
+        return new Image(Buffer.from('png'));
+      })
+    }];
+
+    const running = runPipeline('pipeline-lane', resolved, 'a fox', manager, new AbortController().signal);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(ran).toBe(false);
+
+    release();
+    await running;
+    expect(ran).toBe(true);
+    expect(queue.getActiveCount('pipeline-lane')).toBe(0);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Pipeline Runner
+ * Validates multi-step pipeline definitions and executes them as a single job,
+ * feeding each step's output into the next step
+ */
+
+import JobManager, { PipelineStep, PipelineStepState } from '../jobs/JobManager';
+import { JobStatus, MediaCapability } from '../../../../media/types/provider';
+import { TransformProgress } from '../../../../media/models/abstracts/Model';
+import { claimRoute, recordRouteFailure, recordRouteOutcome, releaseRoute } from '../../../../media/registry/ProviderRouter';
+import { ProviderError } from '../../../../media/providers/ProviderError';
+import { ApiError } from '../ApiError';
+
+export const MAX_PIPELINE_STEPS = 10;
+
+/**
+ * A validated step together with the provider that will run it
+ */
+export interface ResolvedPipelineStep {
+  step: PipelineStep;
+  provider: { getModel(modelId: string, capability?: MediaCapability): Promise<any> };
+}
+
+/**
+ * Invalid pipeline definition or step
+ */
+export class PipelineError extends ApiError {
+  constructor(message: string, statusCode?: number) {
+    super(message, statusCode);
+    this.name = 'PipelineError';
+  }
+}
+
+/**
+ * Check the shape of the requested steps and that each step consumes what the
+ * previous step produces (e.g. text-to-image followed by image-to-video)
+ */
+export function validatePipelineSteps(value: any): PipelineStep[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new PipelineError('steps must be a non-empty array');
+  }
+  if (value.length > MAX_PIPELINE_STEPS) {
+    throw new PipelineError(`Pipelines are limited to ${MAX_PIPELINE_STEPS} steps`);
+  }
+
+  const steps = value.map((step: any, index: number): PipelineStep => {
+    if (!step || typeof step.providerId !== 'string' || typeof step.modelId !== 'string' || typeof step.capability !== 'string') {
+      throw new PipelineError(`Step ${index}: providerId, modelId and capability must be strings`);
+    }
+    if (step.options !== undefined && (typeof step.options !== 'object' || step.options === null || Array.isArray(step.options))) {
+      throw new PipelineError(`Step ${index}: options must be an object`);
+    }
+    return {
+      providerId: step.providerId,
+      modelId: step.modelId,
+      capability: step.capability,
+      options: step.options || {}
+    };
+  });
+
+  for (let index = 1; index < steps.length; index++) {
+    const produced = steps[index - 1].capability.split('-to-')[1];
+    const consumed = steps[index].capability.split('-to-')[0];
+    if (produced !== consumed) {
+      throw new PipelineError(
+        `Step ${index} (${steps[index].capability}) cannot consume the ${produced} output of step ${index - 1} (${steps[index - 1].capability})`
+      );
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Initial per-step state stored on the job
+ */
+export function createStepStates(steps: PipelineStep[]): PipelineStepState[] {
+  return steps.map((step, index) => ({ ...step, index, status: JobStatus.PENDING }));
+}
+
+/**
+ * Run every step in order. Progress is reported across the whole pipeline, each
+ * step's output is kept on the job, and the final output completes the job with
+ * the generation_chain spanning all steps.
+ */
+export async function runPipeline(
+  jobId: string,
+  steps: ResolvedPipelineStep[],
+  input: any,
+  jobManager: JobManager,
+  signal: AbortSignal
+): Promise<void> {
+  const startTime = Date.now();
+  let current = input;
+  let index = 0;
+  let routed = false;           // Whether the current step's provider was called
+
+  jobManager.updateJob(jobId, {
+    status: JobStatus.RUNNING,
+    startedAt: new Date(),
+    progress: 0
+  });
+
+  try {
+    for (; index < steps.length; index++) {
+      const { step, provider } = steps[index];
+      signal.throwIfAborted();
+
+      // The pipeline is queued under its own lane, so each step waits for a
+      // slot of its provider and counts against that provider's limit
+      const releaseLane = await jobManager.getQueue().acquireLane(step.providerId, signal);
+      const stepStart = Date.now();
+      let output: any;
+      try {
+        // A half-open circuit lets a single trial request through
+        if (!claimRoute(step.providerId)) {
+          throw new ProviderError(`Provider '${step.providerId}' is temporarily unavailable after repeated failures`, 'unavailable', 503, step.providerId);
+        }
+        routed = true;
+
+        console.log(`[Job ${jobId}] Step ${index + 1}/${steps.length}: ${step.providerId}/${step.modelId} (${step.capability})`);
+        jobManager.updatePipelineStep(jobId, index, { status: JobStatus.RUNNING, startedAt: new Date() });
+        jobManager.reportProgress(jobId, {
+          percentage: (index / steps.length) * 100,
+          message: `Step ${index + 1}/${steps.length}: ${step.modelId}`
+        });
+
+        const model = await provider.getModel(step.modelId, step.capability as MediaCapability);
+        if (!model) {
+          throw new Error(`Failed to get model instance for ${step.modelId}`);
+        }
+
+        output = await model.transform(current, {
+          ...step.options,
+          signal,
+          onProgress: (progress: TransformProgress) => jobManager.reportProgress(jobId, {
+            percentage: ((index + progress.percentage / 100) / steps.length) * 100,
+            message: `Step ${index + 1}/${steps.length}: ${progress.message || step.modelId}`
+          })
+        });
+      } finally {
+        releaseLane();
+      }
+
+      recordRouteOutcome(step.providerId, step.modelId, true);
+      routed = false;
+      // Intermediate outputs stay downloadable, so they are persisted like the final one
+      await jobManager.storeOutput(jobId, output);
+      jobManager.updatePipelineStep(jobId, index, {
+        status: JobStatus.COMPLETED,
+        completedAt: new Date(),
+        processingTime: Date.now() - stepStart,
+        output,
+        urls: jobManager.generateStepUrls(jobId, index, output)
+      });
+      current = output;
+    }
+
+    const processingTime = Date.now() - startTime;
+    console.log(`[Job ${jobId}] Pipeline completed in ${processingTime}ms`);
+
+    // The final output's generation_prompt links back through every step
+    jobManager.completeJobWithAsset(jobId, current, processingTime);
+
+  } catch (error) {
+    const processingTime = Date.now() - startTime;
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (signal.aborted || jobManager.isCancelled(jobId)) {
+      console.log(`[Job ${jobId}] Pipeline cancelled at step ${index + 1} after ${processingTime}ms`);
+      if (routed) releaseRoute(steps[index].step.providerId);
+      if (index < steps.length) {
+        jobManager.updatePipelineStep(jobId, index, { status: JobStatus.CANCELLED, completedAt: new Date() });
+      }
+      jobManager.updateJob(jobId, { processingTime });
+      return;
+    }
+
+    console.error(`[Job ${jobId}] Pipeline failed at step ${index + 1} after ${processingTime}ms:`, error);
+
+    const failedStep = steps[index];
+    if (failedStep) {
+      if (routed) recordRouteFailure(failedStep.step.providerId, failedStep.step.modelId, error);
+      jobManager.updatePipelineStep(jobId, index, {
+        status: JobStatus.FAILED,
+        completedAt: new Date(),
+        error: message
+      });
+    }
+    jobManager.updateJob(jobId, {
+      status: JobStatus.FAILED,
+      error: failedStep ? `Step ${index + 1} (${failedStep.step.modelId}) failed: ${message}` : message,
+      processingTime
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,211 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { initializeProviders, ProviderRegistry, resolveProviderModel } from '../../../../media/registry/bootstrap';
+import { getProviderStatus } from '../../../../media/registry/ProviderHealth';
+import { MediaCapability } from '../../../../media/types/provider';
+import JobManager from '../jobs/JobManager';
+import { isAllowedWebhookHost, parseWebhook } from '../jobs/WebhookDispatcher';
+import { deserializeInput, parseTransformRequest } from '../transform/TransformInput';
+import { ApiError } from '../ApiError';
+import {
+  createStepStates,
+  PipelineError,
+  ResolvedPipelineStep,
+  runPipeline,
+  validatePipelineSteps
+} from './PipelineRunner';
+import { authenticateRequest, checkJobQuota } from '../auth/ApiGuard';
+import { checkResponseSchema } from '../../../../media/utils/StructuredOutput';
+import { getModelOptionSchema, OptionIssue, validateOptions } from '../../../../media/registry/OptionSchema';
+
+/**
+ * Run an ordered list of transforms as one job, feeding each step's output
+ * into the next: { input, steps: [{ providerId, modelId, capability, options? }] }
+ */
+export async function POST(request: NextRequest) {
+  const principal = authenticateRequest(request);
+  if (principal instanceof NextResponse) return principal;
+
+  try {
+    // JSON body, or multipart/form-data with file uploads
+    const { body, files } = await parseTransformRequest(request);
+
+    if (!body.input || !body.steps) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required fields: input and steps'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.priority !== undefined && (typeof body.priority !== 'number' || !Number.isFinite(body.priority))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'priority must be a number'
+        },
+        { status: 400 }
+      );
+    }
+
+    const webhook = parseWebhook(body.webhook);
+    if (body.webhook !== undefined && !webhook) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'webhook must be an http(s) URL or an object { url, secret? }'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (webhook && !(await isAllowedWebhookHost(webhook.url).catch(() => false))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'webhook host must resolve to a public address'
+        },
+        { status: 400 }
+      );
+    }
+
+    // Checked before any provider work so callers at their quota get a fast 429
+    const quotaResponse = checkJobQuota(principal);
+    if (quotaResponse) return quotaResponse;
+
+    const steps = validatePipelineSteps(body.steps);
+
+    // Ensure providers are initialized
+    const registry = ProviderRegistry.getInstance();
+    if (!registry.getAvailableProviders().length) {
+      await initializeProviders();
+    }
+
+    // Resolve every step up front so a bad step fails the request, not the job
+    const resolvedSteps: ResolvedPipelineStep[] = [];
+    const optionIssues: OptionIssue[] = [];
+    for (const [index, step] of steps.entries()) {
+      // Model aliases and default options from mediaconduit.config.yml, which
+      // come from the operator and are not checked like the request's options
+      const resolved = resolveProviderModel(step.providerId, step.modelId);
+      const requestOptions = step.options;
+      step.modelId = resolved.modelId;
+      step.options = { ...resolved.options, ...step.options };
+
+      if (!registry.hasProvider(step.providerId)) {
+        throw new PipelineError(`Step ${index}: provider '${step.providerId}' not found`, 404);
+      }
+
+      const provider = await registry.getProvider(step.providerId);
+      const status = await getProviderStatus(provider);
+      if (status.circuit.state === 'open') {
+        throw new PipelineError(`Step ${index}: provider '${step.providerId}' is temporarily unavailable after repeated failures`, 503);
+      }
+      if (!status.isAvailable) {
+        throw new PipelineError(`Step ${index}: provider '${step.providerId}' is not available`, 503);
+      }
+
+      const model = provider.models.find(m => m.id === step.modelId);
+      if (!model) {
+        throw new PipelineError(`Step ${index}: model '${step.modelId}' not found in provider '${step.providerId}'`, 404);
+      }
+
+      if (!model.capabilities.includes(step.capability as any)) {
+        throw new PipelineError(`Step ${index}: model '${step.modelId}' does not support capability '${step.capability}'`);
+      }
+
+      const stepIssues = [
+        ...validateOptions(getModelOptionSchema(model, step.capability as MediaCapability), requestOptions),
+        ...checkResponseSchema(requestOptions.responseSchema)
+      ];
+      optionIssues.push(...stepIssues.map(issue => ({ ...issue, path: `Step ${index}: ${issue.path}` })));
+
+      resolvedSteps.push({ step, provider });
+    }
+
+    // Reject unknown or invalid step options before a job exists
+    if (optionIssues.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid step options',
+          issues: optionIssues
+        },
+        { status: 400 }
+      );
+    }
+
+    // Convert input descriptors (text, URLs, base64, uploaded files) to Text and media assets
+    const deserializedInput = await deserializeInput(body.input, files, request.signal);
+
+    // Checked again with no await until the job exists, so parallel requests
+    // cannot all pass the early check and exceed the quota together
+    const reservedQuotaResponse = checkJobQuota(principal);
+    if (reservedQuotaResponse) return reservedQuotaResponse;
+
+    const jobManager = JobManager.getInstance();
+    const jobId = uuidv4();
+    const first = steps[0].capability.split('-to-')[0];
+    const last = steps[steps.length - 1].capability.split('-to-')[1];
+
+    // Pipelines queue in a lane of their own; runPipeline takes a slot of each
+    // step's provider as it runs, so steps still count against provider limits
+    jobManager.createJob(
+      jobId,
+      'pipeline',
+      steps.map(step => `${step.providerId}/${step.modelId}`).join(' -> '),
+      `${first}-to-${last}`,
+      deserializedInput,
+      undefined,
+      webhook,
+      principal.keyId
+    );
+    const job = jobManager.updateJob(jobId, { steps: createStepStates(steps) })!;
+
+    jobManager.submit(
+      jobId,
+      // runPipeline records the failing step on the job before rethrowing
+      signal => runPipeline(jobId, resolvedSteps, deserializedInput, jobManager, signal)
+        .catch(error => console.error(`Pipeline job ${jobId} failed:`, error)),
+      body.priority ?? 0
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          jobId,
+          status: job.status,
+          steps: steps.length,
+          queuePosition: jobManager.getQueuePosition(jobId),
+          message: 'Pipeline queued',
+          statusUrl: `/api/v1/jobs/${jobId}`,
+          eventsUrl: `/api/v1/jobs/${jobId}/events`
+        }
+      },
+      { status: 202 }
+    );
+
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Pipeline endpoint error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { initializeProviders, ProviderRegistry } from '../../../../../media/registry/bootstrap';
+import { getProviderStatus } from '../../../../../media/registry/ProviderHealth';
+import { authenticateRequest } from '../../auth/ApiGuard';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ providerId: string }> }
 ) {
+  const principal = authenticateRequest(request);
+  if (principal instanceof NextResponse) return principal;
+
   const { providerId } = await params;
   
   if (!providerId || typeof providerId !== 'string') {
@@ -36,14 +41,8 @@ export async function GET(
 
     const provider = await registry.getProvider(providerId);
     
-    const isAvailable = await provider.isAvailable().catch(() => false);
-    const health = await provider.getHealth().catch(() => ({
-      status: 'unhealthy' as const,
-      uptime: 0,
-      activeJobs: 0,
-      queuedJobs: 0,
-      lastError: 'Health check failed'
-    }));
+    // Health comes from the cached probe unless ?refresh=true forces a new one
+    const status = await getProviderStatus(provider, request.nextUrl.searchParams.get('refresh') === 'true');
 
     return NextResponse.json({
       success: true,
@@ -53,8 +52,10 @@ export async function GET(
         type: provider.type,
         capabilities: provider.capabilities,
         models: provider.models,
-        isAvailable,
-        health
+        isAvailable: status.isAvailable,
+        health: status.health,
+        checkedAt: status.checkedAt,
+        circuit: status.circuit
       }
     });
   } catch (error) {
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { initializeProviders, ProviderRegistry } from '../../../../media/registry/bootstrap';
+import { getProviderStatus } from '../../../../media/registry/ProviderHealth';
+import { authenticateRequest } from '../auth/ApiGuard';
 
 export async function GET(request: NextRequest) {
+  const principal = authenticateRequest(request);
+  if (principal instanceof NextResponse) return principal;
+
   try {
     // Ensure providers are initialized
     if (!ProviderRegistry.getInstance().getAvailableProviders().length) {
@@ -23,16 +28,11 @@ export async function GET(request: NextRequest) {
     
     const validProviders = providers.filter((provider): provider is NonNullable<typeof provider> => provider !== null);
     
+    // Health comes from the cached probe unless ?refresh=true forces a new one
+    const refresh = request.nextUrl.searchParams.get('refresh') === 'true';
     const providersData = await Promise.all(
       validProviders.map(async (provider) => {
-        const isAvailable = await provider.isAvailable().catch(() => false);
-        const health = await provider.getHealth().catch(() => ({
-          status: 'unhealthy' as const,
-          uptime: 0,
-          activeJobs: 0,
-          queuedJobs: 0,
-          lastError: 'Health check failed'
-        }));
+        const status = await getProviderStatus(provider, refresh);
 
         return {
           id: provider.id,
@@ -40,8 +40,10 @@ export async function GET(request: NextRequest) {
           type: provider.type,
           capabilities: provider.capabilities,
           modelCount: provider.models.length,
-          isAvailable,
-          health
+          isAvailable: status.isAvailable,
+          health: status.health,
+          checkedAt: status.checkedAt,
+          circuit: status.circuit
         };
       })
     );
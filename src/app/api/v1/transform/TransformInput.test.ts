@@ -0,0 +1,166 @@
+/**
+ * TransformInput Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { deserializeInput, parseTransformRequest, TransformInputError } from './TransformInput';
+import { Text } from '../../../../media/assets/roles/classes/Text';
+import { Conversation, Image } from '../../../../media/assets/roles';
+import { ImageAsset, AudioAsset } from '../../../../media/assets/types';
+
+// Role transformations resolve providers through the registry, which these tests never need
+vi.mock('../../../../media/assets/RoleTransformation', () => ({ asRole: vi.fn() }));
+
+// Hostnames resolve to a public address unless a test says otherwise
+const dns = vi.hoisted(() => ({ lookup: vi.fn(async (_hostname: string, _options: any) => [{ address: '93.184.216.34', family: 4 }]) }));
+vi.mock('dns/promises', () => ({ ...dns, default: dns }));
+
+const PNG = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+const WAV = Buffer.concat([Buffer.from('RIFF'), Buffer.alloc(4), Buffer.from('WAVEfmt ')]);
+
+describe('deserializeInput', () => {
+  it('should keep text descriptors as Text and pass plain strings through', async () => {
+    const text = await deserializeInput({ content: 'hello', language: 'en' });
+    expect(text).toBeInstanceOf(Text);
+    expect(text.content).toBe('hello');
+    expect(await deserializeInput('plain')).toBe('plain');
+  });
+
+  it('should detect the format of base64 payloads and data URIs', async () => {
+    const image = await deserializeInput({ base64: PNG.toString('base64') });
+    expect(image).toBeInstanceOf(ImageAsset);
+    expect(image.metadata.format).toBe('png');
+
+    const audio = await deserializeInput({ url: `data:audio/wav;base64,${WAV.toString('base64')}` });
+    expect(audio).toBeInstanceOf(AudioAsset);
+  });
+
+  it('should download url inputs', async () => {
+    const fetchMock = vi.mocked(global.fetch);
+    fetchMock.mockResolvedValueOnce(new Response(PNG, { headers: { 'content-type': 'image/png' } }));
+
+    const image = await deserializeInput([{ url: 'https://example.com/cat.png' }]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(image[0]).toBeInstanceOf(ImageAsset);
+    expect(image[0].metadata.sourceUrl).toBe('https://example.com/cat.png');
+  });
+
+  it('should refuse URLs that reach private addresses, also after redirects', async () => {
+    const fetchMock = vi.mocked(global.fetch);
+    fetchMock.mockClear();
+
+    await expect(deserializeInput({ url: 'http://127.0.0.1:3000/api' })).rejects.toMatchObject({ statusCode: 403 });
+    await expect(deserializeInput({ url: 'http://[::ffff:169.254.169.254]/latest' })).rejects.toMatchObject({ statusCode: 403 });
+    dns.lookup.mockResolvedValueOnce([{ address: '10.0.0.5', family: 4 }]);
+    await expect(deserializeInput({ url: 'https://intranet.example.com/a.png' })).rejects.toMatchObject({ statusCode: 403 });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 302, headers: { location: 'http://192.168.1.1/admin' } }));
+    await expect(deserializeInput({ url: 'https://example.com/cat.png' })).rejects.toMatchObject({ statusCode: 403 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop downloading once the input limit is exceeded', async () => {
+    process.env.MEDIACONDUIT_MAX_INPUT_BYTES = '8';
+    const cancel = vi.fn();
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull: controller => { sent++; controller.enqueue(new Uint8Array(4)); },
+      cancel
+    });
+    vi.mocked(global.fetch).mockResolvedValueOnce(new Response(body));
+
+    try {
+      await expect(deserializeInput({ url: 'https://example.com/endless' })).rejects.toMatchObject({ statusCode: 413 });
+      expect(cancel).toHaveBeenCalled();
+      expect(sent).toBeLessThan(10);
+    } finally {
+      delete process.env.MEDIACONDUIT_MAX_INPUT_BYTES;
+    }
+  });
+
+  it('should answer a timeout while reading the body as a failed download', async () => {
+    const body = new ReadableStream<Uint8Array>({
+      pull: controller => controller.error(new DOMException('The operation was aborted due to timeout', 'TimeoutError'))
+    });
+    vi.mocked(global.fetch).mockResolvedValueOnce(new Response(body));
+
+    await expect(deserializeInput({ url: 'https://example.com/slow.png' })).rejects.toMatchObject({
+      name: 'TransformInputError',
+      statusCode: 422,
+      message: expect.stringContaining('https://example.com/slow.png')
+    });
+  });
+
+  it('should turn messages into a Conversation with image parts', async () => {
+    const conversation = await deserializeInput({
+      messages: [
+        { role: 'system', content: 'Describe images briefly' },
+        { role: 'user', content: ['What is this?', { type: 'image', base64: PNG.toString('base64') }] }
+      ]
+    });
+
+    expect(conversation).toBeInstanceOf(Conversation);
+    expect(conversation.getSystemPrompt()).toBe('Describe images briefly');
+    const [text, image] = conversation.messages[1].content;
+    expect(text).toEqual({ type: 'text', text: 'What is this?' });
+    expect(image.image).toBeInstanceOf(Image);
+    expect(image.image.toDataUrl()).toBe(`data:image/png;base64,${PNG.toString('base64')}`);
+
+    await expect(deserializeInput({ messages: [{ role: 'function', content: 'x' }] })).rejects.toThrow(/messages\[0\]\.role/);
+    await expect(deserializeInput({ messages: [{ role: 'user', content: [{ type: 'image', base64: WAV.toString('base64') }] }] }))
+      .rejects.toMatchObject({ statusCode: 415 });
+  });
+
+  it('should pass tool calls and tool results through messages', async () => {
+    const conversation = await deserializeInput({
+      messages: [
+        { role: 'user', content: 'Weather in Oslo?' },
+        { role: 'assistant', toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: { city: 'Oslo' } }] },
+        { role: 'tool', toolCallId: 'call_1', name: 'get_weather', content: '{"celsius":21}' }
+      ]
+    });
+
+    expect(conversation.messages[1]).toEqual({
+      role: 'assistant',
+      content: '',
+      toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: { city: 'Oslo' } }]
+    });
+    expect(conversation.messages[2]).toEqual({ role: 'tool', content: '{"celsius":21}', toolCallId: 'call_1', name: 'get_weather' });
+
+    await expect(deserializeInput({ messages: [{ role: 'tool', content: 'x' }] })).rejects.toThrow(/toolCallId/);
+    await expect(deserializeInput({ messages: [{ role: 'user', content: 'x', toolCalls: [{ id: 1 }] }] }))
+      .rejects.toThrow(/toolCalls/);
+  });
+
+  it('should reject unknown descriptors and unsupported protocols', async () => {
+    await expect(deserializeInput({ path: '/etc/passwd' })).rejects.toBeInstanceOf(TransformInputError);
+    await expect(deserializeInput({ url: 'file:///etc/passwd' })).rejects.toThrow(/http or https/);
+    await expect(deserializeInput({ base64: Buffer.from('not media at all').toString('base64') }))
+      .rejects.toMatchObject({ statusCode: 415 });
+  });
+});
+
+describe('parseTransformRequest', () => {
+  it('should turn uploaded input files into file descriptors', async () => {
+    // Minimal FormData and File stand-ins (the jsdom versions cannot read Blob contents)
+    const file = { name: 'frame.png', type: 'image/png', size: PNG.length, arrayBuffer: async () => PNG };
+    const fields: [string, any][] = [
+      ['capability', 'image-to-video'],
+      ['options', JSON.stringify({ duration: 5 })],
+      ['input', file]
+    ];
+    const request = {
+      headers: new Headers({ 'content-type': 'multipart/form-data; boundary=test' }),
+      formData: async () => ({ entries: () => fields })
+    } as unknown as Request;
+
+    const { body, files } = await parseTransformRequest(request);
+
+    expect(body).toMatchObject({ capability: 'image-to-video', options: { duration: 5 }, input: { file: 'input' } });
+    const image = await deserializeInput(body.input, files);
+    expect(image).toBeInstanceOf(ImageAsset);
+    expect(image.metadata.originalName).toBe('frame.png');
+  });
+});
@@ -0,0 +1,414 @@
+/**
+ * Transform Input Parsing
+ * Reads JSON or multipart transform requests and turns input descriptors into
+ * Text and media assets before they reach model.transform()
+ */
+
+import { SmartAssetFactory, FormatHints } from '../../../../media/assets/SmartAssetFactory';
+import { ImageAsset } from '../../../../media/assets/types';
+import { Conversation, ConversationMessage, ConversationPart, Image, Text, ToolCall } from '../../../../media/assets/roles';
+import { ApiError } from '../ApiError';
+import { isPrivateHost } from '../PrivateHosts';
+
+/**
+ * Input descriptors accepted in the `input` field (alone or in an array):
+ * - "plain string" or { content, language?, confidence?, metadata? } for text
+ * - { url, format? } fetched over http(s); hosts on loopback, private and
+ *   link-local addresses are refused unless MEDIACONDUIT_ALLOW_PRIVATE_INPUT_URLS=true
+ * - { base64, format?, mimeType? } raw base64 or a data: URI
+ * - { file } naming a multipart file field
+ * - { messages } for a Conversation (chat history) with text-to-text models
+ */
+export interface InputDescriptor {
+  content?: string;
+  messages?: MessageDescriptor[];
+  language?: string;
+  confidence?: number;
+  url?: string;
+  base64?: string;
+  file?: string;
+  format?: string;
+  mimeType?: string;
+  filename?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * A chat message in a `messages` input. Content parts are strings,
+ * { type: 'text', text } or { type: 'image', ...url/base64/file descriptor }.
+ * Clients running tools themselves send back the assistant's toolCalls and
+ * one `tool` message (with toolCallId) per result.
+ */
+export interface MessageDescriptor {
+  role: ConversationMessage['role'];
+  content?: string | Array<string | { type: 'text'; text: string } | ({ type: 'image' } & InputDescriptor)>;
+  toolCalls?: ToolCall[];
+  toolCallId?: string;
+  name?: string;
+}
+
+export interface ParsedTransformRequest {
+  body: Record<string, any>;
+  files: Map<string, File[]>;
+}
+
+/**
+ * Invalid or unreadable transform input
+ */
+export class TransformInputError extends ApiError {
+  constructor(message: string, statusCode?: number) {
+    super(message, statusCode);
+    this.name = 'TransformInputError';
+  }
+}
+
+// Multipart text fields that carry JSON (pipelines send `steps`)
+const JSON_FIELDS = ['input', 'options', 'webhook', 'steps'];
+
+const DEFAULT_MAX_INPUT_BYTES = 512 * 1024 * 1024;
+const URL_FETCH_TIMEOUT_MS = 60000;
+const MAX_URL_REDIRECTS = 5;
+
+function getMaxInputBytes(): number {
+  return parseInt(process.env.MEDIACONDUIT_MAX_INPUT_BYTES || '', 10) || DEFAULT_MAX_INPUT_BYTES;
+}
+
+/**
+ * Read the request body. Multipart requests carry JSON-encoded `options` and
+ * `webhook` fields next to file parts; files sent as `input` become the input
+ * when no `input` field is given.
+ */
+export async function parseTransformRequest(request: Request): Promise<ParsedTransformRequest> {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (!contentType.includes('multipart/form-data')) {
+    try {
+      return { body: await request.json(), files: new Map() };
+    } catch {
+      throw new TransformInputError('Request body must be valid JSON or multipart/form-data');
+    }
+  }
+
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    throw new TransformInputError('Malformed multipart/form-data body');
+  }
+
+  const body: Record<string, any> = {};
+  const files = new Map<string, File[]>();
+
+  for (const [name, value] of formData.entries()) {
+    if (typeof value !== 'string') {
+      files.set(name, [...(files.get(name) || []), value]);
+    } else if (name === 'priority') {
+      body.priority = Number(value);
+    } else if (JSON_FIELDS.includes(name)) {
+      body[name] = parseJsonField(value);
+    } else {
+      body[name] = value;
+    }
+  }
+
+  if (body.input === undefined && files.has('input')) {
+    const inputFiles = files.get('input')!;
+    body.input = inputFiles.length === 1
+      ? { file: 'input' }
+      : inputFiles.map((_, index) => ({ file: `input[${index}]` }));
+  }
+
+  return { body, files };
+}
+
+/**
+ * Convert input descriptors into Text objects and media assets. Values that
+ * are not descriptors (e.g. already-constructed roles) are passed through.
+ */
+export async function deserializeInput(
+  input: any,
+  files: Map<string, File[]> = new Map(),
+  signal?: AbortSignal
+): Promise<any> {
+  if (Array.isArray(input)) {
+    return Promise.all(input.map(item => deserializeInput(item, files, signal)));
+  }
+
+  if (!input || typeof input !== 'object' || typeof input.asRole === 'function') {
+    return input;
+  }
+
+  const descriptor = input as InputDescriptor;
+  const hints: FormatHints = {
+    format: descriptor.format,
+    mimeType: descriptor.mimeType,
+    filename: descriptor.filename
+  };
+
+  if (descriptor.messages !== undefined) {
+    return deserializeConversation(descriptor, files, signal);
+  }
+
+  if (typeof descriptor.content === 'string') {
+    return new Text(descriptor.content, descriptor.language, descriptor.confidence, descriptor.metadata || {});
+  }
+
+  if (typeof descriptor.file === 'string') {
+    const file = resolveFile(descriptor.file, files);
+    if (file.size > getMaxInputBytes()) {
+      throw new TransformInputError(`File '${file.name}' exceeds the ${getMaxInputBytes()} byte input limit`, 413);
+    }
+    const data = Buffer.from(await file.arrayBuffer());
+    return createAsset(data, { filename: file.name, mimeType: file.type || undefined, ...stripUndefined(hints) }, {
+      ...descriptor.metadata,
+      originalName: file.name
+    });
+  }
+
+  if (typeof descriptor.base64 === 'string') {
+    const { data, mimeType } = decodeBase64(descriptor.base64);
+    return createAsset(data, { mimeType, ...stripUndefined(hints) }, descriptor.metadata);
+  }
+
+  if (typeof descriptor.url === 'string') {
+    if (descriptor.url.startsWith('data:')) {
+      const { data, mimeType } = decodeBase64(descriptor.url);
+      return createAsset(data, { mimeType, ...stripUndefined(hints) }, descriptor.metadata);
+    }
+
+    const { data, mimeType, filename } = await fetchInput(descriptor.url, signal);
+    return createAsset(data, { filename, mimeType, ...stripUndefined(hints) }, {
+      ...descriptor.metadata,
+      sourceUrl: descriptor.url
+    });
+  }
+
+  throw new TransformInputError('Input objects must contain one of: content, messages, url, base64, file');
+}
+
+const MESSAGE_ROLES = ['system', 'user', 'assistant', 'tool'];
+
+async function deserializeConversation(
+  descriptor: InputDescriptor,
+  files: Map<string, File[]>,
+  signal?: AbortSignal
+): Promise<Conversation> {
+  if (!Array.isArray(descriptor.messages) || descriptor.messages.length === 0) {
+    throw new TransformInputError('messages must be a non-empty array');
+  }
+
+  const messages = await Promise.all(descriptor.messages.map(async (message, index): Promise<ConversationMessage> => {
+    if (!message || !MESSAGE_ROLES.includes(message.role)) {
+      throw new TransformInputError(`messages[${index}].role must be one of: ${MESSAGE_ROLES.join(', ')}`);
+    }
+    const tooling = parseToolFields(message, `messages[${index}]`);
+
+    if (typeof message.content === 'string' || (message.content === undefined && tooling.toolCalls)) {
+      return { role: message.role, content: message.content || '', ...tooling };
+    }
+    if (!Array.isArray(message.content)) {
+      throw new TransformInputError(`messages[${index}].content must be a string or an array of parts`);
+    }
+
+    const parts = await Promise.all(message.content.map((part, partIndex) =>
+      deserializePart(part, `messages[${index}].content[${partIndex}]`, files, signal)));
+    return { role: message.role, content: parts, ...tooling };
+  }));
+
+  return new Conversation(messages, descriptor.metadata || {});
+}
+
+function parseToolFields(message: MessageDescriptor, label: string): Pick<ConversationMessage, 'toolCalls' | 'toolCallId' | 'name'> {
+  if (message.role === 'tool') {
+    if (typeof message.toolCallId !== 'string') {
+      throw new TransformInputError(`${label}.toolCallId is required for tool messages`);
+    }
+    return { toolCallId: message.toolCallId, name: typeof message.name === 'string' ? message.name : undefined };
+  }
+
+  if (message.toolCalls === undefined) return {};
+  const valid = message.role === 'assistant' && Array.isArray(message.toolCalls) && message.toolCalls.every(call =>
+    typeof call?.id === 'string' && typeof call.name === 'string' &&
+    (call.arguments === undefined || (typeof call.arguments === 'object' && call.arguments !== null)));
+  if (!valid) {
+    throw new TransformInputError(`${label}.toolCalls must be an array of { id, name, arguments } on an assistant message`);
+  }
+  return { toolCalls: message.toolCalls.map(call => ({ id: call.id, name: call.name, arguments: call.arguments || {} })) };
+}
+
+async function deserializePart(
+  part: any,
+  label: string,
+  files: Map<string, File[]>,
+  signal?: AbortSignal
+): Promise<ConversationPart> {
+  if (typeof part === 'string') {
+    return { type: 'text', text: part };
+  }
+  if (part?.type === 'text' && typeof part.text === 'string') {
+    return { type: 'text', text: part.text };
+  }
+  if (part?.type === 'image') {
+    const { type, ...source } = part;
+    const asset = await deserializeInput(source, files, signal);
+    if (!(asset instanceof ImageAsset)) {
+      throw new TransformInputError(`${label} is not an image`, 415);
+    }
+    return { type: 'image', image: Image.fromAsset(asset) };
+  }
+  throw new TransformInputError(`${label} must be a string, { type: 'text', text } or { type: 'image', url | base64 | file }`);
+}
+
+function createAsset(data: Buffer, hints: FormatHints, metadata: Record<string, any> = {}) {
+  if (data.length === 0) {
+    throw new TransformInputError('Input data is empty');
+  }
+  try {
+    return SmartAssetFactory.fromBuffer(data, hints, metadata);
+  } catch (error) {
+    throw new TransformInputError(error instanceof Error ? error.message : String(error), 415);
+  }
+}
+
+function resolveFile(name: string, files: Map<string, File[]>): File {
+  // `input[1]` addresses the second of several files sent under the same field
+  const indexed = /^(.+)\[(\d+)\]$/.exec(name);
+  const file = indexed
+    ? files.get(indexed[1])?.[parseInt(indexed[2], 10)]
+    : files.get(name)?.[0];
+
+  if (!file) {
+    throw new TransformInputError(`Multipart file '${name}' was not uploaded`);
+  }
+  return file;
+}
+
+function decodeBase64(value: string): { data: Buffer; mimeType?: string } {
+  const dataUri = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(value);
+  if (dataUri && !dataUri[2]) {
+    throw new TransformInputError('Only base64-encoded data URIs are supported');
+  }
+
+  const payload = dataUri ? dataUri[3] : value;
+  if (!/^[A-Za-z0-9+/=\s_-]*$/.test(payload)) {
+    throw new TransformInputError('Input base64 data is not valid base64');
+  }
+  if (payload.length * 0.75 > getMaxInputBytes()) {
+    throw new TransformInputError(`Input exceeds the ${getMaxInputBytes()} byte input limit`, 413);
+  }
+
+  return { data: Buffer.from(payload, 'base64'), mimeType: dataUri?.[1] };
+}
+
+async function fetchInput(url: string, signal?: AbortSignal): Promise<{ data: Buffer; mimeType?: string; filename?: string }> {
+  const timeout = AbortSignal.timeout(URL_FETCH_TIMEOUT_MS);
+  const fetchSignal = signal ? AbortSignal.any([signal, timeout]) : timeout;
+
+  // Redirects are followed by hand so every hop gets the address check
+  let parsed = parseInputUrl(url);
+  let response: Response;
+  for (let redirects = 0; ; redirects++) {
+    await checkInputHost(parsed);
+    try {
+      response = await fetch(parsed, { signal: fetchSignal, redirect: 'manual' });
+    } catch (error) {
+      throw new TransformInputError(`Failed to fetch input URL: ${error instanceof Error ? error.message : String(error)}`, 422);
+    }
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) break;
+    if (redirects >= MAX_URL_REDIRECTS) {
+      throw new TransformInputError(`Failed to fetch input URL: more than ${MAX_URL_REDIRECTS} redirects`, 422);
+    }
+    parsed = parseInputUrl(new URL(location, parsed).toString());
+  }
+
+  if (!response.ok) {
+    throw new TransformInputError(`Failed to fetch input URL: HTTP ${response.status}`, 422);
+  }
+
+  const length = parseInt(response.headers.get('content-length') || '', 10);
+  if (length > getMaxInputBytes()) {
+    throw new TransformInputError(`Input URL content exceeds the ${getMaxInputBytes()} byte input limit`, 413);
+  }
+
+  return {
+    data: await readLimited(response, parsed),
+    mimeType: response.headers.get('content-type') || undefined,
+    filename: parsed.pathname.split('/').pop() || undefined
+  };
+}
+
+function parseInputUrl(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new TransformInputError(`Invalid input URL: ${url}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new TransformInputError('Input URLs must use http or https');
+  }
+  return parsed;
+}
+
+/**
+ * Refuse hosts that resolve to loopback, private or link-local addresses
+ */
+async function checkInputHost(url: URL): Promise<void> {
+  if (process.env.MEDIACONDUIT_ALLOW_PRIVATE_INPUT_URLS === 'true') return;
+
+  let isPrivate: boolean;
+  try {
+    isPrivate = await isPrivateHost(url);
+  } catch (error) {
+    throw new TransformInputError(`Failed to fetch input URL: ${error instanceof Error ? error.message : String(error)}`, 422);
+  }
+
+  if (isPrivate) {
+    throw new TransformInputError(`Input URL host '${url.hostname}' resolves to a private address`, 403);
+  }
+}
+
+/**
+ * Read a response body, aborting as soon as it exceeds the input limit
+ */
+async function readLimited(response: Response, url: URL): Promise<Buffer> {
+  const maxBytes = getMaxInputBytes();
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    let result: ReadableStreamReadResult<Uint8Array>;
+    try {
+      result = await reader.read();
+    } catch (error) {
+      // The request was aborted, timed out or the connection dropped mid-body
+      throw new TransformInputError(`Failed to read input URL ${url}: ${error instanceof Error ? error.message : String(error)}`, 422);
+    }
+    const { done, value } = result;
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new TransformInputError(`Input URL content exceeds the ${maxBytes} byte input limit`, 413);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+function parseJsonField(value: string): any {
+  try {
+    return JSON.parse(value);
+  } catch {
+    // Plain strings are allowed for text input and webhook URLs
+    return value;
+  }
+}
+
+function stripUndefined(hints: FormatHints): FormatHints {
+  return Object.fromEntries(Object.entries(hints).filter(([, value]) => value !== undefined));
+}
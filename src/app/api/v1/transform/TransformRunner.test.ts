@@ -0,0 +1,260 @@
+/**
+ * TransformRunner Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createTestJobManager } from '../../../../test/JobManagerFixture';
+import { JobStatus, MediaCapability, ProviderModel } from '../../../../media/types/provider';
+import { ProviderError } from '../../../../media/providers/ProviderError';
+import { ProviderHealthMonitor } from '../../../../media/registry/ProviderHealth';
+import { createFallbackResolver, parseFailover, runTransform, TransformTarget } from './TransformRunner';
+
+class Text {
+  constructor(public content: string, public metadata: any = {}) {}
+}
+
+function createManager(jobId: string) {
+  const jobManager = createTestJobManager();
+  jobManager.createJob(jobId, 'primary', 'model-a', 'text-to-text', new Text('hello'));
+  return jobManager;
+}
+
+// Fake provider/model pair backed by the given transform function
+function createTarget(providerId: string, modelId: string, transform: (input: any) => Promise<any>): TransformTarget {
+  return { provider: { id: providerId, getModel: async () => ({ transform }) }, model: { id: modelId } };
+}
+
+// Outages are worth failing over; see the invalid_input test for the opposite
+const failing = (message: string) => async () => { throw new ProviderError(message, 'unavailable'); };
+
+describe('parseFailover', () => {
+  it('should accept booleans and policy objects', () => {
+    expect(parseFailover(undefined)).toEqual({ maxAttempts: 3 });
+    expect(parseFailover(false)).toEqual({ maxAttempts: 1 });
+    expect(parseFailover({ maxAttempts: 2, maxCost: 0.1, preferLocal: true })).toEqual({ maxAttempts: 2, maxCost: 0.1, preferLocal: true });
+    expect(parseFailover({ maxAttempts: 0 })).toBeUndefined();
+    expect(parseFailover({ maxCost: 'cheap' })).toBeUndefined();
+    expect(parseFailover('yes')).toBeUndefined();
+  });
+});
+
+describe('runTransform', () => {
+  it('should fail over to the next model and record every attempt', async () => {
+    const jobManager = createManager('job-1');
+    const fallback = createTarget('backup', 'model-b', async input => new Text(input.content.toUpperCase()));
+    const findFallback = vi.fn().mockResolvedValueOnce(fallback);
+
+    await runTransform(
+      'job-1',
+      createTarget('primary', 'model-a', failing('upstream 502')),
+      new Text('hello'),
+      {},
+      jobManager,
+      new AbortController().signal,
+      { maxAttempts: 3 },
+      findFallback
+    );
+
+    const job = jobManager.getJob('job-1')!;
+    expect(findFallback).toHaveBeenCalledWith(['primary/model-a']);
+    expect(job.status).toBe(JobStatus.COMPLETED);
+    expect(job.output.content).toBe('HELLO');
+    expect(job.providerId).toBe('backup');
+    expect(job.attempts?.map(attempt => [attempt.providerId, attempt.error])).toEqual([
+      ['primary', 'upstream 502'],
+      ['backup', undefined]
+    ]);
+  });
+
+  it('should run a fallback in a queue slot of its own provider', async () => {
+    const jobManager = createManager('job-9');
+    const queue = jobManager.getQueue();
+    const transform = vi.fn(async () => {
+      expect(queue.getActiveCount('backup')).toBe(1);
+      return new Text('done');
+    });
+    const held = await queue.acquireLane('backup');
+
+    const running = runTransform(
+      'job-9',
+      createTarget('primary', 'model-a', failing('upstream 502')),
+      new Text('hello'),
+      {},
+      jobManager,
+      new AbortController().signal,
+      { maxAttempts: 2 },
+      vi.fn().mockResolvedValueOnce(createTarget('backup', 'model-b', transform))
+    );
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(transform).not.toHaveBeenCalled();
+
+    held();
+    await running;
+    expect(transform).toHaveBeenCalledTimes(1);
+    expect(queue.getActiveCount('backup')).toBe(0);
+    expect(jobManager.getJob('job-9')?.status).toBe(JobStatus.COMPLETED);
+  });
+
+  it('should stop after maxAttempts and fail the job with the last error', async () => {
+    const jobManager = createManager('job-2');
+    const findFallback = vi.fn()
+      .mockResolvedValueOnce(createTarget('second', 'model-b', failing('second down')))
+      .mockResolvedValueOnce(createTarget('third', 'model-c', async () => new Text('never')));
+
+    await expect(runTransform(
+      'job-2',
+      createTarget('primary', 'model-a', failing('first down')),
+      new Text('hello'),
+      {},
+      jobManager,
+      new AbortController().signal,
+      { maxAttempts: 2 },
+      findFallback
+    )).rejects.toThrow('second down');
+
+    const job = jobManager.getJob('job-2')!;
+    expect(findFallback).toHaveBeenCalledTimes(1);
+    expect(job.status).toBe(JobStatus.FAILED);
+    expect(job.error).toBe('second down');
+    expect(job.attempts).toHaveLength(2);
+  });
+
+  it('should not fail over when the request itself was rejected', async () => {
+    const jobManager = createManager('job-6');
+    const findFallback = vi.fn();
+
+    await expect(runTransform(
+      'job-6',
+      createTarget('primary', 'model-a', async () => { throw new ProviderError('prompt rejected', 'invalid_input', 400); }),
+      new Text('hello'),
+      {},
+      jobManager,
+      new AbortController().signal,
+      { maxAttempts: 3 },
+      findFallback
+    )).rejects.toThrow('prompt rejected');
+
+    expect(findFallback).not.toHaveBeenCalled();
+    expect(jobManager.getJob('job-6')?.status).toBe(JobStatus.FAILED);
+  });
+
+  it('should fail over without counting a failure while the provider runs its half-open trial', async () => {
+    const jobManager = createManager('job-8');
+    const health = ProviderHealthMonitor.getInstance();
+    const tryRoute = vi.spyOn(health, 'tryRoute').mockReturnValueOnce(false);
+    const recordOutcome = vi.spyOn(health, 'recordOutcome');
+    const transform = vi.fn();
+
+    try {
+      await runTransform(
+        'job-8',
+        createTarget('on-trial', 'model-a', transform),
+        new Text('hello'),
+        {},
+        jobManager,
+        new AbortController().signal,
+        { maxAttempts: 2 },
+        async () => createTarget('backup', 'model-b', async () => new Text('from backup'))
+      );
+
+      expect(transform).not.toHaveBeenCalled();
+      expect(recordOutcome.mock.calls).toEqual([['backup', true]]);
+      expect(jobManager.getJob('job-8')?.attempts?.[0].error).toMatch(/temporarily unavailable/);
+      expect(jobManager.getJob('job-8')?.output.content).toBe('from backup');
+    } finally {
+      tryRoute.mockRestore();
+      recordOutcome.mockRestore();
+    }
+  });
+
+  it('should not fail over when the job was cancelled', async () => {
+    const jobManager = createManager('job-3');
+    const controller = new AbortController();
+    const findFallback = vi.fn();
+
+    await runTransform(
+      'job-3',
+      createTarget('primary', 'model-a', async () => {
+        controller.abort();
+        throw new Error('aborted');
+      }),
+      new Text('hello'),
+      {},
+      jobManager,
+      controller.signal,
+      { maxAttempts: 3 },
+      findFallback
+    );
+
+    expect(findFallback).not.toHaveBeenCalled();
+    expect(jobManager.getJob('job-3')?.status).not.toBe(JobStatus.FAILED);
+  });
+
+  it('should publish text deltas of streaming jobs and record the final Text', async () => {
+    const jobManager = createManager('job-4');
+    jobManager.updateJob('job-4', { streaming: true });
+    const deltas: string[] = [];
+    jobManager.subscribe('job-4', event => event.type === 'delta' && deltas.push(event.text));
+
+    const streamingTarget = (providerId: string, pieces: string[], failAfter = false): TransformTarget => ({
+      provider: {
+        id: providerId,
+        getModel: async () => ({
+          transform: async () => { throw new Error('transform() should not be called'); },
+          async *stream() {
+            yield* pieces;
+            if (failAfter) throw new Error('connection reset');
+            return new Text(pieces.join(''), { generation_prompt: { modelId: 'model-a' } });
+          }
+        })
+      },
+      model: { id: 'model-a' }
+    });
+
+    await runTransform('job-4', streamingTarget('primary', ['Hel', 'lo']), new Text('hi'), {}, jobManager, new AbortController().signal);
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(jobManager.getJob('job-4')?.output.content).toBe('Hello');
+    expect(jobManager.getJob('job-4')?.status).toBe(JobStatus.COMPLETED);
+
+    // Once text has been sent, a failure is final rather than restarted on another model
+    const broken = createManager('job-5');
+    broken.updateJob('job-5', { streaming: true });
+    const findFallback = vi.fn();
+    await expect(runTransform(
+      'job-5', streamingTarget('primary', ['Par'], true), new Text('hi'), {}, broken,
+      new AbortController().signal, { maxAttempts: 3 }, findFallback
+    )).rejects.toThrow('connection reset');
+    expect(findFallback).not.toHaveBeenCalled();
+    expect(broken.getJob('job-5')?.status).toBe(JobStatus.FAILED);
+  });
+});
+
+describe('createFallbackResolver', () => {
+  const candidate = (providerId: string, parameters: ProviderModel['parameters']) => ({
+    provider: { id: providerId, getModel: async () => ({}) } as any,
+    model: { id: 'model', name: 'model', capabilities: [MediaCapability.TEXT_TO_AUDIO], parameters } as ProviderModel,
+    health: 'healthy' as const,
+    circuit: 'closed' as const,
+    errorRate: 0
+  });
+
+  it('should drop options a candidate does not declare and skip candidates they are invalid for', async () => {
+    const rank = vi.fn(async () => [
+      candidate('strict', { speed: { type: 'number', min: 0.5, max: 2 } }),
+      candidate('lenient', { speed: { type: 'number', min: 0.25, max: 4 } })
+    ]);
+    const resolve = createFallbackResolver(
+      MediaCapability.TEXT_TO_AUDIO,
+      { voice: 'nova', speed: 3, emotion: 'happy' },
+      { maxAttempts: 3, maxCost: 1 },
+      rank,
+      providerId => (providerId === 'lenient' ? { format: 'wav' } : {})
+    );
+
+    const target = await resolve(['primary/model-a']);
+
+    expect(rank).toHaveBeenCalledWith({ maxCost: 1, preferLocal: undefined, excludeModels: ['primary/model-a'] });
+    expect(target?.provider.id).toBe('lenient');
+    expect(target?.options).toEqual({ format: 'wav', voice: 'nova', speed: 3 });
+  });
+});
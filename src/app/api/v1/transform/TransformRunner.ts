@@ -0,0 +1,260 @@
+/**
+ * Transform Runner
+ * Executes a single-model transform job and, when the model fails, retries on
+ * the next eligible provider/model for the same capability
+ */
+
+import JobManager, { TransformAttempt } from '../jobs/JobManager';
+import { JobStatus, MediaCapability } from '../../../../media/types/provider';
+import { TransformProgress } from '../../../../media/models/abstracts/Model';
+import {
+  RouteCandidate,
+  RoutingCriteria,
+  claimRoute,
+  recordRouteFailure,
+  recordRouteOutcome,
+  releaseRoute,
+  routeKey
+} from '../../../../media/registry/ProviderRouter';
+import { getModelOptionSchema, pickDeclaredOptions, validateOptions } from '../../../../media/registry/OptionSchema';
+import { TransformCache } from '../../../../media/registry/TransformCache';
+import { ProviderError, classifyProviderError, isRetryableKind } from '../../../../media/providers/ProviderError';
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+export const MAX_ATTEMPTS_LIMIT = 10;
+
+/**
+ * Provider/model pair a transform can run on
+ */
+export interface TransformTarget {
+  provider: { id: string; getModel(modelId: string, capability?: MediaCapability): Promise<any> };
+  model: { id: string };
+  /** Options for this target; the job's options when omitted */
+  options?: Record<string, any>;
+}
+
+/**
+ * How a job may fail over. maxAttempts counts the requested model too, so
+ * 1 disables failover.
+ */
+export interface FailoverPolicy {
+  maxAttempts: number;
+  maxCost?: number;
+  preferLocal?: boolean;
+}
+
+/**
+ * Picks the next target, given the "providerId/modelId" keys already attempted
+ */
+export type FallbackResolver = (attempted: string[]) => Promise<TransformTarget | undefined>;
+
+/**
+ * Fallback resolver over ranked candidates. A candidate runs with the
+ * request's options minus those its schema does not declare, on top of its own
+ * config-file defaults; candidates the options are still invalid for are skipped.
+ */
+export function createFallbackResolver(
+  capability: MediaCapability,
+  requestOptions: Record<string, any>,
+  policy: FailoverPolicy,
+  rank: (criteria: RoutingCriteria) => Promise<RouteCandidate[]>,
+  getDefaults: (providerId: string, modelId: string) => Record<string, any> = () => ({})
+): FallbackResolver {
+  return async attempted => {
+    const candidates = await rank({ maxCost: policy.maxCost, preferLocal: policy.preferLocal, excludeModels: attempted });
+
+    for (const { provider, model } of candidates) {
+      const schema = getModelOptionSchema(model, capability);
+      const options = pickDeclaredOptions(schema, requestOptions);
+      if (validateOptions(schema, options).length === 0) {
+        return { provider, model, options: { ...getDefaults(provider.id, model.id), ...options } };
+      }
+    }
+    return undefined;
+  };
+}
+
+/**
+ * Parse the `failover` request field:
+ * - omitted or true: up to DEFAULT_MAX_ATTEMPTS attempts
+ * - false: only the requested model
+ * - { maxAttempts?, maxCost?, preferLocal? }
+ * @returns the policy, or undefined if the value is invalid
+ */
+export function parseFailover(value: any): FailoverPolicy | undefined {
+  if (value === undefined || value === true) {
+    return { maxAttempts: DEFAULT_MAX_ATTEMPTS };
+  }
+  if (value === false) {
+    return { maxAttempts: 1 };
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+
+  const maxAttempts = value.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1 || maxAttempts > MAX_ATTEMPTS_LIMIT) {
+    return undefined;
+  }
+  if (value.maxCost !== undefined && (typeof value.maxCost !== 'number' || !(value.maxCost >= 0))) {
+    return undefined;
+  }
+  if (value.preferLocal !== undefined && typeof value.preferLocal !== 'boolean') {
+    return undefined;
+  }
+
+  return { maxAttempts, maxCost: value.maxCost, preferLocal: value.preferLocal };
+}
+
+/**
+ * Run the transform on the requested target, failing over while attempts remain.
+ * Every attempt is recorded on the job and reported to the provider router;
+ * job.providerId/modelId follow the model currently running.
+ */
+export async function runTransform(
+  jobId: string,
+  target: TransformTarget,
+  input: any,
+  options: any,
+  jobManager: JobManager,
+  signal: AbortSignal,
+  policy: FailoverPolicy = { maxAttempts: 1 },
+  findFallback?: FallbackResolver,
+  cache: TransformCache = TransformCache.getInstance()
+): Promise<void> {
+  const startTime = Date.now();
+  const attempts: TransformAttempt[] = [];
+  const streaming = jobManager.getJob(jobId)?.streaming === true;
+  const capability = jobManager.getJob(jobId)?.capability as MediaCapability | undefined;
+  let streamed = false;
+  let current: TransformTarget | undefined = target;
+
+  jobManager.updateJob(jobId, {
+    status: JobStatus.RUNNING,
+    startedAt: new Date(),
+    progress: 0
+  });
+
+  while (current) {
+    const { provider, model } = current;
+    const targetOptions = current.options ?? options;
+    const attempt: TransformAttempt = { providerId: provider.id, modelId: model.id, startedAt: new Date() };
+    attempts.push(attempt);
+    jobManager.updateJob(jobId, { providerId: provider.id, modelId: model.id, attempts: [...attempts] });
+
+    // Set once the provider is called; cached results say nothing about its health
+    let routed = false;
+    try {
+      console.log(`[Job ${jobId}] Starting transformation with model: ${model.id} (attempt ${attempts.length})`);
+
+      // The job holds a queue slot of the requested provider only, so a fallback
+      // waits for a slot of its own and counts against that provider's limit
+      const releaseLane = current === target ? undefined : await jobManager.getQueue().acquireLane(provider.id, signal);
+      let output: any;
+      try {
+        // A cached result for this provider/model skips the model entirely
+        output = await cache.run({ providerId: provider.id, modelId: model.id }, input, targetOptions, async modelOptions => {
+          // A half-open circuit lets a single trial request through; others fail over
+          if (!claimRoute(provider.id)) {
+            throw new ProviderError(`Provider '${provider.id}' is temporarily unavailable after repeated failures`, 'unavailable', 503, provider.id);
+          }
+          routed = true;
+
+          // Get the actual model instance from the provider
+          const modelInstance = await provider.getModel(model.id, capability);
+          if (!modelInstance) {
+            throw new Error(`Failed to get model instance for ${model.id}`);
+          }
+
+          // The signal aborts on cancellation and progress reported by the model is
+          // streamed to job subscribers
+          const transformOptions = {
+            ...modelOptions,
+            signal,
+            onProgress: (progress: TransformProgress) => jobManager.reportProgress(jobId, progress)
+          };
+          if (!streaming || typeof modelInstance.stream !== 'function') {
+            return modelInstance.transform(input, transformOptions);
+          }
+
+          return drainTextStream(modelInstance.stream(input, transformOptions), delta => {
+            streamed = true;
+            jobManager.reportDelta(jobId, delta);
+          });
+        });
+      } finally {
+        releaseLane?.();
+      }
+
+      // Cached results arrive in one piece
+      if (streaming && !streamed && typeof output?.content === 'string') {
+        jobManager.reportDelta(jobId, output.content);
+      }
+
+      attempt.completedAt = new Date();
+      attempt.processingTime = Date.now() - attempt.startedAt.getTime();
+      if (routed) recordRouteOutcome(provider.id, model.id, true);
+      jobManager.updateJob(jobId, { attempts: [...attempts] });
+
+      const processingTime = Date.now() - startTime;
+      console.log(`[Job ${jobId}] Transformation completed in ${processingTime}ms`);
+
+      // Persist media outputs, then complete the job with automatic generation chain and URL extraction
+      await jobManager.storeOutput(jobId, output);
+      jobManager.completeJobWithAsset(jobId, output, processingTime);
+      return;
+
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      const message = error instanceof Error ? error.message : String(error);
+      attempt.completedAt = new Date();
+      attempt.processingTime = Date.now() - attempt.startedAt.getTime();
+
+      if (signal.aborted || jobManager.isCancelled(jobId)) {
+        console.log(`[Job ${jobId}] Transformation cancelled after ${processingTime}ms`);
+        if (routed) releaseRoute(provider.id);
+        jobManager.updateJob(jobId, { attempts: [...attempts], processingTime });
+        return;
+      }
+
+      attempt.error = message;
+      const retryable = routed
+        ? recordRouteFailure(provider.id, model.id, error)
+        : isRetryableKind(classifyProviderError(error));
+      console.error(`[Job ${jobId}] ${provider.id}/${model.id} failed after ${attempt.processingTime}ms:`, error);
+
+      // Only failures that may pass elsewhere (rate limits, outages, timeouts) fail
+      // over; rejected input would fail the same way on every model. Subscribers that
+      // already received part of this model's text can't be handed to another model.
+      current = retryable && !streamed && attempts.length < policy.maxAttempts && findFallback
+        ? await findFallback(attempts.map(a => routeKey(a.providerId, a.modelId))).catch(() => undefined)
+        : undefined;
+
+      if (!current) {
+        jobManager.updateJob(jobId, {
+          status: JobStatus.FAILED,
+          error: message,
+          attempts: [...attempts],
+          processingTime
+        });
+        throw error;
+      }
+
+      console.log(`[Job ${jobId}] Failing over to ${current.provider.id}/${current.model.id}`);
+      jobManager.reportProgress(jobId, { percentage: 0, message: `Retrying on ${current.model.id}` });
+    }
+  }
+}
+
+/**
+ * Pass every delta of a TextToTextModel.stream() generator to onDelta and
+ * resolve with the Text it returns
+ */
+async function drainTextStream<T>(stream: AsyncGenerator<string, T>, onDelta: (delta: string) => void): Promise<T> {
+  let next = await stream.next();
+  while (!next.done) {
+    onDelta(next.value);
+    next = await stream.next();
+  }
+  return next.value;
+}
@@ -1,13 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
-import { initializeProviders, ProviderRegistry } from '../../../../../../media/registry/bootstrap';
+import { initializeProviders, ProviderRegistry, resolveProviderModel } from '../../../../../../media/registry/bootstrap';
 import JobManager from '../../../jobs/JobManager';
-import { MediaCapability, JobStatus } from '../../../../../../media/types/provider';
+import { isAllowedWebhookHost, parseWebhook } from '../../../jobs/WebhookDispatcher';
+import { deserializeInput, parseTransformRequest } from '../../TransformInput';
+import { ApiError } from '../../../ApiError';
+import { JobStatus, MediaCapability } from '../../../../../../media/types/provider';
+import { getProviderStatus } from '../../../../../../media/registry/ProviderHealth';
+import { getModelOptionSchema, validateOptions } from '../../../../../../media/registry/OptionSchema';
+import { checkResponseSchema } from '../../../../../../media/utils/StructuredOutput';
+import { createFallbackResolver, parseFailover, runTransform } from '../../TransformRunner';
+import { authenticateRequest, checkJobQuota } from '../../../auth/ApiGuard';
+import { canAccessConversation } from '../../../auth/ApiAuthenticator';
+import type { ApiPrincipal } from '../../../auth/ApiAuthenticator';
+import { createJobEventStream, EVENT_STREAM_HEADERS, StreamEvent } from '../../../jobs/JobEventStream';
+import type { Job } from '../../../jobs/JobManager';
+import ConversationManager, { ConversationError, toConversationMessages } from '../../../conversations/ConversationManager';
+import type { Conversation, ConversationMessage } from '../../../../../../media/assets/roles';
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ providerId: string; modelId: string }> }
 ) {
+  const principal = authenticateRequest(request);
+  if (principal instanceof NextResponse) return principal;
+
   const { providerId, modelId } = await params;
   
   if (!providerId || !modelId || typeof providerId !== 'string' || typeof modelId !== 'string') {
@@ -21,7 +38,8 @@ export async function POST(
   }
 
   try {
-    const body = await request.json();
+    // JSON body, or multipart/form-data with file uploads
+    const { body, files } = await parseTransformRequest(request);
     
     // Simple validation - we only need input, capability, and optional options
     if (!body.input || !body.capability) {
@@ -34,10 +52,111 @@ export async function POST(
       );
     }
 
+    if (body.priority !== undefined && (typeof body.priority !== 'number' || !Number.isFinite(body.priority))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'priority must be a number'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.options !== undefined && (typeof body.options !== 'object' || body.options === null || Array.isArray(body.options))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'options must be an object'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.stream !== undefined && typeof body.stream !== 'boolean') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'stream must be a boolean'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.stream && body.capability !== MediaCapability.TEXT_TO_TEXT) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `stream is only supported for capability '${MediaCapability.TEXT_TO_TEXT}'`
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.conversationId !== undefined && typeof body.conversationId !== 'string') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'conversationId must be a string'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.conversationId && body.capability !== MediaCapability.TEXT_TO_TEXT) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `conversationId is only supported for capability '${MediaCapability.TEXT_TO_TEXT}'`
+        },
+        { status: 400 }
+      );
+    }
+
+    const webhook = parseWebhook(body.webhook);
+    if (body.webhook !== undefined && !webhook) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'webhook must be an http(s) URL or an object { url, secret? }'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (webhook && !(await isAllowedWebhookHost(webhook.url).catch(() => false))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'webhook host must resolve to a public address'
+        },
+        { status: 400 }
+      );
+    }
+
+    const failover = parseFailover(body.failover);
+    if (!failover) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'failover must be a boolean or an object { maxAttempts?, maxCost?, preferLocal? }'
+        },
+        { status: 400 }
+      );
+    }
+
+    // Checked before any provider work so callers at their quota get a fast 429
+    const quotaResponse = checkJobQuota(principal);
+    if (quotaResponse) return quotaResponse;
+
     const generationRequest = {
       input: body.input,
       capability: body.capability,
-      options: body.options || {}
+      options: body.options || {},
+      priority: body.priority ?? 0,
+      stream: body.stream === true,
+      conversationId: body.conversationId as string | undefined,
+      webhook,
+      failover
     };
 
     // Ensure providers are initialized
@@ -45,6 +164,10 @@ export async function POST(
     if (!registry.getAvailableProviders().length) {
       await initializeProviders();
     }
+
+    // Model aliases and default options from mediaconduit.config.yml
+    const resolved = resolveProviderModel(providerId, modelId);
+    generationRequest.options = { ...resolved.options, ...generationRequest.options };
     
     // Get provider
     if (!registry.hasProvider(providerId)) {
@@ -59,9 +182,20 @@ export async function POST(
     
     const provider = await registry.getProvider(providerId);
 
-    // Check if provider is available
-    const isAvailable = await provider.isAvailable();
-    if (!isAvailable) {
+    // Check if provider is available (cached probe), and that its circuit breaker
+    // is not rejecting traffic after repeated failures
+    const status = await getProviderStatus(provider);
+    if (status.circuit.state === 'open') {
+      const retryAfter = Math.max(1, Math.ceil((status.circuit.retryAt!.getTime() - Date.now()) / 1000));
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Provider '${providerId}' is temporarily unavailable after repeated failures`
+        },
+        { status: 503, headers: { 'Retry-After': retryAfter.toString() } }
+      );
+    }
+    if (!status.isAvailable) {
       return NextResponse.json(
         {
           success: false,
@@ -72,7 +206,7 @@ export async function POST(
     }
 
     // Get model
-    const model = provider.models.find(m => m.id === modelId);
+    const model = provider.models.find(m => m.id === resolved.modelId);
     if (!model) {
       return NextResponse.json(
         {
@@ -94,56 +228,96 @@ export async function POST(
       );
     }
 
+    // Reject unknown or invalid options before a job exists. Defaults from
+    // mediaconduit.config.yml come from the operator and are not re-checked.
+    const optionIssues = [
+      ...validateOptions(getModelOptionSchema(model, generationRequest.capability), body.options || {}),
+      ...checkResponseSchema(body.options?.responseSchema)
+    ];
+    if (optionIssues.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid options for model '${modelId}'`,
+          issues: optionIssues,
+          schemaUrl: `/api/v1/models/${providerId}/${modelId}`
+        },
+        { status: 400 }
+      );
+    }
+
     // Create job with deserialized input and options
     const jobManager = JobManager.getInstance();
     const jobId = uuidv4();
     
-    // Convert input to proper Role objects
-    let deserializedInput = generationRequest.input;
-    
-    // If input has content and is a plain object, convert to Text
-    if (deserializedInput && typeof deserializedInput === 'object' && !deserializedInput.asText) {
-      try {
-        const { Text } = await import('../../../../../../media/assets/roles/classes/Text');
-        
-        // Handle text input
-        if (typeof deserializedInput.content === 'string') {
-          deserializedInput = new Text(
-            deserializedInput.content,
-            deserializedInput.language,
-            deserializedInput.confidence,
-            deserializedInput.metadata || {}
-          );
-          console.log(`Input converted to Text object: "${deserializedInput.content.substring(0, 50)}..."`);
-        }
-        // If it's just a string, wrap it in Text
-        else if (typeof deserializedInput === 'string') {
-          deserializedInput = new Text(deserializedInput);
-          console.log(`String input converted to Text object: "${deserializedInput.content.substring(0, 50)}..."`);
-        }
-      } catch (error) {
-        console.warn('Failed to deserialize input, using as-is:', error.message);
-      }
-    }
+    // Convert input descriptors (text, URLs, base64, uploaded files) to Text and media assets
+    const deserializedInput = await deserializeInput(generationRequest.input, files, request.signal);
+
+    // A conversation turn sends the stored history followed by the new messages
+    const turnMessages = generationRequest.conversationId
+      ? await prepareConversationTurn(generationRequest.conversationId, deserializedInput, principal)
+      : undefined;
+
+    // Checked again with no await until the job exists, so parallel requests
+    // cannot all pass the early check and exceed the quota together
+    const reservedQuotaResponse = checkJobQuota(principal);
+    if (reservedQuotaResponse) return reservedQuotaResponse;
+
+    const turn = turnMessages && beginConversationTurn(turnMessages, jobId);
+    const transformInput = turn?.conversation ?? deserializedInput;
     
     const job = jobManager.createJob(
       jobId, 
       providerId, 
-      modelId, 
+      resolved.modelId, 
       generationRequest.capability,
-      deserializedInput,
-      generationRequest.options
+      transformInput,
+      generationRequest.options,
+      generationRequest.webhook,
+      principal.keyId
     );
 
-    // Start transformation (async)
-    processTransformation(provider, model, generationRequest.capability, deserializedInput, generationRequest.options, jobId, jobManager)
-      .catch(error => {
-        console.error(`Transformation job ${jobId} failed:`, error);
-        jobManager.updateJob(jobId, {
-          status: JobStatus.FAILED,
-          error: error.message
-        });
+    // Streaming responses follow the job from here on, so subscribe before it is queued
+    let eventStream: ReadableStream<Uint8Array> | undefined;
+    if (generationRequest.stream) {
+      jobManager.updateJob(jobId, { streaming: true });
+      eventStream = createJobEventStream(jobManager, jobId, request.signal, {
+        initial: [{ event: 'job', data: { jobId, statusUrl: `/api/v1/jobs/${jobId}` } }],
+        final: createStreamResult
       });
+    }
+
+    // Queue transformation - runs when concurrency limits allow. If the model fails,
+    // the job moves on to the best-ranked remaining model with the same capability.
+    jobManager.submit(
+      jobId,
+      // runTransform records every attempt and the final failure on the job before rethrowing
+      signal => runTransform(
+        jobId,
+        { provider, model },
+        transformInput,
+        generationRequest.options,
+        jobManager,
+        signal,
+        generationRequest.failover,
+        createFallbackResolver(
+          generationRequest.capability as MediaCapability,
+          body.options || {},
+          generationRequest.failover,
+          criteria => registry.rankCandidates(generationRequest.capability as MediaCapability, criteria),
+          (candidateProviderId, candidateModelId) => resolveProviderModel(candidateProviderId, candidateModelId).options
+        )
+      )
+        .then(() => turn && completeConversationTurn(turn, jobId, jobManager))
+        .catch(error => console.error(`Transformation job ${jobId} failed:`, error)),
+      generationRequest.priority
+    );
+
+    // Text deltas as they are generated, then the recorded result. The job runs to
+    // completion even if the client disconnects.
+    if (eventStream) {
+      return new NextResponse(eventStream, { headers: EVENT_STREAM_HEADERS });
+    }
 
     return NextResponse.json(
       {
@@ -151,14 +325,27 @@ export async function POST(
         data: {
           jobId,
           status: job.status,
-          message: 'Transformation started',
-          statusUrl: `/api/v1/jobs/${jobId}`
+          queuePosition: jobManager.getQueuePosition(jobId),
+          conversationId: turn?.conversationId,
+          message: 'Transformation queued',
+          statusUrl: `/api/v1/jobs/${jobId}`,
+          eventsUrl: `/api/v1/jobs/${jobId}/events`
         }
       },
       { status: 202 }
     );
 
   } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message
+        },
+        { status: error.statusCode }
+      );
+    }
+
     console.error('Transform endpoint error:', error);
     return NextResponse.json(
       {
@@ -170,55 +357,60 @@ export async function POST(
   }
 }
 
-async function processTransformation(
-  provider: any,
-  model: any,
-  capability: string,
-  input: any,
-  options: any,
-  jobId: string,
-  jobManager: JobManager
-) {
-  const startTime = Date.now();
-
-  try {
-    // Update job status to running
-    jobManager.updateJob(jobId, { 
-      status: JobStatus.RUNNING,
-      startedAt: new Date()
-    });
-
-    console.log(`[Job ${jobId}] Starting transformation with model: ${model.id}`);
-    console.log(`[Job ${jobId}] Input type: ${input?.constructor?.name}`);
-    console.log(`[Job ${jobId}] Options:`, options);
+interface ConversationTurn {
+  conversationId: string;
+  messages: ConversationMessage[];    // The turn's new messages, recorded with the reply
+  conversation: Conversation;         // History plus the new messages, sent to the model
+}
 
-    // Get the actual model instance from the provider
-    const modelInstance = await provider.getModel(model.id);
-    if (!modelInstance) {
-      throw new Error(`Failed to get model instance for ${model.id}`);
-    }
+/**
+ * Check access to the conversation and convert the input to its new messages
+ */
+async function prepareConversationTurn(
+  conversationId: string,
+  input: any,
+  principal: ApiPrincipal
+): Promise<Omit<ConversationTurn, 'conversation'>> {
+  const session = ConversationManager.getInstance().get(conversationId);
+  if (!session || !canAccessConversation(principal, session)) {
+    throw new ConversationError(`Conversation '${conversationId}' not found`, 404);
+  }
 
-    // Call the model's transform method with deserialized input
-    const output = await modelInstance.transform(input, options);
-    
-    const processingTime = Date.now() - startTime;
-    console.log(`[Job ${jobId}] Transformation completed in ${processingTime}ms`);
-    console.log(`[Job ${jobId}] Output type: ${output.constructor.name}`);
+  return { conversationId, messages: await toConversationMessages(input) };
+}
 
-    // Complete the job with automatic generation chain and URL extraction
-    jobManager.completeJobWithAsset(jobId, output, processingTime);
+function beginConversationTurn(turn: Omit<ConversationTurn, 'conversation'>, jobId: string): ConversationTurn {
+  const conversation = ConversationManager.getInstance().beginTurn(turn.conversationId, turn.messages, jobId);
+  return { ...turn, conversation };
+}
 
-    console.log(`[Job ${jobId}] Job completed successfully`);
+function completeConversationTurn(turn: ConversationTurn, jobId: string, jobManager: JobManager): void {
+  const output = jobManager.getJob(jobId)?.output;
+  if (output) {
+    ConversationManager.getInstance().completeTurn(turn.conversationId, jobId, turn.messages, output);
+  }
+}
 
-  } catch (error) {
-    const processingTime = Date.now() - startTime;
-    console.error(`[Job ${jobId}] Transformation failed after ${processingTime}ms:`, error);
-    
-    jobManager.updateJob(jobId, {
-      status: JobStatus.FAILED,
-      error: error.message,
-      processingTime
-    });
-    throw error;
+/**
+ * Last event of a streaming transform: the final Text with its lineage, or the failure
+ */
+function createStreamResult(job: Job): StreamEvent {
+  if (job.status !== JobStatus.COMPLETED) {
+    return { event: 'error', data: { jobId: job.id, status: job.status, error: job.error } };
   }
+
+  return {
+    event: 'result',
+    data: {
+      jobId: job.id,
+      status: job.status,
+      output: {
+        type: 'text',
+        content: job.output?.content,
+        metadata: job.output?.metadata
+      },
+      generation_chain: job.generation_chain,
+      processingTime: job.processingTime
+    }
+  };
 }
@@ -19,6 +19,7 @@ import { TextToVideoProvider } from '../capabilities/interfaces/TextToVideoProvi
 import { TextToImageProvider } from '../capabilities/interfaces/TextToImageProvider';
 import { TextToTextProvider } from '../capabilities/interfaces/TextToTextProvider';
 import { AudioToAudioProvider } from '../capabilities/interfaces/AudioToAudioProvider';
+import { ImageToTextProvider } from '../capabilities/interfaces/ImageToTextProvider';
 
 /**
  * Type mapping for role target types to their corresponding classes
@@ -43,6 +44,9 @@ export interface ProviderCapabilityMap {
   'text->video': TextToVideoProvider;
   'text->image': TextToImageProvider;
   'text->text': TextToTextProvider;
+
+  // Image source conversions
+  'image->text': ImageToTextProvider;
 }
 
 /**
@@ -82,6 +86,12 @@ export function determineSourceRole(asset: any): string {
   if (asset instanceof TextAsset) return 'text';
   if (asset instanceof ImageAsset) return 'image';
 
+  // Role objects (e.g. an Image from a generation) that are not assets
+  if (asset instanceof Audio) return 'audio';
+  if (asset instanceof Video) return 'video';
+  if (asset instanceof Text) return 'text';
+  if (asset instanceof Image) return 'image';
+
   // Fallback for older assets or non-standard types
   if (asset.canPlayAudioRole && asset.canPlayAudioRole()) return 'audio';
   if (asset.canPlayVideoRole && asset.canPlayVideoRole()) return 'video';
@@ -158,7 +168,8 @@ export async function asRole<T extends RoleTargetType>(
       throw new Error(`No provider found for capability: ${capability}`);
     }
     
-    // Get model from provider - use capability-based selection if modelId is 'default'
+    // Get model from provider - use capability-based selection if modelId is 'default'.
+    // The capability picks the implementation of models that serve several (e.g. chat + vision).
     let model;
     if (modelId === 'default') {
       // Use capability-based selection for default model requests
@@ -171,11 +182,11 @@ export async function asRole<T extends RoleTargetType>(
         if (!capableModel) {
           throw new Error(`Provider ${provider.name} has no supported models for capability ${capability}`);
         }
-        model = await provider.getModel(capableModel.id);
+        model = await provider.getModel(capableModel.id, capability);
       }
     } else {
       // Use specific model ID
-      model = await provider.getModel(modelId);
+      model = await provider.getModel(modelId, capability);
     }
     
     const result = await model.transform(sourceAsset);
@@ -5,7 +5,7 @@
  * and applies appropriate role mixins for maximum functionality.
  */
 
-import { BaseAsset } from './Asset';
+import { BaseAsset, AssetMetadata } from './Asset';
 import { AudioAsset, VideoAsset, ImageAsset, TextAsset } from './types';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -25,6 +25,7 @@ const FORMAT_REGISTRY: Record<string, FormatInfo> = {
   wav: { category: 'audio', mimeType: 'audio/wav' },
   flac: { category: 'audio', mimeType: 'audio/flac' },
   ogg: { category: 'audio', mimeType: 'audio/ogg' },
+  m4a: { category: 'audio', mimeType: 'audio/mp4' },
   
   // Video formats
   mp4: { category: 'video', mimeType: 'video/mp4' },
@@ -37,6 +38,7 @@ const FORMAT_REGISTRY: Record<string, FormatInfo> = {
   jpg: { category: 'image', mimeType: 'image/jpeg' },
   jpeg: { category: 'image', mimeType: 'image/jpeg' },
   webp: { category: 'image', mimeType: 'image/webp' },
+  gif: { category: 'image', mimeType: 'image/gif' },
   
   // Text formats
   txt: { category: 'text', mimeType: 'text/plain' },
@@ -49,6 +51,51 @@ function detectFormatCategory(format: string): FormatInfo | null {
   return FORMAT_REGISTRY[format.toLowerCase()] || null;
 }
 
+/**
+ * Hints used when the format of raw data is not known up front
+ */
+export interface FormatHints {
+  format?: string;            // Explicit format, e.g. 'mp4'
+  filename?: string;          // Original file name or URL path
+  mimeType?: string;          // Content-Type reported by the sender
+}
+
+function detectFormatFromMimeType(mimeType: string): string | null {
+  const normalized = mimeType.split(';')[0].trim().toLowerCase();
+  const entry = Object.entries(FORMAT_REGISTRY).find(([, info]) => info.mimeType === normalized);
+  return entry ? entry[0] : null;
+}
+
+/**
+ * Identify a format from the file signature ("magic bytes")
+ */
+function detectFormatFromSignature(data: Buffer): string | null {
+  const ascii = (start: number, end: number) => data.subarray(start, end).toString('latin1');
+
+  if (data.length < 12) return null;
+  if (data[0] === 0x89 && ascii(1, 4) === 'PNG') return 'png';
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'jpeg';
+  if (ascii(0, 4) === 'GIF8') return 'gif';
+  if (ascii(0, 4) === 'RIFF') {
+    const type = ascii(8, 12);
+    if (type === 'WEBP') return 'webp';
+    if (type === 'WAVE') return 'wav';
+    if (type === 'AVI ') return 'avi';
+  }
+  if (ascii(0, 4) === 'fLaC') return 'flac';
+  if (ascii(0, 4) === 'OggS') return 'ogg';
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (brand === 'qt  ') return 'mov';
+    if (brand.startsWith('M4A')) return 'm4a';
+    return 'mp4';
+  }
+  if (data[0] === 0x1a && data[1] === 0x45 && data[2] === 0xdf && data[3] === 0xa3) return 'webm';
+  if (ascii(0, 3) === 'ID3' || (data[0] === 0xff && (data[1] & 0xe0) === 0xe0)) return 'mp3';
+
+  return null;
+}
+
 /**
  * Smart Asset Factory Class
  */
@@ -85,4 +132,54 @@ export class SmartAssetFactory {
         throw new Error(`Unsupported category: ${formatInfo.category}`);
     }
   }
+
+  /**
+   * Create an asset from in-memory data (uploads, downloads, base64 payloads)
+   *
+   * @example
+   * const image = SmartAssetFactory.fromBuffer<ImageAsset>(buffer, { mimeType: 'image/png' });
+   */
+  static fromBuffer<T extends BaseAsset = BaseAsset>(data: Buffer, hints: FormatHints = {}, metadata: AssetMetadata = {}): T {
+    const format = SmartAssetFactory.detectFormat(data, hints);
+    if (!format) {
+      throw new Error(`Unsupported or unrecognized format${hints.mimeType ? ` (${hints.mimeType})` : ''}`);
+    }
+
+    const formatInfo = detectFormatCategory(format)!;
+    const assetMetadata: AssetMetadata = {
+      ...metadata,
+      format,
+      mimeType: formatInfo.mimeType,
+      fileSize: data.length
+    };
+
+    switch (formatInfo.category) {
+      case 'audio': return new AudioAsset(data, assetMetadata) as unknown as T;
+      case 'video': return new VideoAsset(data, assetMetadata) as unknown as T;
+      case 'image': return new ImageAsset(data, assetMetadata) as unknown as T;
+      case 'text': return new TextAsset(data.toString('utf8'), assetMetadata) as unknown as T;
+      default:
+        throw new Error(`Unsupported category: ${formatInfo.category}`);
+    }
+  }
+
+  /**
+   * Detect a supported format from an explicit format, file name, MIME type or,
+   * failing those, the data's signature
+   */
+  static detectFormat(data: Buffer, hints: FormatHints = {}): string | null {
+    const candidates = [
+      hints.format,
+      hints.filename ? path.extname(hints.filename).slice(1) : undefined,
+      hints.mimeType ? detectFormatFromMimeType(hints.mimeType) : undefined
+    ];
+
+    for (const candidate of candidates) {
+      if (candidate && detectFormatCategory(candidate)) {
+        return candidate.toLowerCase();
+      }
+    }
+
+    return detectFormatFromSignature(data);
+  }
 }
@@ -0,0 +1,160 @@
+/**
+ * Conversation Class
+ *
+ * Represents an ordered chat history of system, user and assistant messages,
+ * where messages may combine text with images. Implements TextRole so every
+ * TextToTextModel accepts it: chat-capable models send the messages as they
+ * are, others receive the conversation flattened into a Text transcript.
+ */
+
+import { TextMetadata, ToolCall } from '../types';
+import { TextRole } from '../interfaces/TextRole';
+import { Audio } from './Audio';
+import { Video } from './Video';
+import { Text } from './Text';
+import { Image } from './Image';
+
+export type ConversationSpeaker = 'system' | 'user' | 'assistant' | 'tool';
+
+export type ConversationPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; image: Image };
+
+export interface ConversationMessage {
+  role: ConversationSpeaker;
+  content: string | ConversationPart[];
+  toolCalls?: ToolCall[];     // Assistant messages: functions the model called
+  toolCallId?: string;        // Tool messages: the call this is the result of
+  name?: string;              // Tool messages: the function that produced the result
+}
+
+const TRANSCRIPT_SPEAKERS: Record<ConversationSpeaker, string> = {
+  system: 'System',
+  user: 'User',
+  assistant: 'Assistant',
+  tool: 'Tool'
+};
+
+export class Conversation implements TextRole {
+  constructor(
+    public readonly messages: ConversationMessage[],
+    public readonly metadata: TextMetadata = {},
+    public readonly sourceAsset?: any
+  ) {}
+
+  /**
+   * A conversation is valid when it has a user message and every message has
+   * content (assistant messages may consist of tool calls only)
+   */
+  isValid(): boolean {
+    return this.messages.some(message => message.role === 'user') &&
+      this.messages.every(message => Conversation.getText(message).length > 0 ||
+        Conversation.getImages(message).length > 0 ||
+        (message.toolCalls?.length ?? 0) > 0);
+  }
+
+  toString(): string {
+    return `CONVERSATION(${this.messages.length} messages)`;
+  }
+
+  /**
+   * Combined text of the system messages, if any
+   */
+  getSystemPrompt(): string | undefined {
+    const system = this.messages.filter(message => message.role === 'system').map(Conversation.getText);
+    return system.length > 0 ? system.join('\n\n') : undefined;
+  }
+
+  /**
+   * The messages other than system messages, in order
+   */
+  getTurns(): ConversationMessage[] {
+    return this.messages.filter(message => message.role !== 'system');
+  }
+
+  hasImages(): boolean {
+    return this.messages.some(message => Conversation.getImages(message).length > 0);
+  }
+
+  /**
+   * A new conversation with the messages appended
+   */
+  append(...messages: ConversationMessage[]): Conversation {
+    return new Conversation([...this.messages, ...messages], this.metadata, this.sourceAsset);
+  }
+
+  /**
+   * A new conversation with the given system prompt, unless it already has one
+   */
+  withSystemPrompt(systemPrompt: string | undefined): Conversation {
+    if (!systemPrompt || this.getSystemPrompt() !== undefined) return this;
+    return new Conversation([{ role: 'system', content: systemPrompt }, ...this.messages], this.metadata, this.sourceAsset);
+  }
+
+  /**
+   * Plain-text transcript for models without chat support. Images are
+   * replaced by a placeholder.
+   */
+  toTranscript(): string {
+    const turns = this.getTurns();
+    if (turns.length === 1) return Conversation.getText(turns[0]);
+
+    return turns
+      .map(message => {
+        const images = Conversation.getImages(message).map(() => '[image]');
+        const calls = (message.toolCalls || []).map(call => `[call ${call.name}(${JSON.stringify(call.arguments)})]`);
+        const text = [Conversation.getText(message), ...images, ...calls].filter(Boolean).join(' ');
+        return `${TRANSCRIPT_SPEAKERS[message.role]}${message.name ? ` (${message.name})` : ''}: ${text}`;
+      })
+      .join('\n\n') + '\n\nAssistant:';
+  }
+
+  // TextRole interface implementation
+  async asRole<T extends Audio | Video | Text | Image>(
+    targetType: new (...args: any[]) => T,
+    modelId?: string
+  ): Promise<T> {
+    if (targetType === Text as any) {
+      return Text.fromString(this.toTranscript(), this.metadata.language, undefined, { ...this.metadata }, this) as any;
+    }
+    throw new Error(`Cannot transform Conversation to ${targetType.name} without a provider`);
+  }
+
+  canPlayRole<T extends Audio | Video | Text | Image>(
+    targetType: new (...args: any[]) => T
+  ): boolean {
+    return targetType === Text as any;
+  }
+
+  getTextMetadata(): TextMetadata {
+    return this.metadata;
+  }
+
+  /**
+   * Text of a message, joining its text parts
+   */
+  static getText(message: ConversationMessage): string {
+    if (typeof message.content === 'string') return message.content;
+    return message.content
+      .filter((part): part is { type: 'text'; text: string } => part.type === 'text')
+      .map(part => part.text)
+      .join('\n');
+  }
+
+  /**
+   * Images attached to a message
+   */
+  static getImages(message: ConversationMessage): Image[] {
+    if (typeof message.content === 'string') return [];
+    return message.content
+      .filter((part): part is { type: 'image'; image: Image } => part.type === 'image')
+      .map(part => part.image);
+  }
+
+  /**
+   * A conversation holding one user message, optionally after a system prompt
+   */
+  static fromText(content: string, systemPrompt?: string): Conversation {
+    return new Conversation([{ role: 'user', content }]).withSystemPrompt(systemPrompt);
+  }
+}
@@ -35,8 +35,9 @@ export class Image implements ImageRole {
     if (targetType === Image as any) {
       return this as any;
     }
-    // For other roles, would need provider-based transformation
-    throw new Error(`Cannot transform Image to ${targetType.name} without a provider`);
+    // Other roles come from a provider, e.g. Text from an ImageToTextModel
+    const { asRole } = require('../../RoleTransformation');
+    return asRole(this, targetType, modelId);
   }
   canPlayRole<T extends Audio | Video | Text | Image>(
     targetType: new (...args: any[]) => T
@@ -50,6 +51,20 @@ export class Image implements ImageRole {
     return this.metadata;
   }
 
+  getMimeType(): string {
+    const format = (this.format || this.metadata.format || 'png').toLowerCase();
+    if (format === 'jpg') return 'image/jpeg';
+    if (format === 'svg') return 'image/svg+xml';
+    return `image/${format}`;
+  }
+
+  /**
+   * Inline data: URL, as accepted by vision-capable chat APIs
+   */
+  toDataUrl(): string {
+    return `data:${this.getMimeType()};base64,${this.data.toString('base64')}`;
+  }
+
   // Rich interface methods for compatibility
   getDimensions(): { width: number; height: number } | undefined {
     if (this.metadata.width && this.metadata.height) {
@@ -90,6 +105,15 @@ export class Image implements ImageRole {
     throw new Error('Image.fromFile not implemented - use SmartAssetFactory instead');
   }
 
+  /**
+   * Image for an image asset (assets play the Image role as themselves)
+   */
+  static fromAsset(asset: { data: Buffer; metadata?: Record<string, any> }): Image {
+    if (asset instanceof Image) return asset;
+    const format = (asset.metadata?.format || 'png').toLowerCase() as ImageFormat;
+    return new Image(asset.data, format, { ...asset.metadata, format }, asset);
+  }
+
   // Instance methods
   saveToFile(filePath: string): Promise<void> {
     // This would need actual implementation to save file
@@ -8,3 +8,5 @@ export { Audio } from './Audio';
 export { Video } from './Video';
 export { Text } from './Text';
 export { Image } from './Image';
+export { Conversation } from './Conversation';
+export type { ConversationMessage, ConversationPart, ConversationSpeaker } from './Conversation';
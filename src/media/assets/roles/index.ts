@@ -2,7 +2,7 @@
  * Asset Roles - Main Export
  * 
  * Clean, organized export of all role-related functionality:
- * - Core media classes (Audio, Video, Text, Image)
+ * - Core media classes (Audio, Video, Text, Image, Conversation)
  * - Role interfaces (AudioRole, VideoRole, etc.)
  * - Type definitions (formats, metadata)
  * - Type guards (hasAudioRole, hasVideoRole, etc.)
@@ -7,3 +7,7 @@
 export type AudioFormat = 'mp3' | 'wav' | 'flac' | 'm4a' | 'ogg' | 'aac' | 'opus' | 'wma';
 export type VideoFormat = 'mp4' | 'avi' | 'mov' | 'wmv' | 'flv' | 'webm' | 'mkv';
 export type ImageFormat = 'png' | 'jpg' | 'jpeg' | 'gif' | 'webp' | 'svg' | 'bmp' | 'tiff';
+
+export const AUDIO_FORMATS: AudioFormat[] = ['mp3', 'wav', 'flac', 'm4a', 'ogg', 'aac', 'opus', 'wma'];
+export const VIDEO_FORMATS: VideoFormat[] = ['mp4', 'avi', 'mov', 'wmv', 'flv', 'webm', 'mkv'];
+export const IMAGE_FORMATS: ImageFormat[] = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp', 'tiff'];
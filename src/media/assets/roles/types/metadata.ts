@@ -38,10 +38,19 @@ export interface TextMetadata {
   encoding?: string;
   wordCount?: number;
   sourceFile?: string;
+  toolCalls?: ToolCall[];     // Functions the model asked to call instead of (or before) answering
+  parsed?: any;               // Reply parsed and validated against TextToTextOptions.responseSchema
   generation_prompt?: GenerationPrompt;
   [key: string]: any;
 }
 
+// A function call requested by a text model (see TextToTextOptions.tools)
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
 export interface ImageMetadata {
   format: ImageFormat;
   width?: number;
@@ -11,6 +11,7 @@ import { TextToVideoProvider } from '../interfaces/TextToVideoProvider';
 import { VideoToVideoProvider } from '../interfaces/VideoToVideoProvider';
 import { TextToImageProvider } from '../interfaces/TextToImageProvider';
 import { TextToTextProvider } from '../interfaces/TextToTextProvider';
+import { ImageToTextProvider } from '../interfaces/ImageToTextProvider';
 
 /**
  * Type guards for checking provider roles
@@ -57,6 +58,11 @@ export function hasTextGenerationRole(provider: any): provider is TextToTextProv
   return hasTextToTextRole(provider); // TextGeneration is an alias for TextToText
 }
 
+export function hasImageToTextRole(provider: any): provider is ImageToTextProvider {
+  return typeof provider.createImageToTextModel === 'function' &&
+         typeof provider.getSupportedImageToTextModels === 'function';
+}
+
 /**
  * Utility function to get all roles a provider supports
  */
@@ -71,6 +77,7 @@ export function getProviderRoles(provider: any): string[] {
   if (hasTextToImageRole(provider)) roles.push('text-to-image');
   if (hasTextToTextRole(provider)) roles.push('text-to-text');
   if (hasTextGenerationRole(provider)) roles.push('text-generation');
+  if (hasImageToTextRole(provider)) roles.push('image-to-text');
 
   return roles;
 }
@@ -26,6 +26,7 @@ export type { TextToVideoProvider } from './interfaces/TextToVideoProvider';
 export type { VideoToVideoProvider } from './interfaces/VideoToVideoProvider';
 export type { TextToImageProvider } from './interfaces/TextToImageProvider';
 export type { TextToTextProvider } from './interfaces/TextToTextProvider';
+export type { ImageToTextProvider } from './interfaces/ImageToTextProvider';
 
 // Mixins
 export {
@@ -58,6 +59,11 @@ export {
 } from './mixins/VideoToVideoMixin';
 export type { Constructor as VideoToVideoConstructor } from './mixins/VideoToVideoMixin';
 
+export {
+  withImageToTextProvider
+} from './mixins/ImageToTextMixin';
+export type { Constructor as ImageToTextConstructor } from './mixins/ImageToTextMixin';
+
 // Guards
 export {
   hasAudioToTextRole,
@@ -68,6 +74,7 @@ export {
   hasTextToImageRole,
   hasTextToTextRole,
   hasTextGenerationRole,
+  hasImageToTextRole,
   getProviderRoles
 } from './guards/ProviderRoleGuards';
 
@@ -0,0 +1,18 @@
+/**
+ * ImageToTextProvider Interface
+ * 
+ * Provider role for image-to-text transformation capabilities:
+ * captioning, OCR and visual question answering.
+ */
+
+import { ImageToTextModel } from '../../models/abstracts/ImageToTextModel';
+import { ServiceManagement } from '../ServiceManagement';
+
+/**
+ * Image-to-Text Provider Role
+ */
+export interface ImageToTextProvider extends ServiceManagement {
+  createImageToTextModel(modelId: string): Promise<ImageToTextModel>;
+  getSupportedImageToTextModels(): string[];
+  supportsImageToTextModel(modelId: string): boolean;
+}
@@ -0,0 +1,73 @@
+/**
+ * ImageToTextMixin
+ * 
+ * Mixin to add ImageToTextProvider capabilities to a provider class.
+ */
+
+import { ImageToTextModel } from '../../models/abstracts/ImageToTextModel';
+import { ImageToTextProvider } from '../interfaces/ImageToTextProvider';
+
+/**
+ * Constructor type for mixin functions
+ */
+export type Constructor<T = {}> = new (...args: any[]) => T;
+
+/**
+ * Add ImageToTextProvider capabilities to a provider
+ */
+export function withImageToTextProvider<T extends Constructor>(Base: T) {
+  return class extends Base implements ImageToTextProvider {
+    async createImageToTextModel(modelId: string): Promise<ImageToTextModel> {
+      // Delegate to base provider's getModel method
+      const model = await (this as any).getModel(modelId, 'image-to-text');
+
+      if (!(model instanceof ImageToTextModel)) {
+        throw new Error(`Model '${modelId}' is not an ImageToTextModel`);
+      }
+
+      return model;
+    }
+
+    getSupportedImageToTextModels(): string[] {
+      // Filter supported models to only image-to-text models
+      const allModels = (this as any).getSupportedModels();
+      return allModels.filter((modelId: string) =>
+        modelId.includes('vision') ||
+        modelId.includes('ocr') ||
+        modelId.includes('caption') ||
+        modelId.includes('image-to-text') ||
+        modelId.includes('blip') ||
+        modelId.includes('llava')
+      );
+    }
+
+    supportsImageToTextModel(modelId: string): boolean {
+      return this.getSupportedImageToTextModels().includes(modelId);
+    }
+
+    // ServiceManagement interface implementation
+    async startService(): Promise<boolean> {
+      // Delegate to base provider's startService method if it exists
+      if (typeof (this as any).startService === 'function') {
+        return await (this as any).startService();
+      }
+      return true; // No-op for providers that don't need service management
+    }
+
+    async stopService(): Promise<boolean> {
+      // Delegate to base provider's stopService method if it exists
+      if (typeof (this as any).stopService === 'function') {
+        return await (this as any).stopService();
+      }
+      return true; // No-op for providers that don't need service management
+    }
+
+    async getServiceStatus(): Promise<{ running: boolean; healthy: boolean; error?: string }> {
+      // Delegate to base provider's getServiceStatus method if it exists
+      if (typeof (this as any).getServiceStatus === 'function') {
+        return await (this as any).getServiceStatus();
+      }
+      return { running: true, healthy: true }; // Default for providers that don't manage services
+    }
+  };
+}
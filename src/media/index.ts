@@ -91,6 +91,7 @@ export function $$(providerId: string): (modelId: string) => (input: any, option
 
 // Export Smart Asset Loading System (Layer 5)
 export { SmartAssetFactory } from './assets/SmartAssetFactory';
+export type { FormatHints } from './assets/SmartAssetFactory';
 
 // Export Asset system
 export { BaseAsset } from './assets/Asset';
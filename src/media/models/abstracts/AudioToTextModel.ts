@@ -51,7 +51,7 @@
  * @extends Model<AudioRole, AudioToTextOptions, Text>
  */
 
-import { Model, ModelMetadata } from './Model';
+import { Model, ModelMetadata, TransformControlOptions } from './Model';
 import { Audio, AudioRole, Text } from '../../assets/roles';
 
 /**
@@ -60,7 +60,7 @@ import { Audio, AudioRole, Text } from '../../assets/roles';
  * These options control various aspects of the transcription and translation process,
  * from language detection to output formatting and quality settings.
  */
-export interface AudioToTextOptions {
+export interface AudioToTextOptions extends TransformControlOptions {
   /** Source language code (e.g., 'en', 'es', 'fr') for better accuracy */
   language?: string;
   
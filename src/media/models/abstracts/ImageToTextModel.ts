@@ -0,0 +1,97 @@
+/**
+ * ImageToTextModel - Abstract Base Class
+ *
+ * Abstract base class for models that read images: captioning, OCR and
+ * visual question answering. Registered for the 'image->text' role
+ * conversion, so `imageAsset.asRole(Text)` runs the best available model.
+ *
+ * ```typescript
+ * const caption = await model.transform(image);                          // describe the image
+ * const text = await model.transform(image, { task: 'ocr' });            // text in the image
+ * const answer = await model.transform(image, { prompt: 'How many cats?' });
+ * ```
+ */
+
+import { Model, ModelMetadata, TransformControlOptions } from './Model';
+import { Image, ImageRole, Text } from '../../assets/roles';
+
+export type ImageToTextTask = 'caption' | 'ocr';
+
+export interface ImageToTextOptions extends TransformControlOptions {
+  /** What to extract; defaults to the model's specialty (caption for vision models) */
+  task?: ImageToTextTask;
+  /** Question or instruction about the image (visual Q&A); takes precedence over task */
+  prompt?: string;
+  /** Language of the text in the image (OCR) or of the reply */
+  language?: string;
+  maxOutputTokens?: number;
+  [key: string]: any; // Allow model-specific parameters
+}
+
+const TASK_PROMPTS: Record<ImageToTextTask, string> = {
+  caption: 'Describe this image in one or two sentences.',
+  ocr: 'Transcribe all text in this image exactly as written, preserving line breaks. Reply with the text only.'
+};
+
+/**
+ * Abstract base class for image-to-text models
+ */
+export abstract class ImageToTextModel extends Model<ImageRole, ImageToTextOptions, Text> {
+  constructor(metadata: ModelMetadata) {
+    super({
+      ...metadata,
+      inputTypes: Array.from(new Set([...metadata.inputTypes, 'image'])),
+      outputTypes: Array.from(new Set([...metadata.outputTypes, 'text'])),
+      capabilities: Array.from(new Set([...metadata.capabilities, 'image-to-text']))
+    });
+  }
+
+  /**
+   * Read the image (the first one when given several)
+   */
+  abstract transform(input: ImageRole | ImageRole[], options?: ImageToTextOptions): Promise<Text>;
+
+  /**
+   * Check if the model is available
+   */
+  abstract isAvailable(): Promise<boolean>;
+
+  /**
+   * Image formats the model accepts
+   */
+  abstract getSupportedFormats(): string[];
+
+  isFormatSupported(format: string): boolean {
+    return this.getSupportedFormats().includes(format.toLowerCase());
+  }
+
+  /**
+   * The input as an Image, checked for content and format
+   */
+  protected async prepareImage(input: ImageRole | ImageRole[]): Promise<Image> {
+    const role = Array.isArray(input) ? input[0] : input;
+    if (!role) {
+      throw new Error('No image provided');
+    }
+
+    const image = Image.fromAsset(await role.asRole(Image));
+    if (!image.isValid()) {
+      throw new Error('Invalid image data provided');
+    }
+    if (!this.isFormatSupported(image.format)) {
+      throw new Error(`Image format '${image.format}' is not supported (supported: ${this.getSupportedFormats().join(', ')})`);
+    }
+    return image;
+  }
+
+  /**
+   * Instruction for instruction-following models: the prompt, or the task's default
+   */
+  protected getInstruction(options?: ImageToTextOptions, defaultTask: ImageToTextTask = 'caption'): string {
+    if (options?.prompt) return options.prompt;
+    const task = options?.task ?? defaultTask;
+    return options?.language && task !== 'ocr' ? `${TASK_PROMPTS[task]} Reply in ${options.language}.` : TASK_PROMPTS[task];
+  }
+}
+
+export default ImageToTextModel;
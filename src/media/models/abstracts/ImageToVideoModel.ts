@@ -5,13 +5,13 @@
  * Uses Asset-role system with automatic casting.
  */
 
-import { Model, ModelMetadata } from './Model';
+import { Model, ModelMetadata, TransformControlOptions } from './Model';
 import { ImageRole, Video } from '../../assets/roles';
 import { Image, ImageFormat } from '../../assets/roles';
 
 export type ImageInput = Image | Buffer | string; // Image object, buffer, or file path
 
-export interface ImageToVideoOptions {
+export interface ImageToVideoOptions extends TransformControlOptions {
   duration?: number; // Video duration in seconds
   fps?: number; // Frames per second
   motionStrength?: number;
@@ -16,6 +16,27 @@ export interface ModelMetadata {
   outputTypes: string[];
 }
 
+/**
+ * Progress update reported by a running transformation
+ */
+export interface TransformProgress {
+  percentage: number;   // 0-100
+  message?: string;     // Human-readable stage, e.g. "Queued (position 3)"
+}
+
+export type TransformProgressCallback = (progress: TransformProgress) => void;
+
+/**
+ * Execution controls accepted by every transform() call, alongside the
+ * model-specific options. These are never forwarded to the provider API.
+ */
+export interface TransformControlOptions {
+  /** Abort the transformation (e.g. when the owning job is cancelled) */
+  signal?: AbortSignal;
+  /** Receives progress updates where the underlying service exposes them */
+  onProgress?: TransformProgressCallback;
+}
+
 /**
  * Abstract base class for all media transformation models
  */
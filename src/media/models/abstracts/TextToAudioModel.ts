@@ -41,7 +41,7 @@
  * @extends Model<TextRole, TextToAudioOptions, Audio>
  */
 
-import { Model, ModelMetadata } from './Model';
+import { Model, ModelMetadata, TransformControlOptions } from './Model';
 import { Audio, AudioRole, TextRole } from '../../assets/roles';
 
 /**
@@ -50,7 +50,7 @@ import { Audio, AudioRole, TextRole } from '../../assets/roles';
  * These options control various aspects of the audio generation process,
  * from voice characteristics to output format and quality settings.
  */
-export interface TextToAudioOptions {
+export interface TextToAudioOptions extends TransformControlOptions {
   /** Target language for speech synthesis (e.g., 'en', 'es', 'fr') */
   language?: string;
   
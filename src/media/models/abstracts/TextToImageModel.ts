@@ -5,10 +5,10 @@
  * Uses Asset-role system with automatic casting.
  */
 
-import { Model, ModelMetadata } from './Model';
+import { Model, ModelMetadata, TransformControlOptions } from './Model';
 import { Text, Image, ImageFormat, TextRole } from '../../assets/roles';
 
-export interface TextToImageOptions {
+export interface TextToImageOptions extends TransformControlOptions {
   width?: number;
   height?: number;
   aspectRatio?: string;
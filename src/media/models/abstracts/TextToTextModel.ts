@@ -1,38 +1,245 @@
 /**
  * TextToTextModel - Abstract Base Class
- * 
+ *
  * Abstract base class for text-to-text generation models.
  * Uses Asset-role system with automatic casting.
  */
 
-import { Model, ModelMetadata } from './Model';
-import { Text, TextRole } from '../../assets/roles';
+import { Model, ModelMetadata, TransformControlOptions } from './Model';
+import { Conversation, ConversationMessage, Text, TextMetadata, TextRole, ToolCall } from '../../assets/roles';
+import { ResponseSchema, StructuredOutputError, parseStructuredOutput } from '../../utils/StructuredOutput';
 
-export interface TextToTextOptions {
+/**
+ * Runs a tool call; the return value (JSON-serialized unless it is a string)
+ * is sent back to the model as the call's result
+ */
+export type ToolHandler = (args: Record<string, any>, call: ToolCall) => unknown | Promise<unknown>;
+
+/**
+ * A function the model may call, described provider-neutrally. Tools with a
+ * handler are executed automatically; calls to tools without one are
+ * returned in the result Text's metadata.toolCalls.
+ */
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  /** JSON Schema of the arguments object */
+  parameters?: Record<string, any>;
+  handler?: ToolHandler;
+}
+
+/**
+ * Whether the model may ('auto'), must not ('none') or must ('required')
+ * call a tool, or must call the named one
+ */
+export type ToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+/**
+ * A Text whose reply was validated against a response schema
+ */
+export type StructuredText<T> = Text & { metadata: TextMetadata & { parsed: T } };
+
+export interface TextToTextOptions extends TransformControlOptions {
   seed?: string | number;
   temperature?: number;
   topK?: number;
   topP?: number;
   maxOutputTokens?: number;
+  /** System instructions, for models that take them */
+  systemPrompt?: string;
   /** Response format for structured output */
   responseFormat?: 'text' | 'json' | { type: 'json_object' };
+  /** Schema the reply must match (zod or JSON Schema); the parsed value is returned in metadata.parsed */
+  responseSchema?: ResponseSchema;
+  /** Retries with the validation errors fed back when the reply does not match responseSchema (default 2) */
+  maxRepairAttempts?: number;
+  /** Functions the model may call */
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  /** Maximum generate/execute rounds when tools have handlers (default 5) */
+  maxToolRounds?: number;
   [key: string]: any; // Allow model-specific parameters
 }
 
+const DEFAULT_MAX_TOOL_ROUNDS = 5;
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
 export abstract class TextToTextModel extends Model<TextRole, TextToTextOptions, Text> {
   constructor(metadata: ModelMetadata) {
     super(metadata);
   }
 
   /**
-   * Transform text to text
+   * Transform text to text. A Conversation input carries a whole chat
+   * history; models without chat support receive its transcript.
    */
   abstract transform(input: TextRole | TextRole[], options?: TextToTextOptions): Promise<Text>;
 
+  /**
+   * Generate text incrementally. Yields text deltas as the model produces them
+   * and returns the same Text (with generation_prompt) transform() would.
+   *
+   * Models without a streaming API yield the whole result as a single delta.
+   */
+  async *stream(input: TextRole | TextRole[], options?: TextToTextOptions): AsyncGenerator<string, Text> {
+    const result = await this.transform(input, options);
+    if (result.content) {
+      yield result.content;
+    }
+    return result;
+  }
+
+  /**
+   * Generate a reply matching the schema and return it parsed, typed after a zod schema
+   * @throws StructuredOutputError when no reply matched
+   */
+  async generateObject<T>(
+    input: TextRole | TextRole[],
+    schema: ResponseSchema<T>,
+    options?: Omit<TextToTextOptions, 'responseSchema'>
+  ): Promise<StructuredText<T>> {
+    return await this.transform(input, { ...options, responseSchema: schema }) as StructuredText<T>;
+  }
+
   /**
    * Check if the model is available
    */
   abstract isAvailable(): Promise<boolean>;
+
+  /**
+   * Generate with `generate` and, when options.responseSchema is set, validate
+   * the reply against it. Replies that do not match are sent back with the
+   * validation errors, up to maxRepairAttempts times. Replies calling tools
+   * are returned as they are.
+   */
+  protected async runStructuredOutput<TInput>(
+    input: TInput,
+    options: TextToTextOptions | undefined,
+    generate: (input: TInput | Conversation) => Promise<Text>
+  ): Promise<Text> {
+    let result = await generate(input);
+    const schema = options?.responseSchema;
+    if (!schema) return result;
+
+    const maxAttempts = options?.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+    let conversation: Conversation | undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      if (result.metadata?.toolCalls?.length) return result;
+
+      const parsed = parseStructuredOutput(result.content, schema);
+      if (parsed.success) {
+        return new Text(result.content, result.language, result.confidence, { ...result.metadata, parsed: parsed.value }, result.sourceAsset);
+      }
+      if (attempt > maxAttempts) {
+        throw new StructuredOutputError(parsed.issues, result.content);
+      }
+      options?.signal?.throwIfAborted();
+
+      conversation = (conversation ?? await toConversation(input)).append(
+        { role: 'assistant', content: result.content },
+        { role: 'user', content: createRepairPrompt(parsed.issues) }
+      );
+      result = withOriginalInput(await generate(conversation), input);
+    }
+  }
+
+  /**
+   * Generate with `generate` and, while the model only calls tools that have
+   * handlers, run them and generate again with the calls and their results
+   * appended to the conversation. Returns the first result that is a final
+   * answer or calls a tool without a handler.
+   */
+  protected async runToolLoop<TInput>(
+    input: TInput,
+    options: TextToTextOptions | undefined,
+    generate: (input: TInput | Conversation) => Promise<Text>
+  ): Promise<Text> {
+    const handlers = new Map<string, ToolHandler>();
+    for (const tool of options?.tools || []) {
+      if (tool.handler) handlers.set(tool.name, tool.handler);
+    }
+
+    let result = await generate(input);
+    if (handlers.size === 0) return result;
+
+    const maxRounds = options?.maxToolRounds ?? DEFAULT_MAX_TOOL_ROUNDS;
+    let conversation = await toConversation(input);
+
+    for (let round = 1; ; round++) {
+      const calls = result.metadata?.toolCalls || [];
+      if (calls.length === 0 || !calls.every(call => handlers.has(call.name))) {
+        return result;
+      }
+      if (round > maxRounds) {
+        throw new Error(`Model was still calling tools after ${maxRounds} rounds`);
+      }
+      options?.signal?.throwIfAborted();
+
+      const toolMessages = await Promise.all(calls.map(call => executeToolCall(call, handlers.get(call.name)!)));
+      conversation = conversation.append({ role: 'assistant', content: result.content, toolCalls: calls }, ...toolMessages);
+      result = withOriginalInput(await generate(conversation), input);
+    }
+  }
+}
+
+/**
+ * Tool call arguments as an object; providers send a JSON string or an object
+ */
+export function parseToolArguments(value: unknown): Record<string, any> {
+  if (typeof value !== 'string') {
+    return value && typeof value === 'object' ? value as Record<string, any> : {};
+  }
+  try {
+    const parsed = JSON.parse(value || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : { value: parsed };
+  } catch {
+    throw new Error(`Model returned malformed tool arguments: ${value}`);
+  }
+}
+
+function createRepairPrompt(issues: string[]): string {
+  return [
+    'Your reply does not match the required JSON schema:',
+    ...issues.map(issue => `- ${issue}`),
+    'Reply again with only the corrected JSON.'
+  ].join('\n');
+}
+
+/**
+ * A result generated from a follow-up conversation, with its generation_prompt
+ * pointing at the caller's input rather than the internal conversation
+ */
+function withOriginalInput(result: Text, input: unknown): Text {
+  const prompt = result.metadata?.generation_prompt;
+  if (!prompt) return result;
+  return new Text(result.content, result.language, result.confidence, { ...result.metadata, generation_prompt: { ...prompt, input } }, result.sourceAsset);
+}
+
+async function toConversation(input: any): Promise<Conversation> {
+  const item = Array.isArray(input) ? input[0] : input;
+  if (item instanceof Conversation) return item;
+  const text = typeof item === 'string' ? item : (await item.asRole(Text)).content;
+  return Conversation.fromText(text);
+}
+
+/**
+ * Run a handler; failures are reported to the model as the call's result so it can recover
+ */
+async function executeToolCall(call: ToolCall, handler: ToolHandler): Promise<ConversationMessage> {
+  let output: unknown;
+  try {
+    output = await handler(call.arguments, call);
+  } catch (error) {
+    output = { error: error instanceof Error ? error.message : String(error) };
+  }
+
+  return {
+    role: 'tool',
+    toolCallId: call.id,
+    name: call.name,
+    content: typeof output === 'string' ? output : JSON.stringify(output ?? null)
+  };
 }
 
 export default TextToTextModel;
@@ -59,7 +59,7 @@
  * @extends Model<TextRole, TextToVideoOptions, Video>
  */
 
-import { Model, ModelMetadata } from './Model';
+import { Model, ModelMetadata, TransformControlOptions } from './Model';
 import { Text, TextRole, Video } from '../../assets/roles';
 
 /**
@@ -69,7 +69,7 @@ import { Text, TextRole, Video } from '../../assets/roles';
  * from basic parameters like duration and resolution to advanced settings
  * like motion control and generation guidance.
  */
-export interface TextToVideoOptions {
+export interface TextToVideoOptions extends TransformControlOptions {
   /** Video duration in seconds (typically 1-30 seconds depending on model) */
   duration?: number;
   
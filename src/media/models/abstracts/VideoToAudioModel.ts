@@ -57,7 +57,7 @@
  * @abstract
  */
 
-import { ModelMetadata } from './Model';
+import { ModelMetadata, TransformControlOptions } from './Model';
 import { Video, Audio, VideoRole, AudioRole } from '../../assets/roles';
 
 /**
@@ -66,7 +66,7 @@ import { Video, Audio, VideoRole, AudioRole } from '../../assets/roles';
  * These options control various aspects of the audio extraction and processing,
  * from basic format selection to advanced audio manipulation settings.
  */
-export interface VideoToAudioOptions {
+export interface VideoToAudioOptions extends TransformControlOptions {
   /** Output audio format */
   outputFormat?: 'wav' | 'mp3' | 'flac' | 'm4a' | 'aac' | 'ogg' | 'opus';
   
@@ -6,7 +6,7 @@
  * Uses Asset-role system with automatic casting.
  */
 
-import { ModelMetadata } from './Model';
+import { ModelMetadata, TransformControlOptions } from './Model';
 import { Video, VideoRole } from '../../assets/roles';
 
 export interface VideoOverlayConfig {
@@ -31,7 +31,7 @@ export interface VideoOverlayConfig {
   blendMode?: 'normal' | 'multiply' | 'screen' | 'overlay' | 'soft-light' | 'hard-light';
 }
 
-export interface VideoCompositionOptions {
+export interface VideoCompositionOptions extends TransformControlOptions {
   // Global timing options (legacy support)
   overlayStartTime?: number; // When to start the overlay (in seconds) - for single overlay backward compatibility
   overlayDuration?: number; // How long to show the overlay (in seconds) - for single overlay backward compatibility
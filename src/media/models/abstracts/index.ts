@@ -6,7 +6,7 @@
 
 // Core abstract base class
 export { Model } from './Model';
-export type { ModelMetadata } from './Model';
+export type { ModelMetadata, TransformControlOptions, TransformProgress, TransformProgressCallback } from './Model';
 
 // Abstract model interfaces by transformation type
 export { TextToImageModel } from './TextToImageModel';
@@ -18,8 +18,8 @@ export type { TextToAudioOptions } from './TextToAudioModel';
 export { TextToVideoModel } from './TextToVideoModel';
 export type { TextToVideoOptions } from './TextToVideoModel';
 
-export { TextToTextModel } from './TextToTextModel';
-export type { TextToTextOptions } from './TextToTextModel';
+export { TextToTextModel, parseToolArguments } from './TextToTextModel';
+export type { StructuredText, TextToTextOptions, ToolChoice, ToolDefinition, ToolHandler } from './TextToTextModel';
 
 export { AudioToTextModel } from './AudioToTextModel';
 export type { AudioToTextOptions } from './AudioToTextModel';
@@ -27,6 +27,9 @@ export type { AudioToTextOptions } from './AudioToTextModel';
 export { AudioToAudioModel } from './AudioToAudioModel';
 export type { AudioToAudioOptions } from './AudioToAudioModel';
 
+export { ImageToTextModel } from './ImageToTextModel';
+export type { ImageToTextOptions, ImageToTextTask } from './ImageToTextModel';
+
 export { ImageToVideoModel } from './ImageToVideoModel';
 export type { ImageToVideoOptions } from './ImageToVideoModel';
 
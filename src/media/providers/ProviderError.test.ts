@@ -0,0 +1,34 @@
+/**
+ * ProviderError Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ProviderError, classifyProviderError, isRetryableKind } from './ProviderError';
+
+describe('classifyProviderError', () => {
+  it('should classify HTTP status fields of provider and client errors', () => {
+    expect(classifyProviderError(Object.assign(new Error('Unauthorized'), { statusCode: 401 }))).toBe('authentication');
+    expect(classifyProviderError({ message: 'Too many', status: 429 })).toBe('rate_limit');
+    expect(classifyProviderError({ message: 'Bad request', response: { status: 422 } })).toBe('invalid_input');
+    expect(classifyProviderError({ message: 'Gateway', response: { status: 504 } })).toBe('timeout');
+    expect(classifyProviderError(new ProviderError('Down for maintenance', 'unavailable'))).toBe('unavailable');
+  });
+
+  it('should classify wrapped messages, error codes and causes', () => {
+    expect(classifyProviderError(new Error('OpenAI chat completion failed: Request failed with status code 503'))).toBe('unavailable');
+    expect(classifyProviderError(new Error('Rate limit exceeded, retry in 20s'))).toBe('rate_limit');
+    expect(classifyProviderError(Object.assign(new Error('connect failed'), { code: 'ECONNREFUSED' }))).toBe('unavailable');
+    expect(classifyProviderError(Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }))).toBe('cancelled');
+    expect(classifyProviderError(new Error('Generation failed', { cause: { statusCode: 403 } }))).toBe('authentication');
+    expect(classifyProviderError(new Error('Something odd happened'))).toBe('unknown');
+    expect(classifyProviderError(undefined)).toBe('unknown');
+  });
+
+  it('should only treat transient kinds as retryable', () => {
+    expect(isRetryableKind('rate_limit')).toBe(true);
+    expect(isRetryableKind('unavailable')).toBe(true);
+    expect(isRetryableKind('timeout')).toBe(true);
+    expect(isRetryableKind('authentication')).toBe(false);
+    expect(isRetryableKind('invalid_input')).toBe(false);
+  });
+});
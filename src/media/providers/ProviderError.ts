@@ -0,0 +1,99 @@
+/**
+ * Provider Error Classification
+ *
+ * Maps whatever a provider throws (its own error classes, HTTP client errors,
+ * wrapped messages) onto a small set of kinds that callers can act on without
+ * knowing the provider: retry later, fail over, or report bad input.
+ */
+
+export type ProviderErrorKind =
+  | 'authentication'   // Missing or rejected credentials (401/403)
+  | 'rate_limit'       // Throttled or out of quota (429)
+  | 'invalid_input'    // The request itself was rejected (400/404/413/415/422)
+  | 'unavailable'      // The service failed or could not be reached (5xx, connection errors)
+  | 'timeout'          // No answer in time (408/504, client timeouts)
+  | 'cancelled'        // Aborted by the caller
+  | 'unknown';
+
+/**
+ * Error a provider may throw to state its kind explicitly
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public kind: ProviderErrorKind,
+    public statusCode?: number,
+    public providerId?: string
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+const CONNECTION_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'EPIPE'];
+const TIMEOUT_CODES = ['ETIMEDOUT', 'ECONNABORTED', 'ESOCKETTIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT'];
+
+const MESSAGE_PATTERNS: Array<[RegExp, ProviderErrorKind]> = [
+  [/\baborted\b|\bcancell?ed\b/i, 'cancelled'],
+  [/timed? ?out/i, 'timeout'],
+  [/rate.?limit|too many requests|quota/i, 'rate_limit'],
+  [/unauthori[sz]ed|forbidden|invalid api.?key|api.?key is required/i, 'authentication'],
+  [/service unavailable|bad gateway|ECONNREFUSED|ENOTFOUND|socket hang up/i, 'unavailable']
+];
+
+/**
+ * Kind of an HTTP status code, or undefined for codes that do not indicate a failure kind
+ */
+export function classifyStatus(status: number): ProviderErrorKind | undefined {
+  if (status === 401 || status === 403) return 'authentication';
+  if (status === 429) return 'rate_limit';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500 && status < 600) return 'unavailable';
+  if (status >= 400 && status < 500) return 'invalid_input';
+  return undefined;
+}
+
+/**
+ * Classify an error thrown by a provider or model. Looks at, in order: an
+ * explicit ProviderError kind, abort errors, HTTP status fields (statusCode,
+ * status, response.status), Node/HTTP client error codes, the status in
+ * messages such as "Request failed with status code 429", common message
+ * phrases, then the error's cause.
+ */
+export function classifyProviderError(error: unknown): ProviderErrorKind {
+  return classify(error, 0);
+}
+
+/**
+ * Whether an error of this kind may succeed when retried later or elsewhere
+ */
+export function isRetryableKind(kind: ProviderErrorKind): boolean {
+  return kind === 'rate_limit' || kind === 'unavailable' || kind === 'timeout';
+}
+
+function classify(error: any, depth: number): ProviderErrorKind {
+  if (!error || depth > 5) return 'unknown';
+  if (error instanceof ProviderError) return error.kind;
+  if (error.name === 'AbortError' || error.name === 'CanceledError' || error.code === 'ERR_CANCELED') return 'cancelled';
+
+  for (const status of [error.statusCode, error.status, error.response?.status]) {
+    const kind = typeof status === 'number' ? classifyStatus(status) : undefined;
+    if (kind) return kind;
+  }
+
+  if (typeof error.code === 'string') {
+    if (TIMEOUT_CODES.includes(error.code)) return 'timeout';
+    if (CONNECTION_CODES.includes(error.code)) return 'unavailable';
+  }
+
+  const message = typeof error === 'string' ? error : String(error.message ?? '');
+  const status = /status(?: code)?:? (\d{3})\b/i.exec(message);
+  const kind = status ? classifyStatus(Number(status[1])) : undefined;
+  if (kind) return kind;
+
+  for (const [pattern, patternKind] of MESSAGE_PATTERNS) {
+    if (pattern.test(message)) return patternKind;
+  }
+
+  return classify(error.cause, depth + 1);
+}
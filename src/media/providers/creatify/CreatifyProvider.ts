@@ -13,6 +13,7 @@ import { TextToAudioModel } from '../../models/abstracts/TextToAudioModel';
 import { CreatifyClient, CreatifyConfig } from './CreatifyClient';
 import { CreatifyTextToVideoModel } from './CreatifyTextToVideoModel';
 import { CreatifyTextToAudioModel } from './CreatifyTextToAudioModel';
+import { getProviderJobCounts } from '../../registry/ProviderLoad';
 
 export class CreatifyProvider implements MediaProvider, TextToVideoProvider, TextToAudioProvider {
   readonly id = 'creatify';
@@ -107,7 +108,7 @@ export class CreatifyProvider implements MediaProvider, TextToVideoProvider, Tex
 
   async getHealth() {
     const healthy = await this.isAvailable();
-    return { status: healthy ? 'healthy' as const : 'unhealthy' as const, uptime: process.uptime(), activeJobs: 0, queuedJobs: 0 };
+    return { status: healthy ? 'healthy' as const : 'unhealthy' as const, uptime: process.uptime(), ...getProviderJobCounts(this.id) };
   }
 
   constructor() {
@@ -8,6 +8,7 @@
 import { DockerComposeService } from '../../../services/DockerComposeService';
 import { MediaProvider, ProviderConfig, ProviderModel, ProviderType } from '../../types/provider';
 import { MediaCapability } from '../../types/provider';
+import { getProviderJobCounts } from '../../registry/ProviderLoad';
 
 /**
  * Abstract base class for Docker providers
@@ -190,8 +191,7 @@ export abstract class AbstractDockerProvider implements MediaProvider {
     return {
       status: status.healthy ? 'healthy' as const : 'unhealthy' as const,
       uptime: process.uptime(),
-      activeJobs: 0,
-      queuedJobs: 0,
+      ...getProviderJobCounts(this.id),
     };
   }
 
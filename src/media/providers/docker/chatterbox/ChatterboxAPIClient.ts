@@ -9,6 +9,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { execAsync } from '../../../utils/execAsync';
+import { TransformControlOptions } from '../../../models/abstracts/Model';
+import { joinWavAudio, splitSpeechText } from '../../../utils/SpeechChunks';
 
 export interface ChatterboxTTSRequest {
   text: string;
@@ -52,41 +54,35 @@ export class ChatterboxAPIClient {
   /**
    * Generate TTS audio via API
    */
-  async generateTTS(request: ChatterboxTTSRequest, outputPath: string): Promise<ChatterboxTTSResponse> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+  async generateTTS(
+    request: ChatterboxTTSRequest,
+    outputPath: string,
+    controls: TransformControlOptions = {}
+  ): Promise<ChatterboxTTSResponse> {
+    const { signal, onProgress } = controls;
+
+    // With split_text the service splits the text itself. When progress is
+    // wanted, WAV output is instead requested in chunk_size pieces, one request
+    // each, so progress can be reported as every piece is synthesized.
+    const chunks = onProgress && request.split_text && request.output_format === 'wav'
+      ? splitSpeechText(request.text, request.chunk_size)
+      : [request.text];
 
     try {
       console.log(`[ChatterboxAPI] Making TTS request to ${this.baseUrl}/tts`);
-
-      const response = await fetch(`${this.baseUrl}/tts`, {
-        method: 'POST',
-        body: JSON.stringify(request),
-        signal: controller.signal,
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      });
-
-      clearTimeout(timeoutId);
-
-      console.log(`[ChatterboxAPI] TTS response status: ${response.status}`);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`TTS request failed: ${response.status} ${response.statusText} - ${errorText}`);
-      }
-
-      // Check if response is audio
-      const contentType = response.headers.get('content-type');
-      if (!contentType?.includes('audio')) {
-        const responseText = await response.text();
-        throw new Error(`Expected audio response, got: ${contentType} - ${responseText}`);
+      onProgress?.({ percentage: 0, message: `Synthesizing ${chunks.length} chunk(s)` });
+
+      const parts: Buffer[] = [];
+      for (const [index, text] of chunks.entries()) {
+        parts.push(await this.synthesizeChunk({ ...request, text }, signal));
+        onProgress?.({
+          percentage: ((index + 1) / chunks.length) * 100,
+          message: `Synthesized chunk ${index + 1}/${chunks.length}`
+        });
       }
 
       // Save the audio file
-      const arrayBuffer = await response.arrayBuffer();
-      const buffer = Buffer.from(arrayBuffer);
+      const buffer = joinWavAudio(parts);
       fs.writeFileSync(outputPath, buffer);
 
       // Try to get duration (optional)
@@ -104,9 +100,12 @@ export class ChatterboxAPIClient {
       };
 
     } catch (error) {
-      clearTimeout(timeoutId);
       console.error('[ChatterboxAPI] TTS request error:', error);
 
+      if (signal?.aborted) {
+        throw new Error('TTS request was cancelled');
+      }
+
       if (error.name === 'AbortError') {
         throw new Error('TTS request timed out');
       }
@@ -116,6 +115,41 @@ export class ChatterboxAPIClient {
       }
 
       throw error;
+    }
+  }
+
+  /**
+   * Synthesize one piece of text, within the client's timeout
+   */
+  private async synthesizeChunk(request: ChatterboxTTSRequest, signal?: AbortSignal): Promise<Buffer> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/tts`, {
+        method: 'POST',
+        body: JSON.stringify(request),
+        signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      });
+
+      console.log(`[ChatterboxAPI] TTS response status: ${response.status}`);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`TTS request failed: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+
+      // Check if response is audio
+      const contentType = response.headers.get('content-type');
+      if (!contentType?.includes('audio')) {
+        const responseText = await response.text();
+        throw new Error(`Expected audio response, got: ${contentType} - ${responseText}`);
+      }
+
+      return Buffer.from(await response.arrayBuffer());
     } finally {
       clearTimeout(timeoutId);
     }
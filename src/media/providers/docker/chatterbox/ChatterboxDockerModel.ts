@@ -193,7 +193,7 @@ export class ChatterboxDockerModel extends TextToAudioModel {
 
       try {
         // Perform TTS generation
-        const response = await this.apiClient.generateTTS(request, outputPath);
+        const response = await this.apiClient.generateTTS(request, outputPath, options);
 
         // Read generated audio file
         const audioData = fs.readFileSync(outputPath);
@@ -66,7 +66,8 @@ export class ChatterboxProvider implements MediaProvider, TextToAudioProvider {
         voice: { type: 'string', default: 'en-US-AriaNeural', options: ['en-US-AriaNeural', 'en-US-DavisNeural', 'en-US-GuyNeural'] },
         speed: { type: 'number', default: 1.0, min: 0.5, max: 2.0 },
         pitch: { type: 'number', default: 1.0, min: 0.5, max: 2.0 },
-        volume: { type: 'number', default: 1.0, min: 0.1, max: 1.0 }
+        volume: { type: 'number', default: 1.0, min: 0.1, max: 1.0 },
+        voiceFile: { type: 'file', description: 'Reference audio to clone the voice from' }
       },
       pricing: {
         inputCost: 0, // Free local service
@@ -245,7 +245,7 @@ export class ChatterboxTextToAudioModel extends TextToAudioModel {
 
       try {
         // Perform TTS generation
-        const response = await this.apiClient.generateTTS(request, outputPath);
+        const response = await this.apiClient.generateTTS(request, outputPath, options);
 
         // Read generated audio file
         const audioData = fs.readFileSync(outputPath);
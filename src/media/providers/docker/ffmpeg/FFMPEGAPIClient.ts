@@ -10,6 +10,7 @@ const FormData = require('form-data');
 import * as fs from 'fs';
 import * as path from 'path';
 import { Readable } from 'stream';
+import { TransformProgressCallback } from '../../../models/abstracts/Model';
 import { IFFMPEGClient, HealthCheckResult, VideoCompositionOptions, VideoCompositionResult, FrameExtractionOptions, FrameExtractionResult } from '../../ffmpeg/IFFMPEGClient';
 
 export interface FFMPEGClientConfig {
@@ -29,6 +30,8 @@ export interface AudioExtractionOptions {
   duration?: number;
   volume?: number;
   normalize?: boolean;
+  signal?: AbortSignal; // Abort the request
+  onProgress?: TransformProgressCallback; // Receives progress updates (local client only)
 }
 
 export interface AudioConversionOptions extends AudioExtractionOptions {
@@ -156,9 +159,11 @@ export class FFMPEGAPIClient implements IFFMPEGClient {
         formData.append('video', videoData, { filename: 'video.mp4' });
       }
 
+      const { signal, onProgress: _onProgress, ...formFields } = options; // Controls are not form fields
+
       // Add options as form fields
       console.log('API Client: Received options:', options);
-      Object.entries(options).forEach(([key, value]) => {
+      Object.entries(formFields).forEach(([key, value]) => {
         if (value !== undefined) {
           console.log(`API Client: Adding form field ${key}:`, value);
           formData.append(key, value.toString());
@@ -174,7 +179,8 @@ export class FFMPEGAPIClient implements IFFMPEGClient {
             'Content-Type': 'multipart/form-data'
           },
           maxContentLength: Infinity,
-          maxBodyLength: Infinity
+          maxBodyLength: Infinity,
+          signal
         }
       );
 
@@ -216,9 +222,11 @@ export class FFMPEGAPIClient implements IFFMPEGClient {
         formData.append('audio', audioData, { filename: 'audio.wav' });
       }
 
+      const { signal, onProgress: _onProgress, ...formFields } = options; // Controls are not form fields
+
       // Add options as form fields
       console.log('API Client: Received options:', options);
-      Object.entries(options).forEach(([key, value]) => {
+      Object.entries(formFields).forEach(([key, value]) => {
         if (value !== undefined) {
           console.log(`API Client: Adding form field ${key}:`, value);
           formData.append(key, value.toString());
@@ -234,7 +242,8 @@ export class FFMPEGAPIClient implements IFFMPEGClient {
             'Content-Type': 'multipart/form-data'
           },
           maxContentLength: Infinity,
-          maxBodyLength: Infinity
+          maxBodyLength: Infinity,
+          signal
         }
       );
 
@@ -311,8 +320,10 @@ export class FFMPEGAPIClient implements IFFMPEGClient {
         });
       }
 
+      const { signal, onProgress: _onProgress, ...formFields } = options; // Controls are not form fields
+
       // Add options as form fields
-      Object.entries(options).forEach(([key, value]) => {
+      Object.entries(formFields).forEach(([key, value]) => {
         if (value !== undefined) {
           formData.append(key, value.toString());
         }
@@ -328,6 +339,7 @@ export class FFMPEGAPIClient implements IFFMPEGClient {
           },
           maxContentLength: Infinity,
           maxBodyLength: Infinity,
+          signal,
           timeout: 900000, // 15 minutes for multiple video processing
           responseType: 'arraybuffer' // Expect binary response
         }
@@ -386,9 +398,11 @@ export class FFMPEGAPIClient implements IFFMPEGClient {
         formData.append('video', videoData, { filename: 'video.mp4' });
       }
 
+      const { signal, onProgress: _onProgress, ...formFields } = options; // Controls are not form fields
+
       // Add options as form fields
       console.log('API Client filterVideo: Received options:', options);
-      Object.entries(options).forEach(([key, value]) => {
+      Object.entries(formFields).forEach(([key, value]) => {
         if (value !== undefined) {
           console.log(`API Client filterVideo: Adding form field ${key}:`, value);
           formData.append(key, value.toString());
@@ -405,6 +419,7 @@ export class FFMPEGAPIClient implements IFFMPEGClient {
           },
           maxContentLength: Infinity,
           maxBodyLength: Infinity,
+          signal,
           timeout: 600000, // 10 minutes for video processing
           responseType: 'arraybuffer' // Expect binary response
         }
@@ -457,8 +472,10 @@ export class FFMPEGAPIClient implements IFFMPEGClient {
         formData.append(`video${index}`, buffer, { filename: `video_${index}.mp4` });
       });
 
+      const { signal, onProgress: _onProgress, ...formFields } = options; // Controls are not form fields
+
       // Add options as form fields
-      Object.entries(options).forEach(([key, value]) => {
+      Object.entries(formFields).forEach(([key, value]) => {
         if (value !== undefined) {
           formData.append(key, value.toString());
         }
@@ -474,6 +491,7 @@ export class FFMPEGAPIClient implements IFFMPEGClient {
           },
           maxContentLength: Infinity,
           maxBodyLength: Infinity,
+          signal,
           timeout: 900000, // 15 minutes for multiple video processing
           responseType: 'arraybuffer' // Expect binary response
         }
@@ -620,7 +638,8 @@ export class FFMPEGAPIClient implements IFFMPEGClient {
             'Content-Type': 'multipart/form-data'
           },
           maxContentLength: Infinity,
-          maxBodyLength: Infinity
+          maxBodyLength: Infinity,
+          signal: options?.signal
         }
       );
 
@@ -103,7 +103,9 @@ export class FFMPEGAudioToAudioModel extends AudioToAudioModel {
         volume: normalizedOptions.volume,
         normalize: normalizedOptions.normalize,
         startTime: normalizedOptions.startTime,
-        duration: normalizedOptions.duration
+        duration: normalizedOptions.duration,
+        signal: options?.signal,
+        onProgress: options?.onProgress
       });
 
       if (!result.success) {
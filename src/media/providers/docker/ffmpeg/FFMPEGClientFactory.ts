@@ -30,6 +30,7 @@ export interface IFFMPEGClient {
   filterVideo(videoData: any, options?: any): Promise<any>;
   filterMultipleVideos(videoBuffers: Buffer[], options?: any): Promise<any>;
   getVideoMetadata(videoData: any): Promise<any>;
+  extractFrames(videoData: any, options?: any): Promise<any>;
 }
 
 /**
@@ -215,6 +216,10 @@ export class FFMPEGClientWrapper implements IFFMPEGClient {
   async getVideoMetadata(videoData: any) {
     return this.client.getVideoMetadata(videoData);
   }
+
+  async extractFrames(videoData: any, options?: any) {
+    return this.client.extractFrames(videoData, options);
+  }
 }
 
 // Export convenience functions
@@ -110,7 +110,9 @@ export class FFMPEGDockerModel extends VideoToAudioModel {
           startTime: mergedOptions.startTime,
           duration: mergedOptions.duration,
           volume: mergedOptions.volume,
-          normalize: mergedOptions.normalize
+          normalize: mergedOptions.normalize,
+          signal: options?.signal,
+          onProgress: options?.onProgress
         });
 
         if (!result.success) {
@@ -14,6 +14,7 @@ import {
 } from '../../../types/provider';
 import { AudioToAudioProvider } from '../../../capabilities/interfaces/AudioToAudioProvider';
 import { VideoToAudioProvider } from '../../../capabilities/interfaces/VideoToAudioProvider';
+import { getProviderJobCounts } from '../../../registry/ProviderLoad';
 
 export interface FFMPEGDockerConfig extends ProviderConfig {
   dockerImage?: string;
@@ -103,16 +104,14 @@ export class FFMPEGDockerProvider implements MediaProvider, AudioToAudioProvider
       return {
         status: isAvailable ? 'healthy' : 'unhealthy',
         uptime: Date.now(), // Mock uptime
-        activeJobs: 0,
-        queuedJobs: 0,
+        ...getProviderJobCounts(this.id),
         lastError: isAvailable ? undefined : 'Docker service not available'
       };
     } catch (error) {
       return {
         status: 'unhealthy',
         uptime: 0,
-        activeJobs: 0,
-        queuedJobs: 0,
+        ...getProviderJobCounts(this.id),
         lastError: error.message
       };
     }
@@ -21,8 +21,11 @@ import {
 import {
   VideoCompositionOptions,
   VideoCompositionResult,
+  FrameExtractionOptions,
+  FrameExtractionResult,
   IFFMPEGClient
 } from '../../ffmpeg/IFFMPEGClient';
+import { TransformProgressCallback } from '../../../models/abstracts/Model';
 
 export interface FFMPEGLocalConfig {
   ffmpegPath?: string;
@@ -138,7 +141,8 @@ export class FFMPEGLocalClient implements IFFMPEGClient {
       args.push('-y', tempOutputFile);
 
       // Execute ffmpeg
-      await this.executeFFmpeg(args);
+      const onOutputTime = await this.createProgressReporter([tempInputFile], options);
+      await this.executeFFmpeg(args, options.signal, onOutputTime);
 
       // Get output file stats and metadata
       const stats = fs.statSync(tempOutputFile);
@@ -218,7 +222,8 @@ export class FFMPEGLocalClient implements IFFMPEGClient {
       args.push('-y', tempOutputFile);
 
       // Execute ffmpeg
-      await this.executeFFmpeg(args);
+      const onOutputTime = await this.createProgressReporter([tempInputFile], options);
+      await this.executeFFmpeg(args, options.signal, onOutputTime);
 
       // Get output file stats and metadata
       const stats = fs.statSync(tempOutputFile);
@@ -383,7 +388,8 @@ export class FFMPEGLocalClient implements IFFMPEGClient {
       args.push('-y', tempOutputFile);
 
       // Execute ffmpeg
-      await this.executeFFmpeg(args);
+      const onOutputTime = await this.createProgressReporter(tempInputFiles, options);
+      await this.executeFFmpeg(args, options.signal, onOutputTime);
 
       // Get output file stats and metadata
       const stats = fs.statSync(tempOutputFile);
@@ -429,8 +435,9 @@ export class FFMPEGLocalClient implements IFFMPEGClient {
     options: VideoCompositionOptions = {}
   ): Promise<VideoCompositionResult> {
     const startTime = Date.now();
+    const outputFormat = options.outputFormat || 'mp4';
     const tempInputFile = path.join(this.tempDir, `input_${uuidv4()}.mp4`);
-    const tempOutputFile = path.join(this.tempDir, `filtered_${uuidv4()}.mp4`);
+    const tempOutputFile = path.join(this.tempDir, `filtered_${uuidv4()}.${outputFormat}`);
 
     try {
       // Write input data to temp file
@@ -471,7 +478,8 @@ export class FFMPEGLocalClient implements IFFMPEGClient {
       args.push('-y', tempOutputFile);
 
       // Execute ffmpeg
-      await this.executeFFmpeg(args);
+      const onOutputTime = await this.createProgressReporter([tempInputFile], options);
+      await this.executeFFmpeg(args, options.signal, onOutputTime);
 
       // Get output file stats and metadata
       const stats = fs.statSync(tempOutputFile);
@@ -480,7 +488,7 @@ export class FFMPEGLocalClient implements IFFMPEGClient {
 
       const result: VideoCompositionResult = {
         success: true,
-        format: 'mp4',
+        format: outputFormat,
         videoBuffer,
         metadata: {
           duration: metadata.duration,
@@ -581,7 +589,8 @@ export class FFMPEGLocalClient implements IFFMPEGClient {
       args.push('-y', tempOutputFile);
 
       // Execute ffmpeg
-      await this.executeFFmpeg(args);
+      const onOutputTime = await this.createProgressReporter(tempInputFiles, options);
+      await this.executeFFmpeg(args, options.signal, onOutputTime);
 
       // Get output file stats and metadata
       const stats = fs.statSync(tempOutputFile);
@@ -677,6 +686,89 @@ export class FFMPEGLocalClient implements IFFMPEGClient {
     }
   }
 
+  /**
+   * Extract frame(s) from a video as images (single images work as one-frame videos)
+   */
+  async extractFrames(
+    videoData: Buffer | Readable | string,
+    options: FrameExtractionOptions = {}
+  ): Promise<FrameExtractionResult> {
+    const startTime = Date.now();
+    const format = options.format || 'png';
+    const framePrefix = `frame_${uuidv4()}_`;
+    const tempInputFile = path.join(this.tempDir, `input_${uuidv4()}`);
+    let framePaths: string[] = [];
+
+    try {
+      await this.writeInputToFile(videoData, tempInputFile);
+
+      const args: string[] = [];
+      const seekTime = options.extractAll ? options.startTime : options.frameTime;
+      if (seekTime) {
+        args.push('-ss', seekTime.toString());
+      }
+      args.push('-i', tempInputFile);
+      if (options.extractAll && options.endTime) {
+        args.push('-to', (options.endTime - (options.startTime || 0)).toString());
+      }
+
+      const filters: string[] = [];
+      if (options.frameNumber !== undefined) {
+        filters.push(`select=eq(n\\,${options.frameNumber})`);
+      }
+      if (options.extractAll && options.frameRate) {
+        filters.push(`fps=${options.frameRate}`);
+      }
+      if (options.width || options.height) {
+        filters.push(`scale=${options.width || -2}:${options.height || -2}`);
+      }
+      if (filters.length > 0) {
+        args.push('-vf', filters.join(','));
+      }
+
+      if (!options.extractAll) {
+        args.push('-frames:v', '1');
+      }
+      if (format === 'jpg' && options.quality) {
+        // Map 0-100 quality onto ffmpeg's 31 (worst) .. 2 (best) JPEG scale
+        args.push('-q:v', Math.round(31 - (Math.min(options.quality, 100) / 100) * 29).toString());
+      }
+
+      args.push('-y', path.join(this.tempDir, `${framePrefix}%04d.${format}`));
+
+      await this.executeFFmpeg(args, options.signal);
+
+      framePaths = fs.readdirSync(this.tempDir)
+        .filter(file => file.startsWith(framePrefix))
+        .sort()
+        .map(file => path.join(this.tempDir, file));
+      if (framePaths.length === 0) {
+        throw new Error('No frames were extracted');
+      }
+
+      const frames = framePaths.map(framePath => fs.readFileSync(framePath));
+      const dimensions = await this.getVideoMetadata(framePaths[0]);
+
+      return {
+        success: true,
+        frames,
+        format,
+        width: dimensions.width,
+        height: dimensions.height,
+        frameCount: frames.length,
+        processingTime: Date.now() - startTime
+      };
+    } catch (error) {
+      throw new Error(`Frame extraction failed: ${error.message}`);
+    } finally {
+      for (const file of [tempInputFile, ...framePaths]) {
+        if (fs.existsSync(file)) {
+          fs.unlinkSync(file);
+        }
+      }
+    }
+  }
+
   /**
    * Concatenate videos using concat demuxer (file-based approach)
    */
@@ -731,19 +823,52 @@ export class FFMPEGLocalClient implements IFFMPEGClient {
   // Private helper methods
 
   /**
-   * Execute FFmpeg command
+   * Execute FFmpeg command, killing the process if the signal aborts.
+   * When onOutputTime is given, ffmpeg's -progress output is parsed and the
+   * current output position (in seconds) is reported as it advances.
    */
-  private executeFFmpeg(args: string[]): Promise<string> {
+  private executeFFmpeg(
+    args: string[],
+    signal?: AbortSignal,
+    onOutputTime?: (seconds: number) => void
+  ): Promise<string> {
     return new Promise((resolve, reject) => {
-      const process = spawn(this.config.ffmpegPath, args, {
+      if (signal?.aborted) {
+        reject(new Error('FFmpeg process aborted'));
+        return;
+      }
+
+      const ffmpegArgs = onOutputTime ? ['-progress', 'pipe:1', '-nostats', ...args] : args;
+      const process = spawn(this.config.ffmpegPath, ffmpegArgs, {
         stdio: ['pipe', 'pipe', 'pipe']
       });
 
+      const onAbort = () => {
+        process.kill('SIGKILL');
+        reject(new Error('FFmpeg process aborted'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       let stdout = '';
       let stderr = '';
+      let progressBuffer = '';
 
       process.stdout.on('data', (data) => {
-        stdout += data.toString();
+        if (!onOutputTime) {
+          stdout += data.toString();
+          return;
+        }
+
+        // -progress writes key=value lines; out_time_us is the output position in microseconds
+        progressBuffer += data.toString();
+        const lines = progressBuffer.split('\n');
+        progressBuffer = lines.pop() || '';
+        for (const line of lines) {
+          const match = line.match(/^out_time_(?:us|ms)=(\d+)/);
+          if (match) {
+            onOutputTime(parseInt(match[1], 10) / 1_000_000);
+          }
+        }
       });
 
       process.stderr.on('data', (data) => {
@@ -757,6 +882,7 @@ export class FFMPEGLocalClient implements IFFMPEGClient {
 
       process.on('close', (code) => {
         clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
         if (code === 0) {
           resolve(stdout);
         } else {
@@ -766,11 +892,62 @@ export class FFMPEGLocalClient implements IFFMPEGClient {
 
       process.on('error', (error) => {
         clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
         reject(new Error(`FFmpeg process error: ${error.message}`));
       });
     });
   }
 
+  /**
+   * Build an output-time handler that reports progress against the expected output
+   * duration (an explicit duration option, otherwise the longest input)
+   */
+  private async createProgressReporter(
+    inputFiles: string[],
+    options: { onProgress?: TransformProgressCallback; duration?: number }
+  ): Promise<((seconds: number) => void) | undefined> {
+    const onProgress = options.onProgress;
+    if (!onProgress) return undefined;
+
+    let totalDuration = options.duration;
+    if (!totalDuration) {
+      const durations = await Promise.all(inputFiles.map(file => this.probeDuration(file)));
+      totalDuration = Math.max(0, ...durations);
+    }
+    if (!totalDuration) return undefined;
+
+    let lastPercentage = -1;
+    return (seconds: number) => {
+      // Completion is reported by the caller; cap at 99 until then
+      const percentage = Math.min(99, Math.floor((seconds / totalDuration!) * 100));
+      if (percentage <= lastPercentage) return;
+      lastPercentage = percentage;
+
+      try {
+        onProgress({ percentage, message: `Processed ${seconds.toFixed(1)}s of ${totalDuration!.toFixed(1)}s` });
+      } catch (error) {
+        console.warn('[FFMPEGLocalClient] Progress callback failed:', error);
+      }
+    };
+  }
+
+  /**
+   * Get a media file's duration in seconds (0 if it cannot be determined)
+   */
+  private async probeDuration(filePath: string): Promise<number> {
+    try {
+      const output = await this.executeFFprobe([
+        '-v', 'error',
+        '-show_entries', 'format=duration',
+        '-of', 'csv=p=0',
+        filePath
+      ]);
+      return parseFloat(output.trim()) || 0;
+    } catch {
+      return 0;
+    }
+  }
+
   /**
    * Execute FFprobe command
    */
@@ -167,10 +167,10 @@ export class HuggingFaceAPIClient {
   /**
    * Generate audio from text using a loaded model
    */
-  async generateAudio(request: HuggingFaceGenerationRequest): Promise<HuggingFaceGenerationResponse> {
+  async generateAudio(request: HuggingFaceGenerationRequest, signal?: AbortSignal): Promise<HuggingFaceGenerationResponse> {
     try {
       console.log(`[HuggingFaceAPIClient] Generating audio with model: ${request.modelId}`);
-      const response: AxiosResponse<HuggingFaceGenerationResponse> = await this.client.post('/generate/audio', request);
+      const response: AxiosResponse<HuggingFaceGenerationResponse> = await this.client.post('/generate/audio', request, { signal });
       console.log(`[HuggingFaceAPIClient] Audio generated successfully`);
       return response.data;
     } catch (error) {
@@ -184,10 +184,10 @@ export class HuggingFaceAPIClient {
   /**
    * Generate an image from text using a loaded model
    */
-  async generateImage(request: HuggingFaceGenerationRequest): Promise<HuggingFaceGenerationResponse> {
+  async generateImage(request: HuggingFaceGenerationRequest, signal?: AbortSignal): Promise<HuggingFaceGenerationResponse> {
     try {
       console.log(`[HuggingFaceAPIClient] Generating image with model: ${request.modelId}`);
-      const response: AxiosResponse<HuggingFaceGenerationResponse> = await this.client.post('/generate', request);
+      const response: AxiosResponse<HuggingFaceGenerationResponse> = await this.client.post('/generate', request, { signal });
       console.log(`[HuggingFaceAPIClient] Image generated successfully`);
       return response.data;
     } catch (error) {
@@ -13,7 +13,7 @@ import {
   HuggingFaceGenerationRequest,
   ModelLoadRequest 
 } from './HuggingFaceAPIClient';
-import { createGenerationPrompt, extractInputContent } from '../../../utils/GenerationPromptHelper';
+import { createGenerationPrompt, extractInputContent, stripControlOptions } from '../../../utils/GenerationPromptHelper';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -110,13 +110,13 @@ export class HuggingFaceDockerModel extends TextToImageModel {
         guidanceScale: options?.guidanceScale || 7.5,
         seed: options?.seed,
         scheduler: options?.scheduler,
-        ...options // Include any additional model-specific parameters
+        ...stripControlOptions(options) // Include any additional model-specific parameters
       };
 
       console.log(`[HuggingFaceDockerModel] Generating image with prompt: "${text.content}"`);
       
       // Generate image
-      const response = await this.apiClient.generateImage(request);
+      const response = await this.apiClient.generateImage(request, options?.signal);
 
       if (!response.success) {
         throw new Error(response.error || 'Image generation failed');
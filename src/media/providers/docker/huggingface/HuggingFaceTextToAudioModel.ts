@@ -90,7 +90,7 @@ export class HuggingFaceTextToAudioModel extends TextToAudioModel {
 
       console.log(`[HuggingFaceTextToAudio] Generating audio with model: ${this.modelId}`);
       console.log(`[HuggingFaceTextToAudio] Request payload:`, requestPayload);      // Make request to HuggingFace audio generation endpoint
-      const response = await this.generateAudio(requestPayload);
+      const response = await this.generateAudio(requestPayload, options?.signal);
 
       if (!response.success) {
         throw new Error(`HuggingFace audio generation failed: ${response.error || 'Unknown error'}`);
@@ -166,7 +166,7 @@ export class HuggingFaceTextToAudioModel extends TextToAudioModel {
   }  /**
    * Generate audio using HuggingFace API
    */
-  private async generateAudio(request: any): Promise<any> {
+  private async generateAudio(request: any, signal?: AbortSignal): Promise<any> {
     try {
       // Use the dedicated audio generation endpoint
       const response = await this.apiClient.generateAudio({
@@ -174,7 +174,7 @@ export class HuggingFaceTextToAudioModel extends TextToAudioModel {
         prompt: request.prompt,
         // Pass through audio-specific parameters
         ...request
-      });
+      }, signal);
       
       return {
         success: response.success,
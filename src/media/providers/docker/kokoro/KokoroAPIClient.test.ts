@@ -0,0 +1,64 @@
+/**
+ * KokoroAPIClient Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { KokoroAPIClient } from './KokoroAPIClient';
+
+// Mono 16-bit PCM WAV holding one sample per synthesized request
+function wav(sample: number): ArrayBuffer {
+  const buffer = Buffer.alloc(46);
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(38, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(24000, 24);
+  buffer.writeUInt32LE(48000, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(2, 40);
+  buffer.writeInt16LE(sample, 44);
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length);
+}
+
+describe('KokoroAPIClient', () => {
+  const inputs: string[] = [];
+  const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+    inputs.push(JSON.parse(init.body as string).input);
+    return { ok: true, status: 200, arrayBuffer: async () => wav(inputs.length) } as unknown as Response;
+  });
+  const text = `${'A short sentence. '.repeat(30)}\n\nA new paragraph.`;
+
+  beforeEach(() => {
+    inputs.length = 0;
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should synthesize the whole text in one request without a progress listener', async () => {
+    const response = await new KokoroAPIClient().generateTTS({ text });
+
+    expect(inputs).toEqual([text]);
+    expect(Buffer.from(response.audio_data!, 'base64').readInt16LE(44)).toBe(1);
+  });
+
+  it('should report progress after each group of sentences and join the audio', async () => {
+    const onProgress = vi.fn();
+    const response = await new KokoroAPIClient().generateTTS({ text }, { onProgress });
+
+    expect(inputs.length).toBeGreaterThan(1);
+    expect(inputs.join(' ')).toContain('sentence.\n\nA new paragraph.');
+    expect(onProgress).toHaveBeenCalledTimes(inputs.length + 1);
+    expect(onProgress).toHaveBeenLastCalledWith({ percentage: 100, message: `Synthesized chunk ${inputs.length}/${inputs.length}` });
+
+    const audio = Buffer.from(response.audio_data!, 'base64');
+    expect(audio.readUInt32LE(40)).toBe(inputs.length * 2);
+  });
+});
@@ -5,6 +5,9 @@
  * Based on ChatterboxAPIClient pattern.
  */
 
+import { TransformControlOptions } from '../../../models/abstracts/Model';
+import { joinWavAudio, splitSpeechText } from '../../../utils/SpeechChunks';
+
 export interface KokoroTTSRequest {
   text: string;
   voice?: string;
@@ -29,6 +32,9 @@ export interface KokoroAPIConfig {
   retries?: number;
 }
 
+// Characters of whole sentences sent per request when reporting progress
+const KOKORO_CHUNK_SIZE = 400;
+
 /**
  * API client for Kokoro TTS Docker service
  */
@@ -94,34 +100,27 @@ export class KokoroAPIClient {
   /**
    * Generate TTS audio
    */
-  async generateTTS(request: KokoroTTSRequest): Promise<KokoroTTSResponse> {
-    try {
-      // Convert to OpenAI-compatible format
-      const openAIRequest = {
-        model: "kokoro",
-        input: request.text,
-        voice: request.voice || "default",
-        response_format: "wav",
-        speed: request.speed || 1.0
-      };
+  async generateTTS(request: KokoroTTSRequest, controls: TransformControlOptions = {}): Promise<KokoroTTSResponse> {
+    const { signal, onProgress } = controls;
 
-      const response = await this.makeRequest('/v1/audio/speech', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(openAIRequest),
-        timeout: this.timeout
-      });
+    // When progress is wanted, sentences are sent in groups, one request each,
+    // so progress can be reported as every group is synthesized
+    const chunks = onProgress ? splitSpeechText(request.text, KOKORO_CHUNK_SIZE) : [request.text];
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`API request failed: ${response.status} - ${errorText}`);
+    try {
+      onProgress?.({ percentage: 0, message: `Synthesizing ${chunks.length} chunk(s)` });
+
+      const parts: Buffer[] = [];
+      for (const [index, text] of chunks.entries()) {
+        parts.push(await this.synthesizeChunk({ ...request, text }, signal));
+        onProgress?.({
+          percentage: ((index + 1) / chunks.length) * 100,
+          message: `Synthesized chunk ${index + 1}/${chunks.length}`
+        });
       }
 
-      // Response should be audio data directly
-      const audioBuffer = await response.arrayBuffer();
-      const audioBase64 = Buffer.from(audioBuffer).toString('base64');
+      // One WAV file for the whole text
+      const audioBase64 = joinWavAudio(parts).toString('base64');
 
       return {
         audio_data: audioBase64,
@@ -132,6 +131,37 @@ export class KokoroAPIClient {
       throw error;
     }
   }
+
+  /**
+   * Synthesize one piece of text as WAV
+   */
+  private async synthesizeChunk(request: KokoroTTSRequest, signal?: AbortSignal): Promise<Buffer> {
+    // Convert to OpenAI-compatible format
+    const openAIRequest = {
+      model: "kokoro",
+      input: request.text,
+      voice: request.voice || "default",
+      response_format: "wav",
+      speed: request.speed || 1.0
+    };
+
+    const response = await this.makeRequest('/v1/audio/speech', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(openAIRequest),
+      timeout: this.timeout,
+      signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`API request failed: ${response.status} - ${errorText}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
   /**
    * Get service info
    */
@@ -153,6 +183,7 @@ export class KokoroAPIClient {
   private async makeRequest(endpoint: string, options: RequestInit & { timeout?: number } = {}): Promise<Response> {
     const url = `${this.baseUrl}${endpoint}`;
     const timeout = options.timeout || this.timeout;
+    const externalSignal = options.signal || undefined;
     
     let lastError: Error;
 
@@ -163,13 +194,18 @@ export class KokoroAPIClient {
 
         const response = await fetch(url, {
           ...options,
-          signal: controller.signal
+          signal: externalSignal ? AbortSignal.any([controller.signal, externalSignal]) : controller.signal
         });
 
         clearTimeout(timeoutId);
         return response;
       } catch (error) {
         lastError = error instanceof Error ? error : new Error('Unknown error');
+
+        // Cancelled by the caller - retrying would only ignore the cancellation
+        if (externalSignal?.aborted) {
+          throw lastError;
+        }
         
         if (attempt < this.retries) {
           const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
@@ -99,7 +99,7 @@ export class KokoroDockerModel extends TextToAudioModel {
       console.log(`[KokoroDockerModel] Generating TTS for: "${text.content.substring(0, 50)}..."`);
       
       // Generate audio via API
-      const response = await this.apiClient.generateTTS(ttsRequest);
+      const response = await this.apiClient.generateTTS(ttsRequest, options);
       
       if (response.error) {
         throw new Error(`TTS generation failed: ${response.error}`);
@@ -122,7 +122,11 @@ export class ZonosDockerProvider extends AbstractDockerProvider implements TextT
         parameters: {
           'speed': { type: 'number', default: 1.0, range: [0.5, 2.0] },
           'pitch': { type: 'number', default: 0, range: [-12, 12] },
-          'voice': { type: 'string', default: 'default' }
+          'voice': { type: 'string', default: 'default' },
+          'modelChoice': { type: 'string', options: ['Zyphra/Zonos-v0.1-transformer', 'Zyphra/Zonos-v0.1-hybrid'] },
+          'speakerAudio': { type: 'string', description: 'Reference audio for voice cloning' },
+          'prefixAudio': { type: 'string', description: 'Audio to continue from' },
+          'speakerNoised': { type: 'boolean' }
         },
         pricing: { inputCost: 0, outputCost: 0, currency: 'USD' },
       }));
@@ -33,6 +33,7 @@ export interface FalAiRequestOptions {
   input: Record<string, any>;
   logs?: boolean;
   onProgress?: (progress: { percentage: number; message?: string }) => void;
+  signal?: AbortSignal;
 }
 
 export interface FalAiResponse<T = any> {
@@ -205,15 +206,9 @@ export class FalAiClient {
     try {      const result = await fal.subscribe(options.model, {
         input: options.input,
         logs: options.logs !== false,
-        onQueueUpdate: (update: any) => {
-          if (options.onProgress) {
-            const percentage = this.calculateProgress(update);
-            options.onProgress({
-              percentage,
-              message: update.status
-            });
-          }
-        }      });
+        abortSignal: options.signal,
+        onQueueUpdate: (update: any) => this.reportQueueUpdate(options, update)
+      });
 
       const duration = Date.now() - startTime;
 
@@ -410,12 +405,14 @@ Tags: ${model.tags?.join(', ') || 'None'}`
   private async executeWithRetry(options: FalAiRequestOptions, requestId: string, attempt = 1): Promise<any> {
     try {      return await fal.subscribe(options.model, {
         input: options.input,
-        logs: options.logs !== false
+        logs: options.logs !== false,
+        abortSignal: options.signal,
+        onQueueUpdate: options.onProgress ? (update: any) => this.reportQueueUpdate(options, update) : undefined
       });
     } catch (error) {
       const maxRetries = this.config.retries || 3;
       
-      if (attempt < maxRetries && this.isRetryableError(error)) {
+      if (attempt < maxRetries && !options.signal?.aborted && this.isRetryableError(error)) {
         const delay = Math.pow(2, attempt) * 1000; // Exponential backoff
         await new Promise(resolve => setTimeout(resolve, delay));
         return this.executeWithRetry(options, requestId, attempt + 1);
@@ -460,6 +457,23 @@ Tags: ${model.tags?.join(', ') || 'None'}`
     );
   }
 
+  /**
+   * Forward a fal.ai queue update to the request's progress callback
+   */
+  private reportQueueUpdate(options: FalAiRequestOptions, update: any): void {
+    if (!options.onProgress) return;
+
+    const message = update.status === 'IN_QUEUE' && typeof update.queue_position === 'number'
+      ? `Queued (position ${update.queue_position})`
+      : update.status;
+
+    try {
+      options.onProgress({ percentage: this.calculateProgress(update), message });
+    } catch (error) {
+      console.warn('[FalAiClient] Progress callback failed:', error);
+    }
+  }
+
   /**
    * Calculate progress from fal.ai queue update
    */
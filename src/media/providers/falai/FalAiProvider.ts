@@ -16,7 +16,7 @@ import {
   JobStatus 
 } from '../../types/provider';
 import { v4 as uuidv4 } from 'uuid';
-import { FalAiClient, FalAiConfig } from './FalAiClient';
+import { FalAiClient, FalAiConfig, FalModelMetadata } from './FalAiClient';
 import {
   TextToImageProvider,
   TextToVideoProvider,
@@ -31,6 +31,7 @@ import { TextToImageModel } from '../../models/abstracts/TextToImageModel';
 import { TextToVideoModel } from '../../models/abstracts/TextToVideoModel';
 import { VideoToVideoModel } from '../../models/abstracts/VideoToVideoModel';
 import { TextToAudioModel } from '../../models/abstracts/TextToAudioModel';
+import { getProviderJobCounts } from '../../registry/ProviderLoad';
 
 // Create the base provider class
 class BaseFalAiProvider implements MediaProvider {
@@ -142,8 +143,7 @@ class BaseFalAiProvider implements MediaProvider {
     return {
       status: isAvailable ? 'healthy' as const : 'unhealthy' as const,
       uptime: process.uptime(),
-      activeJobs: 0, // Models handle their own jobs
-      queuedJobs: 0
+      ...getProviderJobCounts(this.id)
     };
   }
 
@@ -345,7 +345,7 @@ class BaseFalAiProvider implements MediaProvider {
         name: cachedProviderModel.name,
         description: cachedProviderModel.description || 'No description',
         category: this.reverseMapCapabilities(cachedProviderModel.capabilities),
-        parameters: cachedProviderModel.parameters,
+        parameters: cachedProviderModel.parameters as FalModelMetadata['parameters'],
         capabilities: cachedProviderModel.capabilities.map(cap => cap.toLowerCase().replace('_', '-')),
         tags: [],
         lastUpdated: Date.now()
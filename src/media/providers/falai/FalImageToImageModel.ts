@@ -5,7 +5,7 @@
  * Implements an interface for image transformation and uses fal.ai API.
  */
 
-import { ModelMetadata } from '../../models/abstracts/Model';
+import { ModelMetadata, TransformControlOptions } from '../../models/abstracts/Model';
 import { Image, ImageFormat, ImageRole } from '../../assets/roles';
 import { FalAiClient, FalModelMetadata } from './FalAiClient';
 import { SmartAssetFactory } from '../../assets/SmartAssetFactory';
@@ -20,7 +20,7 @@ export interface FalModelConfig {
   falAiClient: FalAiClient;
 }
 
-export interface ImageToImageOptions {
+export interface ImageToImageOptions extends TransformControlOptions {
   prompt?: string; // For style transfer or enhancement guidance
   negativePrompt?: string;
   strength?: number; // How much to change the original image (0.0 to 1.0)
@@ -89,7 +89,9 @@ export class FalImageToImageModel {
       const result = await this.falAiClient.invoke({
         model: this.modelMetadata.id,
         input: falInput,
-        logs: true
+        logs: true,
+        signal: options?.signal,
+        onProgress: options?.onProgress
       });
 
       console.log(`[FalImageToImage] Processing completed:`, result);
@@ -79,7 +79,9 @@ export class FalImageToVideoModel extends ImageToVideoModel {
       const result = await this.falAiClient.invoke({
         model: this.modelMetadata.id,
         input: falInput,
-        logs: true
+        logs: true,
+        signal: options?.signal,
+        onProgress: options?.onProgress
       });
 
       console.log(`[FalImageToVideo] Generation completed:`, result);      if (result.data) {
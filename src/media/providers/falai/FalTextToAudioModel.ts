@@ -101,7 +101,9 @@ export class FalTextToAudioModel extends TextToAudioModel {
       const result = await this.falAiClient.invoke({
         model: this.modelMetadata.id,
         input: falInput,
-        logs: true
+        logs: true,
+        signal: options?.signal,
+        onProgress: options?.onProgress
       });
 
       // Calculate processing time
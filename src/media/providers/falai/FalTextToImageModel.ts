@@ -78,7 +78,9 @@ export class FalTextToImageModel extends TextToImageModel {
       const result = await this.falAiClient.invoke({
         model: this.modelMetadata.id,
         input: falInput,
-        logs: true
+        logs: true,
+        signal: options?.signal,
+        onProgress: options?.onProgress
       });      console.log(`[FalTextToImage] Generation completed:`, result);      if (result.data) {
         // Handle different output formats from fal.ai
         let imageUrl: string;
@@ -79,7 +79,9 @@ export class FalTextToVideoModel extends TextToVideoModel {
       const result = await this.falAiClient.invoke({
         model: this.modelMetadata.id,
         input: falInput,
-        logs: true
+        logs: true,
+        signal: options?.signal,
+        onProgress: options?.onProgress
       });
 
       console.log(`[FalTextToVideo] Generation completed:`, result);
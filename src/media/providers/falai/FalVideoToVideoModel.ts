@@ -89,7 +89,9 @@ export class FalVideoToVideoModel extends VideoToVideoModel {
       const result = await this.falAiClient.invoke({
         model: this.modelMetadata.id,
         input: falInput,
-        logs: true
+        logs: true,
+        signal: options?.signal,
+        onProgress: options?.onProgress
       });
 
       console.log(`[FalVideoToVideo] Processing completed:`, result);
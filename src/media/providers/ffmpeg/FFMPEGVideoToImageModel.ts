@@ -70,7 +70,8 @@ export class FFMPEGVideoToImageModel extends VideoToImageModel {
         height: options?.height,
         quality: options?.quality || this.config.defaultQuality || 90,
         extractAll: false, // Single frame extraction
-        frameRate: undefined
+        frameRate: undefined,
+        signal: options?.signal
       };
 
       console.log(`[FFMPEGVideoToImage] Extraction options:`, extractionOptions);      // Extract frame using FFmpeg client
@@ -135,7 +136,8 @@ export class FFMPEGVideoToImageModel extends VideoToImageModel {
         height: options.height,
         quality: options.quality || this.config.defaultQuality || 90,
         extractAll: options.extractAll || false,
-        frameRate: options.frameRate
+        frameRate: options.frameRate,
+        signal: options.signal
       };
 
       const result = await this.client.extractFrames(video.data, extractionOptions);
@@ -68,7 +68,9 @@ export class FFMPEGVideoToVideoModel extends VideoToVideoModel {
       videoOutputLabel: options.videoOutputLabel || 'final_video',
       audioOutputLabel: options.audioOutputLabel || 'mixed_audio', 
       customAudioMapping: true,
-      outputFormat: options.outputFormat as any
+      outputFormat: options.outputFormat as any,
+      signal: options.signal,
+      onProgress: options.onProgress
     });
 
     if (!result.videoBuffer) {
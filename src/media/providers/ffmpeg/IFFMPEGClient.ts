@@ -6,6 +6,7 @@
  */
 
 import { Readable } from 'stream';
+import { TransformProgressCallback } from '../../models/abstracts/Model';
 
 export interface AudioConversionOptions {
   outputFormat?: 'wav' | 'mp3' | 'flac' | 'm4a' | 'aac' | 'ogg';
@@ -40,6 +41,8 @@ export interface AudioConversionOptions {
   metadata?: Record<string, any>;
   customFilters?: string[];
   codecOptions?: Record<string, any>;
+  signal?: AbortSignal; // Abort the conversion (kills the ffmpeg process)
+  onProgress?: TransformProgressCallback; // Receives ffmpeg -progress updates
 }
 
 export interface AudioExtractionOptions {
@@ -52,6 +55,8 @@ export interface AudioExtractionOptions {
   duration?: number;
   volume?: number;
   normalize?: boolean;
+  signal?: AbortSignal; // Abort the extraction (kills the ffmpeg process)
+  onProgress?: TransformProgressCallback; // Receives ffmpeg -progress updates
 }
 
 export interface AudioExtractionResult {
@@ -104,6 +109,8 @@ export interface VideoCompositionOptions {
   videoOutputLabel?: string; // Label for video output (default: 'v')
   audioOutputLabel?: string; // Label for audio output (default: use input audio)
   customAudioMapping?: boolean; // Whether to use custom audio mapping instead of input audio
+  signal?: AbortSignal; // Abort the composition (kills the ffmpeg process)
+  onProgress?: TransformProgressCallback; // Receives ffmpeg -progress updates
   [key: string]: any;
 }
 
@@ -240,6 +247,7 @@ export interface FrameExtractionOptions {
   frameRate?: number; // For extracting multiple frames at specific intervals
   startTime?: number; // Start time for frame extraction
   endTime?: number; // End time for frame extraction
+  signal?: AbortSignal; // Abort the extraction
 }
 
 export interface FrameExtractionResult {
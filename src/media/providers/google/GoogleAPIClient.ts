@@ -1,4 +1,7 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { parseServerSentEvents } from '../../utils/ServerSentEvents';
+import { parseToolArguments, ToolChoice, ToolDefinition } from '../../models/abstracts/TextToTextModel';
+import type { ToolCall } from '../../assets/roles';
 
 export interface GoogleConfig {
   apiKey: string;
@@ -6,31 +9,62 @@ export interface GoogleConfig {
   timeout?: number;
 }
 
-export interface GoogleContentPart {
-  text: string;
+export interface GoogleFunctionCall {
+  id?: string;
+  name: string;
+  args?: Record<string, any>;
 }
 
+export type GoogleContentPart =
+  | { text: string }
+  | { inline_data: { mime_type: string; data: string } }
+  | { functionCall: GoogleFunctionCall }
+  | { functionResponse: { name: string; response: Record<string, any> } };
+
 export interface GoogleContent {
+  role?: 'user' | 'model';
   parts: GoogleContentPart[];
 }
 
 export interface GoogleRequest {
   contents: GoogleContent[];
+  systemInstruction?: { parts: GoogleContentPart[] };
+  tools?: { functionDeclarations: { name: string; description?: string; parameters?: Record<string, any> }[] }[];
+  toolConfig?: { functionCallingConfig: { mode: 'AUTO' | 'NONE' | 'ANY'; allowedFunctionNames?: string[] } };
   generationConfig?: {
     temperature?: number;
     maxOutputTokens?: number;
     topP?: number;
+    responseMimeType?: string;
+    responseJsonSchema?: Record<string, any>;
   };
 }
 
 export interface GoogleCandidate {
-  content: { parts: { text: string }[] };
+  content: { parts: { text?: string; functionCall?: GoogleFunctionCall }[] };
 }
 
 export interface GoogleResponse {
   candidates: GoogleCandidate[];
 }
 
+export interface GoogleTextOptions {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  systemPrompt?: string;
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  responseFormat?: 'text' | 'json' | { type: 'json_object' };
+  responseSchema?: Record<string, any>;   // JSON Schema the reply must match
+  signal?: AbortSignal;
+}
+
+export interface GoogleGeneratedMessage {
+  content: string;
+  toolCalls: ToolCall[];
+}
+
 export interface GoogleModel {
   name: string;
 }
@@ -71,21 +105,84 @@ export class GoogleAPIClient {
     return response.data.models;
   }
 
-  async generateText(model: string, prompt: string, options?: { temperature?: number; maxTokens?: number; topP?: number }): Promise<string> {
-    const request: GoogleRequest = {
-      contents: [{ parts: [{ text: prompt }] }],
+  /**
+   * Generate text from a single prompt or a chat history
+   */
+  async generateText(model: string, prompt: string | GoogleContent[], options?: GoogleTextOptions): Promise<string> {
+    return (await this.generateMessage(model, prompt, options)).content;
+  }
+
+  /**
+   * Generate the next model turn: its text and any function calls. Gemini may
+   * omit call ids, in which case they are derived from the call's position.
+   */
+  async generateMessage(model: string, prompt: string | GoogleContent[], options?: GoogleTextOptions): Promise<GoogleGeneratedMessage> {
+    const response: AxiosResponse<GoogleResponse> = await this.client.post(
+      `/models/${model}:generateContent`,
+      this.createTextRequest(prompt, options),
+      { signal: options?.signal }
+    );
+    const candidate = response.data.candidates?.[0];
+    if (!candidate) {
+      throw new Error('No response candidates returned from Google Gemini');
+    }
+
+    const parts = candidate.content?.parts || [];
+    return {
+      content: parts.map(part => part.text || '').join(''),
+      toolCalls: parts
+        .filter(part => part.functionCall)
+        .map((part, index) => ({
+          id: part.functionCall!.id || `${part.functionCall!.name}-${index}`,
+          name: part.functionCall!.name,
+          arguments: parseToolArguments(part.functionCall!.args)
+        }))
+    };
+  }
+
+  /**
+   * Generate text with streamGenerateContent, yielding it as it is produced
+   */
+  async *generateTextStream(model: string, prompt: string | GoogleContent[], options?: GoogleTextOptions): AsyncGenerator<string> {
+    const response: AxiosResponse<AsyncIterable<Uint8Array>> = await this.client.post(
+      `/models/${model}:streamGenerateContent`,
+      this.createTextRequest(prompt, options),
+      { params: { alt: 'sse' }, responseType: 'stream', signal: options?.signal }
+    );
+
+    // Every event is a partial GoogleResponse carrying the next piece of text
+    for await (const event of parseServerSentEvents(response.data)) {
+      const chunk: GoogleResponse = JSON.parse(event.data);
+      const text = chunk.candidates?.[0]?.content?.parts?.map(part => part.text).join('');
+      if (text) yield text;
+    }
+  }
+
+  private createTextRequest(prompt: string | GoogleContent[], options?: GoogleTextOptions): GoogleRequest {
+    return {
+      contents: typeof prompt === 'string' ? [{ parts: [{ text: prompt }] }] : prompt,
+      systemInstruction: options?.systemPrompt ? { parts: [{ text: options.systemPrompt }] } : undefined,
+      tools: options?.tools?.length ? [{
+        functionDeclarations: options.tools.map(tool => ({ name: tool.name, description: tool.description, parameters: tool.parameters }))
+      }] : undefined,
+      toolConfig: options?.tools?.length && options.toolChoice ? this.createToolConfig(options.toolChoice) : undefined,
       generationConfig: {
         temperature: options?.temperature,
         maxOutputTokens: options?.maxTokens,
-        topP: options?.topP
+        topP: options?.topP,
+        responseMimeType: options?.responseSchema || (options?.responseFormat && options.responseFormat !== 'text')
+          ? 'application/json'
+          : undefined,
+        responseJsonSchema: options?.responseSchema
       }
     };
+  }
 
-    const response: AxiosResponse<GoogleResponse> = await this.client.post(`/models/${model}:generateContent`, request);
-    const candidate = response.data.candidates?.[0];
-    if (!candidate) {
-      throw new Error('No response candidates returned from Google Gemini');
+  private createToolConfig(choice: ToolChoice): GoogleRequest['toolConfig'] {
+    if (typeof choice !== 'string') {
+      return { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [choice.name] } };
     }
-    return candidate.content.parts[0].text;
+    const modes = { auto: 'AUTO', none: 'NONE', required: 'ANY' } as const;
+    return { functionCallingConfig: { mode: modes[choice] } };
   }
 }
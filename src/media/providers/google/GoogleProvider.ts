@@ -9,6 +9,7 @@ import { TextToTextProvider } from '../../capabilities';
 import { GoogleTextToTextModel } from './GoogleTextToTextModel';
 import { ProviderRegistry } from '../../registry/ProviderRegistry';
 import { GoogleAPIClient } from './GoogleAPIClient';
+import { getProviderJobCounts } from '../../registry/ProviderLoad';
 
 export class GoogleProvider implements MediaProvider, TextToTextProvider {
   readonly id = 'google';
@@ -90,8 +91,7 @@ export class GoogleProvider implements MediaProvider, TextToTextProvider {
     return {
       status: this.config?.apiKey ? 'healthy' : 'unavailable',
       uptime: 0,
-      activeJobs: 0,
-      queuedJobs: 0
+      ...getProviderJobCounts(this.id)
     };
   }
 }
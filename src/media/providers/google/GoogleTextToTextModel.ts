@@ -1,8 +1,9 @@
 import { TextToTextModel, TextToTextOptions } from '../../models/abstracts/TextToTextModel';
 import { ModelMetadata } from '../../models/abstracts/Model';
-import { Text, TextRole } from '../../assets/roles';
-import { GoogleAPIClient } from './GoogleAPIClient';
+import { Conversation, ConversationMessage, Text, TextRole, ToolCall } from '../../assets/roles';
+import { GoogleAPIClient, GoogleContent, GoogleContentPart } from './GoogleAPIClient';
 import { createGenerationPrompt, extractInputContent } from '../../utils/GenerationPromptHelper';
+import { toJSONSchema } from '../../utils/StructuredOutput';
 
 export interface GoogleTextToTextConfig {
   apiClient: GoogleAPIClient;
@@ -36,8 +37,38 @@ export class GoogleTextToTextModel extends TextToTextModel {
   }
 
   async transform(input: TextRole | TextRole[] | string | string[], options?: GoogleTextToTextOptions): Promise<Text> {
+    return this.runStructuredOutput(input, options, turn =>
+      this.runToolLoop(turn, options, next => this.generate(next, options)));
+  }
+
+  private async generate(input: TextRole | TextRole[] | string | string[], options?: GoogleTextToTextOptions): Promise<Text> {
+    const startTime = Date.now();
+    const { text, conversation } = await this.prepareInput(input);
+
+    const message = await this.apiClient.generateMessage(this.modelId, this.createPrompt(text, conversation), this.createTextOptions(options, conversation));
+
+    return this.createResult(text, message.content, input, options, startTime, message.toolCalls);
+  }
+
+  // Requests with tools are not streamed
+  async *stream(input: TextRole | TextRole[] | string | string[], options?: GoogleTextToTextOptions): AsyncGenerator<string, Text> {
+    if (options?.tools?.length || options?.responseSchema) {
+      return yield* super.stream(input as TextRole | TextRole[], options);
+    }
+
     const startTime = Date.now();
-    
+    const { text, conversation } = await this.prepareInput(input);
+
+    let generated = '';
+    for await (const delta of this.apiClient.generateTextStream(this.modelId, this.createPrompt(text, conversation), this.createTextOptions(options, conversation))) {
+      generated += delta;
+      yield delta;
+    }
+
+    return this.createResult(text, generated, input, options, startTime);
+  }
+
+  private async prepareInput(input: TextRole | TextRole[] | string | string[]): Promise<{ text: Text; conversation?: Conversation }> {
     let textRole: TextRole;
     if (Array.isArray(input)) {
       textRole = typeof input[0] === 'string' ? Text.fromString(input[0]) : input[0];
@@ -45,24 +76,89 @@ export class GoogleTextToTextModel extends TextToTextModel {
       textRole = typeof input === 'string' ? Text.fromString(input) : input;
     }
 
+    if (textRole instanceof Conversation) {
+      if (!textRole.isValid()) {
+        throw new Error('Invalid conversation provided');
+      }
+      return { text: await textRole.asRole(Text), conversation: textRole };
+    }
+
     const text = await textRole.asRole(Text);
 
     if (!text.isValid()) {
       throw new Error('Invalid text data provided');
     }
+    return { text };
+  }
+
+  /**
+   * Gemini takes system messages as a separate instruction, calls the
+   * assistant "model" and expects the results of a turn's function calls
+   * together in one user turn
+   */
+  private createPrompt(text: Text, conversation?: Conversation): string | GoogleContent[] {
+    if (!conversation) return text.content;
+
+    const contents: GoogleContent[] = [];
+    for (const message of conversation.getTurns()) {
+      const parts = this.createParts(message);
+      const previous = contents[contents.length - 1];
+      const isResult = (part: GoogleContentPart): boolean => 'functionResponse' in part;
+      if (message.role === 'tool' && previous?.parts.every(isResult)) {
+        previous.parts.push(...parts);
+      } else {
+        contents.push({ role: message.role === 'assistant' ? 'model' : 'user', parts });
+      }
+    }
+    return contents;
+  }
+
+  private createParts(message: ConversationMessage): GoogleContentPart[] {
+    if (message.role === 'tool') {
+      return [{ functionResponse: { name: message.name || '', response: toFunctionResponse(Conversation.getText(message)) } }];
+    }
+
+    const parts: GoogleContentPart[] = typeof message.content === 'string'
+      ? message.content ? [{ text: message.content }] : []
+      : message.content.map(part => part.type === 'text'
+        ? { text: part.text }
+        : { inline_data: { mime_type: part.image.getMimeType(), data: part.image.data.toString('base64') } });
 
-    const generated = await this.apiClient.generateText(this.modelId, text.content, {
+    for (const call of message.toolCalls || []) {
+      parts.push({ functionCall: { name: call.name, args: call.arguments } });
+    }
+    return parts;
+  }
+
+  private createTextOptions(options?: GoogleTextToTextOptions, conversation?: Conversation) {
+    return {
       temperature: options?.temperature,
       maxTokens: options?.maxOutputTokens,
-      topP: options?.topP
-    });
+      topP: options?.topP,
+      tools: options?.tools,
+      toolChoice: options?.toolChoice,
+      responseFormat: options?.responseFormat,
+      responseSchema: options?.responseSchema ? toJSONSchema(options.responseSchema) : undefined,
+      systemPrompt: conversation?.getSystemPrompt() ?? options?.systemPrompt,
+      signal: options?.signal
+    };
+  }
 
+  private createResult(
+    text: Text,
+    generated: string,
+    input: TextRole | TextRole[] | string | string[],
+    options: GoogleTextToTextOptions | undefined,
+    startTime: number,
+    toolCalls: ToolCall[] = []
+  ): Text {
     const processingTime = Date.now() - startTime;
 
     return Text.fromString(generated, text.language || 'auto', 1.0, {
       processingTime,
       model: this.modelId,
       provider: 'google',
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
       generation_prompt: createGenerationPrompt({
         input,
         options,
@@ -83,3 +179,16 @@ export class GoogleTextToTextModel extends TextToTextModel {
     }
   }
 }
+
+/**
+ * Gemini function responses are objects; other results are wrapped
+ */
+function toFunctionResponse(content: string): Record<string, any> {
+  try {
+    const parsed = JSON.parse(content);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+    return { result: parsed };
+  } catch {
+    return { result: content };
+  }
+}
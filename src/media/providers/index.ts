@@ -29,3 +29,10 @@ export * from './ffmpeg';
 
 // Local Provider Packages
 export * from './ffmpeg';
+
+// The loopback provider (offline synthetic output) is not re-exported: importing
+// it registers it, and it must only load when bootstrap enables it (opt-in).
+// Import it from './loopback' directly.
+
+// Tesseract Provider Package (local OCR)
+export * from './tesseract';
@@ -0,0 +1,246 @@
+/**
+ * Loopback Synthetic Media
+ *
+ * Deterministic stand-in media for the loopback provider. Images and video are
+ * FFmpeg lavfi test patterns, audio is a sine tone, text is rendered from a
+ * template. The pattern hue and tone frequency derive from the input text, so
+ * the same input and options always produce the same bytes while different
+ * inputs remain distinguishable.
+ */
+
+import { spawn } from 'child_process';
+import { ProviderError } from '../ProviderError';
+
+export type SyntheticKind = 'image' | 'video' | 'audio';
+
+export interface SyntheticMediaOptions {
+  width?: number;
+  height?: number;
+  duration?: number;     // Seconds (video and audio)
+  fps?: number;
+  sampleRate?: number;
+  format?: string;
+  seed?: string;         // Text the pattern and tone are derived from
+}
+
+/**
+ * Fully resolved generation settings
+ */
+export interface SyntheticMediaSpec {
+  kind: SyntheticKind;
+  format: string;
+  width: number;
+  height: number;
+  duration: number;
+  fps: number;
+  sampleRate: number;
+  hue: number;
+  frequency: number;
+}
+
+export const LOOPBACK_DEFAULTS = {
+  width: 512,
+  height: 512,
+  duration: 2,
+  fps: 24,
+  sampleRate: 44100
+};
+
+export const LOOPBACK_LIMITS = {
+  maxDimension: 4096,
+  maxDuration: 60,
+  maxFps: 60
+};
+
+const FFMPEG_TIMEOUT_MS = 60000;
+
+/**
+ * Encoder arguments per output format; every format is written to stdout
+ */
+const FORMAT_ARGS: Record<SyntheticKind, Record<string, string[]>> = {
+  image: {
+    png: ['-c:v', 'png', '-f', 'image2pipe'],
+    jpg: ['-c:v', 'mjpeg', '-pix_fmt', 'yuvj420p', '-f', 'image2pipe'],
+    jpeg: ['-c:v', 'mjpeg', '-pix_fmt', 'yuvj420p', '-f', 'image2pipe'],
+    bmp: ['-c:v', 'bmp', '-f', 'image2pipe'],
+    gif: ['-f', 'gif'],
+    webp: ['-c:v', 'libwebp', '-f', 'webp']
+  },
+  video: {
+    mp4: ['-c:v', 'libx264', '-pix_fmt', 'yuv420p', '-c:a', 'aac', '-movflags', 'frag_keyframe+empty_moov', '-f', 'mp4'],
+    mov: ['-c:v', 'libx264', '-pix_fmt', 'yuv420p', '-c:a', 'aac', '-movflags', 'frag_keyframe+empty_moov', '-f', 'mov'],
+    mkv: ['-c:v', 'libx264', '-pix_fmt', 'yuv420p', '-c:a', 'aac', '-f', 'matroska'],
+    webm: ['-c:v', 'libvpx-vp9', '-c:a', 'libopus', '-f', 'webm']
+  },
+  audio: {
+    wav: ['-c:a', 'pcm_s16le', '-f', 'wav'],
+    mp3: ['-c:a', 'libmp3lame', '-f', 'mp3'],
+    flac: ['-c:a', 'flac', '-f', 'flac'],
+    ogg: ['-c:a', 'libvorbis', '-f', 'ogg']
+  }
+};
+
+const DEFAULT_FORMATS: Record<SyntheticKind, string> = { image: 'png', video: 'mp4', audio: 'wav' };
+
+/**
+ * Output formats the loopback provider can produce for a kind of media
+ */
+export function getSupportedFormats(kind: SyntheticKind): string[] {
+  return Object.keys(FORMAT_ARGS[kind]);
+}
+
+/**
+ * 32-bit FNV-1a hash, used to derive stable pattern parameters from text
+ */
+export function hashText(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Apply defaults and limits to the requested options
+ * @throws ProviderError (invalid_input) for unsupported formats or out-of-range values
+ */
+export function resolveSpec(kind: SyntheticKind, options: SyntheticMediaOptions = {}): SyntheticMediaSpec {
+  const format = (options.format || DEFAULT_FORMATS[kind]).toLowerCase();
+  if (!FORMAT_ARGS[kind][format]) {
+    throw invalid(`Loopback cannot produce ${kind} format '${format}' (supported: ${getSupportedFormats(kind).join(', ')})`);
+  }
+
+  const seed = hashText(options.seed || '');
+  return {
+    kind,
+    format,
+    width: even(checkRange('width', options.width ?? LOOPBACK_DEFAULTS.width, 16, LOOPBACK_LIMITS.maxDimension)),
+    height: even(checkRange('height', options.height ?? LOOPBACK_DEFAULTS.height, 16, LOOPBACK_LIMITS.maxDimension)),
+    duration: checkRange('duration', options.duration ?? LOOPBACK_DEFAULTS.duration, 0.1, LOOPBACK_LIMITS.maxDuration),
+    fps: checkRange('fps', options.fps ?? LOOPBACK_DEFAULTS.fps, 1, LOOPBACK_LIMITS.maxFps),
+    sampleRate: checkRange('sampleRate', options.sampleRate ?? LOOPBACK_DEFAULTS.sampleRate, 8000, 192000),
+    hue: seed % 360,
+    frequency: 220 + (seed % 660)
+  };
+}
+
+/**
+ * FFmpeg arguments that write the media described by the spec to stdout
+ */
+export function buildFFmpegArgs(spec: SyntheticMediaSpec): string[] {
+  const pattern = `testsrc2=size=${spec.width}x${spec.height}:rate=${spec.fps},hue=h=${spec.hue}`;
+  const tone = `sine=frequency=${spec.frequency}:sample_rate=${spec.sampleRate}`;
+  const args = ['-hide_banner', '-loglevel', 'error', '-nostdin'];
+
+  switch (spec.kind) {
+    case 'image':
+      args.push('-f', 'lavfi', '-i', pattern, '-frames:v', '1', '-flags:v', '+bitexact');
+      break;
+    case 'video':
+      args.push(
+        '-f', 'lavfi', '-i', pattern,
+        '-f', 'lavfi', '-i', tone,
+        '-t', String(spec.duration), '-threads', '1',
+        '-flags:v', '+bitexact', '-flags:a', '+bitexact'
+      );
+      break;
+    case 'audio':
+      args.push('-f', 'lavfi', '-i', tone, '-t', String(spec.duration), '-flags:a', '+bitexact');
+      break;
+  }
+
+  return [...args, '-fflags', '+bitexact', '-map_metadata', '-1', ...FORMAT_ARGS[spec.kind][spec.format], 'pipe:1'];
+}
+
+/**
+ * Render synthetic media with FFmpeg (FFMPEG_PATH or `ffmpeg` on the PATH)
+ */
+export async function renderSyntheticMedia(spec: SyntheticMediaSpec, signal?: AbortSignal): Promise<Buffer> {
+  return runFFmpeg(buildFFmpegArgs(spec), signal);
+}
+
+/**
+ * Whether an FFmpeg binary can be started
+ */
+export async function isFFmpegAvailable(): Promise<boolean> {
+  try {
+    await runFFmpeg(['-hide_banner', '-version']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Replace {name} placeholders; unknown placeholders are left as they are
+ */
+export function renderTemplate(template: string, values: Record<string, string | number | undefined>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    values[name] !== undefined ? String(values[name]) : match
+  );
+}
+
+function runFFmpeg(args: string[], signal?: AbortSignal): Promise<Buffer> {
+  const ffmpegPath = process.env.FFMPEG_PATH || 'ffmpeg';
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(aborted());
+      return;
+    }
+
+    const child = spawn(ffmpegPath, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    let stderr = '';
+
+    const timer = setTimeout(() => child.kill('SIGKILL'), FFMPEG_TIMEOUT_MS);
+    const onAbort = () => child.kill('SIGKILL');
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    child.stdout?.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr?.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      cleanup();
+      reject(error.code === 'ENOENT'
+        ? new ProviderError(`FFmpeg not found at '${ffmpegPath}'; install it or set FFMPEG_PATH`, 'unavailable', undefined, 'loopback')
+        : error);
+    });
+
+    child.on('close', (code: number | null) => {
+      cleanup();
+      if (signal?.aborted) {
+        reject(aborted());
+      } else if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        reject(new Error(`FFmpeg exited with ${code ?? 'a signal'}: ${stderr.trim() || 'no output'}`));
+      }
+    });
+  });
+}
+
+function checkRange(name: string, value: number, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw invalid(`Loopback option ${name} must be a number between ${min} and ${max}`);
+  }
+  return value;
+}
+
+// Most encoders need even frame dimensions
+function even(value: number): number {
+  return Math.round(value / 2) * 2;
+}
+
+function invalid(message: string): ProviderError {
+  return new ProviderError(message, 'invalid_input', 400, 'loopback');
+}
+
+function aborted(): Error {
+  return Object.assign(new Error('Loopback transform aborted'), { name: 'AbortError' });
+}
@@ -0,0 +1,491 @@
+/**
+ * Loopback Models
+ *
+ * One model per capability of the loopback provider. Media outputs are
+ * synthetic (see LoopbackMedia); text outputs echo the input through a
+ * template. Text that a media input was generated from is carried through, so
+ * text -> audio -> text or text -> image -> text round trips return the
+ * original prompt.
+ *
+ * Every model accepts a `template` option for text output with placeholders
+ * such as {input}, {prompt}, {width}, {height}, {duration}, {format} and {model}.
+ */
+
+import { Model, ModelMetadata } from '../../models/abstracts/Model';
+import { TextToTextModel, TextToTextOptions } from '../../models/abstracts/TextToTextModel';
+import { TextToImageModel, TextToImageOptions } from '../../models/abstracts/TextToImageModel';
+import { TextToAudioModel, TextToAudioOptions } from '../../models/abstracts/TextToAudioModel';
+import { TextToVideoModel, TextToVideoOptions } from '../../models/abstracts/TextToVideoModel';
+import { AudioToTextModel, AudioToTextOptions } from '../../models/abstracts/AudioToTextModel';
+import { ImageToTextModel, ImageToTextOptions } from '../../models/abstracts/ImageToTextModel';
+import { ImageToVideoModel, ImageToVideoOptions } from '../../models/abstracts/ImageToVideoModel';
+import { VideoToAudioModel, VideoToAudioOptions } from '../../models/abstracts/VideoToAudioModel';
+import { VideoToVideoModel, VideoCompositionOptions } from '../../models/abstracts/VideoToVideoModel';
+import { Audio, Conversation, Image, Text, Video } from '../../assets/roles';
+import { MediaCapability } from '../../types/provider';
+import { createGenerationPrompt, extractInputContent } from '../../utils/GenerationPromptHelper';
+import {
+  LOOPBACK_DEFAULTS,
+  LOOPBACK_LIMITS,
+  SyntheticKind,
+  SyntheticMediaOptions,
+  getSupportedFormats,
+  isFFmpegAvailable,
+  renderSyntheticMedia,
+  renderTemplate,
+  resolveSpec
+} from './LoopbackMedia';
+
+/**
+ * Options understood by every loopback model, on top of the capability's own
+ */
+export interface LoopbackOptions {
+  width?: number;
+  height?: number;
+  duration?: number;
+  fps?: number;
+  sampleRate?: number;
+  format?: string;
+  outputFormat?: string;      // Alias of format (VideoToAudioOptions)
+  template?: string;          // Text outputs only
+  signal?: AbortSignal;
+  [key: string]: any;
+}
+
+/**
+ * Model ID of the loopback model serving a capability
+ */
+export function getLoopbackModelId(capability: MediaCapability): string {
+  return `loopback-${capability}`;
+}
+
+// ----------------------------------------------------------------------------
+// Text output
+// ----------------------------------------------------------------------------
+
+export class LoopbackTextToTextModel extends TextToTextModel {
+  constructor() {
+    super(createMetadata(MediaCapability.TEXT_TO_TEXT));
+  }
+
+  async transform(input: any, options?: TextToTextOptions & LoopbackOptions): Promise<Text> {
+    return renderText(this.metadata.id, MediaCapability.TEXT_TO_TEXT, input, options, '{input}', {});
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+}
+
+export class LoopbackImageToTextModel extends ImageToTextModel {
+  constructor() {
+    super(createMetadata(MediaCapability.IMAGE_TO_TEXT));
+  }
+
+  async transform(input: any, options?: ImageToTextOptions & LoopbackOptions): Promise<Text> {
+    const image = firstOf(input);
+    return renderText(this.metadata.id, MediaCapability.IMAGE_TO_TEXT, input, options,
+      '{prompt}', describeMedia(image, 'A {width}x{height} {format} test pattern'));
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  getSupportedFormats(): string[] {
+    return getSupportedFormats('image');
+  }
+}
+
+export class LoopbackAudioToTextModel extends AudioToTextModel {
+  constructor() {
+    super(createMetadata(MediaCapability.AUDIO_TO_TEXT));
+  }
+
+  async transform(input: any, options?: AudioToTextOptions & LoopbackOptions): Promise<Text> {
+    const audio = firstOf(input);
+    return renderText(this.metadata.id, MediaCapability.AUDIO_TO_TEXT, input, options,
+      '{prompt}', describeMedia(audio, 'Synthetic transcript of {duration}s of {format} audio'));
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  getSupportedFormats(): string[] {
+    return ['wav', 'mp3', 'flac', 'ogg', 'm4a', 'aac', 'opus'];
+  }
+
+  async getSupportedLanguages(): Promise<string[]> {
+    return ['en'];
+  }
+
+  getMaxAudioDuration(): number {
+    return Infinity;
+  }
+
+  getMaxAudioSize(): number {
+    return Infinity;
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Image output
+// ----------------------------------------------------------------------------
+
+export class LoopbackTextToImageModel extends TextToImageModel {
+  constructor() {
+    super(createMetadata(MediaCapability.TEXT_TO_IMAGE));
+  }
+
+  async transform(input: any, options?: TextToImageOptions & LoopbackOptions): Promise<Image> {
+    return renderImage(this.metadata.id, MediaCapability.TEXT_TO_IMAGE, input, options);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return isFFmpegAvailable();
+  }
+}
+
+export class LoopbackImageToImageModel extends Model<any, LoopbackOptions, Image> {
+  constructor() {
+    super(createMetadata(MediaCapability.IMAGE_TO_IMAGE));
+  }
+
+  async transform(input: any, options?: LoopbackOptions): Promise<Image> {
+    return renderImage(this.metadata.id, MediaCapability.IMAGE_TO_IMAGE, input, options);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return isFFmpegAvailable();
+  }
+}
+
+export class LoopbackVideoToImageModel extends Model<any, LoopbackOptions, Image> {
+  constructor() {
+    super(createMetadata(MediaCapability.VIDEO_TO_IMAGE));
+  }
+
+  async transform(input: any, options?: LoopbackOptions): Promise<Image> {
+    return renderImage(this.metadata.id, MediaCapability.VIDEO_TO_IMAGE, input, options);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return isFFmpegAvailable();
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Video output
+// ----------------------------------------------------------------------------
+
+export class LoopbackTextToVideoModel extends TextToVideoModel {
+  constructor() {
+    super(createMetadata(MediaCapability.TEXT_TO_VIDEO));
+  }
+
+  async transform(input: any, options?: TextToVideoOptions & LoopbackOptions): Promise<Video> {
+    return renderVideo(this.metadata.id, MediaCapability.TEXT_TO_VIDEO, input, options);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return isFFmpegAvailable();
+  }
+
+  getSupportedFormats(): string[] {
+    return getSupportedFormats('video');
+  }
+
+  getSupportedAspectRatios(): string[] {
+    return ['any'];
+  }
+
+  getSupportedDurationRange(): { min: number; max: number } {
+    return { min: 0.1, max: LOOPBACK_LIMITS.maxDuration };
+  }
+
+  getMaxResolution(): { width: number; height: number } {
+    return { width: LOOPBACK_LIMITS.maxDimension, height: LOOPBACK_LIMITS.maxDimension };
+  }
+
+  estimateProcessingTime(_prompt: string, options?: TextToVideoOptions): number {
+    return Math.ceil((options?.duration ?? LOOPBACK_DEFAULTS.duration) * 250);
+  }
+
+  supportsFeature(_feature: string): boolean {
+    return false;
+  }
+}
+
+export class LoopbackImageToVideoModel extends ImageToVideoModel {
+  constructor() {
+    super(createMetadata(MediaCapability.IMAGE_TO_VIDEO));
+  }
+
+  async transform(input: any, options?: ImageToVideoOptions & LoopbackOptions): Promise<Video> {
+    return renderVideo(this.metadata.id, MediaCapability.IMAGE_TO_VIDEO, input, options);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return isFFmpegAvailable();
+  }
+}
+
+export class LoopbackVideoToVideoModel extends VideoToVideoModel {
+  constructor() {
+    super(createMetadata(MediaCapability.VIDEO_TO_VIDEO));
+  }
+
+  async transform(input: any, options?: VideoCompositionOptions & LoopbackOptions): Promise<Video> {
+    return renderVideo(this.metadata.id, MediaCapability.VIDEO_TO_VIDEO, input, options);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return isFFmpegAvailable();
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Audio output
+// ----------------------------------------------------------------------------
+
+export class LoopbackTextToAudioModel extends TextToAudioModel {
+  constructor() {
+    super(createMetadata(MediaCapability.TEXT_TO_AUDIO));
+  }
+
+  async transform(input: any, options?: TextToAudioOptions & LoopbackOptions): Promise<Audio> {
+    return renderAudio(this.metadata.id, MediaCapability.TEXT_TO_AUDIO, input, options);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return isFFmpegAvailable();
+  }
+
+  getSupportedFormats(): string[] {
+    return getSupportedFormats('audio');
+  }
+
+  async getAvailableVoices(): Promise<string[]> {
+    return ['sine'];
+  }
+
+  supportsVoiceCloning(): boolean {
+    return false;
+  }
+
+  getMaxTextLength(): number {
+    return 100000;
+  }
+}
+
+export class LoopbackVideoToAudioModel extends VideoToAudioModel {
+  constructor() {
+    super(createMetadata(MediaCapability.VIDEO_TO_AUDIO));
+  }
+
+  async transform(input: any, options?: VideoToAudioOptions & LoopbackOptions): Promise<Audio> {
+    return renderAudio(this.metadata.id, MediaCapability.VIDEO_TO_AUDIO, input, options);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return isFFmpegAvailable();
+  }
+}
+
+export class LoopbackAudioToAudioModel extends Model<any, LoopbackOptions, Audio> {
+  constructor() {
+    super(createMetadata(MediaCapability.AUDIO_TO_AUDIO));
+  }
+
+  async transform(input: any, options?: LoopbackOptions): Promise<Audio> {
+    return renderAudio(this.metadata.id, MediaCapability.AUDIO_TO_AUDIO, input, options);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return isFFmpegAvailable();
+  }
+}
+
+/**
+ * Model class per capability
+ */
+export const LOOPBACK_MODELS: Partial<Record<MediaCapability, new () => { transform(input: any, options?: any): Promise<any> }>> = {
+  [MediaCapability.TEXT_TO_TEXT]: LoopbackTextToTextModel,
+  [MediaCapability.IMAGE_TO_TEXT]: LoopbackImageToTextModel,
+  [MediaCapability.AUDIO_TO_TEXT]: LoopbackAudioToTextModel,
+  [MediaCapability.TEXT_TO_IMAGE]: LoopbackTextToImageModel,
+  [MediaCapability.IMAGE_TO_IMAGE]: LoopbackImageToImageModel,
+  [MediaCapability.VIDEO_TO_IMAGE]: LoopbackVideoToImageModel,
+  [MediaCapability.TEXT_TO_VIDEO]: LoopbackTextToVideoModel,
+  [MediaCapability.IMAGE_TO_VIDEO]: LoopbackImageToVideoModel,
+  [MediaCapability.VIDEO_TO_VIDEO]: LoopbackVideoToVideoModel,
+  [MediaCapability.TEXT_TO_AUDIO]: LoopbackTextToAudioModel,
+  [MediaCapability.VIDEO_TO_AUDIO]: LoopbackVideoToAudioModel,
+  [MediaCapability.AUDIO_TO_AUDIO]: LoopbackAudioToAudioModel
+};
+
+// ----------------------------------------------------------------------------
+// Shared rendering
+// ----------------------------------------------------------------------------
+
+function createMetadata(capability: MediaCapability): ModelMetadata {
+  const [inputType, outputType] = capability.split('-to-');
+  return {
+    id: getLoopbackModelId(capability),
+    name: `Loopback ${capability}`,
+    description: `Deterministic synthetic ${capability} output for offline use`,
+    version: '1.0.0',
+    provider: 'loopback',
+    capabilities: [capability],
+    inputTypes: [inputType],
+    outputTypes: [outputType]
+  };
+}
+
+function firstOf(input: any): any {
+  return Array.isArray(input) ? input[0] : input;
+}
+
+/**
+ * Text a (possibly media) input stands for: the text itself, the latest user
+ * message of a conversation, or the prompt a media input was generated from
+ */
+function sourceText(input: any): string | undefined {
+  const item = firstOf(input);
+  if (item === undefined || item === null) return undefined;
+  if (item instanceof Conversation) {
+    const last = item.messages.filter(message => message.role === 'user').pop();
+    return last ? Conversation.getText(last) : undefined;
+  }
+  if (typeof item === 'string' || typeof item.content === 'string') {
+    return extractInputContent(item);
+  }
+  const prompt = item.metadata?.generation_prompt;
+  return prompt ? sourceText(prompt.input) : undefined;
+}
+
+/**
+ * Template values describing a media input; {prompt} falls back to `fallback`
+ * when the input carries no source text
+ */
+function describeMedia(media: any, fallback: string): Record<string, string | number | undefined> {
+  const values = {
+    width: media?.metadata?.width,
+    height: media?.metadata?.height,
+    duration: media?.metadata?.duration,
+    format: media?.format ?? media?.metadata?.format
+  };
+  return { ...values, prompt: sourceText(media) ?? renderTemplate(fallback, values) };
+}
+
+/**
+ * Size, duration and seed of media derived from the input, overridden by explicit options
+ */
+function mediaOptions(input: any, options: LoopbackOptions = {}, format?: string): SyntheticMediaOptions {
+  const source = firstOf(input);
+  const metadata = typeof source === 'object' && source ? source.metadata || {} : {};
+  const seed = sourceText(input)
+    ?? `${source?.format ?? metadata.format ?? ''}:${source?.data?.length ?? 0}`;
+
+  return {
+    width: options.width ?? metadata.width,
+    height: options.height ?? metadata.height,
+    duration: options.duration ?? metadata.duration,
+    fps: options.fps ?? metadata.frameRate,
+    sampleRate: options.sampleRate ?? metadata.sampleRate,
+    format,
+    seed
+  };
+}
+
+function generationPrompt(modelId: string, capability: MediaCapability, input: any, options: any, startTime: number) {
+  return createGenerationPrompt({
+    input,
+    options,
+    modelId,
+    modelName: modelId,
+    provider: 'loopback',
+    transformationType: capability,
+    processingTime: Date.now() - startTime
+  });
+}
+
+function renderText(
+  modelId: string,
+  capability: MediaCapability,
+  input: any,
+  options: LoopbackOptions = {},
+  defaultTemplate: string,
+  values: Record<string, string | number | undefined>
+): Text {
+  const startTime = Date.now();
+  const text = sourceText(input) ?? '';
+  const content = renderTemplate(options.template ?? defaultTemplate, {
+    input: text,
+    prompt: text,
+    model: modelId,
+    ...values
+  });
+
+  return Text.fromString(content, 'en', 1.0, {
+    provider: 'loopback',
+    model: modelId,
+    generation_prompt: generationPrompt(modelId, capability, input, options, startTime)
+  });
+}
+
+async function renderMedia(kind: SyntheticKind, input: any, options: LoopbackOptions = {}, format?: string) {
+  const spec = resolveSpec(kind, mediaOptions(input, options, format));
+  const data = await renderSyntheticMedia(spec, options.signal);
+  return { spec, data };
+}
+
+async function renderImage(modelId: string, capability: MediaCapability, input: any, options: LoopbackOptions = {}): Promise<Image> {
+  const startTime = Date.now();
+  const { spec, data } = await renderMedia('image', input, options, options.format);
+
+  return new Image(data, spec.format as any, {
+    format: spec.format as any,
+    width: spec.width,
+    height: spec.height,
+    fileSize: data.length,
+    provider: 'loopback',
+    model: modelId,
+    generation_prompt: generationPrompt(modelId, capability, input, options, startTime)
+  });
+}
+
+async function renderVideo(modelId: string, capability: MediaCapability, input: any, options: LoopbackOptions = {}): Promise<Video> {
+  const startTime = Date.now();
+  const { spec, data } = await renderMedia('video', input, options, options.format);
+
+  return new Video(data, spec.format as any, {
+    format: spec.format as any,
+    width: spec.width,
+    height: spec.height,
+    duration: spec.duration,
+    frameRate: spec.fps,
+    hasAudio: true,
+    fileSize: data.length,
+    provider: 'loopback',
+    model: modelId,
+    generation_prompt: generationPrompt(modelId, capability, input, options, startTime)
+  });
+}
+
+async function renderAudio(modelId: string, capability: MediaCapability, input: any, options: LoopbackOptions = {}): Promise<Audio> {
+  const startTime = Date.now();
+  const { spec, data } = await renderMedia('audio', input, options, options.format ?? options.outputFormat);
+
+  return new Audio(data, undefined, {
+    format: spec.format as any,
+    duration: spec.duration,
+    sampleRate: spec.sampleRate,
+    channels: 1,
+    fileSize: data.length,
+    provider: 'loopback',
+    model: modelId,
+    generation_prompt: generationPrompt(modelId, capability, input, options, startTime)
+  });
+}
@@ -0,0 +1,128 @@
+/**
+ * LoopbackProvider Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { MediaCapability } from '../../types/provider';
+import { Audio, Image, Text, Video } from '../../assets/roles';
+import { describeProviderConformance } from '../../../test/ProviderConformance';
+import { classifyProviderError } from '../ProviderError';
+
+// Fake ffmpeg: "renders" the arguments it was given, so outputs compare like real deterministic renders
+const ffmpeg = vi.hoisted(() => ({
+  spawn: vi.fn((_command: string, args: string[]) => {
+    const { EventEmitter } = require('events');
+    const child: any = Object.assign(new EventEmitter(), {
+      stdout: new EventEmitter(),
+      stderr: new EventEmitter(),
+      kill: vi.fn()
+    });
+    setTimeout(() => {
+      child.stdout.emit('data', Buffer.from(args.join(' ')));
+      child.emit('close', 0);
+    }, 0);
+    return child;
+  })
+}));
+
+vi.mock('child_process', async (importOriginal) => {
+  const actual = await importOriginal() as any;
+  return { ...actual, default: { ...actual, spawn: ffmpeg.spawn }, spawn: ffmpeg.spawn };
+});
+
+vi.mock('../../registry/ProviderRegistry', () => ({
+  ProviderRegistry: { getInstance: () => ({ register: vi.fn() }) }
+}));
+
+import { LoopbackProvider } from './LoopbackProvider';
+import { getLoopbackModelId } from './LoopbackModels';
+
+const image = new Image(Buffer.from('png'), 'png', { format: 'png', width: 320, height: 240 });
+const video = new Video(Buffer.from('mp4'), 'mp4', { format: 'mp4', width: 640, height: 360, duration: 3 });
+const audio = new Audio(Buffer.from('wav'), undefined, { format: 'wav', duration: 1.5 });
+const prompt = Text.fromString('A red fox');
+
+describeProviderConformance('LoopbackProvider', {
+  createProvider: () => new LoopbackProvider(),
+  samples: {
+    [MediaCapability.TEXT_TO_TEXT]: { input: prompt },
+    [MediaCapability.TEXT_TO_IMAGE]: { input: prompt },
+    [MediaCapability.TEXT_TO_VIDEO]: { input: prompt },
+    [MediaCapability.TEXT_TO_AUDIO]: { input: prompt },
+    [MediaCapability.IMAGE_TO_TEXT]: { input: image },
+    [MediaCapability.IMAGE_TO_IMAGE]: { input: image },
+    [MediaCapability.IMAGE_TO_VIDEO]: { input: image },
+    [MediaCapability.VIDEO_TO_IMAGE]: { input: video },
+    [MediaCapability.VIDEO_TO_VIDEO]: { input: video },
+    [MediaCapability.VIDEO_TO_AUDIO]: { input: video },
+    [MediaCapability.AUDIO_TO_TEXT]: { input: audio },
+    [MediaCapability.AUDIO_TO_AUDIO]: { input: audio }
+  }
+});
+
+describe('LoopbackProvider', () => {
+  const provider = new LoopbackProvider();
+  const run = async (capability: MediaCapability, input: any, options?: any) =>
+    (await provider.getModel(getLoopbackModelId(capability))).transform(input, options);
+
+  beforeEach(() => {
+    ffmpeg.spawn.mockClear();
+  });
+
+  it('should render the same bytes for the same input and vary with the prompt', async () => {
+    const first = await run(MediaCapability.TEXT_TO_IMAGE, prompt);
+    const second = await run(MediaCapability.TEXT_TO_IMAGE, Text.fromString('A red fox'));
+    const other = await run(MediaCapability.TEXT_TO_IMAGE, Text.fromString('A blue whale'));
+
+    expect(first.data.equals(second.data)).toBe(true);
+    expect(first.data.equals(other.data)).toBe(false);
+  });
+
+  it('should honour size, duration and format options and inherit them from media inputs', async () => {
+    const clip = await run(MediaCapability.TEXT_TO_VIDEO, prompt, { width: 320, height: 180, duration: 4, format: 'webm' });
+    const args = ffmpeg.spawn.mock.calls[0][1];
+
+    expect(args.join(' ')).toContain('testsrc2=size=320x180');
+    expect(args).toEqual(expect.arrayContaining(['-t', '4', '-f', 'webm']));
+    expect(clip).toMatchObject({ format: 'webm', metadata: { width: 320, height: 180, duration: 4 } });
+
+    const still = await run(MediaCapability.VIDEO_TO_IMAGE, video);
+    expect(still.metadata).toMatchObject({ width: 640, height: 360, format: 'png' });
+
+    const track = await run(MediaCapability.VIDEO_TO_AUDIO, video, { outputFormat: 'mp3' });
+    expect(track.metadata).toMatchObject({ duration: 3, format: 'mp3' });
+  });
+
+  it('should reject unsupported formats and sizes as invalid input', async () => {
+    const format = await run(MediaCapability.TEXT_TO_AUDIO, prompt, { format: 'wma' }).catch(error => error);
+    const size = await run(MediaCapability.TEXT_TO_IMAGE, prompt, { width: 100000 }).catch(error => error);
+
+    expect(classifyProviderError(format)).toBe('invalid_input');
+    expect(format.message).toContain('wav, mp3, flac, ogg');
+    expect(classifyProviderError(size)).toBe('invalid_input');
+    expect(ffmpeg.spawn).not.toHaveBeenCalled();
+  });
+
+  it('should echo text and return the source prompt of generated media', async () => {
+    expect((await run(MediaCapability.TEXT_TO_TEXT, prompt)).content).toBe('A red fox');
+    expect((await run(MediaCapability.TEXT_TO_TEXT, prompt, { template: '[{model}] {input}!' })).content)
+      .toBe('[loopback-text-to-text] A red fox!');
+
+    const speech = await run(MediaCapability.TEXT_TO_AUDIO, prompt);
+    expect((await run(MediaCapability.AUDIO_TO_TEXT, speech)).content).toBe('A red fox');
+    expect((await run(MediaCapability.IMAGE_TO_TEXT, image)).content).toBe('A 320x240 png test pattern');
+  });
+
+  it('should report a degraded provider when ffmpeg is missing', async () => {
+    ffmpeg.spawn.mockImplementationOnce(() => {
+      const child: any = new EventEmitter();
+      setTimeout(() => child.emit('error', Object.assign(new Error('spawn ffmpeg ENOENT'), { code: 'ENOENT' })), 0);
+      return child;
+    });
+
+    const health = await new LoopbackProvider().getHealth();
+    expect(health.status).toBe('degraded');
+    expect(health.lastError).toContain('FFmpeg not found');
+  });
+});
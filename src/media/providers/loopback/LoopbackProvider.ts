@@ -0,0 +1,121 @@
+/**
+ * LoopbackProvider
+ *
+ * Offline provider with one deterministic synthetic model per capability, so
+ * pipelines, the HTTP API and demos run without API keys, Docker or network.
+ * Text models work everywhere; image, video and audio models need a local
+ * FFmpeg (FFMPEG_PATH or `ffmpeg` on the PATH). 3D capabilities are not
+ * covered as there is no 3D role to return.
+ *
+ * The provider is opt-in: list `loopback` in mediaconduit.config.yml or set
+ * MEDIACONDUIT_LOOPBACK=true, so synthetic output never becomes a failover
+ * target for real requests by accident. Its models carry no pricing, so they
+ * also rank below priced models when enabled alongside real providers.
+ */
+
+import {
+  MediaProvider,
+  ProviderType,
+  MediaCapability,
+  ProviderModel,
+  ProviderConfig
+} from '../../types/provider';
+import { ProviderRegistry } from '../../registry/ProviderRegistry';
+import { getProviderJobCounts } from '../../registry/ProviderLoad';
+import { LOOPBACK_MODELS, getLoopbackModelId } from './LoopbackModels';
+import { getSupportedFormats, isFFmpegAvailable, LOOPBACK_DEFAULTS } from './LoopbackMedia';
+
+const TEXT_PARAMETERS = {
+  template: { type: 'string', default: '{input}', description: 'Output text with {input}, {prompt}, {width}, {height}, {duration}, {format}, {model} placeholders' }
+};
+
+const SIZE_PARAMETERS = {
+  width: { type: 'number', min: 16, max: 4096, default: LOOPBACK_DEFAULTS.width },
+  height: { type: 'number', min: 16, max: 4096, default: LOOPBACK_DEFAULTS.height }
+};
+
+const TIME_PARAMETERS = {
+  duration: { type: 'number', min: 0.1, max: 60, default: LOOPBACK_DEFAULTS.duration }
+};
+
+export class LoopbackProvider implements MediaProvider {
+  readonly id = 'loopback';
+  readonly name = 'Loopback (synthetic)';
+  readonly type = ProviderType.LOCAL;
+  readonly capabilities = Object.keys(LOOPBACK_MODELS) as MediaCapability[];
+  readonly models: ProviderModel[] = this.capabilities.map(capability => ({
+    id: getLoopbackModelId(capability),
+    name: `Loopback ${capability}`,
+    description: `Deterministic synthetic ${capability} output`,
+    capabilities: [capability],
+    parameters: getParameters(capability)
+  }));
+
+  private ffmpegAvailable?: Promise<boolean>;
+
+  async configure(_config: ProviderConfig): Promise<void> {
+    // Nothing to configure; re-check FFmpeg on the next health probe
+    this.ffmpegAvailable = undefined;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    // Text models need nothing; media models report FFmpeg problems per transform
+    return true;
+  }
+
+  getModelsForCapability(capability: MediaCapability): ProviderModel[] {
+    return this.models.filter(model => model.capabilities.includes(capability));
+  }
+
+  async getModel(modelId: string): Promise<any> {
+    const model = this.models.find(candidate => candidate.id === modelId);
+    if (!model) {
+      throw new Error(`Model ${modelId} not found in loopback provider`);
+    }
+    const ModelClass = LOOPBACK_MODELS[model.capabilities[0]]!;
+    return new ModelClass();
+  }
+
+  async getHealth(): Promise<{
+    status: 'healthy' | 'degraded' | 'unhealthy';
+    uptime: number;
+    activeJobs: number;
+    queuedJobs: number;
+    lastError?: string;
+  }> {
+    this.ffmpegAvailable ??= isFFmpegAvailable();
+    const ffmpeg = await this.ffmpegAvailable;
+
+    return {
+      status: ffmpeg ? 'healthy' : 'degraded',
+      uptime: process.uptime(),
+      ...getProviderJobCounts(this.id),
+      ...(!ffmpeg && { lastError: 'FFmpeg not found; only text models work (set FFMPEG_PATH)' })
+    };
+  }
+}
+
+function getParameters(capability: MediaCapability): Record<string, any> {
+  const output = capability.split('-to-')[1];
+  switch (output) {
+    case 'text':
+      return TEXT_PARAMETERS;
+    case 'image':
+      return { ...SIZE_PARAMETERS, format: { type: 'string', enum: getSupportedFormats('image'), default: 'png' } };
+    case 'video':
+      return {
+        ...SIZE_PARAMETERS,
+        ...TIME_PARAMETERS,
+        fps: { type: 'number', min: 1, max: 60, default: LOOPBACK_DEFAULTS.fps },
+        format: { type: 'string', enum: getSupportedFormats('video'), default: 'mp4' }
+      };
+    default:
+      return {
+        ...TIME_PARAMETERS,
+        sampleRate: { type: 'number', min: 8000, max: 192000, default: LOOPBACK_DEFAULTS.sampleRate },
+        format: { type: 'string', enum: getSupportedFormats('audio'), default: 'wav' }
+      };
+  }
+}
+
+ProviderRegistry.getInstance().register('loopback', LoopbackProvider);
@@ -0,0 +1,8 @@
+/**
+ * Loopback Provider - offline synthetic output for every capability
+ */
+
+export { LoopbackProvider } from './LoopbackProvider';
+export * from './LoopbackModels';
+export { LOOPBACK_DEFAULTS, LOOPBACK_LIMITS } from './LoopbackMedia';
+export type { SyntheticKind, SyntheticMediaOptions } from './LoopbackMedia';
@@ -1,4 +1,7 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { parseServerSentEvents } from '../../utils/ServerSentEvents';
+import { parseToolArguments, ToolChoice, ToolDefinition } from '../../models/abstracts/TextToTextModel';
+import type { ToolCall } from '../../assets/roles';
 
 export interface MistralConfig {
   apiKey: string;
@@ -6,9 +9,27 @@ export interface MistralConfig {
   timeout?: number;
 }
 
+export type MistralContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: string };
+
+export interface MistralToolCall {
+  id: string;
+  type?: 'function';
+  function: { name: string; arguments: string | Record<string, any> };
+}
+
 export interface MistralMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | MistralContentPart[];
+  tool_calls?: MistralToolCall[];   // Assistant messages
+  tool_call_id?: string;            // Tool messages
+  name?: string;                    // Tool messages
+}
+
+export interface MistralTool {
+  type: 'function';
+  function: { name: string; description?: string; parameters?: Record<string, any> };
 }
 
 export interface MistralChatRequest {
@@ -18,11 +39,14 @@ export interface MistralChatRequest {
   max_tokens?: number;
   top_p?: number;
   stream?: boolean;
+  tools?: MistralTool[];
+  tool_choice?: 'auto' | 'none' | 'any' | { type: 'function'; function: { name: string } };
+  response_format?: { type: 'text' | 'json_object' } | { type: 'json_schema'; json_schema: { name: string; schema: Record<string, any> } };
 }
 
 export interface MistralChoice {
   index: number;
-  message: { role: string; content: string };
+  message: { role: string; content: string | null; tool_calls?: MistralToolCall[] };
   finish_reason: string;
 }
 
@@ -34,6 +58,32 @@ export interface MistralChatResponse {
   choices: MistralChoice[];
 }
 
+export interface MistralChatChunk {
+  id: string;
+  choices: Array<{
+    index: number;
+    delta: { role?: string; content?: string | null };
+    finish_reason: string | null;
+  }>;
+}
+
+export interface MistralTextOptions {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  systemPrompt?: string;
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  responseFormat?: 'text' | 'json' | { type: 'json_object' };
+  responseSchema?: Record<string, any>;   // JSON Schema the reply must match
+  signal?: AbortSignal;
+}
+
+export interface MistralGeneratedMessage {
+  content: string;
+  toolCalls: ToolCall[];
+}
+
 export interface MistralModel {
   id: string;
 }
@@ -77,30 +127,89 @@ export class MistralAPIClient {
     return response.data.data;
   }
 
-  async chatCompletion(request: MistralChatRequest): Promise<MistralChatResponse> {
-    const response: AxiosResponse<MistralChatResponse> = await this.client.post('/chat/completions', request);
+  async chatCompletion(request: MistralChatRequest, signal?: AbortSignal): Promise<MistralChatResponse> {
+    const response: AxiosResponse<MistralChatResponse> = await this.client.post('/chat/completions', request, { signal });
     return response.data;
   }
 
-  async generateText(model: string, prompt: string, options?: { temperature?: number; maxTokens?: number; topP?: number; systemPrompt?: string }): Promise<string> {
-    const messages: MistralMessage[] = [];
-    if (options?.systemPrompt) {
-      messages.push({ role: 'system', content: options.systemPrompt });
+  async *chatCompletionStream(request: MistralChatRequest, signal?: AbortSignal): AsyncGenerator<string> {
+    const response: AxiosResponse<AsyncIterable<Uint8Array>> = await this.client.post(
+      '/chat/completions',
+      { ...request, stream: true },
+      { responseType: 'stream', signal }
+    );
+
+    for await (const event of parseServerSentEvents(response.data)) {
+      if (event.data === '[DONE]') return;
+
+      const chunk: MistralChatChunk = JSON.parse(event.data);
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) yield content;
+    }
+  }
+
+  async generateText(model: string, prompt: string | MistralMessage[], options?: MistralTextOptions): Promise<string> {
+    return (await this.generateMessage(model, prompt, options)).content;
+  }
+
+  /**
+   * Generate the next assistant message: its text and any tool calls
+   */
+  async generateMessage(model: string, prompt: string | MistralMessage[], options?: MistralTextOptions): Promise<MistralGeneratedMessage> {
+    const response = await this.chatCompletion(this.createTextRequest(model, prompt, options), options?.signal);
+    if (!response.choices || response.choices.length === 0) {
+      throw new Error('No response choices returned from Mistral');
     }
-    messages.push({ role: 'user', content: prompt });
 
-    const request: MistralChatRequest = {
+    const message = response.choices[0].message;
+    return {
+      content: message.content || '',
+      toolCalls: (message.tool_calls || []).map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseToolArguments(call.function.arguments)
+      }))
+    };
+  }
+
+  generateTextStream(model: string, prompt: string | MistralMessage[], options?: MistralTextOptions): AsyncGenerator<string> {
+    return this.chatCompletionStream(this.createTextRequest(model, prompt, options), options?.signal);
+  }
+
+  private createTextRequest(model: string, prompt: string | MistralMessage[], options?: MistralTextOptions): MistralChatRequest {
+    const messages: MistralMessage[] = typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : [...prompt];
+    if (options?.systemPrompt && !messages.some(message => message.role === 'system')) {
+      messages.unshift({ role: 'system', content: options.systemPrompt });
+    }
+
+    return {
       model,
       messages,
       temperature: options?.temperature,
       max_tokens: options?.maxTokens,
-      top_p: options?.topP
+      top_p: options?.topP,
+      tools: options?.tools?.length ? options.tools.map(tool => ({
+        type: 'function' as const,
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+      })) : undefined,
+      tool_choice: options?.tools?.length && options.toolChoice ? this.createToolChoice(options.toolChoice) : undefined,
+      response_format: this.createResponseFormat(options)
     };
+  }
 
-    const response = await this.chatCompletion(request);
-    if (!response.choices || response.choices.length === 0) {
-      throw new Error('No response choices returned from Mistral');
+  private createResponseFormat(options?: MistralTextOptions): MistralChatRequest['response_format'] {
+    if (options?.responseSchema) {
+      return { type: 'json_schema', json_schema: { name: 'response', schema: options.responseSchema } };
+    }
+    if (options?.responseFormat === 'json' || typeof options?.responseFormat === 'object') {
+      return { type: 'json_object' };
     }
-    return response.choices[0].message.content;
+    return undefined;
+  }
+
+  // Mistral calls 'required' 'any'
+  private createToolChoice(choice: ToolChoice): MistralChatRequest['tool_choice'] {
+    if (choice === 'required') return 'any';
+    return typeof choice === 'string' ? choice : { type: 'function', function: { name: choice.name } };
   }
 }
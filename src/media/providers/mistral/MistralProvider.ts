@@ -9,6 +9,7 @@ import { TextToTextProvider } from '../../capabilities';
 import { MistralTextToTextModel } from './MistralTextToTextModel';
 import { ProviderRegistry } from '../../registry/ProviderRegistry';
 import { MistralAPIClient } from './MistralAPIClient';
+import { getProviderJobCounts } from '../../registry/ProviderLoad';
 
 export class MistralProvider implements MediaProvider, TextToTextProvider {
   readonly id = 'mistral';
@@ -90,8 +91,7 @@ export class MistralProvider implements MediaProvider, TextToTextProvider {
     return {
       status: this.config?.apiKey ? 'healthy' : 'unavailable',
       uptime: 0,
-      activeJobs: 0,
-      queuedJobs: 0
+      ...getProviderJobCounts(this.id)
     };
   }
 }
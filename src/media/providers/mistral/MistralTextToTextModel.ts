@@ -1,8 +1,9 @@
 import { TextToTextModel, TextToTextOptions } from '../../models/abstracts/TextToTextModel';
 import { ModelMetadata } from '../../models/abstracts/Model';
-import { Text, TextRole } from '../../assets/roles';
-import { MistralAPIClient } from './MistralAPIClient';
+import { Conversation, Text, TextRole, ToolCall } from '../../assets/roles';
+import { MistralAPIClient, MistralMessage } from './MistralAPIClient';
 import { createGenerationPrompt, extractInputContent } from '../../utils/GenerationPromptHelper';
+import { toJSONSchema } from '../../utils/StructuredOutput';
 
 export interface MistralTextToTextConfig {
   apiClient: MistralAPIClient;
@@ -36,8 +37,38 @@ export class MistralTextToTextModel extends TextToTextModel {
   }
 
   async transform(input: TextRole | TextRole[] | string | string[], options?: MistralTextToTextOptions): Promise<Text> {
+    return this.runStructuredOutput(input, options, turn =>
+      this.runToolLoop(turn, options, next => this.generate(next, options)));
+  }
+
+  private async generate(input: TextRole | TextRole[] | string | string[], options?: MistralTextToTextOptions): Promise<Text> {
     const startTime = Date.now();
-    
+    const { text, conversation } = await this.prepareInput(input);
+
+    const message = await this.apiClient.generateMessage(this.modelId, this.createPrompt(text, conversation), this.createTextOptions(options));
+
+    return this.createResult(text, message.content, input, options, startTime, message.toolCalls);
+  }
+
+  // Requests with tools are not streamed
+  async *stream(input: TextRole | TextRole[] | string | string[], options?: MistralTextToTextOptions): AsyncGenerator<string, Text> {
+    if (options?.tools?.length || options?.responseSchema) {
+      return yield* super.stream(input as TextRole | TextRole[], options);
+    }
+
+    const startTime = Date.now();
+    const { text, conversation } = await this.prepareInput(input);
+
+    let generated = '';
+    for await (const delta of this.apiClient.generateTextStream(this.modelId, this.createPrompt(text, conversation), this.createTextOptions(options))) {
+      generated += delta;
+      yield delta;
+    }
+
+    return this.createResult(text, generated, input, options, startTime);
+  }
+
+  private async prepareInput(input: TextRole | TextRole[] | string | string[]): Promise<{ text: Text; conversation?: Conversation }> {
     let textRole: TextRole;
     if (Array.isArray(input)) {
       textRole = typeof input[0] === 'string' ? Text.fromString(input[0]) : input[0];
@@ -45,25 +76,80 @@ export class MistralTextToTextModel extends TextToTextModel {
       textRole = typeof input === 'string' ? Text.fromString(input) : input;
     }
 
+    if (textRole instanceof Conversation) {
+      if (!textRole.isValid()) {
+        throw new Error('Invalid conversation provided');
+      }
+      return { text: await textRole.asRole(Text), conversation: textRole };
+    }
+
     const text = await textRole.asRole(Text);
 
     if (!text.isValid()) {
       throw new Error('Invalid text data provided');
     }
+    return { text };
+  }
+
+  private createPrompt(text: Text, conversation?: Conversation): string | MistralMessage[] {
+    if (!conversation) return text.content;
+
+    return conversation.messages.map((message): MistralMessage => {
+      if (message.role === 'tool') {
+        return { role: 'tool', tool_call_id: message.toolCallId, name: message.name, content: Conversation.getText(message) };
+      }
+      if (message.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: Conversation.getText(message),
+          tool_calls: message.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+          }))
+        };
+      }
 
-    const generated = await this.apiClient.generateText(this.modelId, text.content, {
+      return {
+        role: message.role,
+        content: typeof message.content === 'string'
+          ? message.content
+          : message.content.map(part => part.type === 'text'
+            ? { type: 'text' as const, text: part.text }
+            : { type: 'image_url' as const, image_url: part.image.toDataUrl() })
+      };
+    });
+  }
+
+  private createTextOptions(options?: MistralTextToTextOptions) {
+    return {
       temperature: options?.temperature,
       maxTokens: options?.maxOutputTokens,
       topP: options?.topP,
-      systemPrompt: options?.systemPrompt
-    });
+      tools: options?.tools,
+      toolChoice: options?.toolChoice,
+      responseFormat: options?.responseFormat,
+      responseSchema: options?.responseSchema ? toJSONSchema(options.responseSchema) : undefined,
+      systemPrompt: options?.systemPrompt,
+      signal: options?.signal
+    };
+  }
 
+  private createResult(
+    text: Text,
+    generated: string,
+    input: TextRole | TextRole[] | string | string[],
+    options: MistralTextToTextOptions | undefined,
+    startTime: number,
+    toolCalls: ToolCall[] = []
+  ): Text {
     const processingTime = Date.now() - startTime;
 
     return Text.fromString(generated, text.language || 'auto', 1.0, {
       processingTime,
       model: this.modelId,
       provider: 'mistral',
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
       generation_prompt: createGenerationPrompt({
         input,
         options,
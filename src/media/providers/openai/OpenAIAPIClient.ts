@@ -8,6 +8,9 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import * as fs from 'fs';
 import FormData from 'form-data';
+import { parseServerSentEvents } from '../../utils/ServerSentEvents';
+import { parseToolArguments, ToolChoice, ToolDefinition } from '../../models/abstracts/TextToTextModel';
+import type { ToolCall } from '../../assets/roles';
 
 export interface OpenAIConfig {
   apiKey: string;
@@ -16,9 +19,26 @@ export interface OpenAIConfig {
   timeout?: number;
 }
 
+export type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'auto' | 'low' | 'high' } };
+
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
 export interface OpenAIMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | OpenAIContentPart[] | null;
+  tool_calls?: OpenAIToolCall[];    // Assistant messages
+  tool_call_id?: string;            // Tool messages
+}
+
+export interface OpenAITool {
+  type: 'function';
+  function: { name: string; description?: string; parameters?: Record<string, any> };
 }
 
 export interface OpenAIChatRequest {
@@ -30,9 +50,11 @@ export interface OpenAIChatRequest {
   frequency_penalty?: number;
   presence_penalty?: number;
   stream?: boolean;
-  response_format?: { type: 'text' | 'json_object' };
+  response_format?: { type: 'text' | 'json_object' } | { type: 'json_schema'; json_schema: { name: string; schema: Record<string, any> } };
   seed?: number;
   stop?: string | string[];
+  tools?: OpenAITool[];
+  tool_choice?: 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } };
 }
 
 export interface OpenAIChatResponse {
@@ -44,7 +66,8 @@ export interface OpenAIChatResponse {
     index: number;
     message: {
       role: string;
-      content: string;
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
     };
     finish_reason: string;
   }>;
@@ -55,6 +78,32 @@ export interface OpenAIChatResponse {
   };
 }
 
+export interface OpenAIChatChunk {
+  id: string;
+  choices: Array<{
+    index: number;
+    delta: { role?: string; content?: string | null };
+    finish_reason: string | null;
+  }>;
+}
+
+export interface OpenAITextOptions {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  systemPrompt?: string;
+  responseFormat?: 'text' | 'json' | { type: 'json_object' };
+  responseSchema?: Record<string, any>;   // JSON Schema the reply must match
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  signal?: AbortSignal;
+}
+
+export interface OpenAIGeneratedMessage {
+  content: string;
+  toolCalls: ToolCall[];
+}
+
 export interface OpenAIImageRequest {
   model: string;
   prompt: string;
@@ -162,9 +211,9 @@ export class OpenAIAPIClient {
   /**
    * Send chat completion request
    */
-  async chatCompletion(request: OpenAIChatRequest): Promise<OpenAIChatResponse> {
+  async chatCompletion(request: OpenAIChatRequest, signal?: AbortSignal): Promise<OpenAIChatResponse> {
     try {
-      const response: AxiosResponse<OpenAIChatResponse> = await this.client.post('/chat/completions', request);
+      const response: AxiosResponse<OpenAIChatResponse> = await this.client.post('/chat/completions', request, { signal });
       return response.data;
     } catch (error) {
       throw new Error(`OpenAI chat completion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -172,46 +221,98 @@ export class OpenAIAPIClient {
   }
 
   /**
-   * Generate text using OpenAI models
+   * Send a streaming chat completion request, yielding content deltas
    */
-  async generateText(
-    model: string,
-    prompt: string,
-    options?: {
-      temperature?: number;
-      maxTokens?: number;
-      topP?: number;
-      systemPrompt?: string;
-      responseFormat?: 'text' | 'json' | { type: 'json_object' };
+  async *streamChatCompletion(request: OpenAIChatRequest, signal?: AbortSignal): AsyncGenerator<string> {
+    let response: AxiosResponse<AsyncIterable<Uint8Array>>;
+    try {
+      response = await this.client.post('/chat/completions', { ...request, stream: true }, { responseType: 'stream', signal });
+    } catch (error) {
+      throw new Error(`OpenAI chat completion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-  ): Promise<string> {
-    const messages: OpenAIMessage[] = [];
-    
-    if (options?.systemPrompt) {
-      messages.push({ role: 'system', content: options.systemPrompt });
+
+    for await (const event of parseServerSentEvents(response.data)) {
+      if (event.data === '[DONE]') return;
+
+      const chunk: OpenAIChatChunk = JSON.parse(event.data);
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) yield content;
     }
-    
-    messages.push({ role: 'user', content: prompt });
+  }
+
+  /**
+   * Generate text using OpenAI models, from a single prompt or a chat history
+   */
+  async generateText(model: string, prompt: string | OpenAIMessage[], options?: OpenAITextOptions): Promise<string> {
+    return (await this.generateMessage(model, prompt, options)).content;
+  }
 
-    const request: OpenAIChatRequest = {
+  /**
+   * Generate the next assistant message: its text and any tool calls
+   */
+  async generateMessage(model: string, prompt: string | OpenAIMessage[], options?: OpenAITextOptions): Promise<OpenAIGeneratedMessage> {
+    const response = await this.chatCompletion(this.createTextRequest(model, prompt, options), options?.signal);
+    const message = response.choices[0]?.message;
+    return {
+      content: message?.content || '',
+      toolCalls: (message?.tool_calls || []).map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseToolArguments(call.function.arguments)
+      }))
+    };
+  }
+
+  /**
+   * Generate text using OpenAI models, yielding it as it is produced
+   */
+  generateTextStream(model: string, prompt: string | OpenAIMessage[], options?: OpenAITextOptions): AsyncGenerator<string> {
+    return this.streamChatCompletion(this.createTextRequest(model, prompt, options), options?.signal);
+  }
+
+  private createTextRequest(model: string, prompt: string | OpenAIMessage[], options?: OpenAITextOptions): OpenAIChatRequest {
+    const messages: OpenAIMessage[] = typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : [...prompt];
+
+    // A system message in the history takes precedence over the option
+    if (options?.systemPrompt && !messages.some(message => message.role === 'system')) {
+      messages.unshift({ role: 'system', content: options.systemPrompt });
+    }
+
+    return {
       model,
       messages,
       temperature: options?.temperature,
       max_tokens: options?.maxTokens,
       top_p: options?.topP,
-      response_format: options?.responseFormat === 'json' ? { type: 'json_object' } : undefined
+      response_format: this.createResponseFormat(options),
+      tools: options?.tools?.length ? options.tools.map(tool => ({
+        type: 'function' as const,
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+      })) : undefined,
+      tool_choice: options?.tools?.length && options.toolChoice
+        ? typeof options.toolChoice === 'string'
+          ? options.toolChoice
+          : { type: 'function', function: { name: options.toolChoice.name } }
+        : undefined
     };
+  }
 
-    const response = await this.chatCompletion(request);
-    return response.choices[0]?.message?.content || '';
+  private createResponseFormat(options?: OpenAITextOptions): OpenAIChatRequest['response_format'] {
+    if (options?.responseSchema) {
+      return { type: 'json_schema', json_schema: { name: 'response', schema: options.responseSchema } };
+    }
+    if (options?.responseFormat === 'json' || typeof options?.responseFormat === 'object') {
+      return { type: 'json_object' };
+    }
+    return undefined;
   }
 
   /**
    * Generate image using DALL-E
    */
-  async generateImage(request: OpenAIImageRequest): Promise<OpenAIImageResponse> {
+  async generateImage(request: OpenAIImageRequest, signal?: AbortSignal): Promise<OpenAIImageResponse> {
     try {
-      const response: AxiosResponse<OpenAIImageResponse> = await this.client.post('/images/generations', request);
+      const response: AxiosResponse<OpenAIImageResponse> = await this.client.post('/images/generations', request, { signal });
       return response.data;
     } catch (error) {
       throw new Error(`OpenAI image generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -221,10 +322,11 @@ export class OpenAIAPIClient {
   /**
    * Generate speech using TTS
    */
-  async generateSpeech(request: OpenAITTSRequest): Promise<Buffer> {
+  async generateSpeech(request: OpenAITTSRequest, signal?: AbortSignal): Promise<Buffer> {
     try {
       const response = await this.client.post('/audio/speech', request, {
-        responseType: 'arraybuffer'
+        responseType: 'arraybuffer',
+        signal
       });
       return Buffer.from(response.data);
     } catch (error) {
@@ -235,7 +337,7 @@ export class OpenAIAPIClient {
   /**
    * Transcribe audio to text
    */
-  async createTranscription(request: OpenAITranscriptionRequest): Promise<OpenAITranscriptionResponse> {
+  async createTranscription(request: OpenAITranscriptionRequest, signal?: AbortSignal): Promise<OpenAITranscriptionResponse> {
     const form = new FormData();
     form.append('file', typeof request.file === 'string' ? fs.createReadStream(request.file) : request.file);
     form.append('model', request.model);
@@ -252,7 +354,8 @@ export class OpenAIAPIClient {
 
     try {
       const response = await this.client.post('/audio/transcriptions', form, {
-        headers: form.getHeaders()
+        headers: form.getHeaders(),
+        signal
       });
       return response.data;
     } catch (error) {
@@ -263,7 +366,7 @@ export class OpenAIAPIClient {
   /**
    * Translate audio to English text
    */
-  async createTranslation(request: OpenAITranslationRequest): Promise<OpenAITranscriptionResponse> {
+  async createTranslation(request: OpenAITranslationRequest, signal?: AbortSignal): Promise<OpenAITranscriptionResponse> {
     const form = new FormData();
     form.append('file', typeof request.file === 'string' ? fs.createReadStream(request.file) : request.file);
     form.append('model', request.model);
@@ -273,7 +376,8 @@ export class OpenAIAPIClient {
 
     try {
       const response = await this.client.post('/audio/translations', form, {
-        headers: form.getHeaders()
+        headers: form.getHeaders(),
+        signal
       });
       return response.data;
     } catch (error) {
@@ -82,9 +82,9 @@ export class OpenAIAudioToTextModel extends AudioToTextModel {
           response_format: reqBase.response_format,
           temperature: reqBase.temperature
         };
-        response = await this.apiClient.createTranslation(req);
+        response = await this.apiClient.createTranslation(req, options?.signal);
       } else {
-        response = await this.apiClient.createTranscription(reqBase);
+        response = await this.apiClient.createTranscription(reqBase, options?.signal);
       }
 
       const processingTime = Date.now() - start;
@@ -0,0 +1,97 @@
+/**
+ * OpenAI Image-to-Text Model
+ *
+ * Captioning, OCR and visual Q&A with OpenAI's vision-capable chat models
+ * (gpt-4o, gpt-4.1, ...). The image is sent inline with the instruction.
+ */
+
+import { ImageToTextModel, ImageToTextOptions } from '../../models/abstracts/ImageToTextModel';
+import { ModelMetadata } from '../../models/abstracts/Model';
+import { ImageRole, Text } from '../../assets/roles';
+import { OpenAIAPIClient } from './OpenAIAPIClient';
+import { createGenerationPrompt } from '../../utils/GenerationPromptHelper';
+
+export interface OpenAIImageToTextOptions extends ImageToTextOptions {
+  /** Resolution the model looks at the image in; 'low' is cheaper */
+  detail?: 'auto' | 'low' | 'high';
+  temperature?: number;
+}
+
+export interface OpenAIImageToTextConfig {
+  apiClient: OpenAIAPIClient;
+  modelId: string;
+  metadata?: Partial<ModelMetadata>;
+}
+
+export class OpenAIImageToTextModel extends ImageToTextModel {
+  private apiClient: OpenAIAPIClient;
+  private modelId: string;
+
+  constructor(config: OpenAIImageToTextConfig) {
+    const metadata: ModelMetadata = {
+      id: config.modelId,
+      name: config.metadata?.name || `OpenAI ${config.modelId}`,
+      description: config.metadata?.description || `OpenAI vision model: ${config.modelId}`,
+      version: config.metadata?.version || '1.0.0',
+      provider: 'openai',
+      capabilities: ['image-to-text', 'captioning', 'ocr', 'visual-question-answering'],
+      inputTypes: ['image'],
+      outputTypes: ['text'],
+      ...config.metadata
+    };
+
+    super(metadata);
+    this.apiClient = config.apiClient;
+    this.modelId = config.modelId;
+  }
+
+  async transform(input: ImageRole | ImageRole[], options?: OpenAIImageToTextOptions): Promise<Text> {
+    const start = Date.now();
+    const image = await this.prepareImage(input);
+    const instruction = this.getInstruction(options);
+
+    const message = await this.apiClient.generateMessage(this.modelId, [{
+      role: 'user',
+      content: [
+        { type: 'text', text: instruction },
+        { type: 'image_url', image_url: { url: image.toDataUrl(), detail: options?.detail } }
+      ]
+    }], {
+      temperature: options?.temperature,
+      maxTokens: options?.maxOutputTokens,
+      signal: options?.signal
+    });
+
+    const processingTime = Date.now() - start;
+    return Text.fromString(
+      message.content,
+      options?.language || 'auto',
+      1.0,
+      {
+        processingTime,
+        model: this.modelId,
+        provider: 'openai',
+        task: options?.prompt ? 'question' : options?.task ?? 'caption',
+        instruction,
+        generation_prompt: createGenerationPrompt({
+          input,
+          options,
+          modelId: this.modelId,
+          modelName: this.modelId,
+          provider: 'openai',
+          transformationType: 'image-to-text',
+          processingTime
+        })
+      },
+      image.sourceAsset
+    );
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try { return await this.apiClient.testConnection(); } catch { return false; }
+  }
+
+  getSupportedFormats(): string[] {
+    return ['png', 'jpg', 'jpeg', 'webp', 'gif'];
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * OpenAIProvider Conformance Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { MediaCapability } from '../../types/provider';
+import { Conversation, Image, Text } from '../../assets/roles';
+import { describeProviderConformance } from '../../../test/ProviderConformance';
+import { StructuredOutputError } from '../../utils/StructuredOutput';
+import { ImageToTextModel } from '../../models/abstracts/ImageToTextModel';
+
+const transport = vi.hoisted(() => {
+  const state = { failStatus: undefined as number | undefined };
+
+  const respond = async (url: string): Promise<{ data: any }> => {
+    if (state.failStatus) {
+      throw Object.assign(new Error(`Request failed with status code ${state.failStatus}`), {
+        response: { status: state.failStatus }
+      });
+    }
+    if (url === '/models') {
+      return { data: { data: [{ id: 'gpt-4o-mini' }, { id: 'tts-1' }, { id: 'whisper-1' }] } };
+    }
+    if (url === '/chat/completions') {
+      return { data: { choices: [{ message: { role: 'assistant', content: 'Hello back' } }] } };
+    }
+    if (url === '/audio/speech') {
+      return { data: new ArrayBuffer(16) };
+    }
+    throw new Error(`Unexpected request to ${url}`);
+  };
+
+  return { state, get: vi.fn(respond), post: vi.fn(respond) };
+});
+
+vi.mock('axios', () => ({
+  default: { create: () => transport, get: transport.get, post: transport.post }
+}));
+
+vi.mock('../../registry/ProviderRegistry', () => ({
+  ProviderRegistry: { getInstance: () => ({ register: vi.fn() }) }
+}));
+
+import { OpenAIProvider } from './OpenAIProvider';
+
+describeProviderConformance('OpenAIProvider', {
+  createProvider: async () => {
+    const provider = new OpenAIProvider();
+    await provider.configure({ apiKey: 'sk-test' });
+    return provider;
+  },
+  samples: {
+    [MediaCapability.TEXT_TO_TEXT]: { input: Text.fromString('Hello') },
+    [MediaCapability.TEXT_TO_AUDIO]: { input: Text.fromString('Hello'), options: { voice: 'nova' } },
+    [MediaCapability.IMAGE_TO_TEXT]: { input: new Image(Buffer.from('png'), 'png', { format: 'png' }) }
+  },
+  failTransport: status => {
+    transport.state.failStatus = status;
+  },
+  resetTransport: () => {
+    transport.state.failStatus = undefined;
+  }
+});
+
+describe('OpenAITextToTextModel conversations', () => {
+  it('should send the history as chat messages with images inlined', async () => {
+    const provider = new OpenAIProvider();
+    await provider.configure({ apiKey: 'sk-test' });
+    const model = await provider.createTextToTextModel('gpt-4o-mini');
+    const image = new Image(Buffer.from('png'), 'png', { format: 'png' });
+
+    const conversation = new Conversation([
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello' },
+      { role: 'user', content: [{ type: 'text', text: 'What is this?' }, { type: 'image', image }] }
+    ]);
+    transport.post.mockClear();
+    const result = await model.transform(conversation, { systemPrompt: 'Be brief' });
+
+    expect(result.content).toBe('Hello back');
+    expect((transport.post.mock.calls[0] as any[])[1].messages).toEqual([
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello' },
+      { role: 'user', content: [
+        { type: 'text', text: 'What is this?' },
+        { type: 'image_url', image_url: { url: `data:image/png;base64,${Buffer.from('png').toString('base64')}` } }
+      ] }
+    ]);
+  });
+});
+
+describe('OpenAITextToTextModel tools', () => {
+  it('should run tool handlers and send their results back until the model answers', async () => {
+    const provider = new OpenAIProvider();
+    await provider.configure({ apiKey: 'sk-test' });
+    const model = await provider.createTextToTextModel('gpt-4o-mini');
+    const handler = vi.fn(async ({ city }: Record<string, any>) => ({ city, celsius: 21 }));
+
+    transport.post.mockClear();
+    transport.post.mockImplementationOnce(async () => ({
+      data: { choices: [{ message: { role: 'assistant', content: null, tool_calls: [
+        { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Oslo"}' } }
+      ] } }] }
+    }));
+
+    const input = Text.fromString('Weather in Oslo?');
+    const result = await model.transform(input, {
+      tools: [{
+        name: 'get_weather',
+        description: 'Current weather for a city',
+        parameters: { type: 'object', properties: { city: { type: 'string' } } },
+        handler
+      }]
+    });
+
+    expect(result.content).toBe('Hello back');
+    expect(result.metadata?.generation_prompt?.input).toBe(input);
+    expect(handler).toHaveBeenCalledWith({ city: 'Oslo' }, { id: 'call_1', name: 'get_weather', arguments: { city: 'Oslo' } });
+
+    const [first, second] = transport.post.mock.calls.map(call => (call as any[])[1]);
+    expect(first.tools).toEqual([{
+      type: 'function',
+      function: {
+        name: 'get_weather',
+        description: 'Current weather for a city',
+        parameters: { type: 'object', properties: { city: { type: 'string' } } }
+      }
+    }]);
+    expect(second.messages.slice(1)).toEqual([
+      { role: 'assistant', content: null, tool_calls: [
+        { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Oslo"}' } }
+      ] },
+      { role: 'tool', tool_call_id: 'call_1', content: '{"city":"Oslo","celsius":21}' }
+    ]);
+  });
+
+  it('should return calls to tools without a handler in the result metadata', async () => {
+    const provider = new OpenAIProvider();
+    await provider.configure({ apiKey: 'sk-test' });
+    const model = await provider.createTextToTextModel('gpt-4o-mini');
+
+    transport.post.mockClear();
+    transport.post.mockImplementationOnce(async () => ({
+      data: { choices: [{ message: { role: 'assistant', content: null, tool_calls: [
+        { id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"id":7}' } }
+      ] } }] }
+    }));
+
+    const result = await model.transform(Text.fromString('Find 7'), {
+      tools: [{ name: 'lookup' }],
+      toolChoice: { name: 'lookup' }
+    });
+
+    expect(transport.post).toHaveBeenCalledTimes(1);
+    expect((transport.post.mock.calls[0] as any[])[1].tool_choice).toEqual({ type: 'function', function: { name: 'lookup' } });
+    expect(result.metadata?.toolCalls).toEqual([{ id: 'call_1', name: 'lookup', arguments: { id: 7 } }]);
+  });
+});
+
+describe('OpenAITextToTextModel structured output', () => {
+  it('should request the schema and repair replies that do not match it', async () => {
+    const provider = new OpenAIProvider();
+    await provider.configure({ apiKey: 'sk-test' });
+    const model = await provider.createTextToTextModel('gpt-4o-mini');
+    const schema = z.object({ city: z.string(), celsius: z.number() });
+
+    transport.post.mockClear();
+    transport.post
+      .mockImplementationOnce(async () => ({ data: { choices: [{ message: { role: 'assistant', content: '{"city": "Oslo"}' } }] } }))
+      .mockImplementationOnce(async () => ({ data: { choices: [{ message: { role: 'assistant', content: '{"city": "Oslo", "celsius": 21}' } }] } }));
+
+    const input = Text.fromString('Weather in Oslo?');
+    const result = await model.generateObject(input, schema);
+
+    expect(result.metadata.parsed).toEqual({ city: 'Oslo', celsius: 21 });
+    expect(result.metadata.generation_prompt?.input).toBe(input);
+    const [first, second] = transport.post.mock.calls.map(call => (call as any[])[1]);
+    expect(first.response_format).toEqual({
+      type: 'json_schema',
+      json_schema: {
+        name: 'response',
+        schema: {
+          type: 'object',
+          properties: { city: { type: 'string' }, celsius: { type: 'number' } },
+          required: ['city', 'celsius'],
+          additionalProperties: false
+        }
+      }
+    });
+    expect(second.messages.slice(1)).toEqual([
+      { role: 'assistant', content: '{"city": "Oslo"}' },
+      { role: 'user', content: 'Your reply does not match the required JSON schema:\n- celsius: Required\nReply again with only the corrected JSON.' }
+    ]);
+  });
+
+  it('should give up after maxRepairAttempts', async () => {
+    const provider = new OpenAIProvider();
+    await provider.configure({ apiKey: 'sk-test' });
+    const model = await provider.createTextToTextModel('gpt-4o-mini');
+
+    transport.post.mockClear();
+    await expect(model.transform(Text.fromString('Weather?'), {
+      responseSchema: { type: 'object', properties: { celsius: { type: 'number' } }, required: ['celsius'] },
+      maxRepairAttempts: 1
+    })).rejects.toBeInstanceOf(StructuredOutputError);
+    expect(transport.post).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('OpenAIImageToTextModel', () => {
+  it('should serve vision-capable chat models as image-to-text models', async () => {
+    const provider = new OpenAIProvider();
+    await provider.configure({ apiKey: 'sk-test' });
+    const model = await provider.getModel('gpt-4o-mini', MediaCapability.IMAGE_TO_TEXT);
+    const image = new Image(Buffer.from('png'), 'png', { format: 'png' });
+
+    expect(model).toBeInstanceOf(ImageToTextModel);
+
+    transport.post.mockClear();
+    const caption = await model.transform(image, { detail: 'low' });
+    expect(caption.content).toBe('Hello back');
+    expect(caption.metadata?.task).toBe('caption');
+    expect((transport.post.mock.calls[0] as any[])[1].messages).toEqual([{
+      role: 'user',
+      content: [
+        { type: 'text', text: 'Describe this image in one or two sentences.' },
+        { type: 'image_url', image_url: { url: `data:image/png;base64,${Buffer.from('png').toString('base64')}`, detail: 'low' } }
+      ]
+    }]);
+
+    await model.transform(image, { prompt: 'How many cats?' });
+    expect((transport.post.mock.calls[1] as any[])[1].messages[0].content[0]).toEqual({ type: 'text', text: 'How many cats?' });
+  });
+});
@@ -15,7 +15,7 @@ import {
   GenerationResult 
 } from '../../types/provider';
 import { OpenAIAPIClient, OpenAIConfig } from './OpenAIAPIClient';
-import { TextToTextProvider, TextToImageProvider, TextToAudioProvider, AudioToTextProvider } from '../../capabilities';
+import { TextToTextProvider, TextToImageProvider, TextToAudioProvider, AudioToTextProvider, ImageToTextProvider } from '../../capabilities';
 import { TextToTextModel } from '../../models/abstracts/TextToTextModel';
 import { OpenAITextToTextModel } from './OpenAITextToTextModel';
 import { TextToImageModel } from '../../models/abstracts/TextToImageModel';
@@ -23,8 +23,11 @@ import { OpenAITextToImageModel } from './OpenAITextToImageModel';
 import { TextToAudioModel } from '../../models/abstracts/TextToAudioModel';
 import { OpenAITextToAudioModel } from './OpenAITextToAudioModel';
 import { OpenAIAudioToTextModel } from './OpenAIAudioToTextModel';
+import { ImageToTextModel } from '../../models/abstracts/ImageToTextModel';
+import { OpenAIImageToTextModel } from './OpenAIImageToTextModel';
+import { getProviderJobCounts } from '../../registry/ProviderLoad';
 
-export class OpenAIProvider implements MediaProvider, TextToTextProvider, TextToImageProvider, TextToAudioProvider, AudioToTextProvider {
+export class OpenAIProvider implements MediaProvider, TextToTextProvider, TextToImageProvider, TextToAudioProvider, AudioToTextProvider, ImageToTextProvider {
   readonly id = 'openai';
   readonly name = 'OpenAI';
   readonly type = ProviderType.REMOTE;
@@ -32,7 +35,8 @@ export class OpenAIProvider implements MediaProvider, TextToTextProvider, TextTo
     MediaCapability.TEXT_TO_TEXT,
     MediaCapability.TEXT_TO_IMAGE,
     MediaCapability.TEXT_TO_AUDIO,
-    MediaCapability.AUDIO_TO_TEXT
+    MediaCapability.AUDIO_TO_TEXT,
+    MediaCapability.IMAGE_TO_TEXT
   ];
 
   private config?: ProviderConfig;
@@ -189,6 +193,33 @@ export class OpenAIProvider implements MediaProvider, TextToTextProvider, TextTo
     return model ? model.capabilities.includes(MediaCapability.AUDIO_TO_TEXT) : false;
   }
 
+  // ImageToTextProvider interface implementation
+  async createImageToTextModel(modelId: string): Promise<ImageToTextModel> {
+    await this.ensureConfigured();
+
+    if (!this.apiClient) {
+      throw new Error('OpenAI provider not configured');
+    }
+
+    if (!this.supportsImageToTextModel(modelId)) {
+      throw new Error(`Model ${modelId} is not supported for image-to-text generation`);
+    }
+
+    return new OpenAIImageToTextModel({
+      apiClient: this.apiClient,
+      modelId
+    });
+  }
+
+  getSupportedImageToTextModels(): string[] {
+    return this.getModelsForCapability(MediaCapability.IMAGE_TO_TEXT).map(m => m.id);
+  }
+
+  supportsImageToTextModel(modelId: string): boolean {
+    const model = this.models.find(m => m.id === modelId);
+    return model ? model.capabilities.includes(MediaCapability.IMAGE_TO_TEXT) : false;
+  }
+
   // ServiceManagement interface implementation
   async startService(): Promise<boolean> {
     // Remote API - no service to start
@@ -238,6 +269,7 @@ export class OpenAIProvider implements MediaProvider, TextToTextProvider, TextTo
             description: `OpenAI model: ${model.id}`,
             capabilities,
             parameters: this.getModelParameters(model.id, capabilities),
+            inputFormats: this.getModelInputFormats(capabilities),
             pricing: this.getModelPricing(model.id)
           };
 
@@ -278,6 +310,11 @@ export class OpenAIProvider implements MediaProvider, TextToTextProvider, TextTo
     if (modelId.includes('whisper') || modelId.includes('transcribe')) {
       capabilities.push(MediaCapability.AUDIO_TO_TEXT);
     }
+
+    // Image-to-text models (vision-capable chat models)
+    if (/^(gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5)/.test(modelId) && !/transcribe|tts|audio|realtime|search/.test(modelId)) {
+      capabilities.push(MediaCapability.IMAGE_TO_TEXT);
+    }
     
     return capabilities;
   }
@@ -290,10 +327,10 @@ export class OpenAIProvider implements MediaProvider, TextToTextProvider, TextTo
     
     if (capabilities.includes(MediaCapability.TEXT_TO_TEXT)) {
       params.temperature = { type: 'number', min: 0, max: 2, default: 0.7 };
-      params.max_tokens = { type: 'number', min: 1, max: 4096, default: 1024 };
-      params.top_p = { type: 'number', min: 0, max: 1, default: 1 };
-      params.frequency_penalty = { type: 'number', min: -2, max: 2, default: 0 };
-      params.presence_penalty = { type: 'number', min: -2, max: 2, default: 0 };
+      params.maxOutputTokens = { type: 'integer', min: 1, max: 4096, default: 1024 };
+      params.topP = { type: 'number', min: 0, max: 1, default: 1 };
+      params.frequencyPenalty = { type: 'number', min: -2, max: 2, default: 0 };
+      params.presencePenalty = { type: 'number', min: -2, max: 2, default: 0 };
     }
     
     if (capabilities.includes(MediaCapability.TEXT_TO_IMAGE)) {
@@ -314,11 +351,26 @@ export class OpenAIProvider implements MediaProvider, TextToTextProvider, TextTo
       params.language = { type: 'string' };
       params.response_format = { type: 'string', options: ['json', 'text', 'srt', 'verbose_json', 'vtt'], default: 'json' };
       params.temperature = { type: 'number', min: 0, max: 1, default: 0 };
+      params.timestampGranularities = { type: 'array', items: { type: 'string', options: ['word', 'segment'] } };
+    }
+
+    if (capabilities.includes(MediaCapability.IMAGE_TO_TEXT)) {
+      params.detail = { type: 'string', options: ['auto', 'low', 'high'], default: 'auto' };
     }
     
     return params;
   }
 
+  /**
+   * Get the input formats a model accepts, where the API restricts them
+   */
+  private getModelInputFormats(capabilities: MediaCapability[]): string[] | undefined {
+    if (capabilities.includes(MediaCapability.AUDIO_TO_TEXT)) {
+      return ['flac', 'm4a', 'mp3', 'mp4', 'mpeg', 'mpga', 'oga', 'ogg', 'wav', 'webm'];
+    }
+    return undefined;
+  }
+
   /**
    * Get model pricing information
    */
@@ -326,6 +378,8 @@ export class OpenAIProvider implements MediaProvider, TextToTextProvider, TextTo
     // Approximate pricing as of 2024 (per 1K tokens for text models, per image for DALL-E, per character for TTS)
     const pricingMap: Record<string, { inputCost: number; outputCost: number }> = {
       'gpt-4': { inputCost: 0.03, outputCost: 0.06 },
+      'gpt-4o': { inputCost: 0.0025, outputCost: 0.01 },
+      'gpt-4o-mini': { inputCost: 0.00015, outputCost: 0.0006 },
       'gpt-4-turbo': { inputCost: 0.01, outputCost: 0.03 },
       'gpt-3.5-turbo': { inputCost: 0.0015, outputCost: 0.002 },
       'dall-e-3': { inputCost: 0.04, outputCost: 0.04 }, // per image
@@ -370,6 +424,14 @@ export class OpenAIProvider implements MediaProvider, TextToTextProvider, TextTo
         parameters: this.getModelParameters('gpt-3.5-turbo', [MediaCapability.TEXT_TO_TEXT]),
         pricing: this.getModelPricing('gpt-3.5-turbo')
       },
+      {
+        id: 'gpt-4o-mini',
+        name: 'GPT-4o Mini',
+        description: 'OpenAI GPT-4o Mini model with vision',
+        capabilities: [MediaCapability.TEXT_TO_TEXT, MediaCapability.IMAGE_TO_TEXT],
+        parameters: this.getModelParameters('gpt-4o-mini', [MediaCapability.TEXT_TO_TEXT, MediaCapability.IMAGE_TO_TEXT]),
+        pricing: this.getModelPricing('gpt-4o-mini')
+      },
       {
         id: 'dall-e-3',
         name: 'DALL-E 3',
@@ -413,14 +475,15 @@ export class OpenAIProvider implements MediaProvider, TextToTextProvider, TextTo
     ];
 
     for (const model of fallbackModels) {
-      this.discoveredModels.set(model.id, model);
+      this.discoveredModels.set(model.id, { ...model, inputFormats: this.getModelInputFormats(model.capabilities) });
     }
   }
 
   /**
-   * Get a model instance by ID with automatic type detection
+   * Get a model instance by ID with automatic type detection. Chat models
+   * also read images; pass IMAGE_TO_TEXT to get their vision implementation.
    */
-  async getModel(modelId: string): Promise<any> {
+  async getModel(modelId: string, capability?: MediaCapability): Promise<any> {
     await this.ensureConfigured();
     
     const providerModel = this.discoveredModels.get(modelId);
@@ -429,14 +492,17 @@ export class OpenAIProvider implements MediaProvider, TextToTextProvider, TextTo
     }
 
     // Return appropriate model instance based on capabilities
-    if (providerModel.capabilities.includes(MediaCapability.TEXT_TO_TEXT)) {
+    const capabilities = capability && providerModel.capabilities.includes(capability) ? [capability] : providerModel.capabilities;
+    if (capabilities.includes(MediaCapability.TEXT_TO_TEXT)) {
       return this.createTextToTextModel(modelId);
-    } else if (providerModel.capabilities.includes(MediaCapability.TEXT_TO_IMAGE)) {
+    } else if (capabilities.includes(MediaCapability.TEXT_TO_IMAGE)) {
       return this.createTextToImageModel(modelId);
-    } else if (providerModel.capabilities.includes(MediaCapability.TEXT_TO_AUDIO)) {
+    } else if (capabilities.includes(MediaCapability.TEXT_TO_AUDIO)) {
       return this.createTextToAudioModel(modelId);
-    } else if (providerModel.capabilities.includes(MediaCapability.AUDIO_TO_TEXT)) {
+    } else if (capabilities.includes(MediaCapability.AUDIO_TO_TEXT)) {
       return this.createAudioToTextModel(modelId);
+    } else if (capabilities.includes(MediaCapability.IMAGE_TO_TEXT)) {
+      return this.createImageToTextModel(modelId);
     }
     
     throw new Error(`Unsupported model capabilities for ${modelId}`);
@@ -462,15 +528,13 @@ export class OpenAIProvider implements MediaProvider, TextToTextProvider, TextTo
           return {
             status: 'healthy',
             uptime: Date.now() - this.initTime,
-            activeJobs: 0, // OpenAI doesn't provide this info
-            queuedJobs: 0,  // OpenAI doesn't provide this info
+            ...getProviderJobCounts(this.id),
           };
         } else {
           return {
             status: 'degraded',
             uptime: Date.now() - this.initTime,
-            activeJobs: 0,
-            queuedJobs: 0,
+            ...getProviderJobCounts(this.id),
             lastError: 'Connection test failed'
           };
         }
@@ -478,8 +542,7 @@ export class OpenAIProvider implements MediaProvider, TextToTextProvider, TextTo
         return {
           status: 'unhealthy',
           uptime: 0,
-          activeJobs: 0,
-          queuedJobs: 0,
+          ...getProviderJobCounts(this.id),
           lastError: 'Provider not configured'
         };
       }
@@ -487,8 +550,7 @@ export class OpenAIProvider implements MediaProvider, TextToTextProvider, TextTo
       return {
         status: 'unhealthy',
         uptime: Date.now() - this.initTime,
-        activeJobs: 0,
-        queuedJobs: 0,
+        ...getProviderJobCounts(this.id),
         lastError: error instanceof Error ? error.message : 'Unknown error'
       };
     }
@@ -98,7 +98,7 @@ export class OpenAITextToAudioModel extends TextToAudioModel {
       };
 
       // Generate audio using OpenAI API
-      const audioBuffer = await this.apiClient.generateSpeech(ttsRequest);
+      const audioBuffer = await this.apiClient.generateSpeech(ttsRequest, options?.signal);
 
       // Save to temporary file
       const tempDir = os.tmpdir();
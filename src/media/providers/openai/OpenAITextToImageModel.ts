@@ -92,7 +92,7 @@ export class OpenAITextToImageModel extends TextToImageModel {
       };
 
       // Generate image using OpenAI API
-      const response = await this.apiClient.generateImage(imageRequest);
+      const response = await this.apiClient.generateImage(imageRequest, options?.signal);
 
       if (!response.data || response.data.length === 0) {
         throw new Error('No image data received from OpenAI');
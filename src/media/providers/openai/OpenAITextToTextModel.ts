@@ -7,9 +7,10 @@
 
 import { TextToTextModel, TextToTextOptions } from '../../models/abstracts/TextToTextModel';
 import { ModelMetadata } from '../../models/abstracts/Model';
-import { Text, TextRole } from '../../assets/roles';
-import { OpenAIAPIClient } from './OpenAIAPIClient';
+import { Conversation, Text, TextRole, ToolCall } from '../../assets/roles';
+import { OpenAIAPIClient, OpenAIMessage } from './OpenAIAPIClient';
 import { createGenerationPrompt, extractInputContent } from '../../utils/GenerationPromptHelper';
+import { toJSONSchema } from '../../utils/StructuredOutput';
 
 export interface OpenAITextToTextOptions extends TextToTextOptions {
   systemPrompt?: string;
@@ -49,78 +50,158 @@ export class OpenAITextToTextModel extends TextToTextModel {
   }
 
   /**
-   * Transform text to text using OpenAI GPT models
+   * Transform text (or a Conversation) to text using OpenAI GPT models,
+   * running tool handlers until the model answers and validating the answer
+   * against responseSchema
    */
   async transform(input: TextRole | TextRole[] | string | string[], options?: OpenAITextToTextOptions): Promise<Text> {
+    return this.runStructuredOutput(input, options, turn =>
+      this.runToolLoop(turn, options, next => this.generate(next, options)));
+  }
+
+  private async generate(input: TextRole | TextRole[] | string | string[], options?: OpenAITextToTextOptions): Promise<Text> {
     const startTime = Date.now();
+    const { text, conversation } = await this.prepareInput(input);
+
+    try {
+      // Generate text using OpenAI API
+      const message = await this.apiClient.generateMessage(this.modelId, this.createPrompt(text, conversation), this.createTextOptions(options));
+      return this.createResult(text, message.content, input, options, startTime, message.toolCalls);
+    } catch (error) {
+      throw new Error(`OpenAI text generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Stream text from OpenAI GPT models as it is generated. Requests with tools
+   * or a response schema are not streamed.
+   */
+  async *stream(input: TextRole | TextRole[] | string | string[], options?: OpenAITextToTextOptions): AsyncGenerator<string, Text> {
+    if (options?.tools?.length || options?.responseSchema) {
+      return yield* super.stream(input as TextRole | TextRole[], options);
+    }
+
+    const startTime = Date.now();
+    const { text, conversation } = await this.prepareInput(input);
+    let generatedText = '';
+
+    try {
+      for await (const delta of this.apiClient.generateTextStream(this.modelId, this.createPrompt(text, conversation), this.createTextOptions(options))) {
+        generatedText += delta;
+        yield delta;
+      }
+    } catch (error) {
+      throw new Error(`OpenAI text generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return this.createResult(text, generatedText, input, options, startTime);
+  }
 
+  private async prepareInput(input: TextRole | TextRole[] | string | string[]): Promise<{ text: Text; conversation?: Conversation }> {
     // Handle both array and single input
     const inputRole = Array.isArray(input) ? input[0] : input;
+
+    // Conversations are sent as chat messages; their transcript stands in for token estimates
+    if (inputRole instanceof Conversation) {
+      if (!inputRole.isValid()) {
+        throw new Error('Invalid conversation provided');
+      }
+      return { text: await inputRole.asRole(Text), conversation: inputRole };
+    }
     
     // Handle both TextRole and string inputs
-    let text: Text;
-    if (typeof inputRole === 'string') {
-      text = Text.fromString(inputRole);
-    } else {
-      text = await inputRole.asRole(Text);
-    }
+    const text = typeof inputRole === 'string' ? Text.fromString(inputRole) : await inputRole.asRole(Text);
 
     // Validate text data
     if (!text.isValid()) {
       throw new Error('Invalid text data provided');
     }
+    return { text };
+  }
 
-    try {
-      // Generate text using OpenAI API
-      const generatedText = await this.apiClient.generateText(
-        this.modelId,
-        text.content,
-        {
-          temperature: options?.temperature,
-          maxTokens: options?.maxOutputTokens,
-          topP: options?.topP,
-          systemPrompt: options?.systemPrompt,
-          responseFormat: options?.responseFormat
-        }
-      );
-
-      // Calculate processing time
-      const processingTime = Date.now() - startTime;
-
-      // Create Text result
-      const result = Text.fromString(
-        generatedText,
-        text.language || 'auto', // Preserve input language
-        1.0, // High confidence for successful generation
-        {
-          processingTime,
-          model: this.modelId,
-          provider: 'openai',
-          inputTokens: this.estimateTokens(text.content),
-          outputTokens: this.estimateTokens(generatedText),
-          temperature: options?.temperature,
-          maxTokens: options?.maxOutputTokens,
-          systemPrompt: options?.systemPrompt,
-          frequencyPenalty: options?.frequencyPenalty,
-          presencePenalty: options?.presencePenalty,
-          generation_prompt: createGenerationPrompt({
-            input: input, // RAW input object to preserve generation chain
-            options: options,
-            modelId: this.modelId,
-            modelName: this.modelId,
-            provider: 'openai',
-            transformationType: 'text-to-text',
-            processingTime
-          })
-        },
-        text.sourceAsset // Preserve source Asset reference
-      );
-
-      return result;
+  private createPrompt(text: Text, conversation?: Conversation): string | OpenAIMessage[] {
+    if (!conversation) return text.content;
 
-    } catch (error) {
-      throw new Error(`OpenAI text generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    return conversation.messages.map((message): OpenAIMessage => {
+      if (message.role === 'tool') {
+        return { role: 'tool', tool_call_id: message.toolCallId, content: Conversation.getText(message) };
+      }
+      if (message.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: Conversation.getText(message) || null,
+          tool_calls: message.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+          }))
+        };
+      }
+
+      return {
+        role: message.role,
+        content: typeof message.content === 'string'
+          ? message.content
+          : message.content.map(part => part.type === 'text'
+            ? { type: 'text' as const, text: part.text }
+            : { type: 'image_url' as const, image_url: { url: part.image.toDataUrl() } })
+      };
+    });
+  }
+
+  private createTextOptions(options?: OpenAITextToTextOptions) {
+    return {
+      temperature: options?.temperature,
+      maxTokens: options?.maxOutputTokens,
+      topP: options?.topP,
+      systemPrompt: options?.systemPrompt,
+      responseFormat: options?.responseFormat,
+      responseSchema: options?.responseSchema ? toJSONSchema(options.responseSchema) : undefined,
+      tools: options?.tools,
+      toolChoice: options?.toolChoice,
+      signal: options?.signal
+    };
+  }
+
+  private createResult(
+    text: Text,
+    generatedText: string,
+    input: TextRole | TextRole[] | string | string[],
+    options: OpenAITextToTextOptions | undefined,
+    startTime: number,
+    toolCalls: ToolCall[] = []
+  ): Text {
+    // Calculate processing time
+    const processingTime = Date.now() - startTime;
+
+    return Text.fromString(
+      generatedText,
+      text.language || 'auto', // Preserve input language
+      1.0, // High confidence for successful generation
+      {
+        processingTime,
+        model: this.modelId,
+        provider: 'openai',
+        inputTokens: this.estimateTokens(text.content),
+        outputTokens: this.estimateTokens(generatedText),
+        temperature: options?.temperature,
+        maxTokens: options?.maxOutputTokens,
+        systemPrompt: options?.systemPrompt,
+        frequencyPenalty: options?.frequencyPenalty,
+        presencePenalty: options?.presencePenalty,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        generation_prompt: createGenerationPrompt({
+          input: input, // RAW input object to preserve generation chain
+          options: options,
+          modelId: this.modelId,
+          modelName: this.modelId,
+          provider: 'openai',
+          transformationType: 'text-to-text',
+          processingTime
+        })
+      },
+      text.sourceAsset // Preserve source Asset reference
+    );
   }
 
   /**
@@ -168,6 +249,7 @@ export class OpenAITextToTextModel extends TextToTextModel {
       'systemPrompt',
       'stop',
       'responseFormat',
+      'responseSchema',
       'seed'
     ];
   }
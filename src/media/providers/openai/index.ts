@@ -23,6 +23,9 @@ export type { OpenAITextToAudioOptions, OpenAITextToAudioConfig } from './OpenAI
 export { OpenAIAudioToTextModel } from './OpenAIAudioToTextModel';
 export type { OpenAIAudioToTextOptions, OpenAIAudioToTextConfig } from './OpenAIAudioToTextModel';
 
+export { OpenAIImageToTextModel } from './OpenAIImageToTextModel';
+export type { OpenAIImageToTextOptions, OpenAIImageToTextConfig } from './OpenAIImageToTextModel';
+
 // API client
 export { OpenAIAPIClient } from './OpenAIAPIClient';
 export type {
@@ -0,0 +1,184 @@
+/**
+ * Tesseract Image-to-Text Model
+ *
+ * Local OCR with the Tesseract CLI (TESSERACT_PATH or `tesseract` on the
+ * PATH). Tesseract only reads text, so captions and visual questions are
+ * rejected; use a vision model for those.
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ImageToTextModel, ImageToTextOptions } from '../../models/abstracts/ImageToTextModel';
+import { ModelMetadata } from '../../models/abstracts/Model';
+import { ImageRole, Text } from '../../assets/roles';
+import { ProviderError } from '../ProviderError';
+import { createGenerationPrompt } from '../../utils/GenerationPromptHelper';
+
+export interface TesseractImageToTextOptions extends ImageToTextOptions {
+  /** Tesseract page segmentation mode (--psm), e.g. 6 for a single block of text */
+  pageSegmentationMode?: number;
+}
+
+const TESSERACT_TIMEOUT_MS = 60000;
+
+// ISO 639-1 codes of common languages and their Tesseract trained data
+const TESSERACT_LANGUAGES: Record<string, string> = {
+  ar: 'ara', cs: 'ces', da: 'dan', de: 'deu', el: 'ell', en: 'eng', es: 'spa', fi: 'fin',
+  fr: 'fra', he: 'heb', hi: 'hin', hu: 'hun', id: 'ind', it: 'ita', ja: 'jpn', ko: 'kor',
+  nb: 'nor', nl: 'nld', no: 'nor', pl: 'pol', pt: 'por', ro: 'ron', ru: 'rus', sk: 'slk',
+  sv: 'swe', th: 'tha', tr: 'tur', uk: 'ukr', vi: 'vie', zh: 'chi_sim', 'zh-tw': 'chi_tra', 'zh-hant': 'chi_tra'
+};
+
+export class TesseractImageToTextModel extends ImageToTextModel {
+  constructor(metadata?: Partial<ModelMetadata>) {
+    super({
+      id: 'tesseract-ocr',
+      name: 'Tesseract OCR',
+      description: 'Local optical character recognition with Tesseract',
+      version: '1.0.0',
+      provider: 'tesseract',
+      capabilities: ['image-to-text', 'ocr'],
+      inputTypes: ['image'],
+      outputTypes: ['text'],
+      ...metadata
+    });
+  }
+
+  async transform(input: ImageRole | ImageRole[], options?: TesseractImageToTextOptions): Promise<Text> {
+    if (options?.prompt || (options?.task && options.task !== 'ocr')) {
+      throw new ProviderError('Tesseract only extracts text (task: ocr); use a vision model for captions and questions', 'invalid_input', 400, 'tesseract');
+    }
+
+    const start = Date.now();
+    const image = await this.prepareImage(input);
+    const language = options?.language || 'eng';
+    const tesseractLanguage = toTesseractLanguage(language);
+
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'tesseract-'));
+    try {
+      const imagePath = path.join(dir, `input.${image.format}`);
+      await fs.promises.writeFile(imagePath, image.data);
+
+      const args = [imagePath, 'stdout', '-l', tesseractLanguage];
+      if (options?.pageSegmentationMode !== undefined) {
+        args.push('--psm', String(options.pageSegmentationMode));
+      }
+      const output = await runTesseract(args, options?.signal);
+
+      const processingTime = Date.now() - start;
+      return Text.fromString(
+        output.toString('utf8').trim(),
+        language,
+        1.0,
+        {
+          processingTime,
+          model: 'tesseract-ocr',
+          provider: 'tesseract',
+          task: 'ocr',
+          generation_prompt: createGenerationPrompt({
+            input,
+            options,
+            modelId: 'tesseract-ocr',
+            modelName: 'Tesseract OCR',
+            provider: 'tesseract',
+            transformationType: 'image-to-text',
+            processingTime
+          })
+        },
+        image.sourceAsset
+      );
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return isTesseractAvailable();
+  }
+
+  getSupportedFormats(): string[] {
+    return ['png', 'jpg', 'jpeg', 'tif', 'tiff', 'bmp', 'gif', 'webp'];
+  }
+}
+
+/**
+ * Tesseract language list for an ISO 639-1 code ('en', 'pt-BR') or Tesseract
+ * codes ('eng', 'deu+eng'), which are passed through
+ */
+export function toTesseractLanguage(language: string): string {
+  return language.split('+').map(part => {
+    const code = part.trim();
+    const iso = code.match(/^([a-z]{2})(?:[-_][a-z0-9]+)?$/i);
+    if (!iso) return code;
+
+    const mapped = TESSERACT_LANGUAGES[code.toLowerCase().replace('_', '-')] ?? TESSERACT_LANGUAGES[iso[1].toLowerCase()];
+    if (!mapped) {
+      throw new ProviderError(`Unknown language '${code}'; use a Tesseract language code such as 'eng' or 'deu'`, 'invalid_input', 400, 'tesseract');
+    }
+    return mapped;
+  }).join('+');
+}
+
+/**
+ * Whether a Tesseract binary can be started
+ */
+export async function isTesseractAvailable(): Promise<boolean> {
+  try {
+    await runTesseract(['--version']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function runTesseract(args: string[], signal?: AbortSignal): Promise<Buffer> {
+  const tesseractPath = process.env.TESSERACT_PATH || 'tesseract';
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(aborted());
+      return;
+    }
+
+    const child = spawn(tesseractPath, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    let stderr = '';
+
+    const timer = setTimeout(() => child.kill('SIGKILL'), TESSERACT_TIMEOUT_MS);
+    const onAbort = () => child.kill('SIGKILL');
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    child.stdout?.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr?.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      cleanup();
+      reject(error.code === 'ENOENT'
+        ? new ProviderError(`Tesseract not found at '${tesseractPath}'; install it or set TESSERACT_PATH`, 'unavailable', undefined, 'tesseract')
+        : error);
+    });
+
+    child.on('close', (code: number | null) => {
+      cleanup();
+      if (signal?.aborted) {
+        reject(aborted());
+      } else if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        reject(new Error(`Tesseract exited with ${code ?? 'a signal'}: ${stderr.trim() || 'no output'}`));
+      }
+    });
+  });
+}
+
+function aborted(): Error {
+  return Object.assign(new Error('Tesseract transform aborted'), { name: 'AbortError' });
+}
+
+export default TesseractImageToTextModel;
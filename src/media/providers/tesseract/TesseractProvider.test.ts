@@ -0,0 +1,99 @@
+/**
+ * TesseractProvider Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MediaCapability } from '../../types/provider';
+import { Image } from '../../assets/roles';
+import { ImageToTextModel } from '../../models/abstracts/ImageToTextModel';
+import { describeProviderConformance } from '../../../test/ProviderConformance';
+
+// Fake tesseract: prints a fixed transcript and records its arguments
+const cli = vi.hoisted(() => {
+  const state = { calls: [] as string[][] };
+  const spawn = vi.fn((_command: string, args: string[]) => {
+    const { EventEmitter } = require('events');
+    state.calls.push(args);
+    const child: any = Object.assign(new EventEmitter(), {
+      stdout: new EventEmitter(),
+      stderr: new EventEmitter(),
+      kill: vi.fn()
+    });
+    setTimeout(() => {
+      child.stdout.emit('data', Buffer.from('Hello\nWorld\n'));
+      child.emit('close', 0);
+    }, 0);
+    return child;
+  });
+  return Object.assign(state, { spawn });
+});
+
+vi.mock('child_process', async (importOriginal) => {
+  const actual = await importOriginal() as any;
+  return { ...actual, default: { ...actual, spawn: cli.spawn }, spawn: cli.spawn };
+});
+
+// The image is handed to tesseract through a real temporary file
+vi.mock('fs', async (importOriginal) => await importOriginal());
+
+vi.mock('../../registry/ProviderRegistry', () => ({
+  ProviderRegistry: { getInstance: () => ({ register: vi.fn() }) }
+}));
+
+import { TesseractProvider } from './TesseractProvider';
+import { toTesseractLanguage } from './TesseractImageToTextModel';
+
+const image = new Image(Buffer.from('png'), 'png', { format: 'png' });
+
+describeProviderConformance('TesseractProvider', {
+  createProvider: () => new TesseractProvider(),
+  samples: {
+    [MediaCapability.IMAGE_TO_TEXT]: { input: image }
+  }
+});
+
+describe('TesseractProvider', () => {
+  beforeEach(() => {
+    cli.calls = [];
+  });
+
+  it('should read the text in an image with the tesseract CLI', async () => {
+    const provider = new TesseractProvider();
+    const [listed] = provider.getModelsForCapability(MediaCapability.IMAGE_TO_TEXT);
+    const model = await provider.getModel(listed.id);
+    expect(model).toBeInstanceOf(ImageToTextModel);
+
+    const text = await model.transform(image, { language: 'deu', pageSegmentationMode: 6 });
+
+    expect(text.content).toBe('Hello\nWorld');
+    expect(text.language).toBe('deu');
+    expect(text.metadata?.generation_prompt).toBeDefined();
+    expect(cli.calls[0].slice(1)).toEqual(['stdout', '-l', 'deu', '--psm', '6']);
+    expect(cli.calls[0][0]).toMatch(/input\.png$/);
+  });
+
+  it('should map ISO 639-1 language codes to Tesseract codes', async () => {
+    const model = await new TesseractProvider().getModel('tesseract-ocr');
+    const text = await model.transform(image, { language: 'de' });
+
+    expect(cli.calls[0].slice(1)).toEqual(['stdout', '-l', 'deu']);
+    expect(text.language).toBe('de');
+    expect(toTesseractLanguage('en+zh-TW')).toBe('eng+chi_tra');
+    expect(toTesseractLanguage('chi_sim+eng')).toBe('chi_sim+eng');
+    expect(() => toTesseractLanguage('xx')).toThrow(/Unknown language 'xx'/);
+  });
+
+  it('should reject captions and questions', async () => {
+    const model = await new TesseractProvider().getModel('tesseract-ocr');
+
+    await expect(model.transform(image, { task: 'caption' })).rejects.toMatchObject({ kind: 'invalid_input' });
+    await expect(model.transform(image, { prompt: 'What is this?' })).rejects.toMatchObject({ kind: 'invalid_input' });
+    expect(cli.calls).toHaveLength(0);
+  });
+
+  it('should report healthy when the binary starts', async () => {
+    const health = await new TesseractProvider().getHealth();
+    expect(health.status).toBe('healthy');
+    expect(cli.calls[0]).toEqual(['--version']);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * TesseractProvider
+ *
+ * Local OCR provider: reads text from images with the Tesseract CLI, so
+ * `image.asRole(Text)` works without API keys or network. Needs `tesseract`
+ * on the PATH or TESSERACT_PATH, plus the trained data for each language
+ * used (`eng` by default). The model carries no pricing, so priced vision
+ * models rank above it when both are enabled.
+ */
+
+import {
+  MediaProvider,
+  ProviderType,
+  MediaCapability,
+  ProviderModel,
+  ProviderConfig
+} from '../../types/provider';
+import { ProviderRegistry } from '../../registry/ProviderRegistry';
+import { getProviderJobCounts } from '../../registry/ProviderLoad';
+import { TesseractImageToTextModel, isTesseractAvailable } from './TesseractImageToTextModel';
+
+export class TesseractProvider implements MediaProvider {
+  readonly id = 'tesseract';
+  readonly name = 'Tesseract OCR';
+  readonly type = ProviderType.LOCAL;
+  readonly capabilities = [MediaCapability.IMAGE_TO_TEXT];
+  readonly models: ProviderModel[] = [{
+    id: 'tesseract-ocr',
+    name: 'Tesseract OCR',
+    description: 'Extracts printed text from images',
+    capabilities: [MediaCapability.IMAGE_TO_TEXT],
+    parameters: {
+      language: { type: 'string', default: 'eng', description: 'Language of the text: an ISO 639-1 code such as en, or Tesseract codes such as eng or deu+eng' },
+      pageSegmentationMode: { type: 'number', min: 0, max: 13, description: 'Page segmentation mode (--psm)' }
+    }
+  }];
+
+  private tesseractAvailable?: Promise<boolean>;
+
+  async configure(_config: ProviderConfig): Promise<void> {
+    // Nothing to configure; re-check the binary on the next probe
+    this.tesseractAvailable = undefined;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    this.tesseractAvailable ??= isTesseractAvailable();
+    return this.tesseractAvailable;
+  }
+
+  getModelsForCapability(capability: MediaCapability): ProviderModel[] {
+    return this.models.filter(model => model.capabilities.includes(capability));
+  }
+
+  async getModel(modelId: string): Promise<any> {
+    if (!this.models.some(model => model.id === modelId)) {
+      throw new Error(`Model ${modelId} not found in tesseract provider`);
+    }
+    return new TesseractImageToTextModel();
+  }
+
+  async getHealth(): Promise<{
+    status: 'healthy' | 'degraded' | 'unhealthy';
+    uptime: number;
+    activeJobs: number;
+    queuedJobs: number;
+    lastError?: string;
+  }> {
+    const available = await this.isAvailable();
+
+    return {
+      status: available ? 'healthy' : 'unhealthy',
+      uptime: process.uptime(),
+      ...getProviderJobCounts(this.id),
+      ...(!available && { lastError: 'Tesseract not found (set TESSERACT_PATH)' })
+    };
+  }
+}
+
+ProviderRegistry.getInstance().register('tesseract', TesseractProvider);
@@ -0,0 +1,7 @@
+/**
+ * Tesseract Provider - local OCR
+ */
+
+export { TesseractProvider } from './TesseractProvider';
+export { TesseractImageToTextModel, toTesseractLanguage } from './TesseractImageToTextModel';
+export type { TesseractImageToTextOptions } from './TesseractImageToTextModel';
@@ -0,0 +1,93 @@
+/**
+ * MediaConduitConfig Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConfigValidationError, parseConfig, resolveModel } from './MediaConduitConfig';
+
+const KNOWN = { knownProviders: ['fal-ai', 'openai'] };
+
+function issuesOf(text: string, options: Parameters<typeof parseConfig>[2] = KNOWN): string[] {
+  try {
+    parseConfig(text, 'test.yml', options);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    return (error as ConfigValidationError).issues;
+  }
+  throw new Error('Expected the config to be rejected');
+}
+
+describe('parseConfig', () => {
+  it('should interpolate environment variables and apply defaults', () => {
+    const config = parseConfig(`
+providers:
+  fal-ai:
+    config:
+      apiKey: \${FALAI_KEY}
+      baseUrl: https://\${FAL_HOST:-fal.run}/v1
+      timeout: \${FAL_TIMEOUT}
+    aliases:
+      flux: fal-ai/flux-pro
+  custom:
+    source: github:acme/provider@v1
+`, 'test.yml', { ...KNOWN, env: { FALAI_KEY: 'fal-123', FAL_TIMEOUT: '60000' } });
+
+    expect(config.version).toBe(1);
+    expect(config.providers['fal-ai']).toMatchObject({
+      enabled: true,
+      config: { apiKey: 'fal-123', baseUrl: 'https://fal.run/v1', timeout: 60000 },
+      aliases: { flux: 'fal-ai/flux-pro' },
+      defaults: {}
+    });
+    expect(config.providers.custom.source).toBe('github:acme/provider@v1');
+  });
+
+  it('should report every problem with its location', () => {
+    const issues = issuesOf(`
+providers:
+  fal-ai:
+    config:
+      apiKey: \${MISSING_KEY}
+      timeout: soon
+      apiKye: typo
+  unknown-provider: {}
+  openai:
+    enabled: false
+    config:
+      apiKey: \${ALSO_MISSING}
+`, { ...KNOWN, env: {} });
+
+    expect(issues).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^providers\.fal-ai\.config\.apiKey: environment variable MISSING_KEY is not set/),
+      expect.stringMatching(/^providers\.fal-ai\.config\.timeout: /),
+      expect.stringMatching(/^providers\.fal-ai\.config: Unrecognized key\(s\) in object: 'apiKye'/),
+      expect.stringMatching(/^providers\.unknown-provider: unknown built-in provider/)
+    ]));
+    expect(issues.join('\n')).not.toMatch(/ALSO_MISSING/);
+  });
+
+  it('should require a source for providers that are not built in', () => {
+    expect(issuesOf('providers:\n  unknown-provider: {}\n')).toEqual([
+      expect.stringMatching(/^providers\.unknown-provider: unknown built-in provider/)
+    ]);
+    expect(issuesOf('providers: [\n')[0]).toBeTruthy();
+  });
+});
+
+describe('resolveModel', () => {
+  it('should resolve aliases and default options', () => {
+    const config = parseConfig(`
+providers:
+  fal-ai:
+    aliases:
+      flux: fal-ai/flux-pro
+    defaults:
+      fal-ai/flux-pro:
+        num_inference_steps: 28
+`);
+
+    expect(resolveModel(config, 'fal-ai', 'flux')).toEqual({ modelId: 'fal-ai/flux-pro', options: { num_inference_steps: 28 } });
+    expect(resolveModel(config, 'fal-ai', 'other')).toEqual({ modelId: 'other', options: {} });
+    expect(resolveModel(undefined, 'openai', 'gpt-4o')).toEqual({ modelId: 'gpt-4o', options: {} });
+  });
+});
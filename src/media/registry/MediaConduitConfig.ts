@@ -0,0 +1,168 @@
+/**
+ * MediaConduit Configuration File
+ *
+ * Declarative setup in mediaconduit.config.yml: which built-in and dynamic
+ * providers to load, the ProviderConfig passed to each, model aliases and
+ * default transform options. String values may reference environment
+ * variables as ${VAR} or ${VAR:-fallback}.
+ *
+ * Example:
+ *   providers:
+ *     fal-ai:
+ *       config:
+ *         apiKey: ${FALAI_API_KEY}
+ *       aliases:
+ *         flux: fal-ai/flux-pro
+ *       defaults:
+ *         fal-ai/flux-pro:
+ *           num_inference_steps: 28
+ *     my-tts:
+ *       source: github:acme/my-tts-provider@v1.2.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import { z } from 'zod';
+import { ProviderConfigSchema } from '../types/provider';
+
+export const CONFIG_FILE_NAME = 'mediaconduit.config.yml';
+
+export const ProviderEntrySchema = z.object({
+  enabled: z.boolean().default(true),
+  source: z.string().min(1).optional(),             // github:, file: or npm identifier of a dynamic provider
+  config: ProviderConfigSchema.strict().optional(), // Passed to provider.configure()
+  aliases: z.record(z.string().min(1)).default({}), // Alias -> model ID within this provider
+  defaults: z.record(z.record(z.any())).default({}) // Model ID -> default transform options
+}).strict();
+
+export const MediaConduitConfigSchema = z.object({
+  version: z.literal(1).default(1),
+  providers: z.record(ProviderEntrySchema).default({})
+}).strict();
+
+export type ProviderEntry = z.infer<typeof ProviderEntrySchema>;
+export type MediaConduitConfig = z.infer<typeof MediaConduitConfigSchema>;
+
+export interface ConfigParseOptions {
+  env?: Record<string, string | undefined>;
+  knownProviders?: string[];     // Static provider IDs; other entries need a `source`
+}
+
+/**
+ * Error listing every problem found in the config file
+ */
+export class ConfigValidationError extends Error {
+  constructor(public filePath: string, public issues: string[]) {
+    super(`Invalid ${filePath}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+/**
+ * Config file location: MEDIACONDUIT_CONFIG or ./mediaconduit.config.yml
+ */
+export function getConfigPath(): string {
+  return process.env.MEDIACONDUIT_CONFIG || path.join(process.cwd(), CONFIG_FILE_NAME);
+}
+
+/**
+ * Read and validate the config file
+ * @returns the config, or undefined when the file does not exist
+ * @throws ConfigValidationError
+ */
+export function loadConfig(filePath: string = getConfigPath(), options: ConfigParseOptions = {}): MediaConduitConfig | undefined {
+  if (!fs.existsSync(filePath)) return undefined;
+  return parseConfig(fs.readFileSync(filePath, 'utf-8'), filePath, options);
+}
+
+/**
+ * Parse YAML config text, interpolate environment variables and validate it.
+ * Entries with `enabled: false` are validated but not interpolated, so their
+ * variables need not be set.
+ * @throws ConfigValidationError
+ */
+export function parseConfig(text: string, filePath: string = CONFIG_FILE_NAME, options: ConfigParseOptions = {}): MediaConduitConfig {
+  const env = options.env || process.env;
+  const issues: string[] = [];
+
+  const document = yaml.parseDocument(text);
+  if (document.errors.length > 0) {
+    throw new ConfigValidationError(filePath, document.errors.map(error => error.message));
+  }
+
+  const raw = document.toJS() ?? {};
+  if (raw.providers && typeof raw.providers === 'object' && !Array.isArray(raw.providers)) {
+    for (const [id, entry] of Object.entries<any>(raw.providers)) {
+      if (entry?.enabled !== false) {
+        raw.providers[id] = interpolateEnv(entry, env, `providers.${id}`, issues);
+      }
+    }
+  }
+
+  const result = MediaConduitConfigSchema.safeParse(raw);
+  if (!result.success) {
+    issues.push(...result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`));
+  }
+
+  if (options.knownProviders && raw.providers && typeof raw.providers === 'object') {
+    for (const [id, entry] of Object.entries<any>(raw.providers)) {
+      if (!entry?.source && !options.knownProviders.includes(id)) {
+        issues.push(`providers.${id}: unknown built-in provider; set \`source\` to load it dynamically (built-in: ${options.knownProviders.join(', ')})`);
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(filePath, issues);
+  }
+  return result.data!;
+}
+
+/**
+ * Replace ${VAR} and ${VAR:-fallback} in every string. A value that is only a
+ * placeholder takes the type its text reads as, so `timeout: ${TIMEOUT}` stays a number.
+ */
+export function interpolateEnv(value: any, env: Record<string, string | undefined>, at: string, issues: string[]): any {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateEnv(item, env, `${at}.${index}`, issues));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateEnv(item, env, `${at}.${key}`, issues)])
+    );
+  }
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const pattern = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+  const replaced = value.replace(pattern, (_, name: string, fallback?: string) => {
+    const resolved = env[name] ?? fallback;
+    if (resolved === undefined) {
+      issues.push(`${at}: environment variable ${name} is not set (use \${${name}:-default} to make it optional)`);
+      return '';
+    }
+    return resolved;
+  });
+
+  if (replaced !== value && new RegExp(`^${pattern.source}$`).test(value)) {
+    if (/^-?\d+(\.\d+)?$/.test(replaced)) return Number(replaced);
+    if (replaced === 'true' || replaced === 'false') return replaced === 'true';
+  }
+  return replaced;
+}
+
+/**
+ * Resolve a model alias of a provider and the default options of the model.
+ * Unknown aliases resolve to themselves.
+ */
+export function resolveModel(
+  config: MediaConduitConfig | undefined,
+  providerId: string,
+  modelId: string
+): { modelId: string; options: Record<string, any> } {
+  const entry = config?.providers[providerId];
+  const resolved = entry?.aliases[modelId] ?? modelId;
+  return { modelId: resolved, options: { ...entry?.defaults[resolved] } };
+}
@@ -0,0 +1,89 @@
+/**
+ * ModelCatalog Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { collectProviderModels, getModelFormats, searchCatalog } from './ModelCatalog';
+import { ProviderHealthMonitor } from './ProviderHealth';
+import { MediaCapability, MediaProvider, ProviderModel, ProviderType } from '../types/provider';
+
+// Fake provider; `extra` models are only reported by getModelsForCapability(), like dynamic discovery
+function createProvider(
+  id: string,
+  models: Array<Partial<ProviderModel> & { id: string }>,
+  options: { type?: ProviderType; available?: boolean; extra?: ProviderModel[] } = {}
+): MediaProvider {
+  const listed = models.map(model => ({
+    name: model.id,
+    capabilities: [MediaCapability.AUDIO_TO_TEXT],
+    parameters: {},
+    ...model
+  }));
+  const all = [...listed, ...(options.extra || [])];
+
+  return {
+    id,
+    name: `${id} provider`,
+    type: options.type ?? ProviderType.REMOTE,
+    capabilities: Array.from(new Set(all.flatMap(model => model.capabilities))),
+    models: listed,
+    getModelsForCapability: (capability: MediaCapability) => all.filter(model => model.capabilities.includes(capability)),
+    isAvailable: async () => options.available ?? true,
+    getHealth: async () => ({ status: 'healthy', uptime: 0, activeJobs: 0, queuedJobs: 0 })
+  } as unknown as MediaProvider;
+}
+
+const priced = (cost: number) => ({ inputCost: 0, outputCost: cost, currency: 'USD' });
+
+describe('ModelCatalog', () => {
+  const providers = [
+    createProvider('openai', [
+      { id: 'whisper-1', inputFormats: ['mp3', 'wav'], pricing: priced(0.006) },
+      { id: 'gpt-4o', capabilities: [MediaCapability.TEXT_TO_TEXT], pricing: priced(0.02) }
+    ]),
+    createProvider('whisper-docker', [{ id: 'whisper-large' }], { type: ProviderType.LOCAL }),
+    createProvider('huggingface-docker', [], {
+      type: ProviderType.LOCAL,
+      available: false,
+      extra: [{
+        id: 'facebook/musicgen-small',
+        name: 'MusicGen',
+        capabilities: [MediaCapability.TEXT_TO_AUDIO],
+        parameters: { format: { type: 'string', options: ['wav', 'mp3'] } }
+      }]
+    })
+  ];
+
+  it('should include models only reported through getModelsForCapability()', () => {
+    expect(collectProviderModels(providers[2]).map(model => model.id)).toEqual(['facebook/musicgen-small']);
+    expect(getModelFormats(collectProviderModels(providers[2])[0])).toEqual({
+      inputFormats: ['txt'],
+      outputFormats: ['wav', 'mp3']
+    });
+  });
+
+  it('should filter by capability, input format, locality, price and availability', async () => {
+    const ids = async (query: any) =>
+      (await searchCatalog(providers, query, new ProviderHealthMonitor())).models.map(entry => `${entry.providerId}/${entry.id}`);
+
+    expect(await ids({ capability: MediaCapability.AUDIO_TO_TEXT, inputFormat: 'MP3' }))
+      .toEqual(['openai/whisper-1', 'whisper-docker/whisper-large']);
+    expect(await ids({ capability: MediaCapability.AUDIO_TO_TEXT, inputFormat: 'flac' }))
+      .toEqual(['whisper-docker/whisper-large']);
+    expect(await ids({ type: ProviderType.LOCAL })).toEqual(['huggingface-docker/facebook/musicgen-small', 'whisper-docker/whisper-large']);
+    expect(await ids({ maxCost: 0.01 })).toEqual(['openai/whisper-1']);
+    expect(await ids({ available: false })).toEqual(['huggingface-docker/facebook/musicgen-small']);
+    expect(await ids({ outputFormat: 'mp3', search: 'music' })).toEqual(['huggingface-docker/facebook/musicgen-small']);
+  });
+
+  it('should paginate in a stable order', async () => {
+    const health = new ProviderHealthMonitor();
+    const first = await searchCatalog(providers, { limit: 3 }, health);
+    const second = await searchCatalog(providers, { limit: 3, offset: first.nextOffset }, health);
+
+    expect(first).toMatchObject({ total: 4, limit: 3, offset: 0, nextOffset: 3 });
+    expect(second.models.map(entry => entry.id)).toEqual(['whisper-large']);
+    expect(second.nextOffset).toBeUndefined();
+    expect(first.models[0]).toMatchObject({ providerId: 'huggingface-docker', available: false, health: 'unhealthy' });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Model Catalog
+ *
+ * Registry-wide view of every model the loaded providers offer, built on each
+ * query so that models providers discover at runtime (fal.ai, HuggingFace) are
+ * included. Entries carry the formats, price and cached availability needed to
+ * answer questions like "which local models turn mp3 audio into text for less
+ * than 0.01".
+ */
+
+import { MediaCapability, MediaProvider, ProviderModel, ProviderType } from '../types/provider';
+import { AUDIO_FORMATS, IMAGE_FORMATS, VIDEO_FORMATS } from '../assets/roles/types/formats';
+import { ProviderHealthMonitor } from './ProviderHealth';
+import { ProviderHealthStatus, getModelCost } from './ProviderRouter';
+
+export const DEFAULT_CATALOG_LIMIT = 50;
+export const MAX_CATALOG_LIMIT = 200;
+
+/**
+ * Formats of each kind of media, used for models that do not declare their own
+ */
+const MEDIA_FORMATS: Record<string, string[]> = {
+  text: ['txt'],
+  image: IMAGE_FORMATS,
+  video: VIDEO_FORMATS,
+  audio: AUDIO_FORMATS,
+  '3d': []
+};
+
+// Parameters that select the output format, in the names providers use
+const FORMAT_PARAMETERS = ['format', 'outputFormat', 'output_format', 'response_format'];
+
+export interface CatalogEntry {
+  id: string;
+  name: string;
+  description?: string;
+  providerId: string;
+  providerName: string;
+  providerType: ProviderType;
+  capabilities: MediaCapability[];
+  inputFormats: string[];
+  outputFormats: string[];
+  parameters: Record<string, any>;
+  pricing?: ProviderModel['pricing'];
+  cost?: number;                   // inputCost + outputCost, undefined when unpriced
+  available: boolean;              // Provider available, not unhealthy and its circuit not open
+  health: ProviderHealthStatus;
+}
+
+export interface CatalogQuery {
+  capability?: MediaCapability;
+  inputFormat?: string;
+  outputFormat?: string;
+  type?: ProviderType;
+  provider?: string;
+  maxCost?: number;                // Unpriced models never match a cost ceiling
+  available?: boolean;
+  search?: string;                 // Case-insensitive match on ID, name and description
+  limit?: number;
+  offset?: number;
+}
+
+export interface CatalogPage {
+  models: CatalogEntry[];
+  total: number;                   // Matches across all pages
+  limit: number;
+  offset: number;
+  nextOffset?: number;             // Undefined on the last page
+}
+
+/**
+ * Every model of a provider: its `models` plus models only reported through
+ * getModelsForCapability(), merged by ID
+ */
+export function collectProviderModels(provider: MediaProvider): ProviderModel[] {
+  const models = new Map<string, ProviderModel>();
+
+  const add = (model: ProviderModel) => {
+    const existing = models.get(model.id);
+    models.set(model.id, existing
+      ? { ...existing, capabilities: Array.from(new Set([...existing.capabilities, ...model.capabilities])) }
+      : model);
+  };
+
+  (provider.models || []).forEach(add);
+  for (const capability of provider.capabilities || []) {
+    try {
+      provider.getModelsForCapability(capability).forEach(add);
+    } catch (error) {
+      console.warn(`Failed to list ${capability} models of ${provider.id}:`, error);
+    }
+  }
+
+  return Array.from(models.values());
+}
+
+/**
+ * Input and output formats of a model: declared ones first, then its format
+ * parameter, then every format of the media its capabilities consume/produce
+ */
+export function getModelFormats(model: ProviderModel): { inputFormats: string[]; outputFormats: string[] } {
+  const media = (side: 0 | 1) =>
+    Array.from(new Set(model.capabilities.flatMap(capability => MEDIA_FORMATS[capability.split('-to-')[side]] || [])));
+
+  return {
+    inputFormats: model.inputFormats ?? media(0),
+    outputFormats: model.outputFormats ?? getParameterFormats(model.parameters) ?? media(1)
+  };
+}
+
+/**
+ * Query the catalog of the given providers
+ */
+export async function searchCatalog(
+  providers: MediaProvider[],
+  query: CatalogQuery = {},
+  health: ProviderHealthMonitor = ProviderHealthMonitor.getInstance()
+): Promise<CatalogPage> {
+  const limit = Math.min(query.limit ?? DEFAULT_CATALOG_LIMIT, MAX_CATALOG_LIMIT);
+  const offset = query.offset ?? 0;
+
+  const candidates = providers.filter(provider =>
+    (!query.provider || provider.id === query.provider) &&
+    (!query.type || provider.type === query.type)
+  );
+
+  const entries = (await Promise.all(candidates.map(provider => buildEntries(provider, health))))
+    .flat()
+    .filter(entry => matches(entry, query))
+    .sort((a, b) => a.providerId.localeCompare(b.providerId) || a.id.localeCompare(b.id));
+
+  const models = entries.slice(offset, offset + limit);
+  return {
+    models,
+    total: entries.length,
+    limit,
+    offset,
+    nextOffset: offset + models.length < entries.length ? offset + models.length : undefined
+  };
+}
+
+async function buildEntries(provider: MediaProvider, health: ProviderHealthMonitor): Promise<CatalogEntry[]> {
+  const models = collectProviderModels(provider);
+  if (models.length === 0) return [];
+
+  const status = await health.getStatus(provider);
+  const available = status.isAvailable && status.health.status !== 'unhealthy' && status.circuit.state !== 'open';
+
+  return models.map(model => ({
+    id: model.id,
+    name: model.name,
+    description: model.description,
+    providerId: provider.id,
+    providerName: provider.name,
+    providerType: provider.type,
+    capabilities: model.capabilities,
+    ...getModelFormats(model),
+    parameters: model.parameters,
+    pricing: model.pricing,
+    cost: getModelCost(model),
+    available,
+    health: status.health.status
+  }));
+}
+
+function matches(entry: CatalogEntry, query: CatalogQuery): boolean {
+  if (query.capability && !entry.capabilities.includes(query.capability)) return false;
+  if (query.inputFormat && !entry.inputFormats.includes(query.inputFormat.toLowerCase())) return false;
+  if (query.outputFormat && !entry.outputFormats.includes(query.outputFormat.toLowerCase())) return false;
+  if (query.maxCost !== undefined && (entry.cost === undefined || entry.cost > query.maxCost)) return false;
+  if (query.available !== undefined && entry.available !== query.available) return false;
+
+  if (query.search) {
+    const needle = query.search.toLowerCase();
+    const haystack = [entry.id, entry.name, entry.description || ''].join(' ').toLowerCase();
+    if (!haystack.includes(needle)) return false;
+  }
+
+  return true;
+}
+
+function getParameterFormats(parameters: Record<string, any> = {}): string[] | undefined {
+  for (const name of FORMAT_PARAMETERS) {
+    const values = parameters[name]?.enum ?? parameters[name]?.options;
+    if (Array.isArray(values) && values.every(value => typeof value === 'string')) {
+      return values.map(value => value.toLowerCase());
+    }
+  }
+  return undefined;
+}
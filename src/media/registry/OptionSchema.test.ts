@@ -0,0 +1,66 @@
+/**
+ * OptionSchema Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getModelOptionSchema, getModelOptionSchemas, parameterToSchema, validateOptions } from './OptionSchema';
+import { MediaCapability, ProviderModel } from '../types/provider';
+
+const model = (parameters: ProviderModel['parameters'], capabilities = [MediaCapability.TEXT_TO_AUDIO]): ProviderModel => ({
+  id: 'test-model',
+  name: 'Test Model',
+  capabilities,
+  parameters
+});
+
+describe('OptionSchema', () => {
+  it('should convert declared parameters to JSON Schema', () => {
+    expect(parameterToSchema({ type: 'number', default: 1.0, range: [0.5, 2.0] }))
+      .toEqual({ type: 'number', default: 1.0, minimum: 0.5, maximum: 2.0 });
+    expect(parameterToSchema({ type: 'string', options: ['wav', 'mp3'], description: 'Format' }))
+      .toEqual({ type: 'string', enum: ['wav', 'mp3'], description: 'Format' });
+    expect(parameterToSchema({ type: 'string|number', enum: ['a', 1] })).toEqual({ type: ['string', 'number'], enum: ['a', 1] });
+    expect(parameterToSchema({ type: 'file', required: true })).toEqual({ type: 'string' });
+    expect(parameterToSchema({ type: 'array', items: { type: 'string', options: ['word', 'segment'] } }))
+      .toEqual({ type: 'array', items: { type: 'string', enum: ['word', 'segment'] } });
+  });
+
+  it('should extend the abstract options with declared parameters', () => {
+    const schema = getModelOptionSchema(model({ speed: { type: 'number', min: 0.25, max: 4 }, style: { type: 'string' } }), MediaCapability.TEXT_TO_AUDIO);
+
+    expect(schema.additionalProperties).toBe(false);
+    expect(schema.properties!.voice).toMatchObject({ type: 'string' });          // From TextToAudioOptions
+    expect(schema.properties!.speed).toEqual({ type: 'number', minimum: 0.25, maximum: 4 });
+    expect(schema.properties!.style).toEqual({ type: 'string' });
+
+    // Nothing known about video-to-image options, so none are rejected
+    expect(getModelOptionSchemas(model({}, [MediaCapability.VIDEO_TO_IMAGE]))[MediaCapability.VIDEO_TO_IMAGE])
+      .toMatchObject({ properties: { cache: { enum: ['skip', 'refresh'] } }, additionalProperties: true });
+  });
+
+  it('should report field-level issues and suggest likely typos', () => {
+    const speech = getModelOptionSchema(model({ speed: { type: 'number', min: 0.25, max: 4 } }), MediaCapability.TEXT_TO_AUDIO);
+    expect(validateOptions(speech, { voice: 'nova', speed: 1.5, format: 'mp3' })).toEqual([]);
+    expect(validateOptions(speech, { speeed: 1.5, speed: 9, format: 'aiff', volume: 'loud' })).toEqual([
+      { path: 'speeed', message: "Unknown option (did you mean 'speed'?)" },
+      { path: 'speed', message: 'Must be <= 4' },
+      { path: 'format', message: 'Expected one of: "mp3", "wav", "flac", "ogg"' },
+      { path: 'volume', message: 'Expected number, got string' }
+    ]);
+
+    const chat = getModelOptionSchema(model({}, [MediaCapability.TEXT_TO_TEXT]), MediaCapability.TEXT_TO_TEXT);
+    expect(validateOptions(chat, { max_output_tokens: 10, responseFormat: { type: 'json_object' } })).toEqual([
+      { path: 'max_output_tokens', message: "Unknown option (did you mean 'maxOutputTokens'?)" }
+    ]);
+    expect(validateOptions(chat, { maxOutputTokens: 1.5, responseFormat: 'xml' })).toEqual([
+      { path: 'maxOutputTokens', message: 'Expected integer, got number' },
+      { path: 'responseFormat', message: 'Does not match any allowed form ("text" | "json"; object)' }
+    ]);
+
+    const composition = getModelOptionSchema(model({}, [MediaCapability.VIDEO_TO_VIDEO]), MediaCapability.VIDEO_TO_VIDEO);
+    expect(validateOptions(composition, { overlayConfigs: [{ opacity: 0.5 }, { opacity: 2, blend: 'screen' }] })).toEqual([
+      { path: 'overlayConfigs[1].opacity', message: 'Must be <= 1' },
+      { path: 'overlayConfigs[1].blend', message: 'Unknown option' }
+    ]);
+  });
+});
@@ -0,0 +1,458 @@
+/**
+ * Option Schemas
+ *
+ * Publishes a JSON Schema for the options each model accepts and validates
+ * transform options against it before any work is queued. A model's schema is
+ * the options of the abstract interface behind each of its capabilities
+ * (TextToImageOptions, TextToAudioOptions, ...) extended or overridden by the
+ * parameters the provider declares for the model, e.g. fal.ai's discovered
+ * schemas. Unknown options are rejected, with a suggestion when they look like
+ * a typo of a known one.
+ */
+
+import { MediaCapability, ModelParameter, ProviderModel } from '../types/provider';
+
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+/**
+ * The subset of JSON Schema used to describe options (and structured model
+ * replies, see utils/StructuredOutput)
+ */
+export interface JSONSchema {
+  $schema?: string;
+  type?: JSONSchemaType | JSONSchemaType[];
+  description?: string;
+  enum?: any[];
+  minimum?: number;
+  maximum?: number;
+  default?: any;
+  items?: JSONSchema;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  anyOf?: JSONSchema[];
+}
+
+/**
+ * A field-level validation failure; `path` is e.g. "speed" or "overlayConfigs[0].opacity"
+ */
+export interface OptionIssue {
+  path: string;
+  message: string;
+}
+
+const JSON_SCHEMA_DRAFT = 'https://json-schema.org/draft/2020-12/schema';
+
+const JSON_SCHEMA_TYPES: JSONSchemaType[] = ['string', 'number', 'integer', 'boolean', 'array', 'object'];
+
+const num = (description: string, minimum?: number, maximum?: number): JSONSchema =>
+  ({ type: 'number', description, minimum, maximum });
+const int = (description: string, minimum?: number, maximum?: number): JSONSchema =>
+  ({ type: 'integer', description, minimum, maximum });
+const str = (description: string, values?: string[]): JSONSchema =>
+  ({ type: 'string', description, enum: values });
+const bool = (description: string): JSONSchema => ({ type: 'boolean', description });
+
+const POSITIONS = [
+  'top-left', 'top-center', 'top-right',
+  'center-left', 'center', 'center-right',
+  'bottom-left', 'bottom-center', 'bottom-right'
+];
+const BLEND_MODES = ['normal', 'multiply', 'screen', 'overlay', 'soft-light', 'hard-light'];
+
+const OVERLAY_CONFIG: JSONSchema = {
+  type: 'object',
+  properties: {
+    startTime: num('When to start this overlay (seconds)', 0),
+    duration: num('How long to show this overlay (seconds)', 0),
+    position: str('Overlay position', POSITIONS),
+    offsetX: num('Additional horizontal offset (pixels)'),
+    offsetY: num('Additional vertical offset (pixels)'),
+    width: { type: ['number', 'string'], description: "Width in pixels or percentage ('50%')" },
+    height: { type: ['number', 'string'], description: "Height in pixels or percentage ('30%')" },
+    maintainAspectRatio: bool('Maintain the overlay aspect ratio'),
+    opacity: num('Overlay opacity', 0, 1),
+    blendMode: str('Blend mode', BLEND_MODES)
+  },
+  additionalProperties: false
+};
+
+/**
+ * Options of the abstract option interfaces, per capability. JSON-only options
+ * are listed; signal and onProgress are set by whatever runs the transform.
+ * Capabilities without an abstract options interface have no entry.
+ */
+export const CAPABILITY_OPTIONS: Partial<Record<MediaCapability, Record<string, JSONSchema>>> = {
+  // TextToTextOptions
+  [MediaCapability.TEXT_TO_TEXT]: {
+    seed: { type: ['string', 'number'], description: 'Seed for reproducible output' },
+    temperature: num('Sampling temperature', 0, 2),
+    topK: int('Top-k sampling', 1),
+    topP: num('Nucleus sampling probability mass', 0, 1),
+    maxOutputTokens: int('Maximum tokens to generate', 1),
+    systemPrompt: str('System instructions for the model'),
+    responseFormat: {
+      description: 'Response format for structured output',
+      anyOf: [
+        str('Response format', ['text', 'json']),
+        { type: 'object', properties: { type: str('Response type', ['json_object']) }, additionalProperties: false }
+      ]
+    },
+    responseSchema: { type: 'object', description: 'JSON Schema the reply must match; the parsed value is returned in the output metadata (parsed)' },
+    maxRepairAttempts: int('Retries with the validation errors fed back when the reply does not match responseSchema', 0),
+    tools: {
+      type: 'array',
+      description: 'Functions the model may call; calls are returned in the output metadata (toolCalls)',
+      items: {
+        type: 'object',
+        properties: {
+          name: str('Function name'),
+          description: str('What the function does'),
+          parameters: { type: 'object', description: 'JSON Schema of the arguments' }
+        },
+        additionalProperties: false
+      }
+    },
+    toolChoice: {
+      description: 'Whether the model may, must not or must call a tool, or which one',
+      anyOf: [
+        str('Tool choice', ['auto', 'none', 'required']),
+        { type: 'object', properties: { name: str('Function name') }, additionalProperties: false }
+      ]
+    },
+    maxToolRounds: int('Maximum rounds of tool execution', 1)
+  },
+
+  // TextToImageOptions
+  [MediaCapability.TEXT_TO_IMAGE]: {
+    width: int('Image width in pixels', 1),
+    height: int('Image height in pixels', 1),
+    aspectRatio: str("Aspect ratio, e.g. '16:9'"),
+    quality: { type: ['number', 'string'], description: 'Quality (steps or a named level)' },
+    format: str('Output image format', ['jpg', 'png', 'webp']),
+    seed: int('Seed for reproducible output'),
+    negativePrompt: str('What to avoid'),
+    guidanceScale: num('Prompt adherence', 0),
+    steps: int('Inference steps', 1)
+  },
+
+  // ImageToImageOptions
+  [MediaCapability.IMAGE_TO_IMAGE]: {
+    prompt: str('Guidance for style transfer or enhancement'),
+    negativePrompt: str('What to avoid'),
+    strength: num('How much to change the original image', 0, 1),
+    scale: num('Upscaling factor', 0),
+    denoise: bool('Denoise (enhancement models)'),
+    quality: str('Quality level', ['low', 'medium', 'high']),
+    format: str('Output image format', ['jpg', 'png', 'webp']),
+    seed: int('Seed for reproducible output'),
+    guidanceScale: num('Prompt adherence', 0),
+    steps: int('Inference steps', 1)
+  },
+
+  // TextToVideoOptions
+  [MediaCapability.TEXT_TO_VIDEO]: {
+    duration: num('Video duration in seconds', 0),
+    width: int('Video width in pixels', 1),
+    height: int('Video height in pixels', 1),
+    aspectRatio: str("Aspect ratio, e.g. '16:9'"),
+    fps: num('Frames per second', 0),
+    quality: {
+      description: "Quality (0.0 to 1.0 or 'low'/'medium'/'high')",
+      anyOf: [num('Quality', 0, 1), str('Quality level', ['low', 'medium', 'high'])]
+    },
+    format: str('Output video format', ['mp4', 'webm', 'mov', 'avi']),
+    seed: int('Seed for reproducible output'),
+    motionStrength: num('Motion intensity', 0, 1),
+    loop: bool('Create a seamlessly looping video'),
+    negativePrompt: str('What to avoid'),
+    guidanceScale: num('Prompt adherence', 0),
+    steps: int('Inference steps', 1),
+    style: str('Style preset or artistic direction'),
+    cameraMovement: str('Camera movement', ['static', 'pan', 'zoom', 'dolly', 'orbit']),
+    lighting: str('Lighting condition', ['natural', 'studio', 'dramatic', 'soft', 'golden-hour'])
+  },
+
+  // ImageToVideoOptions
+  [MediaCapability.IMAGE_TO_VIDEO]: {
+    duration: num('Video duration in seconds', 0),
+    fps: num('Frames per second', 0),
+    motionStrength: num('Motion intensity', 0),
+    motionBucketId: int('Motion bucket ID'),
+    seed: int('Seed for reproducible output'),
+    loop: bool('Create a seamlessly looping video'),
+    interpolationSteps: int('Frame interpolation steps', 0),
+    guidanceScale: num('Prompt adherence', 0),
+    noiseAugStrength: num('Noise augmentation strength', 0),
+    prompt: str('Text prompt for guidance'),
+    negativePrompt: str('What to avoid')
+  },
+
+  // VideoCompositionOptions
+  [MediaCapability.VIDEO_TO_VIDEO]: {
+    overlayStartTime: num('When to start the overlay (seconds)', 0),
+    overlayDuration: num('How long to show the overlay (seconds)', 0),
+    position: str('Overlay position', POSITIONS),
+    offsetX: num('Additional horizontal offset (pixels)'),
+    offsetY: num('Additional vertical offset (pixels)'),
+    overlayWidth: { type: ['number', 'string'], description: "Width in pixels or percentage ('50%')" },
+    overlayHeight: { type: ['number', 'string'], description: "Height in pixels or percentage ('30%')" },
+    maintainAspectRatio: bool('Maintain the overlay aspect ratio'),
+    opacity: num('Overlay opacity', 0, 1),
+    blendMode: str('Blend mode', BLEND_MODES),
+    overlayConfigs: { type: 'array', description: 'Per-overlay configuration', items: OVERLAY_CONFIG },
+    outputFormat: str('Output video format', ['mp4', 'avi', 'mov', 'webm', 'mkv']),
+    outputQuality: str('Output quality', ['low', 'medium', 'high', 'ultra']),
+    outputResolution: str("Output resolution, e.g. '1920x1080'"),
+    framerate: num('Output framerate', 0),
+    codec: str('Video codec', ['libx264', 'libx265', 'libvpx', 'h264_nvenc', 'h265_nvenc', 'av1_nvenc']),
+    customFilterComplex: str('Custom FFmpeg filter complex'),
+    customParameters: { type: 'object', description: 'Model-specific custom parameters' },
+    customAudioMapping: bool('Use custom audio mapping instead of the input audio'),
+    smartPositioning: bool('Handle differing aspect ratios'),
+    fallbackPosition: str('Position used when smart positioning fails', POSITIONS),
+    videoOutputLabel: str('Label of the video output stream'),
+    audioOutputLabel: str('Label of the audio output stream')
+  },
+
+  // VideoToAudioOptions
+  [MediaCapability.VIDEO_TO_AUDIO]: {
+    outputFormat: str('Output audio format', ['wav', 'mp3', 'flac', 'm4a', 'aac', 'ogg', 'opus']),
+    sampleRate: int('Sample rate in Hz', 1),
+    channels: int('Number of audio channels', 1),
+    bitrate: str("Audio bitrate, e.g. '128k'"),
+    quality: str('Quality level', ['low', 'medium', 'high', 'lossless']),
+    startTime: num('Start time in seconds', 0),
+    duration: num('Duration in seconds to extract', 0),
+    volume: num('Volume multiplier', 0),
+    normalize: bool('Normalize audio levels'),
+    trackIndex: int('Audio track to extract', 0),
+    codec: str('Audio codec')
+  },
+
+  // TextToAudioOptions
+  [MediaCapability.TEXT_TO_AUDIO]: {
+    language: str("Language code, e.g. 'en'"),
+    speed: num('Speech rate multiplier', 0),
+    forceUpload: bool('Re-upload reference audio even if cached'),
+    format: str('Output audio format', ['mp3', 'wav', 'flac', 'ogg']),
+    voice: str('Voice identifier or name'),
+    pitch: num('Pitch adjustment'),
+    volume: num('Volume level', 0, 1),
+    quality: str('Quality level', ['low', 'medium', 'high', 'ultra']),
+    sampleRate: int('Sample rate in Hz', 1)
+  },
+
+  // AudioToTextOptions
+  [MediaCapability.AUDIO_TO_TEXT]: {
+    language: str("Source language code, e.g. 'en'"),
+    task: str('Transcribe, or translate to English', ['transcribe', 'translate']),
+    wordTimestamps: bool('Include word-level timestamps'),
+    temperature: num('Sampling temperature', 0, 1),
+    model: str('Model variant')
+  },
+
+  // ImageToTextOptions
+  [MediaCapability.IMAGE_TO_TEXT]: {
+    task: str('Describe the image, or read the text in it', ['caption', 'ocr']),
+    prompt: str('Question or instruction about the image (visual Q&A)'),
+    language: str('Language of the text in the image (OCR) or of the reply'),
+    maxOutputTokens: int('Maximum tokens to generate', 1)
+  }
+};
+
+/**
+ * Options every model accepts, consumed by whatever runs the transform
+ */
+export const TRANSFORM_OPTIONS: Record<string, JSONSchema> = {
+  cache: str("Transform cache: 'skip' bypasses it, 'refresh' replaces the cached result", ['skip', 'refresh'])
+};
+
+/**
+ * Convert a declared model parameter to JSON Schema. `required` is not carried
+ * over: required parameters (prompt, text) are usually filled from the input.
+ */
+export function parameterToSchema(parameter: ModelParameter): JSONSchema {
+  if (!parameter || typeof parameter !== 'object') return {};
+
+  const schema: JSONSchema = {};
+
+  const types = String(parameter.type || '')
+    .split('|')
+    .map(type => type.trim().toLowerCase())
+    .map(type => (type === 'text' || type === 'file' ? 'string' : type) as JSONSchemaType)
+    .filter(type => JSON_SCHEMA_TYPES.includes(type));
+  if (types.length > 0) schema.type = types.length === 1 ? types[0] : Array.from(new Set(types));
+
+  if (parameter.description) schema.description = parameter.description;
+
+  const values = parameter.enum ?? parameter.options;
+  if (Array.isArray(values) && values.length > 0) schema.enum = values;
+
+  const [min, max] = parameter.range ?? [parameter.min, parameter.max];
+  if (typeof min === 'number') schema.minimum = min;
+  if (typeof max === 'number') schema.maximum = max;
+
+  if (parameter.default !== undefined) schema.default = parameter.default;
+  if (parameter.items) schema.items = parameterToSchema(parameter.items);
+
+  return schema;
+}
+
+/**
+ * JSON Schema of the options a model accepts for a capability. Options are
+ * closed (additionalProperties: false) unless nothing is known about the
+ * model's own ones.
+ */
+export function getModelOptionSchema(model: ProviderModel, capability: MediaCapability): JSONSchema {
+  const properties: Record<string, JSONSchema> = { ...CAPABILITY_OPTIONS[capability] };
+  for (const [name, parameter] of Object.entries(model.parameters || {})) {
+    properties[name] = parameterToSchema(parameter);
+  }
+
+  return {
+    $schema: JSON_SCHEMA_DRAFT,
+    type: 'object',
+    description: `Options of ${model.id} for ${capability}`,
+    properties: { ...properties, ...TRANSFORM_OPTIONS },
+    additionalProperties: Object.keys(properties).length === 0
+  };
+}
+
+/**
+ * Option schemas of a model, keyed by capability
+ */
+export function getModelOptionSchemas(model: ProviderModel): Partial<Record<MediaCapability, JSONSchema>> {
+  return Object.fromEntries(
+    model.capabilities.map(capability => [capability, getModelOptionSchema(model, capability)])
+  );
+}
+
+/**
+ * The options a schema declares, dropping the rest when it rejects unknown
+ * properties - for sending one request's options to another model
+ */
+export function pickDeclaredOptions(schema: JSONSchema, options: Record<string, any>): Record<string, any> {
+  if (schema.additionalProperties !== false || !schema.properties) {
+    return { ...options };
+  }
+  const properties = schema.properties;
+  return Object.fromEntries(Object.entries(options).filter(([name]) => name in properties));
+}
+
+/**
+ * Validate options against a schema
+ * @returns One issue per invalid field, empty when the options are valid
+ */
+export function validateOptions(schema: JSONSchema, options: unknown): OptionIssue[] {
+  const issues: OptionIssue[] = [];
+  validateValue(schema, options, '', issues);
+  return issues;
+}
+
+function validateValue(schema: JSONSchema, value: unknown, path: string, issues: OptionIssue[]): void {
+  if (schema.anyOf) {
+    if (!schema.anyOf.some(option => validateOptions(option, value).length === 0)) {
+      issues.push({ path, message: `Does not match any allowed form (${schema.anyOf.map(describe).join('; ')})` });
+      return;
+    }
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => hasType(value, type))) {
+      issues.push({ path, message: `Expected ${types.join(' or ')}, got ${typeName(value)}` });
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ path, message: `Expected one of: ${schema.enum.map(item => JSON.stringify(item)).join(', ')}` });
+    return;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `Must be >= ${schema.minimum}` });
+    } else if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `Must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => validateValue(schema.items!, item, `${path}[${index}]`, issues));
+  }
+
+  if (hasType(value, 'object') && schema.required) {
+    for (const key of schema.required) {
+      if (!(key in (value as Record<string, unknown>))) {
+        issues.push({ path: path ? `${path}.${key}` : key, message: 'Required' });
+      }
+    }
+  }
+
+  if (hasType(value, 'object') && schema.properties) {
+    const known = Object.keys(schema.properties);
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      const at = path ? `${path}.${key}` : key;
+      if (schema.properties[key]) {
+        validateValue(schema.properties[key], item, at, issues);
+      } else if (schema.additionalProperties === false) {
+        const suggestion = suggestKey(key, known);
+        issues.push({ path: at, message: `Unknown option${suggestion ? ` (did you mean '${suggestion}'?)` : ''}` });
+      }
+    }
+  }
+}
+
+function hasType(value: unknown, type: JSONSchemaType): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'null': return value === null;
+  }
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function describe(schema: JSONSchema): string {
+  if (schema.enum) return schema.enum.map(item => JSON.stringify(item)).join(' | ');
+  return [schema.type ?? 'any'].flat().join(' | ');
+}
+
+/**
+ * Closest known key: same letters ignoring case and separators (max_tokens vs
+ * maxTokens), or within two edits
+ */
+function suggestKey(key: string, known: string[]): string | undefined {
+  const normalize = (name: string) => name.replace(/[-_]/g, '').toLowerCase();
+  const exact = known.find(name => normalize(name) === normalize(key));
+  if (exact) return exact;
+
+  let best: { name: string; distance: number } | undefined;
+  for (const name of known) {
+    const distance = editDistance(key.toLowerCase(), name.toLowerCase());
+    if (distance <= 2 && (!best || distance < best.distance)) best = { name, distance };
+  }
+  return best?.name;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
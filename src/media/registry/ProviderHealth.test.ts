@@ -0,0 +1,115 @@
+/**
+ * ProviderHealth Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { CircuitBreaker, ProviderHealthMonitor } from './ProviderHealth';
+import { MediaProvider } from '../types/provider';
+
+const OPTIONS = { ttlMs: 60000, probeTimeoutMs: 20, failureThreshold: 2, resetTimeoutMs: 1000 };
+
+// Fake provider whose availability check is the given function
+function createProvider(id: string, isAvailable: () => Promise<boolean>) {
+  return {
+    id,
+    isAvailable: vi.fn(isAvailable),
+    getHealth: vi.fn(async () => ({ status: 'healthy' as const, uptime: 1, activeJobs: 0, queuedJobs: 0 }))
+  } as unknown as MediaProvider & { isAvailable: ReturnType<typeof vi.fn> };
+}
+
+describe('CircuitBreaker', () => {
+  it('should open after consecutive failures, half-open after the cooldown, and close on success', () => {
+    const breaker = new CircuitBreaker(OPTIONS);
+
+    breaker.recordFailure(0);
+    expect(breaker.getState(0)).toBe('closed');
+    breaker.recordFailure(0);
+    expect(breaker.getState(0)).toBe('open');
+    expect(breaker.allowsRequest(500)).toBe(false);
+    expect(breaker.snapshot(500).retryAt?.getTime()).toBe(1000);
+
+    expect(breaker.getState(1000)).toBe('half-open');
+    breaker.recordFailure(1000);
+    expect(breaker.getState(1500)).toBe('open');
+
+    expect(breaker.getState(2000)).toBe('half-open');
+    breaker.recordSuccess();
+    expect(breaker.snapshot(2000)).toEqual({ state: 'closed', consecutiveFailures: 0, openedAt: undefined, retryAt: undefined });
+  });
+
+  it('should let a single trial request through while half-open', () => {
+    const breaker = new CircuitBreaker(OPTIONS);
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+
+    expect(breaker.tryAcquire(1000)).toBe(true);
+    expect(breaker.allowsRequest(1000)).toBe(false);
+    expect(breaker.tryAcquire(1500)).toBe(false);
+
+    // A trial without an outcome is given back, or given up after the reset timeout
+    breaker.releaseTrial();
+    expect(breaker.tryAcquire(1500)).toBe(true);
+    expect(breaker.tryAcquire(2500)).toBe(true);
+
+    breaker.recordSuccess();
+    expect(breaker.tryAcquire(2500)).toBe(true);
+    expect(breaker.tryAcquire(2500)).toBe(true);
+  });
+});
+
+describe('ProviderHealthMonitor', () => {
+  it('should cache probe results until refreshed and share concurrent probes', async () => {
+    const monitor = new ProviderHealthMonitor(OPTIONS);
+    const provider = createProvider('cached', async () => true);
+
+    const [first, second] = await Promise.all([monitor.getStatus(provider), monitor.getStatus(provider)]);
+    await monitor.getStatus(provider);
+    expect(provider.isAvailable).toHaveBeenCalledTimes(1);
+    expect(first).toEqual(second);
+    expect(first.isAvailable).toBe(true);
+    expect(first.health.status).toBe('healthy');
+    expect(first.circuit.state).toBe('closed');
+
+    await monitor.getStatus(provider, true);
+    expect(provider.isAvailable).toHaveBeenCalledTimes(2);
+  });
+
+  it('should count timed out probes and transform failures against the circuit', async () => {
+    const monitor = new ProviderHealthMonitor(OPTIONS);
+    const provider = createProvider('slow', () => new Promise(() => {}));
+
+    const status = await monitor.getStatus(provider);
+    expect(status.isAvailable).toBe(false);
+    expect(status.health.lastError).toMatch(/timed out/);
+
+    monitor.recordOutcome('slow', false);
+    expect(monitor.canRoute('slow')).toBe(false);
+
+    // Open circuits are not probed again until the cooldown has passed
+    const open = await monitor.getStatus(provider, true);
+    expect(open.circuit.state).toBe('open');
+    expect(provider.isAvailable).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not close a half-open circuit on a passing probe', async () => {
+    vi.useFakeTimers();
+    try {
+      const monitor = new ProviderHealthMonitor(OPTIONS);
+      const provider = createProvider('recovering', async () => true);
+      monitor.recordOutcome('recovering', false);
+      monitor.recordOutcome('recovering', false);
+
+      vi.advanceTimersByTime(OPTIONS.resetTimeoutMs);
+      const status = await monitor.getStatus(provider, true);
+      expect(status.isAvailable).toBe(true);
+      expect(status.circuit.state).toBe('half-open');
+
+      expect(monitor.tryRoute('recovering')).toBe(true);
+      expect(monitor.canRoute('recovering')).toBe(false);
+      monitor.recordOutcome('recovering', true);
+      expect(monitor.getCircuit('recovering').state).toBe('closed');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Provider Health Monitoring
+ *
+ * Caches the result of isAvailable()/getHealth() per provider for a short TTL
+ * and keeps a circuit breaker per provider. The breaker opens after repeated
+ * failures (transform errors or failed health probes), stops traffic for a
+ * cooldown, then lets a single trial request through (half-open). The trial's
+ * outcome closes or reopens it; health probes alone never close it.
+ */
+
+import { MediaProvider } from '../types/provider';
+import { readEnvNumber } from '../utils/EnvNumber';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type ProviderHealth = Awaited<ReturnType<MediaProvider['getHealth']>>;
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;   // Consecutive failures that open the circuit
+  resetTimeoutMs: number;     // How long an open circuit rejects traffic
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: Date;
+  retryAt?: Date;             // When an open circuit lets traffic through again
+}
+
+export interface ProviderHealthOptions extends CircuitBreakerOptions {
+  ttlMs: number;              // How long a health probe result is reused
+  probeTimeoutMs: number;     // Probes slower than this count as failures
+}
+
+/**
+ * Cached health of a provider together with its circuit state
+ */
+export interface ProviderStatus {
+  providerId: string;
+  isAvailable: boolean;
+  health: ProviderHealth;
+  checkedAt?: Date;           // Undefined until the first probe finishes
+  circuit: CircuitSnapshot;
+}
+
+interface HealthProbe {
+  isAvailable: boolean;
+  health: ProviderHealth;
+  checkedAt: number;
+}
+
+export const DEFAULT_HEALTH_OPTIONS: ProviderHealthOptions = {
+  ttlMs: 30000,
+  probeTimeoutMs: 5000,
+  failureThreshold: 5,
+  resetTimeoutMs: 30000
+};
+
+/**
+ * Closed/open/half-open breaker for a single provider
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private trialStartedAt?: number;
+
+  constructor(private options: CircuitBreakerOptions = DEFAULT_HEALTH_OPTIONS) {}
+
+  /**
+   * Current state; an open circuit turns half-open once its cooldown has passed
+   */
+  getState(now: number = Date.now()): CircuitState {
+    if (this.state === 'open' && now - this.openedAt! >= this.options.resetTimeoutMs) {
+      this.state = 'half-open';
+    }
+    return this.state;
+  }
+
+  /**
+   * Whether a request may be sent: always while closed, never while open, and
+   * while half-open only if no trial is running. A trial whose outcome never
+   * arrives is given up after the reset timeout.
+   */
+  allowsRequest(now: number = Date.now()): boolean {
+    switch (this.getState(now)) {
+      case 'closed':
+        return true;
+      case 'open':
+        return false;
+      case 'half-open':
+        return this.trialStartedAt === undefined || now - this.trialStartedAt >= this.options.resetTimeoutMs;
+    }
+  }
+
+  /**
+   * Claim a request; while half-open this starts the single trial
+   * @returns false if the request must not be sent
+   */
+  tryAcquire(now: number = Date.now()): boolean {
+    if (!this.allowsRequest(now)) return false;
+    if (this.state === 'half-open') this.trialStartedAt = now;
+    return true;
+  }
+
+  /**
+   * End a trial without an outcome, e.g. when the request was rejected for its input
+   */
+  releaseTrial(): void {
+    this.trialStartedAt = undefined;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.trialStartedAt = undefined;
+  }
+
+  recordFailure(now: number = Date.now()): void {
+    this.consecutiveFailures++;
+    this.trialStartedAt = undefined;
+
+    // A failed trial while half-open reopens immediately
+    if (this.getState(now) === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  snapshot(now: number = Date.now()): CircuitSnapshot {
+    const state = this.getState(now);
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt !== undefined ? new Date(this.openedAt) : undefined,
+      retryAt: state === 'open' ? new Date(this.openedAt! + this.options.resetTimeoutMs) : undefined
+    };
+  }
+}
+
+/**
+ * Provider Health Monitor - Singleton holding cached probes and breakers per provider ID
+ */
+export class ProviderHealthMonitor {
+  private static instance: ProviderHealthMonitor;
+  private breakers = new Map<string, CircuitBreaker>();
+  private probes = new Map<string, HealthProbe>();
+  private inFlight = new Map<string, Promise<HealthProbe>>();
+
+  constructor(private options: ProviderHealthOptions = healthOptionsFromEnv()) {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): ProviderHealthMonitor {
+    if (!ProviderHealthMonitor.instance) {
+      ProviderHealthMonitor.instance = new ProviderHealthMonitor();
+    }
+    return ProviderHealthMonitor.instance;
+  }
+
+  /**
+   * Health of a provider, probing it only when the cached result has expired
+   * (or `refresh` is set). Open circuits are not probed until their cooldown ends.
+   */
+  public async getStatus(provider: MediaProvider, refresh: boolean = false): Promise<ProviderStatus> {
+    const cached = this.probes.get(provider.id);
+    const expired = !cached || Date.now() - cached.checkedAt >= this.options.ttlMs;
+
+    const probe = (refresh || expired) && this.canRoute(provider.id)
+      ? await this.probe(provider)
+      : cached;
+
+    return {
+      providerId: provider.id,
+      isAvailable: probe?.isAvailable ?? false,
+      health: probe?.health ?? createUnhealthy('Circuit open; provider not probed yet'),
+      checkedAt: probe ? new Date(probe.checkedAt) : undefined,
+      circuit: this.getCircuit(provider.id)
+    };
+  }
+
+  /**
+   * Whether traffic may be sent to the provider: its circuit is not open, nor
+   * half-open with its trial request running
+   */
+  public canRoute(providerId: string): boolean {
+    return this.getBreaker(providerId).allowsRequest();
+  }
+
+  /**
+   * Claim the provider for one request, starting the trial of a half-open circuit
+   * @returns false if canRoute() is false
+   */
+  public tryRoute(providerId: string): boolean {
+    return this.getBreaker(providerId).tryAcquire();
+  }
+
+  /**
+   * End a half-open trial whose request failed for reasons unrelated to the provider's health
+   */
+  public releaseTrial(providerId: string): void {
+    this.getBreaker(providerId).releaseTrial();
+  }
+
+  public getCircuit(providerId: string): CircuitSnapshot {
+    return this.getBreaker(providerId).snapshot();
+  }
+
+  /**
+   * Feed the result of a transform into the provider's breaker
+   */
+  public recordOutcome(providerId: string, success: boolean): void {
+    const breaker = this.getBreaker(providerId);
+    if (success) {
+      breaker.recordSuccess();
+    } else {
+      breaker.recordFailure();
+    }
+  }
+
+  private probe(provider: MediaProvider): Promise<HealthProbe> {
+    // Concurrent callers share one probe
+    let pending = this.inFlight.get(provider.id);
+    if (!pending) {
+      pending = this.runProbe(provider).finally(() => this.inFlight.delete(provider.id));
+      this.inFlight.set(provider.id, pending);
+    }
+    return pending;
+  }
+
+  private async runProbe(provider: MediaProvider): Promise<HealthProbe> {
+    const breaker = this.getBreaker(provider.id);
+    let probe: HealthProbe;
+
+    try {
+      const isAvailable = await withTimeout(provider.isAvailable(), this.options.probeTimeoutMs);
+      const health = isAvailable
+        ? await withTimeout(provider.getHealth(), this.options.probeTimeoutMs)
+        : createUnhealthy('Provider is not available');
+      probe = { isAvailable, health, checkedAt: Date.now() };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      probe = { isAvailable: false, health: createUnhealthy(`Health check failed: ${message}`), checkedAt: Date.now() };
+    }
+
+    // Failed probes count against the breaker, but passing ones never close it:
+    // a provider that answers probes but fails transforms must still prove
+    // itself with a trial request
+    if (!probe.isAvailable || probe.health.status === 'unhealthy') {
+      breaker.recordFailure();
+    }
+
+    this.probes.set(provider.id, probe);
+    return probe;
+  }
+
+  private getBreaker(providerId: string): CircuitBreaker {
+    let breaker = this.breakers.get(providerId);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.options);
+      this.breakers.set(providerId, breaker);
+    }
+    return breaker;
+  }
+}
+
+function createUnhealthy(lastError: string): ProviderHealth {
+  return { status: 'unhealthy', uptime: 0, activeJobs: 0, queuedJobs: 0, lastError };
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Options configured by the environment:
+ * - MEDIACONDUIT_HEALTH_TTL_MS: how long probe results are cached (default: 30000)
+ * - MEDIACONDUIT_HEALTH_TIMEOUT_MS: probe timeout (default: 5000)
+ * - MEDIACONDUIT_CIRCUIT_FAILURE_THRESHOLD: consecutive failures that open a circuit (default: 5)
+ * - MEDIACONDUIT_CIRCUIT_RESET_MS: how long a circuit stays open (default: 30000)
+ */
+function healthOptionsFromEnv(): ProviderHealthOptions {
+  return {
+    ttlMs: readEnvNumber('MEDIACONDUIT_HEALTH_TTL_MS', DEFAULT_HEALTH_OPTIONS.ttlMs),
+    probeTimeoutMs: readEnvNumber('MEDIACONDUIT_HEALTH_TIMEOUT_MS', DEFAULT_HEALTH_OPTIONS.probeTimeoutMs),
+    failureThreshold: readEnvNumber('MEDIACONDUIT_CIRCUIT_FAILURE_THRESHOLD', DEFAULT_HEALTH_OPTIONS.failureThreshold) || 1,
+    resetTimeoutMs: readEnvNumber('MEDIACONDUIT_CIRCUIT_RESET_MS', DEFAULT_HEALTH_OPTIONS.resetTimeoutMs)
+  };
+}
+
+/**
+ * Convenience function for routes reporting on a provider
+ */
+export function getProviderStatus(provider: MediaProvider, refresh: boolean = false): Promise<ProviderStatus> {
+  return ProviderHealthMonitor.getInstance().getStatus(provider, refresh);
+}
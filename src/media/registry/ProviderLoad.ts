@@ -0,0 +1,54 @@
+/**
+ * Provider Load Tracking
+ *
+ * Shared per-provider counters of queued and running jobs. Whatever schedules
+ * jobs (e.g. the API job queue) reports into the tracker, and providers read
+ * from it when building their getHealth() response.
+ */
+
+export interface ProviderJobCounts {
+  activeJobs: number;
+  queuedJobs: number;
+}
+
+/**
+ * Provider Load Tracker - Singleton holding job counts per provider ID
+ */
+export class ProviderLoadTracker {
+  private static instance: ProviderLoadTracker;
+  private counts = new Map<string, ProviderJobCounts>();
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): ProviderLoadTracker {
+    if (!ProviderLoadTracker.instance) {
+      ProviderLoadTracker.instance = new ProviderLoadTracker();
+    }
+    return ProviderLoadTracker.instance;
+  }
+
+  /**
+   * Record the current job counts for a provider
+   */
+  public setCounts(providerId: string, counts: ProviderJobCounts): void {
+    this.counts.set(providerId, { ...counts });
+  }
+
+  /**
+   * Get the current job counts for a provider (zero if nothing was reported)
+   */
+  public getCounts(providerId: string): ProviderJobCounts {
+    const counts = this.counts.get(providerId);
+    return counts ? { ...counts } : { activeJobs: 0, queuedJobs: 0 };
+  }
+}
+
+/**
+ * Convenience function for providers' getHealth() implementations
+ */
+export function getProviderJobCounts(providerId: string): ProviderJobCounts {
+  return ProviderLoadTracker.getInstance().getCounts(providerId);
+}
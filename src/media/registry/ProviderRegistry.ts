@@ -5,9 +5,12 @@
  * for lazy instantiation and auto-configuration of providers.
  */
 
-import { MediaProvider, MediaCapability, ProviderType, MediaConduitProviderConfig } from '../types/provider';
+import { MediaProvider, MediaCapability, ProviderType, MediaConduitProviderConfig, ProviderConfig } from '../types/provider';
 import { DockerMediaProvider } from '../providers/docker/DockerMediaProvider';
 import { getServiceRegistry, MediaConduitServiceConfig, DockerService } from '../registry/ServiceRegistry';
+import { ProviderRouter, RouteCandidate, RoutingCriteria } from './ProviderRouter';
+import { CatalogPage, CatalogQuery, searchCatalog } from './ModelCatalog';
+import { getSourceDirectory, getSourceLock, installGitHubSource, SourceLockEntry } from './SourceLock';
 import * as yaml from 'yaml';
 import { URL } from 'url';
 import * as path from 'path';
@@ -66,6 +69,8 @@ export class ProviderRegistry {
   private static instance: ProviderRegistry;
   private providers = new Map<string, ProviderConstructor>();
   private providerCache = new Map<string, MediaProvider>();
+  private dynamicSources = new Map<string, string>();
+  private providerConfigs = new Map<string, ProviderConfig>();
 
   private constructor() {}
 
@@ -86,18 +91,33 @@ export class ProviderRegistry {
     this.providers.set(id, providerClass);
   }
 
+  /**
+   * Register a dynamic provider (github:, file: or npm identifier) under an ID.
+   * It is loaded on first access.
+   */
+  public registerDynamic(id: string, identifier: string): void {
+    this.dynamicSources.set(id, identifier);
+  }
+
+  /**
+   * Set the configuration passed to a provider's configure() when it is created
+   */
+  public setProviderConfig(id: string, config: ProviderConfig): void {
+    this.providerConfigs.set(id, config);
+  }
+
   /**
    * Get available provider IDs
    */
   public getAvailableProviders(): string[] {
-    return Array.from(this.providers.keys());
+    return [...Array.from(this.providers.keys()), ...Array.from(this.dynamicSources.keys())];
   }
 
   /**
    * Check if a provider is registered
    */
   public hasProvider(id: string): boolean {
-    return this.providers.has(id);
+    return this.providers.has(id) || this.dynamicSources.has(id);
   }
   /**
    * Get a provider by ID or URL with lazy instantiation
@@ -119,6 +139,7 @@ export class ProviderRegistry {
         
         // Cache for future use
         this.providerCache.set(identifier, provider);
+        await this.applyProviderConfig(identifier, provider);
         
         return provider;
       } catch (error) {
@@ -126,6 +147,17 @@ export class ProviderRegistry {
       }
     }
 
+    // Dynamic providers registered under an ID (e.g. from mediaconduit.config.yml)
+    const source = this.dynamicSources.get(identifier);
+    if (source) {
+      const cached = this.providerCache.get(source);
+      const provider = cached || await this.loadDynamicProvider(source);
+      if (!cached) {
+        await this.applyProviderConfig(identifier, provider);
+      }
+      return provider as T;
+    }
+
     // Handle dynamic providers (new behavior)
     if (this.isDynamicIdentifier(identifier)) {
       return this.loadDynamicProvider(identifier) as unknown as T;
@@ -134,6 +166,22 @@ export class ProviderRegistry {
     throw new ProviderNotFoundError(identifier);
   }
 
+  /**
+   * Configure a newly created provider with the configuration set for its ID.
+   * A failure leaves the provider unconfigured (and so unavailable) rather than
+   * failing the lookup, matching providers' own environment auto-configuration.
+   */
+  private async applyProviderConfig(id: string, provider: MediaProvider): Promise<void> {
+    const config = this.providerConfigs.get(id);
+    if (!config) return;
+
+    try {
+      await provider.configure(config);
+    } catch (error) {
+      console.warn(`⚠️ Failed to configure provider ${id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
   /**
    * Check if identifier is a dynamic provider (URL, package name, etc.)
    */
@@ -285,73 +333,33 @@ export class ProviderRegistry {
 
     console.log(`📥 Downloading GitHub provider: ${owner}/${repo}@${ref}`);
 
-    const serviceDirName = `${owner}-${repo}`;
-    const tmpDir = path.join(process.cwd(), 'temp', 'providers', serviceDirName);
+    const tmpDir = getSourceDirectory('provider', owner, repo);
     const providerConfigPath = path.join(tmpDir, 'MediaConduit.provider.yml');
 
     try {
-      // Check if provider directory already exists and is valid
-      let needsClone = true;
+      // Check out the locked commit (locking the ref on first install) and verify its content
+      installGitHubSource({ kind: 'provider', owner, repo, ref: ref || 'main', directory: tmpDir });
+
+      // Install dependencies only if needed. package-lock.json is part of the
+      // verified content, so `npm ci` keeps dependencies pinned as well.
       let needsInstall = true;
-      
       try {
-        const stats = await fs.stat(tmpDir);
-        if (stats.isDirectory()) {
-          // Check if it's a valid provider directory
-          try {
-            await fs.access(providerConfigPath);
-            console.log(`📂 Provider directory already exists: ${tmpDir}`);
-            needsClone = false;
-            
-            // Check if node_modules exists
-            try {
-              await fs.access(path.join(tmpDir, 'node_modules'));
-              needsInstall = false;
-              console.log(`📦 Dependencies already installed`);
-            } catch {
-              console.log(`📦 Dependencies need to be installed`);
-            }
-          } catch {
-            console.log(`🧹 Invalid provider directory found, will re-clone`);
-            await fs.rm(tmpDir, { recursive: true, force: true });
-          }
-        }
-      } catch (statError: any) {
-        if (statError.code !== 'ENOENT') {
-          console.warn(`⚠️ Directory stat warning: ${statError.message}`);
-        }
+        await fs.access(path.join(tmpDir, 'node_modules'));
+        needsInstall = false;
+        console.log(`📦 Dependencies already installed`);
+      } catch {
+        console.log(`📦 Dependencies need to be installed`);
       }
 
-      if (needsClone) {
-        await fs.mkdir(tmpDir, { recursive: true });
-
-        // Clone the repository
-        console.log(`📥 Cloning provider repository: ${owner}/${repo}@${ref}`);
-        const repoUrl = `https://github.com/${owner}/${repo}.git`;
-        const cloneCommand = `git clone --depth 1 --branch ${ref} "${repoUrl}" "${tmpDir}"`;
-        
-        try {
-          execSync(cloneCommand, { stdio: 'pipe', timeout: 180000 });
-          console.log(`✅ Repository cloned successfully`);
-        } catch (gitError: any) {
-          console.error(`Git clone failed with branch ${ref}: ${gitError.stderr.toString()}`);
-          // Fallback: try without branch specification
-          const fallbackCommand = `git clone --depth 1 "${repoUrl}" "${tmpDir}"`;
-          try {
-            execSync(fallbackCommand, { stdio: 'pipe', timeout: 180000 });
-            console.log(`✅ Repository cloned successfully (fallback)`);
-          } catch (fallbackGitError: any) {
-            console.error(`Git clone fallback failed: ${fallbackGitError.stderr.toString()}`);
-            throw fallbackGitError; // Re-throw the error if both attempts fail
-          }
+      if (needsInstall) {
+        const hasLockfile = await fs.access(path.join(tmpDir, 'package-lock.json')).then(() => true, () => false);
+        if (!hasLockfile) {
+          console.warn(`⚠️ ${owner}/${repo} has no package-lock.json; its dependencies are not pinned`);
         }
-      }
 
-      // Install dependencies only if needed
-      if (needsInstall) {
         console.log(`📦 Installing provider dependencies...`);
         try {
-          execSync('npm install', { cwd: tmpDir, stdio: 'pipe', timeout: 180000 });
+          execSync(hasLockfile ? 'npm ci' : 'npm install', { cwd: tmpDir, stdio: 'pipe', timeout: 180000 });
           console.log(`✅ Dependencies installed successfully`);
         } catch (installError: any) {
           console.warn(`⚠️ Failed to install dependencies: ${installError.message}`);
@@ -585,34 +593,34 @@ export class ProviderRegistry {
   }
 
   /**
-   * Find the best provider for a capability based on availability and criteria
+   * Rank the provider/model pairs able to serve a capability, best first
+   * (see ProviderRouter for the ordering rules)
    */
-  public async findBestProvider(capability: MediaCapability, criteria?: {
-    maxCost?: number;
-    preferLocal?: boolean;
-    excludeProviders?: string[];
-  }): Promise<MediaProvider | undefined> {
+  public async rankCandidates(capability: MediaCapability, criteria?: RoutingCriteria): Promise<RouteCandidate[]> {
     const providers = await this.getProvidersByCapability(capability);
+    return ProviderRouter.getInstance().rankCandidates(providers, capability, criteria);
+  }
 
-    if (criteria?.excludeProviders) {
-      const filtered = providers.filter(p => !criteria.excludeProviders!.includes(p.id));
-      if (filtered.length > 0) return filtered[0];
-    }
-
-    // Special handling for text-to-image: prefer HuggingFace if available
-    if (capability === MediaCapability.TEXT_TO_IMAGE) {
-      const hfProvider = providers.find(p => p.id === 'huggingface-docker');
-      if (hfProvider && await hfProvider.isAvailable()) {
-        return hfProvider;
-      }
-    }
-
-    if (criteria?.preferLocal) {
-      const localProvider = providers.find(p => p.type === 'local');
-      if (localProvider) return localProvider;
-    }
+  /**
+   * Find the best provider for a capability based on health, error rate, cost and criteria
+   */
+  public async findBestProvider(capability: MediaCapability, criteria?: RoutingCriteria): Promise<MediaProvider | undefined> {
+    const [best] = await this.rankCandidates(capability, criteria);
+    return best?.provider;
+  }
 
-    return providers[0]; // Return first available (already prioritized)
+  /**
+   * Search the models of every registered provider, including dynamic ones
+   * (see ModelCatalog for the filters). Providers that fail to load are skipped.
+   */
+  public async searchModels(query?: CatalogQuery): Promise<CatalogPage> {
+    const providers = await Promise.all(
+      this.getAvailableProviders().map(id => this.getProvider(id).catch(error => {
+        console.warn(`Failed to get provider ${id}:`, error);
+        return undefined;
+      }))
+    );
+    return searchCatalog(providers.filter((provider): provider is MediaProvider => provider !== undefined), query);
   }
 
   /**
@@ -653,6 +661,30 @@ export class ProviderRegistry {
     }
   }
 
+  /**
+   * Re-resolve a GitHub provider's ref to its latest commit and rewrite its
+   * lock entry. The provider is loaded from the new commit on next access.
+   */
+  public async updateProvider(identifier: string): Promise<SourceLockEntry> {
+    const parsed = this.isDynamicIdentifier(identifier) ? this.parseIdentifier(identifier) : undefined;
+    if (parsed?.type !== 'github' || !parsed.owner || !parsed.repo) {
+      throw new Error(`Only GitHub providers are locked: ${identifier}`);
+    }
+
+    this.providerCache.delete(identifier);
+    return installGitHubSource(
+      {
+        kind: 'provider',
+        owner: parsed.owner,
+        repo: parsed.repo,
+        ref: parsed.ref || 'main',
+        directory: getSourceDirectory('provider', parsed.owner, parsed.repo)
+      },
+      getSourceLock(),
+      { update: true }
+    );
+  }
+
   /**
    * Get registry statistics
    */
@@ -0,0 +1,114 @@
+/**
+ * ProviderRouter Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ProviderRouter } from './ProviderRouter';
+import { ProviderHealthMonitor } from './ProviderHealth';
+import { MediaCapability, MediaProvider, ProviderModel, ProviderType } from '../types/provider';
+
+// Fake provider exposing the fields the router reads
+function createProvider(
+  id: string,
+  models: Array<Partial<ProviderModel> & { id: string }>,
+  options: { type?: ProviderType; available?: boolean; status?: 'healthy' | 'degraded' | 'unhealthy' } = {}
+): MediaProvider {
+  return {
+    id,
+    name: id,
+    type: options.type ?? ProviderType.REMOTE,
+    capabilities: [MediaCapability.TEXT_TO_IMAGE],
+    models: models.map(model => ({
+      name: model.id,
+      capabilities: [MediaCapability.TEXT_TO_IMAGE],
+      parameters: {},
+      ...model
+    })),
+    isAvailable: async () => options.available ?? true,
+    getHealth: async () => ({ status: options.status ?? 'healthy', uptime: 0, activeJobs: 0, queuedJobs: 0 })
+  } as unknown as MediaProvider;
+}
+
+const priced = (cost: number) => ({ inputCost: 0, outputCost: cost, currency: 'USD' });
+
+function ids(candidates: Array<{ provider: MediaProvider; model: ProviderModel }>) {
+  return candidates.map(candidate => `${candidate.provider.id}/${candidate.model.id}`);
+}
+
+describe('ProviderRouter', () => {
+  it('should skip unavailable and unhealthy providers and rank degraded ones last', async () => {
+    const router = new ProviderRouter(new ProviderHealthMonitor());
+    const providers = [
+      createProvider('down', [{ id: 'a' }], { available: false }),
+      createProvider('degraded', [{ id: 'b' }], { status: 'degraded' }),
+      createProvider('broken', [{ id: 'c' }], { status: 'unhealthy' }),
+      createProvider('ok', [{ id: 'd' }])
+    ];
+
+    const ranked = await router.rankCandidates(providers, MediaCapability.TEXT_TO_IMAGE);
+
+    expect(ids(ranked)).toEqual(['ok/d', 'degraded/b']);
+  });
+
+  it('should order by price and apply maxCost, preferLocal and exclusions', async () => {
+    const router = new ProviderRouter(new ProviderHealthMonitor());
+    const providers = [
+      createProvider('cloud', [{ id: 'pricey', pricing: priced(0.05) }, { id: 'cheap', pricing: priced(0.01) }, { id: 'unpriced' }]),
+      createProvider('local', [{ id: 'gpu', pricing: priced(0.02) }], { type: ProviderType.LOCAL })
+    ];
+
+    expect(ids(await router.rankCandidates(providers, MediaCapability.TEXT_TO_IMAGE)))
+      .toEqual(['cloud/cheap', 'local/gpu', 'cloud/pricey', 'cloud/unpriced']);
+
+    expect(ids(await router.rankCandidates(providers, MediaCapability.TEXT_TO_IMAGE, { maxCost: 0.02 })))
+      .toEqual(['cloud/cheap', 'local/gpu']);
+
+    expect(ids(await router.rankCandidates(providers, MediaCapability.TEXT_TO_IMAGE, { preferLocal: true }))[0])
+      .toBe('local/gpu');
+
+    expect(ids(await router.rankCandidates(providers, MediaCapability.TEXT_TO_IMAGE, {
+      excludeProviders: ['local'],
+      excludeModels: ['cloud/cheap']
+    }))).toEqual(['cloud/pricey', 'cloud/unpriced']);
+  });
+
+  it('should rank models with a high recent error rate below reliable ones', async () => {
+    const router = new ProviderRouter(new ProviderHealthMonitor());
+    const providers = [
+      createProvider('flaky', [{ id: 'a', pricing: priced(0.01) }]),
+      createProvider('steady', [{ id: 'b', pricing: priced(0.05) }])
+    ];
+    const now = Date.now();
+
+    // Fewer samples than the minimum do not count
+    router.recordOutcome('flaky', 'a', false, now);
+    expect(router.getErrorRate('flaky', 'a', now)).toBe(0);
+
+    router.recordOutcome('flaky', 'a', false, now);
+    router.recordOutcome('flaky', 'a', true, now);
+    expect(router.getErrorRate('flaky', 'a', now)).toBeCloseTo(2 / 3);
+    expect(ids(await router.rankCandidates(providers, MediaCapability.TEXT_TO_IMAGE))).toEqual(['steady/b', 'flaky/a']);
+
+    // Outcomes expire after the window
+    expect(router.getErrorRate('flaky', 'a', now + 11 * 60 * 1000)).toBe(0);
+  });
+
+  it('should probe providers concurrently', async () => {
+    const router = new ProviderRouter(new ProviderHealthMonitor());
+    let probing = 0;
+    let maxProbing = 0;
+    const slow = (id: string) => Object.assign(createProvider(id, [{ id: 'm' }]), {
+      isAvailable: async () => {
+        maxProbing = Math.max(maxProbing, ++probing);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        probing--;
+        return true;
+      }
+    });
+
+    const ranked = await router.rankCandidates([slow('a'), slow('b'), slow('c')], MediaCapability.TEXT_TO_IMAGE);
+
+    expect(ids(ranked)).toEqual(['a/m', 'b/m', 'c/m']);
+    expect(maxProbing).toBe(3);
+  });
+});
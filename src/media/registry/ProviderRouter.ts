@@ -0,0 +1,240 @@
+/**
+ * Provider Routing
+ *
+ * Ranks the provider/model pairs that can serve a capability. Candidates are
+ * filtered by availability, cached health, circuit state and cost ceiling, then
+ * ordered by health, recent error rate, locality preference and price.
+ * Whatever runs transforms reports outcomes back into the router so that
+ * failing models drop down the ranking and failing providers trip their breaker.
+ */
+
+import { MediaCapability, MediaProvider, ProviderModel, ProviderType } from '../types/provider';
+import { CircuitState, ProviderHealthMonitor } from './ProviderHealth';
+import { classifyProviderError, isRetryableKind } from '../providers/ProviderError';
+
+export type ProviderHealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+/**
+ * Criteria accepted by findBestProvider() and rankCandidates()
+ */
+export interface RoutingCriteria {
+  maxCost?: number;              // Highest acceptable inputCost + outputCost; unpriced models are skipped
+  preferLocal?: boolean;         // Rank local providers above remote ones
+  excludeProviders?: string[];
+  excludeModels?: string[];      // "providerId/modelId" pairs, e.g. ones already attempted
+}
+
+/**
+ * A provider/model pair that can serve the capability, with the inputs of its ranking
+ */
+export interface RouteCandidate {
+  provider: MediaProvider;
+  model: ProviderModel;
+  health: ProviderHealthStatus;
+  circuit: CircuitState;
+  errorRate: number;             // Failures / attempts over the recent window (0 without enough samples)
+  cost?: number;                 // inputCost + outputCost, undefined when the model has no pricing
+}
+
+interface Outcome {
+  success: boolean;
+  at: number;
+}
+
+const OUTCOME_WINDOW_MS = 10 * 60 * 1000;
+const MAX_OUTCOMES = 20;
+const MIN_SAMPLES = 3;
+const HEALTH_RANK: Record<ProviderHealthStatus, number> = { healthy: 0, degraded: 1, unhealthy: 2 };
+
+/**
+ * Key identifying a model across providers
+ */
+export function routeKey(providerId: string, modelId: string): string {
+  return `${providerId}/${modelId}`;
+}
+
+/**
+ * Total per-request price of a model, if it publishes one
+ */
+export function getModelCost(model: ProviderModel): number | undefined {
+  if (!model.pricing || (model.pricing.inputCost === undefined && model.pricing.outputCost === undefined)) {
+    return undefined;
+  }
+  return (model.pricing.inputCost || 0) + (model.pricing.outputCost || 0);
+}
+
+/**
+ * Provider Router - Singleton holding recent transform outcomes per provider/model
+ */
+export class ProviderRouter {
+  private static instance: ProviderRouter;
+  private outcomes = new Map<string, Outcome[]>();
+
+  constructor(private health: ProviderHealthMonitor = ProviderHealthMonitor.getInstance()) {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): ProviderRouter {
+    if (!ProviderRouter.instance) {
+      ProviderRouter.instance = new ProviderRouter();
+    }
+    return ProviderRouter.instance;
+  }
+
+  /**
+   * Record the result of a transform run on a provider/model
+   */
+  public recordOutcome(providerId: string, modelId: string, success: boolean, now: number = Date.now()): void {
+    this.health.recordOutcome(providerId, success);
+
+    const key = routeKey(providerId, modelId);
+    const outcomes = this.recentOutcomes(key, now);
+    outcomes.push({ success, at: now });
+    this.outcomes.set(key, outcomes.slice(-MAX_OUTCOMES));
+  }
+
+  /**
+   * Claim a provider for one transform; false while its circuit is open, or
+   * half-open with its single trial request still running
+   */
+  public claimRoute(providerId: string): boolean {
+    return this.health.tryRoute(providerId);
+  }
+
+  /**
+   * Give back a claim whose transform ended without saying anything about the
+   * provider's health (cancelled, or rejected for its input), ending a
+   * half-open trial without closing or reopening the circuit
+   */
+  public releaseRoute(providerId: string): void {
+    this.health.releaseTrial(providerId);
+  }
+
+  /**
+   * Share of recent runs that failed. Reads 0 until enough runs were recorded
+   * so a single early failure does not bury a model.
+   */
+  public getErrorRate(providerId: string, modelId: string, now: number = Date.now()): number {
+    const outcomes = this.recentOutcomes(routeKey(providerId, modelId), now);
+    if (outcomes.length < MIN_SAMPLES) return 0;
+    return outcomes.filter(outcome => !outcome.success).length / outcomes.length;
+  }
+
+  /**
+   * Order the models of the given providers that can serve the capability, best
+   * first. Unavailable and unhealthy providers, providers with an open circuit,
+   * excluded providers/models and models over the cost ceiling are left out.
+   * Ties keep the providers' order.
+   */
+  public async rankCandidates(
+    providers: MediaProvider[],
+    capability: MediaCapability,
+    criteria: RoutingCriteria = {}
+  ): Promise<RouteCandidate[]> {
+    const eligible = providers
+      .filter(provider => !criteria.excludeProviders?.includes(provider.id) && this.health.canRoute(provider.id))
+      .map(provider => ({
+        provider,
+        models: (provider.models || []).filter(model =>
+          model.capabilities.includes(capability) &&
+          !criteria.excludeModels?.includes(routeKey(provider.id, model.id)) &&
+          this.withinBudget(model, criteria.maxCost)
+        )
+      }))
+      .filter(({ models }) => models.length > 0);
+
+    // Probe concurrently so one slow provider does not hold up the others
+    const statuses = await Promise.all(eligible.map(({ provider }) => this.health.getStatus(provider)));
+
+    const candidates: RouteCandidate[] = [];
+    eligible.forEach(({ provider, models }, index) => {
+      const status = statuses[index];
+      if (!status.isAvailable || status.health.status === 'unhealthy') return;
+
+      // A half-open circuit is on trial, so rank it with the degraded providers
+      const health = status.circuit.state === 'half-open' && status.health.status === 'healthy'
+        ? 'degraded'
+        : status.health.status;
+
+      for (const model of models) {
+        candidates.push({
+          provider,
+          model,
+          health,
+          circuit: status.circuit.state,
+          errorRate: this.getErrorRate(provider.id, model.id),
+          cost: getModelCost(model)
+        });
+      }
+    });
+
+    // Array.prototype.sort is stable, so equal candidates keep registry order
+    return candidates.sort((a, b) => this.compare(a, b, criteria));
+  }
+
+  private compare(a: RouteCandidate, b: RouteCandidate, criteria: RoutingCriteria): number {
+    const health = HEALTH_RANK[a.health] - HEALTH_RANK[b.health];
+    if (health !== 0) return health;
+
+    // Compare in 10% steps so noise between similar models does not reorder them
+    const errors = Math.round(a.errorRate * 10) - Math.round(b.errorRate * 10);
+    if (errors !== 0) return errors;
+
+    if (criteria.preferLocal) {
+      const local = Number(b.provider.type === ProviderType.LOCAL) - Number(a.provider.type === ProviderType.LOCAL);
+      if (local !== 0) return local;
+    }
+
+    // Priced models before unpriced ones, cheapest first
+    return (a.cost ?? Infinity) - (b.cost ?? Infinity) || 0;
+  }
+
+  private withinBudget(model: ProviderModel, maxCost?: number): boolean {
+    if (maxCost === undefined) return true;
+    const cost = getModelCost(model);
+    return cost !== undefined && cost <= maxCost;
+  }
+
+  private recentOutcomes(key: string, now: number): Outcome[] {
+    return (this.outcomes.get(key) || []).filter(outcome => now - outcome.at < OUTCOME_WINDOW_MS);
+  }
+}
+
+/**
+ * Convenience function for whatever runs transforms to report their outcome
+ */
+export function recordRouteOutcome(providerId: string, modelId: string, success: boolean): void {
+  ProviderRouter.getInstance().recordOutcome(providerId, modelId, success);
+}
+
+/**
+ * Convenience function for whatever runs transforms to claim a provider right
+ * before calling it; see ProviderRouter.claimRoute()
+ */
+export function claimRoute(providerId: string): boolean {
+  return ProviderRouter.getInstance().claimRoute(providerId);
+}
+
+/**
+ * Convenience function for giving back a claim; see ProviderRouter.releaseRoute()
+ */
+export function releaseRoute(providerId: string): void {
+  ProviderRouter.getInstance().releaseRoute(providerId);
+}
+
+/**
+ * Report a failed transform. Only failures that may pass when retried (rate
+ * limits, outages, timeouts) count against the model and its provider's
+ * breaker; rejected input or credentials say nothing about the provider's health.
+ * @returns whether the failure is retryable, i.e. worth failing over
+ */
+export function recordRouteFailure(providerId: string, modelId: string, error: unknown): boolean {
+  const retryable = isRetryableKind(classifyProviderError(error));
+  if (retryable) {
+    recordRouteOutcome(providerId, modelId, false);
+  } else {
+    releaseRoute(providerId);
+  }
+  return retryable;
+}
@@ -9,6 +9,7 @@
 
 import { DockerComposeService } from '../../services/DockerComposeService';
 import * as path from 'path';
+import { getSourceDirectory, getSourceLock, installGitHubSource, SourceLockEntry } from './SourceLock';
 
 /**
  * Docker service interface
@@ -171,58 +172,12 @@ export class ServiceRegistry {
     const fs = await import('fs/promises');
     
     // Use repo name instead of random hex for reusability
-    const serviceDirName = `${owner}-${repo}`;
-    const tmpDir = path.join(process.cwd(), 'temp', 'services', serviceDirName);
+    const tmpDir = getSourceDirectory('service', owner, repo);
     const configPath = path.join(tmpDir, 'MediaConduit.service.yml');
     
     try {
-      // Check if service directory already exists and is valid
-      let needsClone = true;
-      
-      try {
-        const stats = await fs.stat(tmpDir);
-        if (stats.isDirectory()) {
-          // Check if it's a valid service directory
-          try {
-            await fs.access(configPath);
-            console.log(`📂 Service directory already exists: ${tmpDir}`);
-            needsClone = false;
-          } catch {
-            console.log(`🧹 Invalid service directory found, will re-clone`);
-            await fs.rm(tmpDir, { recursive: true, force: true });
-          }
-        }
-      } catch (statError: any) {
-        if (statError.code !== 'ENOENT') {
-          console.warn(`⚠️ Directory stat warning: ${statError.message}`);
-        }
-      }
-
-      if (needsClone) {
-        await fs.mkdir(tmpDir, { recursive: true });
-
-        // Clone the repository
-        console.log(`📥 Cloning service repository: ${owner}/${repo}@${ref}`);
-        const { execSync } = await import('child_process');
-        const repoUrl = `https://github.com/${owner}/${repo}.git`;
-        const cloneCommand = `git clone --depth 1 --branch ${ref} "${repoUrl}" "${tmpDir}"`;
-        
-        try {
-          execSync(cloneCommand, { stdio: 'pipe', timeout: 180000 });
-          console.log(`✅ Repository cloned successfully`);
-        } catch (gitError: any) {
-          console.error(`Git clone failed with branch ${ref}: ${gitError.stderr.toString()}`);
-          // Fallback: try without branch specification
-          const fallbackCommand = `git clone --depth 1 "${repoUrl}" "${tmpDir}"`;
-          try {
-            execSync(fallbackCommand, { stdio: 'pipe', timeout: 180000 });
-            console.log(`✅ Repository cloned successfully (fallback)`);
-          } catch (fallbackGitError: any) {
-            console.error(`Git clone fallback failed: ${fallbackGitError.stderr.toString()}`);
-            throw fallbackGitError; // Re-throw the error if both attempts fail
-          }
-        }
-      }
+      // Check out the locked commit (locking the ref on first install) and verify its content
+      installGitHubSource({ kind: 'service', owner, repo, ref, directory: tmpDir });
 
       // Read MediaConduit.service.yml configuration
       console.log(`📋 Reading service configuration from MediaConduit.service.yml`);
@@ -253,6 +208,24 @@ export class ServiceRegistry {
     }
   }
 
+  /**
+   * Re-resolve a GitHub service's ref to its latest commit and rewrite its
+   * lock entry. The service is loaded from the new commit on next access.
+   */
+  public async updateService(identifier: string): Promise<SourceLockEntry> {
+    if (!this.isGitHubUrl(identifier)) {
+      throw new Error(`Only GitHub services are locked: ${identifier}`);
+    }
+
+    const { owner, repo, ref } = this.parseGitHubUrl(identifier);
+    this.serviceCache.delete(identifier);
+    return installGitHubSource(
+      { kind: 'service', owner, repo, ref, directory: getSourceDirectory('service', owner, repo) },
+      getSourceLock(),
+      { update: true }
+    );
+  }
+
   /**
    * Parse GitHub URL into components
    */
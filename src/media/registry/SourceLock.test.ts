@@ -0,0 +1,131 @@
+/**
+ * SourceLock Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// In-memory file system: path -> content
+const files = vi.hoisted(() => new Map<string, string>());
+
+vi.mock('fs', () => {
+  const under = (dir: string) => (key: string) => key === dir || key.startsWith(`${dir}/`);
+  return {
+    existsSync: (p: string) => Array.from(files.keys()).some(under(p)),
+    readFileSync: (p: string) => {
+      if (!files.has(p)) throw new Error(`ENOENT: ${p}`);
+      return files.get(p);
+    },
+    writeFileSync: (p: string, data: string) => files.set(p, data),
+    rmSync: (p: string) => Array.from(files.keys()).filter(under(p)).forEach(key => files.delete(key)),
+    mkdirSync: () => undefined
+  };
+});
+
+import { GitRunner, installGitHubSource, SourceLock, SourceLockError } from './SourceLock';
+
+const DIR = '/work/temp/providers/acme-tts';
+const LOCK_PATH = '/work/mediaconduit.lock.json';
+const SOURCE = { kind: 'provider' as const, owner: 'acme', repo: 'tts', ref: 'main', directory: DIR };
+
+// Fake remote: commits by SHA, and the commit each branch points at
+const commits: Record<string, Record<string, string>> = {
+  aaa111: { 'index.ts': 'export default 1;', 'package-lock.json': '{}' },
+  bbb222: { 'index.ts': 'export default 2;', 'package-lock.json': '{}' }
+};
+const branches: Record<string, string> = {};
+
+function checkout(dir: string, commit: string) {
+  for (const [name, content] of Object.entries(commits[commit])) {
+    files.set(`${dir}/${name}`, content);
+  }
+  files.set(`${dir}/.git/HEAD`, commit);
+}
+
+const git = vi.fn<GitRunner>((args, cwd) => {
+  const [command] = args;
+  if (command === 'clone') {
+    const commit = branches[args[args.indexOf('--branch') + 1]];
+    if (!commit) throw new Error('Remote branch not found');
+    checkout(args[args.length - 1], commit);
+  } else if (command === 'fetch') {
+    files.set(`${cwd}/.git/FETCH_HEAD`, args[args.length - 1]);
+  } else if (command === 'checkout') {
+    checkout(cwd!, files.get(`${cwd}/.git/FETCH_HEAD`)!);
+  } else if (command === 'rev-parse') {
+    return files.get(`${cwd}/.git/HEAD`)!;
+  } else if (command === 'ls-files') {
+    return Array.from(files.keys())
+      .filter(key => key.startsWith(`${cwd}/`) && !key.startsWith(`${cwd}/.git/`) && !key.includes('node_modules'))
+      .map(key => key.slice(cwd!.length + 1))
+      .join('\0');
+  }
+  return '';
+});
+
+function gitCommands() {
+  return git.mock.calls.map(([args]) => args[0]);
+}
+
+describe('installGitHubSource', () => {
+  beforeEach(() => {
+    files.clear();
+    git.mockClear();
+    branches.main = 'aaa111';
+  });
+
+  it('should lock the resolved commit on first install and reuse a matching checkout', () => {
+    const entry = installGitHubSource(SOURCE, new SourceLock(LOCK_PATH), { git });
+
+    expect(entry).toMatchObject({ kind: 'provider', ref: 'main', commit: 'aaa111', repository: 'https://github.com/acme/tts.git' });
+    expect(entry.integrity).toMatch(/^sha256-[0-9a-f]{64}$/);
+    expect(JSON.parse(files.get(LOCK_PATH)!).sources['github:acme/tts@main'].commit).toBe('aaa111');
+
+    // Untracked files such as node_modules do not affect verification
+    files.set(`${DIR}/node_modules/dep/index.js`, 'module.exports = 1;');
+    git.mockClear();
+    expect(installGitHubSource(SOURCE, new SourceLock(LOCK_PATH), { git }).commit).toBe('aaa111');
+    expect(gitCommands()).not.toContain('clone');
+    expect(gitCommands()).not.toContain('fetch');
+  });
+
+  it('should restore the pinned commit when the checkout drifted, even after the branch moved', () => {
+    installGitHubSource(SOURCE, new SourceLock(LOCK_PATH), { git });
+    branches.main = 'bbb222';
+    files.set(`${DIR}/index.ts`, 'tampered');
+
+    const entry = installGitHubSource(SOURCE, new SourceLock(LOCK_PATH), { git });
+
+    expect(entry.commit).toBe('aaa111');
+    expect(gitCommands()).toContain('fetch');
+    expect(files.get(`${DIR}/index.ts`)).toBe('export default 1;');
+  });
+
+  it('should refuse content that does not match the lock', () => {
+    installGitHubSource(SOURCE, new SourceLock(LOCK_PATH), { git });
+    const lock = JSON.parse(files.get(LOCK_PATH)!);
+    lock.sources['github:acme/tts@main'].integrity = 'sha256-0000';
+    files.set(LOCK_PATH, JSON.stringify(lock));
+
+    expect(() => installGitHubSource(SOURCE, new SourceLock(LOCK_PATH), { git })).toThrow(SourceLockError);
+    expect(() => installGitHubSource(SOURCE, new SourceLock(LOCK_PATH), { git })).toThrow(/refusing to load it/);
+  });
+
+  it('should only move to a new commit on update, and not lock new sources when frozen', () => {
+    installGitHubSource(SOURCE, new SourceLock(LOCK_PATH), { git });
+    branches.main = 'bbb222';
+
+    expect(installGitHubSource(SOURCE, new SourceLock(LOCK_PATH), { git }).commit).toBe('aaa111');
+    expect(installGitHubSource(SOURCE, new SourceLock(LOCK_PATH), { git, update: true }).commit).toBe('bbb222');
+    expect(JSON.parse(files.get(LOCK_PATH)!).sources['github:acme/tts@main'].commit).toBe('bbb222');
+
+    expect(() => installGitHubSource({ ...SOURCE, ref: 'v2' }, new SourceLock(LOCK_PATH, true), { git }))
+      .toThrow(/not in frozen lock file/);
+  });
+
+  it('should fail when the requested ref cannot be cloned', () => {
+    expect(() => installGitHubSource({ ...SOURCE, ref: 'no-such-branch' }, new SourceLock(LOCK_PATH), { git }))
+      .toThrow(/Cannot clone no-such-branch of https:\/\/github.com\/acme\/tts.git/);
+    expect(gitCommands()).toEqual(['clone']);
+    expect(files.has(LOCK_PATH)).toBe(false);
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Dynamic Source Lock
+ *
+ * Pins GitHub-hosted dynamic providers and services to the commit they
+ * resolved to when first installed, plus a content hash of the files tracked
+ * at that commit. Both are recorded in mediaconduit.lock.json. On every load
+ * the checkout is verified against the lock and re-fetched at the pinned
+ * commit if it drifted; content that still does not match is refused. Only
+ * an explicit update re-resolves the ref and rewrites the lock entry.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { execFileSync } from 'child_process';
+
+export type SourceKind = 'provider' | 'service';
+
+export interface SourceLockEntry {
+  kind: SourceKind;
+  repository: string;         // Clone URL
+  ref: string;                // Requested branch or tag
+  commit: string;             // Resolved commit SHA
+  integrity: string;          // sha256-<hex> over the files tracked at that commit
+  lockedAt: string;
+}
+
+/**
+ * Shape of mediaconduit.lock.json, keyed by sourceKey()
+ */
+export interface SourceLockFile {
+  version: 1;
+  sources: Record<string, SourceLockEntry>;
+}
+
+export interface GitHubSource {
+  kind: SourceKind;
+  owner: string;
+  repo: string;
+  ref: string;
+  directory: string;          // Where the checkout lives
+}
+
+/**
+ * Runs a git command and returns its trimmed stdout
+ */
+export type GitRunner = (args: string[], cwd?: string) => string;
+
+export class SourceLockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SourceLockError';
+  }
+}
+
+const GIT_TIMEOUT_MS = 180000;
+
+export const runGit: GitRunner = (args, cwd) =>
+  execFileSync('git', args, { cwd, stdio: 'pipe', timeout: GIT_TIMEOUT_MS }).toString().trim();
+
+/**
+ * Lock key of a GitHub source, the same for https://github.com/ and github: identifiers
+ */
+export function sourceKey(owner: string, repo: string, ref: string): string {
+  return `github:${owner}/${repo}@${ref}`;
+}
+
+/**
+ * Parse https://github.com/owner/repo[@ref] or github:owner/repo[@ref]
+ */
+export function parseGitHubIdentifier(identifier: string): { owner: string; repo: string; ref: string } | undefined {
+  const match = /^(?:https:\/\/github\.com\/|github:)([^/@]+)\/([^/@]+?)(?:\.git)?(?:@(.+))?$/.exec(identifier);
+  return match ? { owner: match[1], repo: match[2], ref: match[3] || 'main' } : undefined;
+}
+
+/**
+ * Checkout directory of a dynamic provider or service under temp/
+ */
+export function getSourceDirectory(kind: SourceKind, owner: string, repo: string): string {
+  return path.join(process.cwd(), 'temp', kind === 'provider' ? 'providers' : 'services', `${owner}-${repo}`);
+}
+
+/**
+ * The lock file. Frozen locks refuse sources that are not locked yet instead
+ * of locking them on first install (like `npm ci`).
+ */
+export class SourceLock {
+  private file?: SourceLockFile;
+
+  constructor(public readonly filePath: string, public readonly frozen: boolean = false) {}
+
+  get(key: string): SourceLockEntry | undefined {
+    return this.read().sources[key];
+  }
+
+  entries(): Array<[string, SourceLockEntry]> {
+    return Object.entries(this.read().sources);
+  }
+
+  set(key: string, entry: SourceLockEntry): void {
+    const file = this.read();
+    file.sources[key] = entry;
+
+    // Sorted keys keep diffs of the committed lock file small
+    const sources = Object.fromEntries(Object.entries(file.sources).sort(([a], [b]) => a.localeCompare(b)));
+    fs.writeFileSync(this.filePath, JSON.stringify({ version: 1, sources }, null, 2) + '\n');
+  }
+
+  private read(): SourceLockFile {
+    if (!this.file) {
+      this.file = fs.existsSync(this.filePath)
+        ? JSON.parse(fs.readFileSync(this.filePath, 'utf-8'))
+        : { version: 1, sources: {} };
+      if (!this.file!.sources || typeof this.file!.sources !== 'object') {
+        throw new SourceLockError(`Invalid lock file ${this.filePath}: expected { "sources": {...} }`);
+      }
+    }
+    return this.file!;
+  }
+}
+
+let sharedLock: SourceLock | undefined;
+
+/**
+ * The lock configured by the environment:
+ * - MEDIACONDUIT_LOCK_PATH: lock file (default: ./mediaconduit.lock.json)
+ * - MEDIACONDUIT_LOCK_FROZEN=true: refuse sources missing from the lock
+ */
+export function getSourceLock(): SourceLock {
+  if (!sharedLock) {
+    sharedLock = new SourceLock(
+      process.env.MEDIACONDUIT_LOCK_PATH || path.join(process.cwd(), 'mediaconduit.lock.json'),
+      process.env.MEDIACONDUIT_LOCK_FROZEN === 'true'
+    );
+  }
+  return sharedLock;
+}
+
+/**
+ * sha256 over the path and content of every file git tracks in the checkout.
+ * Untracked files (node_modules, generated lockfiles) do not affect it.
+ */
+export function hashCheckout(directory: string, git: GitRunner = runGit): string {
+  const files = git(['ls-files', '-z'], directory).split('\0').filter(Boolean).sort();
+  const hash = createHash('sha256');
+  for (const file of files) {
+    hash.update(file).update('\0');
+    hash.update(fs.readFileSync(path.join(directory, file))).update('\0');
+  }
+  return `sha256-${hash.digest('hex')}`;
+}
+
+/**
+ * Make the source's directory hold its locked commit, verifying the content.
+ * Unlocked sources (or any source with `update`) are cloned at their ref and
+ * the resolved commit is written to the lock.
+ * @returns the lock entry the checkout matches
+ * @throws SourceLockError when the content does not match the lock, or the lock
+ * is frozen and has no entry for the source
+ */
+export function installGitHubSource(
+  source: GitHubSource,
+  lock: SourceLock = getSourceLock(),
+  options: { update?: boolean; git?: GitRunner } = {}
+): SourceLockEntry {
+  const git = options.git || runGit;
+  const key = sourceKey(source.owner, source.repo, source.ref);
+  const repository = `https://github.com/${source.owner}/${source.repo}.git`;
+  const locked = lock.get(key);
+
+  if (locked && !options.update) {
+    if (matchesLock(source.directory, locked, git)) {
+      return locked;
+    }
+
+    console.log(`📌 ${key}: checkout differs from the lock, fetching pinned commit ${locked.commit}`);
+    fetchCommit(source.directory, repository, locked.commit, git);
+
+    const integrity = hashCheckout(source.directory, git);
+    if (integrity !== locked.integrity) {
+      throw new SourceLockError(
+        `${key}@${locked.commit} does not match ${lock.filePath} (expected ${locked.integrity}, got ${integrity}); refusing to load it`
+      );
+    }
+    return locked;
+  }
+
+  if (!locked && lock.frozen) {
+    throw new SourceLockError(`${key} is not in frozen lock file ${lock.filePath}; run \`npm run sources:update -- ${key}\` to add it`);
+  }
+
+  cloneRef(source.directory, repository, source.ref, git);
+  const entry: SourceLockEntry = {
+    kind: source.kind,
+    repository,
+    ref: source.ref,
+    commit: git(['rev-parse', 'HEAD'], source.directory),
+    integrity: hashCheckout(source.directory, git),
+    lockedAt: new Date().toISOString()
+  };
+
+  if (locked?.commit !== entry.commit) {
+    console.log(`🔒 ${key}: locked to ${entry.commit}${locked ? ` (was ${locked.commit})` : ''}`);
+  }
+  lock.set(key, entry);
+  return entry;
+}
+
+function matchesLock(directory: string, locked: SourceLockEntry, git: GitRunner): boolean {
+  if (!fs.existsSync(path.join(directory, '.git'))) return false;
+  try {
+    return git(['rev-parse', 'HEAD'], directory) === locked.commit && hashCheckout(directory, git) === locked.integrity;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fresh shallow clone of a branch or tag. A ref that cannot be cloned fails
+ * the install rather than loading another branch's code.
+ */
+function cloneRef(directory: string, repository: string, ref: string, git: GitRunner): void {
+  resetDirectory(directory);
+  try {
+    git(['clone', '--depth', '1', '--branch', ref, repository, directory]);
+  } catch (error: any) {
+    throw new SourceLockError(
+      `Cannot clone ${ref} of ${repository}; check that the branch or tag exists: ${error?.stderr?.toString().trim() || error?.message}`
+    );
+  }
+}
+
+function fetchCommit(directory: string, repository: string, commit: string, git: GitRunner): void {
+  resetDirectory(directory);
+  fs.mkdirSync(directory, { recursive: true });
+  git(['init', '--quiet'], directory);
+  git(['fetch', '--depth', '1', repository, commit], directory);
+  git(['checkout', '--quiet', '--detach', 'FETCH_HEAD'], directory);
+}
+
+function resetDirectory(directory: string): void {
+  fs.rmSync(directory, { recursive: true, force: true });
+  fs.mkdirSync(path.dirname(directory), { recursive: true });
+}
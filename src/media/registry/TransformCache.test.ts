@@ -0,0 +1,120 @@
+/**
+ * TransformCache Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TransformCache, createCacheKey } from './TransformCache';
+import { Audio, Text } from '../assets/roles';
+
+// The global setup mocks fs; entries are written to a real temp directory
+vi.mock('fs', async (importOriginal) => importOriginal());
+
+const target = { providerId: 'openai', modelId: 'tts-1' };
+
+describe('TransformCache', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'transform-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  const createCache = (options: { maxBytes?: number; ttlMs?: number; enabled?: boolean } = {}) =>
+    new TransformCache({ enabled: true, rootDir, maxBytes: 1024 * 1024, ttlMs: 60000, ...options });
+
+  it('should key on provider, model, normalized options and input content', () => {
+    const key = createCacheKey(target, Text.fromString('Hello'), { voice: 'nova', speed: 1 });
+
+    expect(createCacheKey(target, Text.fromString('Hello'), { speed: 1, voice: 'nova', signal: new AbortController().signal, note: undefined }))
+      .toBe(key);
+    expect(createCacheKey(target, Text.fromString('Hello!'), { voice: 'nova', speed: 1 })).not.toBe(key);
+    expect(createCacheKey(target, Text.fromString('Hello'), { voice: 'echo', speed: 1 })).not.toBe(key);
+    expect(createCacheKey({ ...target, modelId: 'tts-1-hd' }, Text.fromString('Hello'), { voice: 'nova', speed: 1 })).not.toBe(key);
+
+    // Media inputs are keyed by their bytes, not their metadata
+    const audio = (bytes: string, metadata: any) => new Audio(Buffer.from(bytes), undefined, { format: 'wav', ...metadata });
+    expect(createCacheKey(target, audio('RIFF', { createdAt: 1 }))).toBe(createCacheKey(target, audio('RIFF', { createdAt: 2 })));
+    expect(createCacheKey(target, audio('RIFF', {}))).not.toBe(createCacheKey(target, audio('RIFX', {})));
+
+    // Cycles are dropped, values shared between options are kept
+    const shared = { size: 512 };
+    const parent: any = { name: 'parent', first: shared, second: shared };
+    parent.metadata = { parent };
+    expect(createCacheKey(target, 'fox', { source: parent }))
+      .toBe(createCacheKey(target, 'fox', { source: { name: 'parent', first: { size: 512 }, second: { size: 512 }, metadata: {} } }));
+  });
+
+  it('should serve repeated transforms from disk and honour skip and refresh', async () => {
+    const cache = createCache();
+    const transform = vi.fn(async (options: any) => new Audio(Buffer.from(`speech-${transform.mock.calls.length}`), undefined, { format: 'mp3', voice: options.voice }));
+    const run = (options: any) => cache.run(target, Text.fromString('Hello'), options, transform);
+
+    const first = await run({ voice: 'nova' });
+    const second = await run({ voice: 'nova' });
+    expect(transform).toHaveBeenCalledTimes(1);
+    expect(second).toBeInstanceOf(Audio);
+    expect(second.data.equals(first.data)).toBe(true);
+    expect(second.metadata).toMatchObject({ format: 'mp3', voice: 'nova' });
+
+    // 'skip' neither reads nor writes, and the model never sees the cache option
+    await run({ voice: 'nova', cache: 'skip' });
+    expect(transform).toHaveBeenCalledTimes(2);
+    expect(transform.mock.calls[1][0]).toEqual({ voice: 'nova' });
+    expect((await run({ voice: 'nova' })).data.toString()).toBe('speech-1');
+
+    // 'refresh' replaces the stored result
+    await run({ voice: 'nova', cache: 'refresh' });
+    expect(transform).toHaveBeenCalledTimes(3);
+    expect((await run({ voice: 'nova' })).data.toString()).toBe('speech-3');
+
+    // Disabled caches always run the transform
+    await createCache({ enabled: false }).run(target, Text.fromString('Hello'), { voice: 'nova' }, transform);
+    expect(transform).toHaveBeenCalledTimes(4);
+  });
+
+  it('should expire entries after the TTL and evict the least recently used beyond maxBytes', async () => {
+    const now = Date.now();
+    const expiring = createCache({ ttlMs: 1000 });
+    const key = createCacheKey(target, 'expiring');
+    expiring.set(key, target, Text.fromString('old'));
+    vi.spyOn(Date, 'now').mockReturnValue(now + 2000);
+    expect(expiring.get(key)).toBeUndefined();
+    vi.restoreAllMocks();
+
+    const cache = createCache({ maxBytes: 5000 });
+    const keys = ['a', 'b', 'c'].map(name => createCacheKey(target, name));
+    const store = (index: number, usedAt: number) => {
+      cache.set(keys[index], target, new Audio(Buffer.alloc(2000, index), undefined, { format: 'wav' }));
+      const entryDir = path.join(rootDir, keys[index].slice(0, 2), keys[index]);
+      fs.utimesSync(entryDir, new Date(usedAt), new Date(usedAt));
+    };
+
+    store(0, now - 3000);
+    store(1, now - 2000);
+    cache.get(keys[0]);            // Now the most recently used
+    store(2, now - 1000);
+
+    expect(cache.get(keys[0])).toBeDefined();
+    expect(cache.get(keys[1])).toBeUndefined();
+    expect(cache.get(keys[2])).toBeDefined();
+  });
+
+  it('should prune after enough bytes were written rather than on every write', () => {
+    const cache = createCache({ maxBytes: 100000 });
+    const prune = vi.spyOn(cache, 'prune');
+
+    cache.set(createCacheKey(target, 'first'), target, Text.fromString('first'));
+    expect(prune).toHaveBeenCalledTimes(1);
+    cache.set(createCacheKey(target, 'second'), target, Text.fromString('second'));
+    expect(prune).toHaveBeenCalledTimes(1);
+
+    cache.set(createCacheKey(target, 'large'), target, new Audio(Buffer.alloc(20000), undefined, { format: 'wav' }));
+    expect(prune).toHaveBeenCalledTimes(2);
+  });
+});
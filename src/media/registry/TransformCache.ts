@@ -0,0 +1,356 @@
+/**
+ * Transform Cache
+ *
+ * Opt-in, content-addressed cache of transform results on local disk. Entries
+ * are keyed by a SHA-256 over the provider, model, normalized options and the
+ * content of the input (text, or a digest of binary role data), so re-running
+ * the same TTS line or image prompt returns the stored result instead of paying
+ * for it again. Entries expire after a TTL and the least recently used ones are
+ * evicted once the cache grows past its size limit:
+ *
+ *   <root>/<key[0..1]>/<key>/entry.json
+ *   <root>/<key[0..1]>/<key>/blobs/<sha256>.<ext>
+ *
+ * Callers bypass it per request with the `cache` option: 'skip' neither reads
+ * nor writes, 'refresh' runs the transform and replaces the stored result.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { TransformCacheMode } from '../types/provider';
+import { BlobSink, getRoleType, serializeValue, deserializeValue } from '../utils/RoleSerializer';
+import { readEnvNumber } from '../utils/EnvNumber';
+
+export const DEFAULT_CACHE_MAX_BYTES = 1024 * 1024 * 1024;   // 1 GiB
+export const DEFAULT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Bumped when the key derivation or entry layout changes
+const KEY_VERSION = 1;
+
+// set() prunes once this long has passed since the last prune, or once it has
+// written this share of maxBytes, instead of scanning the cache on every write
+const PRUNE_INTERVAL_MS = 60 * 1000;
+const PRUNE_WRITE_FRACTION = 0.1;
+
+// Options consumed by whatever runs the transform, not by the model
+const CONTROL_OPTIONS = ['signal', 'onProgress', 'cache'];
+
+export interface TransformCacheOptions {
+  enabled: boolean;
+  rootDir: string;
+  maxBytes: number;
+  ttlMs: number;                 // 0 keeps entries until they are evicted
+}
+
+interface CacheEntry {
+  key: string;
+  providerId: string;
+  modelId: string;
+  createdAt: string;
+  output: any;                   // serializeValue() form of the transform output
+}
+
+/**
+ * Provider/model a cached result belongs to
+ */
+export interface CacheTarget {
+  providerId: string;
+  modelId: string;
+}
+
+/**
+ * Canonical, JSON-safe form of a value for hashing: object keys sorted,
+ * undefined and functions dropped, text roles by content, conversations by
+ * their messages and binary roles and Buffers by digest. Role metadata is
+ * left out so that the same media yields the same key wherever it came from.
+ * References back to an enclosing object are dropped like undefined.
+ */
+export function normalizeForKey(value: any, ancestors: WeakSet<object> = new WeakSet()): any {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'function') return undefined;
+  if (typeof value !== 'object') return value;
+
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return { $sha256: digest(value) };
+
+  // Only objects on the current path are cycles; shared values are keyed in both places
+  if (ancestors.has(value)) return undefined;
+  ancestors.add(value);
+  try {
+    if (Array.isArray(value)) return value.map(item => normalizeForKey(item, ancestors) ?? null);
+
+    const roleType = getRoleType(value);
+    if (roleType === 'text') {
+      return { $role: roleType, content: value.content, language: value.language ?? null };
+    }
+    if (roleType === 'conversation') {
+      return { $role: roleType, messages: normalizeForKey(value.messages, ancestors) };
+    }
+    if (roleType) {
+      return { $role: roleType, format: value.format ?? value.metadata?.format ?? null, $sha256: digest(value.data) };
+    }
+
+    const result: Record<string, any> = {};
+    for (const key of Object.keys(value).sort()) {
+      if (value[key] === undefined) continue;
+      const item = normalizeForKey(value[key], ancestors);
+      if (item !== undefined) result[key] = item;
+    }
+    return result;
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+/**
+ * Cache key of a transform
+ */
+export function createCacheKey(target: CacheTarget, input: any, options: Record<string, any> = {}): string {
+  return digest(JSON.stringify({
+    v: KEY_VERSION,
+    providerId: target.providerId,
+    modelId: target.modelId,
+    options: normalizeForKey(stripControlOptions(options)),
+    input: normalizeForKey(input)
+  }));
+}
+
+/**
+ * Options without the ones meant for the transform runner (signal, onProgress, cache)
+ */
+function stripControlOptions<T extends Record<string, any>>(options: T = {} as T): T {
+  const result = { ...options };
+  for (const name of CONTROL_OPTIONS) delete result[name];
+  return result;
+}
+
+/**
+ * Transform Cache - Singleton configured from the environment
+ */
+export class TransformCache {
+  private static instance: TransformCache;
+  private lastPrunedAt = 0;
+  private bytesSincePrune = 0;
+
+  constructor(private options: TransformCacheOptions = cacheOptionsFromEnv()) {}
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): TransformCache {
+    if (!TransformCache.instance) {
+      TransformCache.instance = new TransformCache();
+    }
+    return TransformCache.instance;
+  }
+
+  public get enabled(): boolean {
+    return this.options.enabled;
+  }
+
+  /**
+   * Run a transform through the cache. `transform` receives the options
+   * without `cache`, and is only called on a miss, on 'refresh' or on 'skip'.
+   * Cache failures are logged and never fail the transform.
+   */
+  public async run<T>(
+    target: CacheTarget,
+    input: any,
+    options: Record<string, any> = {},
+    transform: (options: Record<string, any>) => Promise<T>
+  ): Promise<T> {
+    const mode: TransformCacheMode | undefined = options.cache;
+    const modelOptions = { ...options };
+    delete modelOptions.cache;
+
+    if (!this.options.enabled || mode === 'skip') {
+      return transform(modelOptions);
+    }
+
+    const key = createCacheKey(target, input, modelOptions);
+    if (mode !== 'refresh') {
+      const cached = this.get(key);
+      if (cached !== undefined) {
+        console.log(`[TransformCache] Hit for ${target.providerId}/${target.modelId} (${key.slice(0, 12)})`);
+        return cached as T;
+      }
+    }
+
+    const output = await transform(modelOptions);
+    try {
+      this.set(key, target, output);
+    } catch (error) {
+      console.warn(`[TransformCache] Failed to store result for ${target.providerId}/${target.modelId}:`, error instanceof Error ? error.message : error);
+    }
+    return output;
+  }
+
+  /**
+   * Stored output for a key, or undefined when missing or expired
+   */
+  public get(key: string): any {
+    const entryDir = this.getEntryDir(key);
+    const entryFile = path.join(entryDir, 'entry.json');
+
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(fs.readFileSync(entryFile, 'utf-8'));
+    } catch {
+      return undefined;
+    }
+
+    if (this.options.ttlMs > 0 && Date.now() - new Date(entry.createdAt).getTime() > this.options.ttlMs) {
+      fs.rmSync(entryDir, { recursive: true, force: true });
+      return undefined;
+    }
+
+    try {
+      const output = deserializeValue(entry.output, this.createBlobSink(entryDir));
+      // Recency for eviction is the entry directory's mtime; entry.json's is its creation
+      const now = new Date();
+      fs.utimesSync(entryDir, now, now);
+      return output;
+    } catch (error) {
+      console.warn(`[TransformCache] Dropping unreadable entry ${key}:`, error instanceof Error ? error.message : error);
+      fs.rmSync(entryDir, { recursive: true, force: true });
+      return undefined;
+    }
+  }
+
+  /**
+   * Store the output of a transform. Expired entries and entries beyond the size
+   * limit are evicted periodically and after every PRUNE_WRITE_FRACTION of
+   * maxBytes written.
+   */
+  public set(key: string, target: CacheTarget, output: any): void {
+    const entryDir = this.getEntryDir(key);
+    fs.rmSync(entryDir, { recursive: true, force: true });
+    fs.mkdirSync(entryDir, { recursive: true });
+
+    const entry: CacheEntry = {
+      key,
+      providerId: target.providerId,
+      modelId: target.modelId,
+      createdAt: new Date().toISOString(),
+      output: serializeValue(output, this.createBlobSink(entryDir))
+    };
+
+    // Write to a temp file and rename so readers never see a partial entry
+    const entryFile = path.join(entryDir, 'entry.json');
+    const tempFile = `${entryFile}.${process.pid}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(entry));
+    fs.renameSync(tempFile, entryFile);
+
+    this.bytesSincePrune += directorySize(entryDir);
+    if (Date.now() - this.lastPrunedAt >= PRUNE_INTERVAL_MS || this.bytesSincePrune >= this.options.maxBytes * PRUNE_WRITE_FRACTION) {
+      this.prune();
+    }
+  }
+
+  /**
+   * Remove expired entries and evict the least recently used ones until the
+   * cache fits in maxBytes
+   */
+  public prune(): void {
+    this.lastPrunedAt = Date.now();
+    this.bytesSincePrune = 0;
+
+    const entries = this.listEntries();
+    let totalBytes = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+    const now = Date.now();
+
+    for (const entry of entries.sort((a, b) => a.usedAt - b.usedAt)) {
+      const expired = this.options.ttlMs > 0 && now - entry.createdAt > this.options.ttlMs;
+      if (!expired && totalBytes <= this.options.maxBytes) continue;
+
+      fs.rmSync(entry.dir, { recursive: true, force: true });
+      totalBytes -= entry.bytes;
+    }
+  }
+
+  /**
+   * Remove every entry
+   */
+  public clear(): void {
+    fs.rmSync(this.options.rootDir, { recursive: true, force: true });
+  }
+
+  private listEntries(): Array<{ dir: string; bytes: number; usedAt: number; createdAt: number }> {
+    const entries: Array<{ dir: string; bytes: number; usedAt: number; createdAt: number }> = [];
+
+    for (const shard of readDir(this.options.rootDir)) {
+      for (const key of readDir(path.join(this.options.rootDir, shard))) {
+        const dir = path.join(this.options.rootDir, shard, key);
+        try {
+          const createdAt = fs.statSync(path.join(dir, 'entry.json')).mtimeMs;
+          entries.push({ dir, bytes: directorySize(dir), usedAt: fs.statSync(dir).mtimeMs, createdAt });
+        } catch {
+          // Entry being written or removed by another instance
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  private getEntryDir(key: string): string {
+    if (!/^[0-9a-f]{64}$/.test(key)) {
+      throw new Error(`Invalid cache key: ${key}`);
+    }
+    return path.join(this.options.rootDir, key.slice(0, 2), key);
+  }
+
+  private createBlobSink(entryDir: string): BlobSink {
+    const blobDir = path.join(entryDir, 'blobs');
+
+    return {
+      write: (data: Buffer, extension: string) => {
+        const ref = `${digest(data)}.${extension.replace(/[^\w]/g, '') || 'bin'}`;
+        const blobPath = path.join(blobDir, ref);
+        if (!fs.existsSync(blobPath)) {
+          fs.mkdirSync(blobDir, { recursive: true });
+          fs.writeFileSync(blobPath, data);
+        }
+        return ref;
+      },
+      read: (ref: string) => fs.readFileSync(path.join(blobDir, path.basename(ref))),
+      resolvePath: (ref: string) => path.join(blobDir, path.basename(ref))
+    };
+  }
+}
+
+/**
+ * Options configured by the environment:
+ * - MEDIACONDUIT_TRANSFORM_CACHE: 'true' to enable the cache (default: disabled)
+ * - MEDIACONDUIT_TRANSFORM_CACHE_PATH: cache directory (default: .mediaconduit/transform-cache)
+ * - MEDIACONDUIT_TRANSFORM_CACHE_MAX_BYTES: size limit (default: 1 GiB)
+ * - MEDIACONDUIT_TRANSFORM_CACHE_TTL_MS: entry lifetime, 0 for none (default: 7 days)
+ */
+function cacheOptionsFromEnv(): TransformCacheOptions {
+  return {
+    enabled: process.env.MEDIACONDUIT_TRANSFORM_CACHE === 'true',
+    rootDir: process.env.MEDIACONDUIT_TRANSFORM_CACHE_PATH || path.join(process.cwd(), '.mediaconduit', 'transform-cache'),
+    maxBytes: readEnvNumber('MEDIACONDUIT_TRANSFORM_CACHE_MAX_BYTES', DEFAULT_CACHE_MAX_BYTES),
+    ttlMs: readEnvNumber('MEDIACONDUIT_TRANSFORM_CACHE_TTL_MS', DEFAULT_CACHE_TTL_MS)
+  };
+}
+
+function digest(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function readDir(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+}
+
+function directorySize(dir: string): number {
+  return fs.readdirSync(dir, { withFileTypes: true }).reduce((sum, item) => {
+    const itemPath = path.join(dir, item.name);
+    return sum + (item.isDirectory() ? directorySize(itemPath) : fs.statSync(itemPath).size);
+  }, 0);
+}
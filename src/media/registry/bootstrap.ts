@@ -2,7 +2,8 @@
  * Provider Bootstrap System
  * 
  * This is the single entry point for provider registration.
- * All providers register themselves when their modules are imported.
+ * All providers register themselves when their modules are imported; which
+ * modules are imported can be set in mediaconduit.config.yml.
  * 
  * Usage:
  *   import { initializeProviders } from './bootstrap';
@@ -11,41 +12,75 @@
 
 import { ProviderRegistry } from './ProviderRegistry';
 import { MediaCapability } from '../types/provider';
+import { RoutingCriteria } from './ProviderRouter';
+import { loadConfig, MediaConduitConfig, resolveModel } from './MediaConduitConfig';
 
 // Re-export the registry for convenience
 export { ProviderRegistry } from './ProviderRegistry';
 
 /**
- * Initialize all providers by importing their modules
- * This triggers side-effect registration
+ * Built-in provider modules by the ID they register under. Importing a module
+ * triggers its self-registration.
  */
-export async function initializeProviders(): Promise<void> {
+export const BUILT_IN_PROVIDERS: Record<string, () => Promise<unknown>> = {
+  'huggingface-docker': () => import('../providers/docker/huggingface/HuggingFaceDockerProvider'),
+  'fal-ai': () => import('../providers/falai/FalAiProvider'),
+  'openai': () => import('../providers/openai/OpenAIProvider'),
+  'google': () => import('../providers/google/GoogleProvider'),
+  'mistral': () => import('../providers/mistral/MistralProvider'),
+  'creatify': () => import('../providers/creatify/CreatifyProvider'),
+  'ffmpeg': () => import('../providers/ffmpeg/FFMPEGProvider'),
+  'ffmpeg-docker': () => import('../providers/docker/ffmpeg/FFMPEGDockerProvider'),
+  'kokoro-docker': () => import('../providers/docker/kokoro/KokoroDockerProvider'),
+  'zonos': () => import('../providers/docker/zonos/ZonosDockerProvider'),
+  'loopback': () => import('../providers/loopback/LoopbackProvider'),
+  'tesseract': () => import('../providers/tesseract/TesseractProvider'),
+};
+
+/**
+ * Built-in providers that only load when the config file lists them, or without
+ * a config file when their environment flag is set. The loopback provider
+ * returns synthetic media and must never serve real requests unasked.
+ */
+export const OPT_IN_PROVIDERS: Record<string, string> = {
+  'loopback': 'MEDIACONDUIT_LOOPBACK'
+};
+
+let activeConfig: MediaConduitConfig | undefined;
+
+/**
+ * Initialize providers. With a mediaconduit.config.yml, only the providers it
+ * enables are loaded and configured; without one, every built-in provider
+ * (except opt-in ones whose flag is unset) is loaded and configures itself
+ * from environment variables.
+ * @throws ConfigValidationError when the config file is invalid
+ */
+export async function initializeProviders(configPath?: string): Promise<void> {
   console.log('🏗️ Initializing provider registry...');
   
   const registry = ProviderRegistry.getInstance();
-  
-  // Import all provider modules - this triggers their self-registration
-  // HuggingFace provider is #1 priority for text-to-image generation
-  const providerImports = [
-    () => import('../providers/docker/huggingface/HuggingFaceDockerProvider'), // #1 Priority
-    () => import('../providers/falai/FalAiProvider'),
-    () => import('../providers/together/TogetherProvider'),
-    () => import('../providers/replicate/ReplicateProvider'),
-    () => import('../providers/openrouter/OpenRouterProvider'),
-    () => import('../providers/openai/OpenAIProvider'),
-    () => import('../providers/elevenlabs/ElevenLabsProvider'),
-    () => import('../providers/anthropic/AnthropicProvider'),
-    () => import('../providers/docker/ffmpeg/FFMPEGDockerProvider'),
-    () => import('../providers/docker/chatterbox/ChatterboxDockerProvider'),
-    () => import('../providers/docker/whisper/WhisperDockerProvider'),
-    () => import('../providers/docker/ollama/OllamaDockerProvider'),
-  ];
-  
-  // Import all providers concurrently
+
+  let config: MediaConduitConfig | undefined;
+  try {
+    config = loadConfig(configPath, { knownProviders: Object.keys(BUILT_IN_PROVIDERS) });
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    throw error;
+  }
+  activeConfig = config;
+
+  const enabled = config
+    ? Object.entries(config.providers).filter(([, entry]) => entry.enabled)
+    : Object.keys(BUILT_IN_PROVIDERS)
+        .filter(id => !OPT_IN_PROVIDERS[id] || process.env[OPT_IN_PROVIDERS[id]] === 'true')
+        .map(id => [id, undefined] as const);
+
+  // Import the enabled built-in modules concurrently - this triggers their self-registration
+  const staticIds = enabled.filter(([, entry]) => !entry?.source).map(([id]) => id);
   const results = await Promise.allSettled(
-    providerImports.map(importFn => importFn())
+    staticIds.map(id => BUILT_IN_PROVIDERS[id]())
   );
-  
+
   // Log results
   let successCount = 0;
   let errorCount = 0;
@@ -55,18 +90,42 @@ export async function initializeProviders(): Promise<void> {
       successCount++;
     } else {
       errorCount++;
-      console.warn(`Failed to import provider ${index}:`, result.reason);
+      console.warn(`Failed to import provider ${staticIds[index]}:`, result.reason);
     }
   });
+
+  // Dynamic providers load lazily on first use; configs apply when a provider is created
+  for (const [id, entry] of enabled) {
+    if (entry?.source) {
+      registry.registerDynamic(id, entry.source);
+    }
+    if (entry?.config) {
+      registry.setProviderConfig(id, entry.config);
+    }
+  }
   
   const stats = registry.getStats();
   
-  console.log(`✅ Provider registry initialized:`);
+  console.log(`✅ Provider registry initialized${config ? ' from config' : ''}:`);
   console.log(`   Imports: ${successCount} successful, ${errorCount} failed`);
   console.log(`   Registered: ${stats.totalProviders} providers`);
   console.log(`   Available: ${registry.getAvailableProviders().join(', ')}`);
 }
 
+/**
+ * The config file loaded by initializeProviders(), if any
+ */
+export function getActiveConfig(): MediaConduitConfig | undefined {
+  return activeConfig;
+}
+
+/**
+ * Resolve a model alias and its default options from the active config
+ */
+export function resolveProviderModel(providerId: string, modelId: string) {
+  return resolveModel(activeConfig, providerId, modelId);
+}
+
 /**
  * Get a provider from the registry (convenience function)
  */
@@ -94,11 +153,7 @@ export async function getProvidersByCapability(capability: MediaCapability) {
 /**
  * Find best provider (convenience function)
  */
-export async function findBestProvider(capability: MediaCapability, criteria?: {
-  maxCost?: number;
-  preferLocal?: boolean;
-  excludeProviders?: string[];
-}) {
+export async function findBestProvider(capability: MediaCapability, criteria?: RoutingCriteria) {
   const registry = ProviderRegistry.getInstance();
   return registry.findBestProvider(capability, criteria);
 }
@@ -112,7 +167,7 @@ export function isInitialized(): boolean {
 }
 
 /**
- * Get the #1 priority text-to-image provider (HuggingFace Docker)
+ * Get the best-ranked text-to-image provider
  */
 export async function getBestTextToImageProvider() {
   const registry = ProviderRegistry.getInstance();
@@ -0,0 +1,72 @@
+/**
+ * AssetStore Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AssetStore, InMemoryAssetBackend, LocalAssetBackend } from './AssetStore';
+
+// The global setup mocks fs; assets are written to a real temp directory
+vi.mock('fs', async (importOriginal) => importOriginal());
+
+describe('AssetStore', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'asset-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should store identical content once and track every reference', async () => {
+    const store = new AssetStore(new LocalAssetBackend(rootDir));
+    const png = Buffer.from('fake png bytes');
+
+    const first = await store.put(png, { extension: 'PNG', contentType: 'image/png', reference: 'job:a' });
+    const second = await store.put(Buffer.from(png), { extension: 'jpg', reference: 'job:b' });
+
+    expect(second.id).toBe(first.id);
+    expect(second).toMatchObject({ size: png.length, extension: 'png', references: ['job:a', 'job:b'] });
+    expect(await store.list()).toHaveLength(1);
+
+    const localPath = store.getLocalPath(second)!;
+    expect(localPath.startsWith(rootDir)).toBe(true);
+    expect(fs.readFileSync(localPath).equals(png)).toBe(true);
+    expect((await store.read(first.id, { start: 5, end: 7 }))?.toString()).toBe('png');
+
+    expect((await store.removeReference(first.id, 'job:a'))?.references).toEqual(['job:b']);
+    expect(await store.stat('../../etc/passwd')).toBeUndefined();
+  });
+
+  it('should only collect unreferenced assets past the retention period or beyond maxBytes', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = new AssetStore(new InMemoryAssetBackend());
+    const start = Date.now();
+    const put = async (fill: number, reference?: string) =>
+      (await store.put(Buffer.alloc(1000, fill), { extension: 'wav', reference })).id;
+
+    const kept = await put(1, 'job:kept');
+    const released = await put(2, 'job:released');
+    await store.removeReference(released, 'job:released');
+
+    // Within the retention period nothing is collected
+    expect(await store.collectGarbage({ retentionMs: 60000, maxBytes: 0 })).toEqual({ deleted: [], freedBytes: 0 });
+
+    vi.setSystemTime(start + 120000);
+    expect(await store.collectGarbage({ retentionMs: 60000, maxBytes: 0 })).toEqual({ deleted: [released], freedBytes: 1000 });
+
+    // Over the size limit, the oldest unreferenced assets go first
+    const older = await put(3);
+    vi.setSystemTime(start + 130000);
+    const newer = await put(4);
+    expect(await store.collectGarbage({ retentionMs: 60000, maxBytes: 2500 })).toEqual({ deleted: [older], freedBytes: 1000 });
+    expect(await store.stat(newer)).toBeDefined();
+    expect(await store.stat(kept)).toBeDefined();
+
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,417 @@
+/**
+ * Asset Store
+ *
+ * Durable, content-addressed storage for the media models produce. Every blob
+ * is identified by the SHA-256 of its bytes, so the same image rendered by two
+ * jobs is stored once. A small record next to each blob tracks which jobs
+ * reference it; assets nobody references any more are removed by
+ * collectGarbage() once the retention policy allows it:
+ *
+ *   blobs/<id[0..1]>/<id>.<ext>
+ *   records/<id[0..1]>/<id>.json
+ *
+ * Bytes live in an AssetBackend: the local filesystem, an S3-compatible bucket
+ * (see S3AssetBackend) or memory.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Readable } from 'stream';
+import { S3AssetBackend } from './S3AssetBackend';
+import { readEnvNumber } from '../utils/EnvNumber';
+
+export const DEFAULT_ASSET_RETENTION_MS = 24 * 60 * 60 * 1000; // 1 day
+
+export interface ByteRange {
+  start: number;
+  end: number;                // Inclusive
+}
+
+/**
+ * Key/value storage for blobs and records
+ */
+export interface AssetBackend {
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+  get(key: string, range?: ByteRange): Promise<Buffer | undefined>;
+  stream(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array> | undefined>;
+  delete(key: string): Promise<void>;
+  list(prefix: string): Promise<string[]>;
+  resolvePath?(key: string): string;   // Only for backends on local disk
+}
+
+export interface StoredAsset {
+  id: string;                 // SHA-256 of the content
+  size: number;
+  extension: string;
+  contentType?: string;
+  createdAt: string;
+  references: string[];       // e.g. 'job:<jobId>'
+  releasedAt?: string;        // When the last reference was removed
+}
+
+export interface PutAssetOptions {
+  extension: string;
+  contentType?: string;
+  reference?: string;
+}
+
+/**
+ * When unreferenced assets are deleted. Referenced assets are never collected.
+ */
+export interface AssetRetentionPolicy {
+  retentionMs: number;        // Grace period after the last reference is removed
+  maxBytes: number;           // Evict unreferenced assets early beyond this total, 0 for no limit
+}
+
+export interface GarbageCollectionResult {
+  deleted: string[];
+  freedBytes: number;
+}
+
+export class AssetStore {
+  // Record updates are read-modify-write; serialize them per asset
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private backend: AssetBackend,
+    private retention: AssetRetentionPolicy = { retentionMs: DEFAULT_ASSET_RETENTION_MS, maxBytes: 0 }
+  ) {}
+
+  /**
+   * Store content, or reuse the stored copy of identical content
+   */
+  async put(data: Buffer, options: PutAssetOptions): Promise<StoredAsset> {
+    const id = crypto.createHash('sha256').update(data).digest('hex');
+
+    return this.withLock(id, async () => {
+      const existing = await this.readRecord(id);
+      let record = existing;
+      if (!record) {
+        const extension = options.extension.toLowerCase().replace(/[^\w]/g, '') || 'bin';
+        await this.backend.put(getBlobKey(id, extension), data, options.contentType);
+        record = {
+          id,
+          size: data.length,
+          extension,
+          contentType: options.contentType,
+          createdAt: new Date().toISOString(),
+          references: []
+        };
+      }
+
+      if (options.reference && !record.references.includes(options.reference)) {
+        record = { ...record, references: [...record.references, options.reference], releasedAt: undefined };
+      }
+      if (record !== existing) {
+        await this.writeRecord(record);
+      }
+      return record;
+    });
+  }
+
+  async stat(id: string): Promise<StoredAsset | undefined> {
+    return isAssetId(id) ? this.readRecord(id) : undefined;
+  }
+
+  async read(id: string, range?: ByteRange): Promise<Buffer | undefined> {
+    const record = await this.stat(id);
+    return record && this.backend.get(getBlobKey(id, record.extension), range);
+  }
+
+  async createReadStream(id: string, range?: ByteRange): Promise<ReadableStream<Uint8Array> | undefined> {
+    const record = await this.stat(id);
+    return record && this.backend.stream(getBlobKey(id, record.extension), range);
+  }
+
+  /**
+   * Path of the stored file, for backends on local disk
+   */
+  getLocalPath(asset: StoredAsset): string | undefined {
+    return this.backend.resolvePath?.(getBlobKey(asset.id, asset.extension));
+  }
+
+  async addReference(id: string, reference: string): Promise<StoredAsset | undefined> {
+    return this.updateReferences(id, references => references.includes(reference) ? references : [...references, reference]);
+  }
+
+  async removeReference(id: string, reference: string): Promise<StoredAsset | undefined> {
+    return this.updateReferences(id, references => references.filter(item => item !== reference));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.withLock(id, async () => {
+      const record = await this.readRecord(id);
+      if (!record) return;
+      await this.backend.delete(getBlobKey(id, record.extension));
+      await this.backend.delete(getRecordKey(id));
+    });
+  }
+
+  async list(): Promise<StoredAsset[]> {
+    const records = await Promise.all(
+      (await this.backend.list('records/'))
+        .map(key => path.posix.basename(key, '.json'))
+        .filter(isAssetId)
+        .map(id => this.readRecord(id))
+    );
+    return records.filter((record): record is StoredAsset => record !== undefined);
+  }
+
+  /**
+   * Delete unreferenced assets past the retention period, then the oldest
+   * unreferenced ones while the store is larger than maxBytes
+   */
+  async collectGarbage(policy: AssetRetentionPolicy = this.retention): Promise<GarbageCollectionResult> {
+    const assets = await this.list();
+    const now = Date.now();
+    let totalBytes = assets.reduce((sum, asset) => sum + asset.size, 0);
+    const result: GarbageCollectionResult = { deleted: [], freedBytes: 0 };
+
+    const releasedAt = (asset: StoredAsset) => new Date(asset.releasedAt || asset.createdAt).getTime();
+    const unreferenced = assets
+      .filter(asset => asset.references.length === 0)
+      .sort((a, b) => releasedAt(a) - releasedAt(b));
+
+    for (const asset of unreferenced) {
+      const expired = now - releasedAt(asset) >= policy.retentionMs;
+      const overLimit = policy.maxBytes > 0 && totalBytes > policy.maxBytes;
+      if (!expired && !overLimit) continue;
+
+      // Skip assets referenced again since they were listed
+      const deleted = await this.withLock(asset.id, async () => {
+        const current = await this.readRecord(asset.id);
+        if (!current || current.references.length > 0) return false;
+        await this.backend.delete(getBlobKey(current.id, current.extension));
+        await this.backend.delete(getRecordKey(current.id));
+        return true;
+      });
+
+      if (deleted) {
+        result.deleted.push(asset.id);
+        result.freedBytes += asset.size;
+        totalBytes -= asset.size;
+      }
+    }
+
+    return result;
+  }
+
+  private async updateReferences(id: string, update: (references: string[]) => string[]): Promise<StoredAsset | undefined> {
+    if (!isAssetId(id)) return undefined;
+
+    return this.withLock(id, async () => {
+      const record = await this.readRecord(id);
+      if (!record) return undefined;
+
+      const references = update(record.references);
+      if (references.length === record.references.length) return record;
+
+      const updated: StoredAsset = {
+        ...record,
+        references,
+        releasedAt: references.length === 0 ? new Date().toISOString() : undefined
+      };
+      await this.writeRecord(updated);
+      return updated;
+    });
+  }
+
+  private async readRecord(id: string): Promise<StoredAsset | undefined> {
+    const data = await this.backend.get(getRecordKey(id));
+    if (!data) return undefined;
+
+    try {
+      return JSON.parse(data.toString('utf-8'));
+    } catch (error) {
+      console.warn(`[AssetStore] Unreadable record for asset ${id}:`, error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  private async writeRecord(record: StoredAsset): Promise<void> {
+    await this.backend.put(getRecordKey(record.id), Buffer.from(JSON.stringify(record)), 'application/json');
+  }
+
+  private withLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(id) || Promise.resolve();
+    const current = previous.then(task, task);
+    const settled = current.catch(() => undefined);
+    this.locks.set(id, settled);
+    settled.then(() => {
+      if (this.locks.get(id) === settled) this.locks.delete(id);
+    });
+    return current;
+  }
+}
+
+/**
+ * Backend writing blobs and records below a directory. Writes go to a temp
+ * file and are renamed so readers never see partial content.
+ */
+export class LocalAssetBackend implements AssetBackend {
+  constructor(private readonly rootDir: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    const tempFile = `${filePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    await fs.promises.writeFile(tempFile, data);
+    await fs.promises.rename(tempFile, filePath);
+  }
+
+  async get(key: string, range?: ByteRange): Promise<Buffer | undefined> {
+    try {
+      if (!range) return await fs.promises.readFile(this.resolvePath(key));
+
+      const handle = await fs.promises.open(this.resolvePath(key), 'r');
+      try {
+        const buffer = Buffer.alloc(range.end - range.start + 1);
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, range.start);
+        return buffer.subarray(0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array> | undefined> {
+    const filePath = this.resolvePath(key);
+    if (!fs.existsSync(filePath)) return undefined;
+
+    const fileStream = fs.createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined);
+    return Readable.toWeb(fileStream) as ReadableStream<Uint8Array>;
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolvePath(key), { force: true });
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const walk = async (relativeDir: string): Promise<string[]> => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(path.join(this.rootDir, relativeDir), { withFileTypes: true });
+      } catch {
+        return [];
+      }
+
+      const keys = await Promise.all(entries.map(entry => {
+        const key = path.posix.join(relativeDir, entry.name);
+        if (entry.isDirectory()) return walk(key);
+        return entry.name.endsWith('.tmp') ? [] : [key];
+      }));
+      return keys.flat();
+    };
+
+    return walk(prefix.replace(/\/$/, ''));
+  }
+
+  resolvePath(key: string): string {
+    // Keys are generated by AssetStore; refuse anything that could escape the root
+    if (!/^[\w-]+(\/[\w-]+)*\.\w+$/.test(key)) {
+      throw new Error(`Invalid asset key: ${key}`);
+    }
+    return path.join(this.rootDir, ...key.split('/'));
+  }
+}
+
+/**
+ * Process-local backend - assets are lost when the server restarts
+ */
+export class InMemoryAssetBackend implements AssetBackend {
+  private objects = new Map<string, Buffer>();
+
+  async put(key: string, data: Buffer): Promise<void> {
+    this.objects.set(key, Buffer.from(data));
+  }
+
+  async get(key: string, range?: ByteRange): Promise<Buffer | undefined> {
+    const data = this.objects.get(key);
+    return data && range ? data.subarray(range.start, range.end + 1) : data;
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array> | undefined> {
+    const data = await this.get(key, range);
+    if (!data) return undefined;
+
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array(data));
+        controller.close();
+      }
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    return Array.from(this.objects.keys()).filter(key => key.startsWith(prefix));
+  }
+}
+
+/**
+ * Create the asset store selected by the environment:
+ * - MEDIACONDUIT_ASSET_STORE: 'file' (default), 's3' or 'memory'
+ * - MEDIACONDUIT_ASSET_STORE_PATH: directory for the file store (default: .mediaconduit/assets)
+ * - MEDIACONDUIT_ASSET_S3_ENDPOINT: S3 API URL, e.g. http://localhost:9000 for MinIO (default: AWS)
+ * - MEDIACONDUIT_ASSET_S3_BUCKET, MEDIACONDUIT_ASSET_S3_REGION (default: us-east-1), MEDIACONDUIT_ASSET_S3_PREFIX
+ * - MEDIACONDUIT_ASSET_S3_ACCESS_KEY_ID, MEDIACONDUIT_ASSET_S3_SECRET_ACCESS_KEY (default: AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY)
+ * - MEDIACONDUIT_ASSET_RETENTION_MS: how long unreferenced assets are kept (default: 1 day)
+ * - MEDIACONDUIT_ASSET_MAX_BYTES: evict unreferenced assets early beyond this size (default: no limit)
+ */
+export function createAssetStore(): AssetStore {
+  const type = process.env.MEDIACONDUIT_ASSET_STORE || 'file';
+  const retention: AssetRetentionPolicy = {
+    retentionMs: readEnvNumber('MEDIACONDUIT_ASSET_RETENTION_MS', DEFAULT_ASSET_RETENTION_MS),
+    maxBytes: readEnvNumber('MEDIACONDUIT_ASSET_MAX_BYTES', 0)
+  };
+
+  switch (type) {
+    case 'memory':
+      return new AssetStore(new InMemoryAssetBackend(), retention);
+    case 'file':
+      return new AssetStore(
+        new LocalAssetBackend(process.env.MEDIACONDUIT_ASSET_STORE_PATH || path.join(process.cwd(), '.mediaconduit', 'assets')),
+        retention
+      );
+    case 's3': {
+      const bucket = process.env.MEDIACONDUIT_ASSET_S3_BUCKET;
+      const accessKeyId = process.env.MEDIACONDUIT_ASSET_S3_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID;
+      const secretAccessKey = process.env.MEDIACONDUIT_ASSET_S3_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY;
+      if (!bucket || !accessKeyId || !secretAccessKey) {
+        throw new Error('The s3 asset store needs MEDIACONDUIT_ASSET_S3_BUCKET and access credentials');
+      }
+
+      const region = process.env.MEDIACONDUIT_ASSET_S3_REGION || 'us-east-1';
+      return new AssetStore(new S3AssetBackend({
+        endpoint: process.env.MEDIACONDUIT_ASSET_S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+        bucket,
+        region,
+        accessKeyId,
+        secretAccessKey,
+        prefix: process.env.MEDIACONDUIT_ASSET_S3_PREFIX
+      }), retention);
+    }
+    default:
+      throw new Error(`Unknown asset store type: ${type} (expected 'file', 's3' or 'memory')`);
+  }
+}
+
+function isAssetId(id: string): boolean {
+  return /^[0-9a-f]{64}$/.test(id);
+}
+
+function getBlobKey(id: string, extension: string): string {
+  return `blobs/${id.slice(0, 2)}/${id}.${extension}`;
+}
+
+function getRecordKey(id: string): string {
+  return `records/${id.slice(0, 2)}/${id}.json`;
+}
@@ -0,0 +1,212 @@
+/**
+ * S3 Asset Backend
+ *
+ * AssetBackend for Amazon S3 and S3-compatible services such as MinIO, talking
+ * to the REST API directly with AWS Signature Version 4. Objects are addressed
+ * path-style (<endpoint>/<bucket>/<key>), which every S3-compatible server
+ * accepts.
+ */
+
+import * as crypto from 'crypto';
+import type { AssetBackend, ByteRange } from './AssetStore';
+
+export interface S3AssetBackendOptions {
+  endpoint: string;           // e.g. https://s3.eu-west-1.amazonaws.com or http://localhost:9000
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix?: string;            // Key prefix inside the bucket, e.g. 'mediaconduit/'
+  fetch?: typeof fetch;
+}
+
+export interface SignableRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;  // Signed along with host, which is taken from the URL
+  payloadHash: string;              // Hex SHA-256 of the body, or 'UNSIGNED-PAYLOAD'
+}
+
+export interface S3Credentials {
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').update('').digest('hex');
+
+/**
+ * Headers that authenticate a request with AWS Signature Version 4
+ * (x-amz-date, x-amz-content-sha256 and Authorization)
+ */
+export function signS3Request(request: SignableRequest, credentials: S3Credentials, date: Date = new Date()): Record<string, string> {
+  const url = new URL(request.url);
+  const amzDate = date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const day = amzDate.slice(0, 8);
+  const scope = `${day}/${credentials.region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    host: url.host,
+    'x-amz-content-sha256': request.payloadHash,
+    'x-amz-date': amzDate
+  };
+  for (const [name, value] of Object.entries(request.headers)) {
+    headers[name.toLowerCase()] = value.trim().replace(/\s+/g, ' ');
+  }
+
+  const signedHeaders = Object.keys(headers).sort();
+  const canonicalQuery = Array.from(url.searchParams.entries())
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+    .sort(([a, aValue], [b, bValue]) => a === b ? compare(aValue, bValue) : compare(a, b))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [
+    request.method,
+    // The URL keeps the path percent-encoded; S3 expects each segment encoded exactly once
+    url.pathname.split('/').map(segment => encodeRfc3986(decodeURIComponent(segment))).join('/'),
+    canonicalQuery,
+    signedHeaders.map(name => `${name}:${headers[name]}\n`).join(''),
+    signedHeaders.join(';'),
+    request.payloadHash
+  ].join('\n');
+
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    crypto.createHash('sha256').update(canonicalRequest).digest('hex')
+  ].join('\n');
+
+  let key: Buffer = hmac(`AWS4${credentials.secretAccessKey}`, day);
+  for (const part of [credentials.region, 's3', 'aws4_request']) {
+    key = hmac(key, part);
+  }
+  const signature = hmac(key, stringToSign).toString('hex');
+
+  return {
+    'x-amz-date': amzDate,
+    'x-amz-content-sha256': request.payloadHash,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`
+  };
+}
+
+export class S3AssetBackend implements AssetBackend {
+  private fetchImpl: typeof fetch;
+
+  constructor(private options: S3AssetBackendOptions) {
+    this.fetchImpl = options.fetch || fetch;
+  }
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    const response = await this.request('PUT', key, {
+      body: data,
+      headers: contentType ? { 'content-type': contentType } : {}
+    });
+    await this.ensureOk(response, 'PUT', key);
+  }
+
+  async get(key: string, range?: ByteRange): Promise<Buffer | undefined> {
+    const response = await this.request('GET', key, { range });
+    if (response.status === 404) return undefined;
+    await this.ensureOk(response, 'GET', key);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array> | undefined> {
+    const response = await this.request('GET', key, { range });
+    if (response.status === 404) return undefined;
+    await this.ensureOk(response, 'GET', key);
+    return response.body || undefined;
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    // Deleting a missing object succeeds on S3 but some compatible servers answer 404
+    if (response.status === 404) return;
+    await this.ensureOk(response, 'DELETE', key);
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    const objectPrefix = this.getObjectKey(prefix);
+    let continuationToken: string | undefined;
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix: objectPrefix };
+      if (continuationToken) query['continuation-token'] = continuationToken;
+
+      const response = await this.request('GET', undefined, { query });
+      await this.ensureOk(response, 'LIST', prefix);
+      const xml = await response.text();
+
+      for (const match of xml.matchAll(/<Key>([^<]*)<\/Key>/g)) {
+        keys.push(decodeXml(match[1]).slice((this.options.prefix || '').length));
+      }
+      continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(xml)
+        ? decodeXml(/<NextContinuationToken>([^<]*)<\/NextContinuationToken>/.exec(xml)?.[1] || '') || undefined
+        : undefined;
+    } while (continuationToken);
+
+    return keys;
+  }
+
+  private async request(
+    method: string,
+    key: string | undefined,
+    { body, headers = {}, range, query }: { body?: Buffer; headers?: Record<string, string>; range?: ByteRange; query?: Record<string, string> } = {}
+  ): Promise<Response> {
+    const objectPath = key === undefined
+      ? ''
+      : '/' + this.getObjectKey(key).split('/').map(encodeRfc3986).join('/');
+    const url = new URL(`${this.options.endpoint.replace(/\/$/, '')}/${encodeRfc3986(this.options.bucket)}${objectPath}`);
+    for (const [name, value] of Object.entries(query || {})) {
+      url.searchParams.set(name, value);
+    }
+
+    const requestHeaders: Record<string, string> = { ...headers };
+    if (range) requestHeaders.range = `bytes=${range.start}-${range.end}`;
+
+    const payloadHash = body ? crypto.createHash('sha256').update(body).digest('hex') : EMPTY_PAYLOAD_HASH;
+    const signed = signS3Request({ method, url: url.toString(), headers: requestHeaders, payloadHash }, this.options);
+
+    return this.fetchImpl(url.toString(), {
+      method,
+      headers: { ...requestHeaders, ...signed },
+      body: body ? new Uint8Array(body) : undefined
+    });
+  }
+
+  private async ensureOk(response: Response, operation: string, key: string): Promise<void> {
+    if (response.ok) return;
+
+    const text = await response.text().catch(() => '');
+    const code = /<Code>([^<]*)<\/Code>/.exec(text)?.[1];
+    throw new Error(`S3 ${operation} ${key} failed: ${response.status}${code ? ` ${code}` : ''}`);
+  }
+
+  private getObjectKey(key: string): string {
+    return `${this.options.prefix || ''}${key}`;
+  }
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => '%' + char.charCodeAt(0).toString(16).toUpperCase());
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -48,6 +48,23 @@ export enum ProviderType {
   REMOTE = 'remote'   // Cloud APIs
 }
 
+/**
+ * Declared option of a model. Published as JSON Schema by registry/OptionSchema.
+ */
+export interface ModelParameter {
+  type: string;               // 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'file', or a union like 'string|number'
+  description?: string;
+  default?: any;
+  min?: number;
+  max?: number;
+  range?: [number, number];   // Same as min/max
+  options?: any[];            // Allowed values (`enum` is accepted as an alias)
+  enum?: any[];
+  items?: ModelParameter;     // Element type of array parameters
+  required?: boolean;
+  optional?: boolean;
+}
+
 /**
  * Model configuration for a specific capability
  */
@@ -56,7 +73,9 @@ export interface ProviderModel {
   name: string;
   description?: string;
   capabilities: MediaCapability[];
-  parameters: Record<string, any>;
+  parameters: Record<string, ModelParameter>;
+  inputFormats?: string[];    // Accepted input formats, when narrower than every format of the input media
+  outputFormats?: string[];   // Produced formats, when not given by a `format` parameter
   pricing?: {
     inputCost?: number;
     outputCost?: number;
@@ -146,6 +165,8 @@ export interface MediaProvider {
    * the correct Model class based on the model's capabilities.
    * 
    * @param modelId - ID of the model to instantiate
+   * @param capability - Capability to instantiate the model for, when it has
+   *   several (e.g. a chat model that also reads images); defaults to its primary one
    * @returns Promise resolving to the appropriate Model instance
    * @example
    * ```typescript
@@ -153,7 +174,7 @@ export interface MediaProvider {
    * const result = await model.transform(input, options);
    * ```
    */
-  getModel(modelId: string): Promise<any>;
+  getModel(modelId: string, capability?: MediaCapability): Promise<any>;
   
   /**
    * Get provider health and usage statistics
@@ -201,6 +222,7 @@ export interface ProviderRegistry {
     maxCost?: number;
     preferLocal?: boolean;
     excludeProviders?: string[];
+    excludeModels?: string[];
   }): MediaProvider | undefined;
 }
 
@@ -221,17 +243,27 @@ export const ProviderConfigSchema = z.object({
   retries: z.number().min(0).optional(),
   environment: z.record(z.string()).optional(),
   dockerImage: z.string().optional(),
-  scriptPath: z.string().optional()
+  scriptPath: z.string().optional(),
+  serviceUrl: z.string().optional(),
+  serviceConfig: z.any().optional(),
+  autoStartService: z.boolean().optional()
 });
 
 // ============================================================================
 // GENERATION SYSTEM TYPES
 // ============================================================================
 
+/**
+ * Per-request use of the transform cache: 'skip' neither reads nor writes it,
+ * 'refresh' runs the transform and replaces the cached result
+ */
+export type TransformCacheMode = 'skip' | 'refresh';
+
 /**
  * Options for transformation methods.
  */
 export interface FluentTransformOptions {
+  cache?: TransformCacheMode;
   [key: string]: any;
 }
 
@@ -0,0 +1,12 @@
+/**
+ * Numeric settings from environment variables
+ */
+
+/**
+ * A non-negative integer environment variable, or the fallback when it is
+ * unset or not such a number
+ */
+export function readEnvNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return value >= 0 ? value : fallback;
+}
@@ -20,13 +20,32 @@ export interface GenerationPromptConfig {
   [key: string]: any;
 }
 
+/**
+ * Execution controls (see TransformControlOptions) that must not be recorded in the lineage
+ */
+const CONTROL_OPTION_KEYS = ['signal', 'onProgress'];
+
+/**
+ * Remove execution controls from transform options so only generation parameters remain
+ */
+export function stripControlOptions(options?: any): any {
+  if (!options || typeof options !== 'object') {
+    return options || {};
+  }
+  const { ...rest } = options;
+  for (const key of CONTROL_OPTION_KEYS) {
+    delete rest[key];
+  }
+  return rest;
+}
+
 /**
  * Create standardized generation_prompt metadata
  */
 export function createGenerationPrompt(config: GenerationPromptConfig): GenerationPrompt {
   return {
     input: config.input,
-    options: config.options || {},
+    options: stripControlOptions(config.options),
     modelId: config.modelId,
     modelName: config.modelName || config.modelId,
     provider: config.provider,
@@ -72,6 +91,6 @@ export function extractInputContent(input: any): string {
   return String(input);
 }
 
-const GenerationPromptHelper = { createGenerationPrompt, extractInputContent };
+const GenerationPromptHelper = { createGenerationPrompt, extractInputContent, stripControlOptions };
 
 export default GenerationPromptHelper;
@@ -0,0 +1,91 @@
+/**
+ * RoleSerializer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Text, Image, Audio } from '../assets/roles';
+import { BlobSink, serializeValue, deserializeValue } from './RoleSerializer';
+
+function createMemorySink(): BlobSink & { blobs: Map<string, Buffer> } {
+  const blobs = new Map<string, Buffer>();
+  return {
+    blobs,
+    write: (data: Buffer, extension: string) => {
+      const ref = `blob-${blobs.size}.${extension}`;
+      blobs.set(ref, Buffer.from(data));
+      return ref;
+    },
+    read: (ref: string) => blobs.get(ref)!,
+    resolvePath: (ref: string) => `/store/${ref}`
+  };
+}
+
+describe('RoleSerializer', () => {
+  it('should round-trip a Text role through JSON', () => {
+    const sink = createMemorySink();
+    const text = new Text('Hello world', 'en', 0.9, { wordCount: 2 });
+
+    const json = JSON.parse(JSON.stringify(serializeValue(text, sink)));
+    const restored = deserializeValue(json, sink);
+
+    expect(restored).toBeInstanceOf(Text);
+    expect(restored.content).toBe('Hello world');
+    expect(restored.language).toBe('en');
+    expect(restored.metadata.wordCount).toBe(2);
+    expect(sink.blobs.size).toBe(0);
+  });
+
+  it('should store binary data in the sink and restore the generation_prompt chain', () => {
+    const sink = createMemorySink();
+    const prompt = new Text('A red fox');
+    const timestamp = new Date('2025-01-01T00:00:00Z');
+    const image = new Image(Buffer.from('png-bytes'), 'png', {
+      format: 'png',
+      width: 64,
+      generation_prompt: {
+        input: prompt,
+        options: { steps: 4 },
+        modelId: 'flux',
+        provider: 'falai',
+        timestamp
+      }
+    });
+
+    const json = JSON.parse(JSON.stringify(serializeValue({ output: image, createdAt: timestamp }, sink)));
+    const restored = deserializeValue(json, sink);
+
+    expect(restored.createdAt).toEqual(timestamp);
+    expect(restored.output).toBeInstanceOf(Image);
+    expect(restored.output.data.toString()).toBe('png-bytes');
+    expect(restored.output.metadata.localPath).toMatch(/^\/store\/blob-0\.png$/);
+    expect(restored.output.metadata.generation_prompt.input).toBeInstanceOf(Text);
+    expect(restored.output.metadata.generation_prompt.input.content).toBe('A red fox');
+    expect(restored.output.metadata.generation_prompt.timestamp).toEqual(timestamp);
+  });
+
+  it('should keep the audio format on restored Audio roles', () => {
+    const sink = createMemorySink();
+    const audio = new Audio(Buffer.from('wav-bytes'), undefined, { format: 'wav', duration: 2 });
+
+    const restored = deserializeValue(JSON.parse(JSON.stringify(serializeValue(audio, sink))), sink);
+
+    expect(restored).toBeInstanceOf(Audio);
+    expect(restored.format).toBe('wav');
+    expect(restored.metadata.duration).toBe(2);
+  });
+
+  it('should keep values shared between branches and drop only cycles', () => {
+    const sink = createMemorySink();
+    const input = new Text('A red fox');
+    const output = new Text('Un renard roux', 'fr', 1, { generation_prompt: { input, modelId: 'translate' } });
+    const job: Record<string, any> = { input, output };
+    job.self = job;
+
+    const restored = deserializeValue(JSON.parse(JSON.stringify(serializeValue(job, sink))), sink);
+
+    expect(restored.input.content).toBe('A red fox');
+    expect(restored.output.metadata.generation_prompt.input).toBeInstanceOf(Text);
+    expect(restored.output.metadata.generation_prompt.input.content).toBe('A red fox');
+    expect(restored.self).toBeUndefined();
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Role Serialization Utilities
+ *
+ * Converts Role objects (Text, Image, Audio, Video, Conversation) - including the nested
+ * generation_prompt lineage in their metadata - to plain JSON and back.
+ * Binary payloads are handed to a BlobSink so callers decide where bytes live.
+ */
+
+import { Audio, Video, Text, Image, Conversation } from '../assets/roles';
+
+/**
+ * Storage hooks for binary payloads referenced from serialized roles
+ */
+export interface BlobSink {
+  /** Persist binary data and return a reference that can be read back later */
+  write(data: Buffer, extension: string): string;
+  /** Read binary data previously stored with write() */
+  read(ref: string): Buffer;
+  /** Resolve a reference to a local file path, if the sink stores files */
+  resolvePath?(ref: string): string | undefined;
+}
+
+export type SerializedRoleType = 'text' | 'image' | 'audio' | 'video' | 'conversation';
+
+export interface SerializedRole {
+  $role: SerializedRoleType;
+  content?: string;
+  language?: string;
+  confidence?: number;
+  format?: string;
+  blob?: string;
+  messages?: any[];
+  metadata?: any;
+}
+
+const MAX_DEPTH = 50;
+
+/**
+ * Identify the role type of an object, if it is one of the core role classes
+ */
+export function getRoleType(value: any): SerializedRoleType | undefined {
+  if (value instanceof Text) return 'text';
+  if (value instanceof Image) return 'image';
+  if (value instanceof Audio) return 'audio';
+  if (value instanceof Video) return 'video';
+  if (value instanceof Conversation) return 'conversation';
+  return undefined;
+}
+
+/**
+ * Serialize any value that may contain Role objects, Buffers and Dates into JSON-safe data
+ */
+export function serializeValue(value: any, sink: BlobSink, depth: number = 0, ancestors: WeakSet<object> = new WeakSet()): any {
+  if (value === null || value === undefined) return value;
+  if (depth > MAX_DEPTH) return undefined;
+
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+
+  if (Buffer.isBuffer(value)) {
+    return { $blob: sink.write(value, 'bin') };
+  }
+
+  // Runtime-only values (callbacks, abort signals) have no serialized form
+  if (typeof value === 'function' || typeof value === 'symbol' || value instanceof AbortSignal) {
+    return undefined;
+  }
+
+  if (typeof value !== 'object') {
+    return value;
+  }
+
+  // Break reference cycles (e.g. sourceAsset back-references). Only objects on the
+  // current path count: values shared between branches, like a model input that is
+  // also its output's generation_prompt.input, are written in both places.
+  if (ancestors.has(value)) return undefined;
+  ancestors.add(value);
+  try {
+    const roleType = getRoleType(value);
+    if (roleType) {
+      return serializeRole(value, sink, depth, ancestors);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => serializeValue(item, sink, depth + 1, ancestors));
+    }
+
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const serialized = serializeValue(item, sink, depth + 1, ancestors);
+      if (serialized !== undefined) {
+        result[key] = serialized;
+      }
+    }
+    return result;
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+/**
+ * Serialize a single Role object
+ */
+export function serializeRole(role: Text | Image | Audio | Video | Conversation, sink: BlobSink, depth: number = 0, ancestors: WeakSet<object> = new WeakSet()): SerializedRole {
+  const roleType = getRoleType(role);
+  if (!roleType) {
+    throw new Error(`Cannot serialize non-role value: ${(role as any)?.constructor?.name}`);
+  }
+
+  const metadata = role.metadata ? serializeValue(role.metadata, sink, depth + 1, ancestors) : undefined;
+
+  if (role instanceof Text) {
+    return {
+      $role: 'text',
+      content: role.content,
+      language: role.language,
+      confidence: role.confidence,
+      metadata
+    };
+  }
+
+  // Message parts may hold images, which are serialized as nested roles
+  if (role instanceof Conversation) {
+    return {
+      $role: 'conversation',
+      messages: serializeValue(role.messages, sink, depth + 1, ancestors),
+      metadata
+    };
+  }
+
+  const format = (role as Image | Audio | Video).format;
+  return {
+    $role: roleType,
+    format,
+    blob: sink.write((role as Image | Audio | Video).data, format || 'bin'),
+    metadata
+  };
+}
+
+/**
+ * Reverse serializeValue(), reconstructing Role objects, Buffers and Dates
+ */
+export function deserializeValue(value: any, sink: BlobSink, depth: number = 0): any {
+  if (value === null || value === undefined || typeof value !== 'object') return value;
+  if (depth > MAX_DEPTH) return undefined;
+
+  if (Array.isArray(value)) {
+    return value.map(item => deserializeValue(item, sink, depth + 1));
+  }
+
+  if (typeof value.$date === 'string') {
+    return new Date(value.$date);
+  }
+
+  if (typeof value.$blob === 'string') {
+    return sink.read(value.$blob);
+  }
+
+  if (typeof value.$role === 'string') {
+    return deserializeRole(value as SerializedRole, sink, depth);
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = deserializeValue(item, sink, depth + 1);
+  }
+  return result;
+}
+
+/**
+ * Reconstruct a Role object from its serialized form
+ */
+export function deserializeRole(serialized: SerializedRole, sink: BlobSink, depth: number = 0): Text | Image | Audio | Video | Conversation {
+  const metadata = serialized.metadata ? deserializeValue(serialized.metadata, sink, depth + 1) : undefined;
+
+  if (serialized.$role === 'text') {
+    return new Text(serialized.content || '', serialized.language, serialized.confidence, metadata);
+  }
+
+  if (serialized.$role === 'conversation') {
+    return new Conversation(deserializeValue(serialized.messages || [], sink, depth + 1), metadata);
+  }
+
+  if (!serialized.blob) {
+    throw new Error(`Serialized ${serialized.$role} role is missing its blob reference`);
+  }
+
+  const data = sink.read(serialized.blob);
+  const roleMetadata = { ...(metadata || {}), format: metadata?.format || serialized.format };
+
+  // The persisted blob outlives temp files, so point localPath at it
+  const blobPath = sink.resolvePath?.(serialized.blob);
+  if (blobPath) {
+    roleMetadata.localPath = blobPath;
+  }
+
+  switch (serialized.$role) {
+    case 'image':
+      return new Image(data, serialized.format as any, roleMetadata);
+    case 'audio':
+      return new Audio(data, undefined, roleMetadata);
+    case 'video':
+      return new Video(data, serialized.format as any, roleMetadata);
+    default:
+      throw new Error(`Unknown serialized role type: ${(serialized as any).$role}`);
+  }
+}
+
+const RoleSerializer = { serializeValue, deserializeValue, serializeRole, deserializeRole, getRoleType };
+
+export default RoleSerializer;
@@ -0,0 +1,37 @@
+/**
+ * ServerSentEvents Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseServerSentEvents, ServerSentEvent } from './ServerSentEvents';
+
+async function parse(chunks: Array<string | Uint8Array>) {
+  async function* source() {
+    yield* chunks;
+  }
+  const events: ServerSentEvent[] = [];
+  for await (const event of parseServerSentEvents(source())) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('parseServerSentEvents', () => {
+  it('should reassemble events split across chunks', async () => {
+    const body = Buffer.from('data: {"text":"héllo"}\r\n\r\nevent: done\ndata: [DONE]\n\n');
+    // Split inside the multi-byte character and between \r and \n
+    const chunks = [body.subarray(0, 17), body.subarray(17, 25), body.subarray(25)];
+
+    expect(await parse(chunks)).toEqual([
+      { event: undefined, id: undefined, data: '{"text":"héllo"}' },
+      { event: 'done', id: undefined, data: '[DONE]' }
+    ]);
+  });
+
+  it('should join multi-line data and skip comments and empty events', async () => {
+    expect(await parse([': keep-alive\n\n', 'id: 7\ndata: first\ndata:second\n\n', 'event: ping\n\n', 'data: trailing'])).toEqual([
+      { event: undefined, id: '7', data: 'first\nsecond' },
+      { event: undefined, id: undefined, data: 'trailing' }
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Server-Sent Events parsing
+ *
+ * Turns a streamed HTTP body (e.g. an axios `responseType: 'stream'` response)
+ * into the events of the text/event-stream format that streaming completion
+ * APIs use.
+ */
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Parse a chunked text/event-stream body. Chunks may split lines and events
+ * anywhere; comment lines and events without data are skipped.
+ */
+export async function* parseServerSentEvents(chunks: AsyncIterable<Uint8Array | string>): AsyncGenerator<ServerSentEvent> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let current: { event?: string; id?: string; data: string[] } = { data: [] };
+
+  const takeEvent = (): ServerSentEvent | undefined => {
+    const { event, id, data } = current;
+    current = { data: [] };
+    return data.length > 0 ? { event, id, data: data.join('\n') } : undefined;
+  };
+
+  const parseLine = (line: string): ServerSentEvent | undefined => {
+    if (line === '') return takeEvent();
+    if (line.startsWith(':')) return undefined;
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'data') current.data.push(value);
+    else if (field === 'event') current.event = value;
+    else if (field === 'id') current.id = value;
+    return undefined;
+  };
+
+  for await (const chunk of chunks) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.search(/\r\n|\r|\n/)) !== -1) {
+      // A trailing \r may be the first half of \r\n; wait for the next chunk
+      if (buffer[newline] === '\r' && newline === buffer.length - 1) break;
+
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + (buffer.startsWith('\r\n', newline) ? 2 : 1));
+      const event = parseLine(line);
+      if (event) yield event;
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer) parseLine(buffer);
+  const last = takeEvent();
+  if (last) yield last;
+}
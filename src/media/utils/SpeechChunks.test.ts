@@ -0,0 +1,42 @@
+/**
+ * SpeechChunks Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { joinWavAudio, splitSpeechText } from './SpeechChunks';
+
+// Mono 16-bit PCM WAV holding the given samples
+function wav(samples: number[]): Buffer {
+  const buffer = Buffer.alloc(44 + samples.length * 2);
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + samples.length * 2, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(24000, 24);
+  buffer.writeUInt32LE(48000, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(samples.length * 2, 40);
+  samples.forEach((sample, index) => buffer.writeInt16LE(sample, 44 + index * 2));
+  return buffer;
+}
+
+describe('SpeechChunks', () => {
+  it('should group whole sentences up to the chunk size', () => {
+    expect(splitSpeechText('One. Two! Three? Four.', 10)).toEqual(['One. Two!', 'Three?', 'Four.']);
+    expect(splitSpeechText('A sentence longer than the limit.', 10)).toEqual(['A sentence longer than the limit.']);
+    expect(splitSpeechText('Hello world', 120)).toEqual(['Hello world']);
+    expect(splitSpeechText('First line.\n\nSecond. Third one here.', 20)).toEqual(['First line.\n\nSecond.', 'Third one here.']);
+  });
+
+  it('should join WAV chunks into one PCM stream', () => {
+    const joined = joinWavAudio([wav([1, 2]), wav([3])]);
+
+    expect(joined).toEqual(wav([1, 2, 3]));
+    expect(() => joinWavAudio([Buffer.from('ab'), Buffer.from('cd')])).toThrow(/no fmt or data/);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Speech Chunks
+ *
+ * Splits text for TTS services into sentence-aligned chunks, so each chunk is
+ * synthesized (and reported as progress) on its own, and joins the WAV audio
+ * of the chunks back into one file.
+ */
+
+/**
+ * Split text into chunks of whole sentences of up to maxLength characters; a
+ * longer sentence becomes a chunk of its own. Paragraph breaks inside a chunk
+ * are kept.
+ */
+export function splitSpeechText(text: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const sentences = paragraph.split(/(?<=[.!?])\s+/).map(sentence => sentence.trim()).filter(Boolean);
+    sentences.forEach((sentence, index) => {
+      const separator = index === 0 ? '\n\n' : ' ';
+      if (current && current.length + separator.length + sentence.length > maxLength) {
+        chunks.push(current);
+        current = sentence;
+      } else {
+        current = current ? `${current}${separator}${sentence}` : sentence;
+      }
+    });
+  }
+  if (current) chunks.push(current);
+
+  return chunks.length > 0 ? chunks : [text];
+}
+
+/**
+ * Join the WAV files of consecutive chunks into one PCM stream under the first
+ * file's format. Compressed formats such as MP3 carry per-file headers that
+ * concatenation would keep, so only WAV can be joined.
+ */
+export function joinWavAudio(parts: Buffer[]): Buffer {
+  if (parts.length === 1) return parts[0];
+
+  const fmt = findWavChunk(parts[0], 'fmt ');
+  const samples = parts.map(part => findWavChunk(part, 'data'));
+  if (!fmt || samples.some(data => !data)) {
+    throw new Error('Cannot join WAV audio: a chunk has no fmt or data section');
+  }
+  const data = Buffer.concat(samples as Buffer[]);
+
+  const header = Buffer.alloc(20);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(4 + 8 + fmt.length + 8 + data.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(fmt.length, 16);
+
+  const dataHeader = Buffer.alloc(8);
+  dataHeader.write('data', 0);
+  dataHeader.writeUInt32LE(data.length, 4);
+
+  return Buffer.concat([header, fmt, dataHeader, data]);
+}
+
+function findWavChunk(buffer: Buffer, id: string): Buffer | undefined {
+  if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    return undefined;
+  }
+
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const start = offset + 8;
+    let size = buffer.readUInt32LE(offset + 4);
+    // Streamed WAVs may leave the data size unset (0 or 0xFFFFFFFF)
+    if (chunkId === 'data' && (size === 0 || start + size > buffer.length)) {
+      size = buffer.length - start;
+    }
+
+    if (chunkId === id) return buffer.subarray(start, start + size);
+    offset = start + size + (size % 2);
+  }
+  return undefined;
+}
@@ -0,0 +1,70 @@
+/**
+ * StructuredOutput Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { checkResponseSchema, parseStructuredOutput, toJSONSchema } from './StructuredOutput';
+
+const Recipe = z.object({
+  title: z.string().describe('Dish name'),
+  servings: z.number().int().min(1),
+  tags: z.array(z.enum(['vegan', 'quick'])).optional(),
+  notes: z.string().nullable()
+});
+
+describe('StructuredOutput', () => {
+  it('should convert zod schemas to JSON Schema', () => {
+    expect(toJSONSchema(Recipe)).toEqual({
+      type: 'object',
+      properties: {
+        title: { type: 'string', description: 'Dish name' },
+        servings: { type: 'integer', minimum: 1 },
+        tags: { type: 'array', items: { type: 'string', enum: ['vegan', 'quick'] } },
+        notes: { anyOf: [{ type: 'string' }, { type: 'null' }] }
+      },
+      required: ['title', 'servings', 'notes'],
+      additionalProperties: false
+    });
+  });
+
+  it('should parse fenced or wrapped JSON and validate it with zod', () => {
+    const parsed = parseStructuredOutput('Here you go:\n```json\n{"title": "Soup", "servings": 2, "notes": null}\n```', Recipe);
+    expect(parsed).toEqual({ success: true, value: { title: 'Soup', servings: 2, notes: null } });
+
+    expect(parseStructuredOutput('Sure! {"title": "Soup", "servings": 0, "notes": null} Enjoy.', Recipe)).toEqual({
+      success: false,
+      issues: ['servings: Number must be greater than or equal to 1']
+    });
+    expect(parseStructuredOutput('no json here', Recipe)).toMatchObject({ success: false, issues: [expect.stringMatching(/not valid JSON/)] });
+  });
+
+  it('should validate against JSON Schema, including required properties', () => {
+    const schema = toJSONSchema(Recipe);
+
+    expect(parseStructuredOutput('{"title": "Soup", "servings": 2, "notes": "hot"}', schema).success).toBe(true);
+    expect(parseStructuredOutput('{"title": 3, "servings": 2}', schema)).toEqual({
+      success: false,
+      issues: ['notes: Required', 'title: Expected string, got number']
+    });
+  });
+
+  it('should report JSON Schema keywords replies are not validated against', () => {
+    expect(checkResponseSchema(toJSONSchema(Recipe))).toEqual([]);
+    expect(checkResponseSchema({
+      type: 'object',
+      properties: {
+        code: { type: 'string', pattern: '^[A-Z]+$' },
+        tags: { type: 'array', items: { $ref: '#/$defs/tag' } }
+      },
+      additionalProperties: { type: 'string' },
+      oneOf: []
+    }).map(issue => issue.path)).toEqual([
+      'responseSchema.properties.code.pattern',
+      'responseSchema.properties.tags.items.$ref',
+      'responseSchema.additionalProperties',
+      'responseSchema.oneOf'
+    ]);
+    expect(checkResponseSchema(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Structured Output
+ *
+ * Schemas a text model's reply must match: zod schemas in code, JSON Schema
+ * over the REST API. Converts zod schemas to the JSON Schema providers take
+ * for native structured output, and parses and validates replies against
+ * either kind.
+ */
+
+import type { ZodTypeAny, ZodType } from 'zod';
+import { JSONSchema, OptionIssue, validateOptions } from '../registry/OptionSchema';
+
+/**
+ * Schema of a structured reply. Parsed values are typed when it is a zod schema.
+ */
+export type ResponseSchema<T = any> = ZodType<T> | JSONSchema;
+
+export type StructuredOutputResult<T> =
+  | { success: true; value: T }
+  | { success: false; issues: string[] };
+
+/**
+ * Thrown when a reply still does not match the schema after every repair attempt
+ */
+export class StructuredOutputError extends Error {
+  constructor(public issues: string[], public content: string) {
+    super(`Model reply does not match the response schema:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * JSON Schema keywords replies are validated against, plus annotations that
+ * need no validation
+ */
+const SUPPORTED_SCHEMA_KEYWORDS = [
+  'type', 'enum', 'minimum', 'maximum', 'items', 'properties', 'required', 'additionalProperties', 'anyOf',
+  '$schema', '$comment', 'title', 'description', 'default', 'examples'
+];
+
+/**
+ * Keywords of a JSON Schema response schema that replies cannot be validated
+ * against ($ref, pattern, oneOf, ...), so a request using them is refused
+ * rather than accepting replies the schema forbids. Values that are not
+ * objects are left to the option schema.
+ */
+export function checkResponseSchema(schema: unknown, path = 'responseSchema'): OptionIssue[] {
+  if (!isSchemaObject(schema)) return [];
+
+  const issues: OptionIssue[] = [];
+  const checkNested = (value: unknown, at: string) => {
+    if (isSchemaObject(value)) {
+      issues.push(...checkResponseSchema(value, at));
+    } else {
+      issues.push({ path: at, message: 'Expected a JSON Schema object' });
+    }
+  };
+
+  for (const [keyword, value] of Object.entries(schema)) {
+    const at = `${path}.${keyword}`;
+    if (!SUPPORTED_SCHEMA_KEYWORDS.includes(keyword)) {
+      issues.push({ path: at, message: `Unsupported JSON Schema keyword (supported: ${SUPPORTED_SCHEMA_KEYWORDS.join(', ')})` });
+    } else if (keyword === 'items') {
+      checkNested(value, at);
+    } else if (keyword === 'anyOf') {
+      if (Array.isArray(value)) {
+        value.forEach((option, index) => checkNested(option, `${at}[${index}]`));
+      } else {
+        issues.push({ path: at, message: 'Expected an array of JSON Schema objects' });
+      }
+    } else if (keyword === 'properties') {
+      if (isSchemaObject(value)) {
+        for (const [name, property] of Object.entries(value)) checkNested(property, `${at}.${name}`);
+      } else {
+        issues.push({ path: at, message: 'Expected an object of JSON Schema objects' });
+      }
+    } else if (keyword === 'additionalProperties' && typeof value !== 'boolean') {
+      issues.push({ path: at, message: 'Only true or false is supported' });
+    }
+  }
+  return issues;
+}
+
+function isSchemaObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isZodSchema(schema: unknown): schema is ZodTypeAny {
+  return typeof (schema as any)?.safeParse === 'function' && typeof (schema as any)?._def === 'object';
+}
+
+/**
+ * JSON Schema of a response schema. zod schemas are converted for the common
+ * types; anything else (refinements, transforms) is only checked on parsing.
+ */
+export function toJSONSchema(schema: ResponseSchema): JSONSchema {
+  return isZodSchema(schema) ? zodToJSONSchema(schema) : schema;
+}
+
+/**
+ * Parse a reply as JSON - tolerating a Markdown code fence or text around it -
+ * and validate it against the schema
+ */
+export function parseStructuredOutput<T>(content: string, schema: ResponseSchema<T>): StructuredOutputResult<T> {
+  let value: unknown;
+  try {
+    value = extractJSON(content);
+  } catch (error) {
+    return { success: false, issues: [`(root): Reply is not valid JSON (${error instanceof Error ? error.message : error})`] };
+  }
+
+  if (isZodSchema(schema)) {
+    const result = schema.safeParse(value);
+    return result.success
+      ? { success: true, value: result.data }
+      : { success: false, issues: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`) };
+  }
+
+  const issues = validateOptions(schema, value);
+  return issues.length === 0
+    ? { success: true, value: value as T }
+    : { success: false, issues: issues.map(issue => `${issue.path || '(root)'}: ${issue.message}`) };
+}
+
+function extractJSON(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const text = (fenced ? fenced[1] : content).trim();
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    // Models sometimes wrap the JSON in a sentence; try the outermost object or array
+    const start = text.search(/[[{]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    if (start < 0 || end <= start) throw error;
+    return JSON.parse(text.slice(start, end + 1));
+  }
+}
+
+function zodToJSONSchema(schema: ZodTypeAny): JSONSchema {
+  const def = schema._def;
+  const described = (result: JSONSchema): JSONSchema =>
+    schema.description ? { ...result, description: schema.description } : result;
+
+  switch (def.typeName) {
+    case 'ZodString':
+      return described({ type: 'string' });
+    case 'ZodNumber': {
+      const result: JSONSchema = { type: def.checks.some((check: any) => check.kind === 'int') ? 'integer' : 'number' };
+      for (const check of def.checks) {
+        if (check.kind === 'min') result.minimum = check.value;
+        if (check.kind === 'max') result.maximum = check.value;
+      }
+      return described(result);
+    }
+    case 'ZodBoolean':
+      return described({ type: 'boolean' });
+    case 'ZodNull':
+      return described({ type: 'null' });
+    case 'ZodLiteral':
+      return described({ enum: [def.value] });
+    case 'ZodEnum':
+      return described({ type: 'string', enum: def.values });
+    case 'ZodNativeEnum':
+      return described({ enum: Object.values(def.values) });
+    case 'ZodArray':
+      return described({ type: 'array', items: zodToJSONSchema(def.type) });
+    case 'ZodObject': {
+      const shape: Record<string, ZodTypeAny> = def.shape();
+      const properties: Record<string, JSONSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = zodToJSONSchema(value);
+        if (!value.isOptional()) required.push(key);
+      }
+      return described({
+        type: 'object',
+        properties,
+        required,
+        additionalProperties: def.unknownKeys === 'passthrough'
+      });
+    }
+    case 'ZodRecord':
+      return described({ type: 'object' });
+    case 'ZodUnion':
+    case 'ZodDiscriminatedUnion':
+      return described({ anyOf: Array.from(def.options as Iterable<ZodTypeAny>, zodToJSONSchema) });
+    case 'ZodNullable':
+      return described({ anyOf: [zodToJSONSchema(def.innerType), { type: 'null' }] });
+    case 'ZodOptional':
+      return described(zodToJSONSchema(def.innerType));
+    case 'ZodDefault':
+      return described({ ...zodToJSONSchema(def.innerType), default: def.defaultValue() });
+    case 'ZodEffects':
+      return described(zodToJSONSchema(def.schema));
+    default:
+      // ZodAny, ZodUnknown and types JSON Schema cannot express accept anything
+      return described({});
+  }
+}
@@ -1,5 +1,6 @@
 import { MediaProvider, ProviderModel, FluentTransformOptions, MediaCapability } from '../types/provider';
 import { CallableModelType, CallableProviderType } from '../types/provider';
+import { TransformCache } from '../registry/TransformCache';
 
 /**
  * Creates a callable model wrapper that allows direct invocation and method chaining.
@@ -11,14 +12,17 @@ export function createCallableModel(provider: MediaProvider, modelId: string): C
     console.log(`[CallableModel] Input type: ${input?.constructor?.name}`);
     console.log(`[CallableModel] Options:`, options);
 
-    // Get the actual model instance (provider's getModel method handles discovery)
-    const modelInstance = await provider.getModel(modelId);
-    if (!modelInstance) {
-      throw new Error(`Model '${modelId}' not found in provider '${provider.name}'.`);
-    }
+    // Served from the transform cache when enabled and the same transform ran before
+    return TransformCache.getInstance().run({ providerId: provider.id, modelId }, input, options, async modelOptions => {
+      // Get the actual model instance (provider's getModel method handles discovery)
+      const modelInstance = await provider.getModel(modelId);
+      if (!modelInstance) {
+        throw new Error(`Model '${modelId}' not found in provider '${provider.name}'.`);
+      }
 
-    // Call the model's transform method directly
-    return await modelInstance.transform(input, options);
+      // Call the model's transform method directly
+      return await modelInstance.transform(input, modelOptions);
+    });
   }) as CallableModelType;
 
   // Add additional methods to the callable function
@@ -0,0 +1,14 @@
+/**
+ * JobManager Fixture
+ *
+ * A JobManager for tests: jobs stay in memory and run one at a time.
+ */
+
+import JobManager from '../app/api/v1/jobs/JobManager';
+import { InMemoryJobStore } from '../app/api/v1/jobs/JobStore';
+import { JobQueue } from '../app/api/v1/jobs/JobQueue';
+import type { AssetStore } from '../media/storage/AssetStore';
+
+export function createTestJobManager(assets?: AssetStore): JobManager {
+  return new JobManager(new InMemoryJobStore(), new JobQueue({ maxConcurrent: 1 }), undefined, assets);
+}
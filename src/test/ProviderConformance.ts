@@ -0,0 +1,199 @@
+/**
+ * Provider Conformance Kit
+ *
+ * Reusable vitest suite for MediaProvider implementations, built-in or
+ * dynamic. ProviderRegistry.validateProvider() only checks that the interface
+ * members exist; this suite checks that they behave:
+ * - getModelsForCapability() agrees with `models` and `capabilities`
+ * - getModel() returns the abstract model subclass of the model's capability
+ * - transform() outputs are role objects carrying generation_prompt metadata
+ * - transport failures surface as errors classifyProviderError() understands
+ *
+ * The provider's transport (HTTP client, SDK, Docker service) must be stubbed
+ * by the caller; the suite never reaches a real service.
+ *
+ * Usage (in a *.test.ts file):
+ *   vi.mock('axios', ...);   // stub the transport
+ *   describeProviderConformance('MyProvider', {
+ *     createProvider: async () => { const p = new MyProvider(); await p.configure({ apiKey: 'test' }); return p; },
+ *     samples: { [MediaCapability.TEXT_TO_TEXT]: { input: Text.fromString('Hello') } },
+ *     failTransport: status => transport.failWith(status),
+ *     resetTransport: () => transport.reset()
+ *   });
+ */
+
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { MediaCapability, MediaProvider, ProviderModel } from '../media/types/provider';
+import { Audio, Image, Text, Video } from '../media/assets/roles';
+import { TextToTextModel } from '../media/models/abstracts/TextToTextModel';
+import { TextToImageModel } from '../media/models/abstracts/TextToImageModel';
+import { TextToAudioModel } from '../media/models/abstracts/TextToAudioModel';
+import { TextToVideoModel } from '../media/models/abstracts/TextToVideoModel';
+import { AudioToTextModel } from '../media/models/abstracts/AudioToTextModel';
+import { ImageToTextModel } from '../media/models/abstracts/ImageToTextModel';
+import { ImageToVideoModel } from '../media/models/abstracts/ImageToVideoModel';
+import { VideoToAudioModel } from '../media/models/abstracts/VideoToAudioModel';
+import { VideoToVideoModel } from '../media/models/abstracts/VideoToVideoModel';
+import { ProviderErrorKind, classifyProviderError } from '../media/providers/ProviderError';
+
+type Constructor = abstract new (...args: any[]) => any;
+
+/**
+ * Abstract model class per capability; capabilities without one only need a transform() method
+ */
+export const CAPABILITY_MODEL_CLASSES: Partial<Record<MediaCapability, Constructor>> = {
+  [MediaCapability.TEXT_TO_TEXT]: TextToTextModel,
+  [MediaCapability.TEXT_TO_IMAGE]: TextToImageModel,
+  [MediaCapability.TEXT_TO_AUDIO]: TextToAudioModel,
+  [MediaCapability.TEXT_TO_VIDEO]: TextToVideoModel,
+  [MediaCapability.AUDIO_TO_TEXT]: AudioToTextModel,
+  [MediaCapability.IMAGE_TO_TEXT]: ImageToTextModel,
+  [MediaCapability.IMAGE_TO_VIDEO]: ImageToVideoModel,
+  [MediaCapability.VIDEO_TO_AUDIO]: VideoToAudioModel,
+  [MediaCapability.VIDEO_TO_VIDEO]: VideoToVideoModel
+};
+
+/**
+ * Role class a transform of each capability must return
+ */
+export const CAPABILITY_OUTPUT_ROLES: Partial<Record<MediaCapability, Constructor>> = {
+  [MediaCapability.TEXT_TO_TEXT]: Text,
+  [MediaCapability.TEXT_TO_IMAGE]: Image,
+  [MediaCapability.IMAGE_TO_IMAGE]: Image,
+  [MediaCapability.IMAGE_TO_TEXT]: Text,
+  [MediaCapability.TEXT_TO_VIDEO]: Video,
+  [MediaCapability.IMAGE_TO_VIDEO]: Video,
+  [MediaCapability.VIDEO_TO_VIDEO]: Video,
+  [MediaCapability.VIDEO_TO_IMAGE]: Image,
+  [MediaCapability.VIDEO_TO_AUDIO]: Audio,
+  [MediaCapability.TEXT_TO_AUDIO]: Audio,
+  [MediaCapability.AUDIO_TO_TEXT]: Text,
+  [MediaCapability.AUDIO_TO_AUDIO]: Audio
+};
+
+/**
+ * Transport failures the suite injects and the kind each must classify as
+ */
+export const TRANSPORT_FAILURES: Array<[number, ProviderErrorKind]> = [
+  [401, 'authentication'],
+  [429, 'rate_limit'],
+  [400, 'invalid_input'],
+  [503, 'unavailable']
+];
+
+export interface ConformanceSample {
+  input: any;
+  options?: any;
+  modelId?: string;              // Model to run; defaults to the first model of the capability
+}
+
+export interface ProviderConformanceOptions {
+  /** A configured provider whose transport is stubbed */
+  createProvider: () => MediaProvider | Promise<MediaProvider>;
+  /** Inputs to transform per capability; capabilities without a sample skip the output and error checks */
+  samples?: Partial<Record<MediaCapability, ConformanceSample>>;
+  /** Make every following transport call fail with this HTTP status */
+  failTransport?: (status: number) => void;
+  /** Undo failTransport() */
+  resetTransport?: () => void;
+}
+
+/**
+ * Register the conformance suite for a provider
+ */
+export function describeProviderConformance(name: string, options: ProviderConformanceOptions): void {
+  describe(`${name} provider conformance`, () => {
+    let provider: MediaProvider;
+
+    beforeAll(async () => {
+      provider = await options.createProvider();
+    });
+
+    afterEach(() => {
+      options.resetTransport?.();
+    });
+
+    it('should list models consistently with getModelsForCapability()', () => {
+      const models = provider.models;
+      expect(models.length, 'provider lists no models').toBeGreaterThan(0);
+      expect(new Set(models.map(model => model.id)).size, 'model IDs are not unique').toBe(models.length);
+
+      for (const model of models) {
+        for (const capability of model.capabilities) {
+          expect(provider.capabilities, `${model.id} has ${capability}, which the provider does not declare`).toContain(capability);
+        }
+      }
+
+      for (const capability of Object.values(MediaCapability)) {
+        const expected = models.filter(model => model.capabilities.includes(capability)).map(model => model.id);
+        const actual = provider.getModelsForCapability(capability).map(model => model.id);
+        expect(actual, `getModelsForCapability(${capability})`).toEqual(expected);
+      }
+    });
+
+    it('should return the abstract model class of the capability from getModel()', async () => {
+      for (const model of provider.models) {
+        const instance = await provider.getModel(model.id);
+        expect(typeof instance?.transform, `${model.id} has no transform()`).toBe('function');
+
+        const classes = model.capabilities.map(capability => CAPABILITY_MODEL_CLASSES[capability]).filter(Boolean);
+        if (classes.length > 0) {
+          const matches = classes.some(cls => instance instanceof cls!);
+          expect(matches, `${model.id} is not a ${classes.map(cls => cls!.name).join(' or ')}`).toBe(true);
+        }
+      }
+    });
+
+    it('should return role objects with generation_prompt metadata', async () => {
+      for (const [capability, sample] of sampleEntries(options)) {
+        const model = pickModel(provider, capability, sample);
+        const instance = await provider.getModel(model.id, capability);
+        const output = await instance.transform(sample.input, sample.options);
+
+        const role = CAPABILITY_OUTPUT_ROLES[capability];
+        if (role) {
+          expect(output, `${model.id} (${capability}) did not return a ${role.name}`).toBeInstanceOf(role);
+        }
+
+        const prompt = output?.metadata?.generation_prompt;
+        expect(prompt, `${model.id} (${capability}) output has no generation_prompt`).toBeDefined();
+        expect(prompt.modelId).toBe(model.id);
+        expect(prompt.transformationType).toBe(capability);
+        expect(prompt.input).toBeDefined();
+        expect(prompt.options?.signal).toBeUndefined();
+      }
+    });
+
+    it('should surface transport failures as classified errors', async () => {
+      if (!options.failTransport) return;
+
+      for (const [capability, sample] of sampleEntries(options)) {
+        const model = pickModel(provider, capability, sample);
+
+        for (const [status, kind] of TRANSPORT_FAILURES) {
+          options.failTransport(status);
+          const error = await Promise.resolve()
+            .then(async () => (await provider.getModel(model.id, capability)).transform(sample.input, sample.options))
+            .then(() => undefined, (thrown: unknown) => thrown);
+          options.resetTransport?.();
+
+          expect(error, `${model.id} (${capability}) succeeded despite HTTP ${status}`).toBeDefined();
+          expect(classifyProviderError(error), `${model.id} (${capability}) on HTTP ${status}: ${String(error)}`).toBe(kind);
+        }
+      }
+    });
+  });
+}
+
+function sampleEntries(options: ProviderConformanceOptions): Array<[MediaCapability, ConformanceSample]> {
+  return Object.entries(options.samples || {}) as Array<[MediaCapability, ConformanceSample]>;
+}
+
+function pickModel(provider: MediaProvider, capability: MediaCapability, sample: ConformanceSample): ProviderModel {
+  const models = provider.getModelsForCapability(capability);
+  const model = sample.modelId ? models.find(candidate => candidate.id === sample.modelId) : models[0];
+  if (!model) {
+    throw new Error(`No ${capability} model${sample.modelId ? ` ${sample.modelId}` : ''} to run the sample on`);
+  }
+  return model;
+}